@@ -31,6 +31,53 @@ CREATE TABLE IF NOT EXISTS quejas (
   tweet_created_at TIMESTAMP WITH TIME ZONE,
   is_reply BOOLEAN DEFAULT FALSE,
   in_reply_to VARCHAR(50),
+  direccion TEXT,
+  duracion VARCHAR(100),
+  photo_url TEXT,
+  hogares_afectados INTEGER DEFAULT 1,
+  estado VARCHAR(20) DEFAULT 'pendiente',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Datos del reporte que antes se perdian segun el backend (agente WaterHub)
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS direccion TEXT;
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS duracion VARCHAR(100);
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS estado VARCHAR(20) DEFAULT 'pendiente';
+
+-- Foto del reporte (agente WaterHub). La miniatura esta junto a la foto: <foto>_thumb.jpg
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS photo_url TEXT;
+-- Todas las fotos del reporte (album); photo_url sigue siendo la primera para la app del mapa
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS photo_urls TEXT[];
+-- Hash perceptual (dHash, 16 hex) de cada foto: la misma foto reenviada por otro vecino es un posible duplicado
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS photo_hashes TEXT[];
+-- Coordenadas sacadas de la direccion escrita: confianza 0-1 del geocoder (1 = el ciudadano eligio la opcion); NULL si vinieron de un pin
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS geocode_confianza REAL;
+
+-- Afectados: cuando otro ciudadano confirma que es el mismo problema se suma 1 en vez de crear otro pin
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS hogares_afectados INTEGER DEFAULT 1;
+
+-- Ciclo de vida: pendiente -> reconocido -> en_progreso -> resuelto (lo cambia la autoridad via PATCH /api/quejas/:id/estado)
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS reconocido_en TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS en_progreso_en TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS resuelto_en TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS estado_actualizado_por VARCHAR(100);
+ALTER TABLE quejas ADD COLUMN IF NOT EXISTS estado_actualizado_en TIMESTAMP WITH TIME ZONE;
+UPDATE quejas SET estado = 'pendiente' WHERE estado IS NULL;
+DO $$ BEGIN
+  ALTER TABLE quejas ADD CONSTRAINT quejas_estado_check
+    CHECK (estado IN ('pendiente', 'reconocido', 'en_progreso', 'resuelto'));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Historial de cambios de estado (quien, cuando, de que a que)
+CREATE TABLE IF NOT EXISTS quejas_estado_historial (
+  id SERIAL PRIMARY KEY,
+  queja_id INTEGER NOT NULL REFERENCES quejas(id) ON DELETE CASCADE,
+  estado_anterior VARCHAR(20) NOT NULL,
+  estado_nuevo VARCHAR(20) NOT NULL,
+  cambiado_por VARCHAR(100) NOT NULL,
+  nota TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -39,10 +86,15 @@ CREATE INDEX IF NOT EXISTS idx_quejas_tipo ON quejas(tipo);
 CREATE INDEX IF NOT EXISTS idx_quejas_alcaldia ON quejas(alcaldia);
 CREATE INDEX IF NOT EXISTS idx_quejas_latitud ON quejas(latitud) WHERE latitud IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_quejas_created ON quejas(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quejas_tipo_created ON quejas(tipo, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quejas_estado ON quejas(estado);
+CREATE INDEX IF NOT EXISTS idx_quejas_historial_queja ON quejas_estado_historial(queja_id, created_at DESC);
 
 -- RLS
 ALTER TABLE quejas ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE quejas_estado_historial ENABLE ROW LEVEL SECURITY;
+
 -- Lectura pública (para que la app pinte el mapa)
 DROP POLICY IF EXISTS "Public read access" ON quejas;
 CREATE POLICY "Public read access" ON quejas FOR SELECT USING (true);
@@ -50,3 +102,40 @@ CREATE POLICY "Public read access" ON quejas FOR SELECT USING (true);
 -- Inserción con anon key (para que el agente guarde reportes)
 DROP POLICY IF EXISTS "Allow insert for agent" ON quejas;
 CREATE POLICY "Allow insert for agent" ON quejas FOR INSERT WITH CHECK (true);
+
+-- Sumar un afectado a un reporte existente (deteccion de duplicados del agente).
+-- Solo el agente (SUPABASE_SERVICE_KEY) la ejecuta: sin el REVOKE cualquiera con la anon key inflaria los afectados.
+CREATE OR REPLACE FUNCTION sumar_afectado_queja(queja_id INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE quejas SET hogares_afectados = COALESCE(hogares_afectados, 1) + 1
+  WHERE id = queja_id
+  RETURNING hogares_afectados;
+$$;
+REVOKE EXECUTE ON FUNCTION sumar_afectado_queja(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sumar_afectado_queja(INTEGER) TO service_role;
+
+-- Cambios de estado con QUEJAS_BACKEND=supabase: el agente usa SUPABASE_SERVICE_KEY,
+-- la anon key sigue sin poder hacer UPDATE sobre quejas ni escribir el historial.
+
+-- Avisos al ciudadano con STATUS_NOTIFIER=listen: el agente escucha el canal quejas_estado.
+-- Solo viaja el id; quien reporto vive en la tabla privada del agente (waterhub_report_followers), nunca en quejas.
+CREATE OR REPLACE FUNCTION notificar_cambio_estado_queja()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.estado IS DISTINCT FROM OLD.estado THEN
+    PERFORM pg_notify('quejas_estado', json_build_object('id', NEW.id, 'estado', NEW.estado)::text);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quejas_estado_notify ON quejas;
+CREATE TRIGGER quejas_estado_notify
+  AFTER UPDATE OF estado ON quejas
+  FOR EACH ROW EXECUTE FUNCTION notificar_cambio_estado_queja();
@@ -0,0 +1,65 @@
+// ============================================
+// WaterHub Admin Auth - API keys for authority / operator endpoints
+// ============================================
+// ADMIN_API_KEYS="sacmex:token1,alcaldia-coyoacan:token2". The name before the
+// colon is what gets recorded as the actor of a change (e.g. estado_actualizado_por).
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+
+export interface AdminKey {
+    name: string;
+    token: string;
+}
+
+export function parseAdminKeys(raw = process.env.ADMIN_API_KEYS || ""): AdminKey[] {
+    return raw
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const sep = entry.indexOf(":");
+            if (sep <= 0 || sep === entry.length - 1) {
+                throw new Error(`Invalid ADMIN_API_KEYS entry (expected name:token): ${entry.split(":")[0]}`);
+            }
+            return { name: entry.slice(0, sep).trim(), token: entry.slice(sep + 1).trim() };
+        });
+}
+
+// Hash first so the comparison is constant-time regardless of token length
+function sameToken(a: string, b: string): boolean {
+    const ha = createHash("sha256").update(a).digest();
+    const hb = createHash("sha256").update(b).digest();
+    return timingSafeEqual(ha, hb);
+}
+
+/** Returns the key name for a bearer token, or null if it matches none. */
+export function findAdminKey(token: string, keys: AdminKey[]): string | null {
+    let match: string | null = null;
+    for (const key of keys) {
+        if (sameToken(token, key.token)) match = key.name;
+    }
+    return match;
+}
+
+let adminKeys: AdminKey[] | null = null;
+
+/** Express middleware: `Authorization: Bearer <token>`; sets (req as any).adminActor. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    if (!adminKeys) adminKeys = parseAdminKeys();
+    if (adminKeys.length === 0) {
+        res.status(503).json({ success: false, error: "Admin API disabled (ADMIN_API_KEYS not configured)" });
+        return;
+    }
+
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+    const actor = token ? findAdminKey(token, adminKeys) : null;
+    if (!actor) {
+        res.status(401).json({ success: false, error: "Unauthorized" });
+        return;
+    }
+
+    (req as any).adminActor = actor;
+    next();
+}
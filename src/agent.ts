@@ -4,18 +4,77 @@
 
 import { Agent, AgentInputItem, Runner, withTrace } from "@openai/agents";
 import { z } from "zod";
-import type { WorkflowInput, WorkflowOutput, Classification } from "./types.js";
-import { reportarIncidenteTool, getMexicoDate } from "./tools.js";
+import type { WorkflowInput, WorkflowOutput, WorkflowAttachment, Classification } from "./types.js";
+import {
+    reportarIncidente,
+    buscarReportesSimilares,
+    sumarAfectadoAReporte,
+    getMexicoDate,
+    listarProveedoresTool,
+    cotizarPedidoTool,
+    crearPedidoTool,
+    consultarPedidoTool,
+    listarPedidosTool,
+    cancelarPedidoTool,
+    consultarAlertasTool,
+    consultarPrediccionTool,
+    suscribirAlertasTool,
+    cancelarSuscripcionAlertasTool,
+    describeAlertSubscription,
+    misReportesTool,
+    type AlertasRunContext,
+    type ReportanteRunContext,
+    type PedidosRunContext
+} from "./tools.js";
+import { hashSender } from "./sender-id.js";
+import { getIdempotencyStore } from "./idempotency.js";
+import { WATERHUB_MAP_URL } from "./clients.js";
+import type { ChannelName, ChannelSender } from "./channels.js";
+import {
+    createConversationStore,
+    createEmptyConversation,
+    updateConversation,
+    type ConversationEntry,
+    type ConversationStore
+} from "./conversation-store.js";
+import {
+    ReportExtractionSchema,
+    applyChoiceToExtraction,
+    applyExtraction,
+    applyGeocode,
+    applyLocation,
+    applyPhoto,
+    buildDraftAttachments,
+    buildDraftContext,
+    createReportDraft,
+    getPhotoHashes,
+    getStoredPhotoUrl,
+    getStoredPhotoUrls,
+    hasDraftProgress,
+    isDraftActive,
+    isDraftChoice,
+    isDraftComplete,
+    MAX_DRAFT_PHOTOS,
+    mergeReportDraft,
+    needsGeocoding,
+    photoRefFor,
+    type ReportDraft,
+    type ReportExtraction,
+    type ReportPhoto
+} from "./report-draft.js";
+import { capTurnImages, loadTurnImages, storeReportPhoto } from "./media.js";
+import { ImageRejectedError, prepareImage, type PreparedImage } from "./image-preprocess.js";
+import { geocodeAddress } from "./geocoding.js";
 
 // Mensaje de bienvenida (solo primera interacción) — amigable, comunidad, anonimato
-const WELCOME_MESSAGE = `¡Hola! 👋 Bienvenido a WaterHub. Aquí tu voz cuenta: todo es anónimo y lo que subas se ve en el mapa para más transparencia y acción. ¿Quieres subir tu voz al mapa o saber cómo funciona?`;
+// Va antes de la respuesta cuando el primer mensaje ya trae un reporte
+const WELCOME_GREETING = `¡Hola! 👋 Bienvenido a WaterHub.`;
+const WELCOME_MESSAGE = `${WELCOME_GREETING} Aquí tu voz cuenta: todo es anónimo y lo que subas se ve en el mapa para más transparencia y acción. ¿Quieres subir tu voz al mapa o saber cómo funciona?`;
 
 // ============================================
 // Configuration
 // ============================================
 
-const WATERHUB_MAP_URL = (process.env.WATERHUB_MAP_URL || "https://aquahub.whoopflow.com/").replace(/\/?$/, "/");
-
 const MODELS = {
     CLASSIFIER: "gpt-4.1-mini",
     SPECIALIST: "gpt-4.1",
@@ -24,42 +83,25 @@ const MODELS = {
 } as const;
 
 // ============================================
-// Conversation Store (Production: use Redis)
+// Conversation Store (CONVERSATION_STORE=memory | redis | postgres)
 // ============================================
 
-interface ConversationEntry {
-    history: AgentInputItem[];
-    lastAccess: Date;
-    classification?: Classification;
-    ciudadanoNombre?: string;
-    alcaldia?: string;
-}
+const conversationStore: ConversationStore = createConversationStore();
+console.log(`[ConversationStore] Using ${conversationStore.name} backend`);
 
-const conversationStore = new Map<string, ConversationEntry>();
+const MAX_HISTORY_ITEMS = 20;
+const MAX_PEDIDOS_TRACKED = 5;
 
-// Cleanup old conversations (1 hour expiry)
-setInterval(() => {
-    const now = Date.now();
-    for (const [id, entry] of conversationStore.entries()) {
-        if (now - entry.lastAccess.getTime() > 3600000) {
-            conversationStore.delete(id);
-        }
-    }
-}, 300000);
+async function getConversation(id: string): Promise<ConversationEntry> {
+    return (await conversationStore.get(id)) ?? createEmptyConversation();
+}
 
-function getConversation(id: string): ConversationEntry {
-    const existing = conversationStore.get(id);
-    if (existing) {
-        existing.lastAccess = new Date();
-        return existing;
+// Agrega el turno al historial (limitado a los ultimos MAX_HISTORY_ITEMS)
+function appendTurn(entry: ConversationEntry, items: AgentInputItem[]): void {
+    entry.history.push(...items);
+    if (entry.history.length > MAX_HISTORY_ITEMS) {
+        entry.history = entry.history.slice(-MAX_HISTORY_ITEMS);
     }
-
-    const newEntry: ConversationEntry = {
-        history: [],
-        lastAccess: new Date()
-    };
-    conversationStore.set(id, newEntry);
-    return newEntry;
 }
 
 // ============================================
@@ -67,7 +109,7 @@ function getConversation(id: string): ConversationEntry {
 // ============================================
 
 const ClassificationSchema = z.object({
-    classification: z.enum(["subir_voz", "informacion"]),
+    classification: z.enum(["subir_voz", "mis_reportes", "pedir_agua", "alertas", "informacion"]),
     confidence: z.number().min(0).max(1).nullable().describe("Confidence score for classification (optional)"),
     extractedAlcaldia: z.string().nullable().describe("Alcaldia extraida del mensaje si se menciona (optional)")
 });
@@ -100,11 +142,18 @@ const classificationAgent = new Agent({
 
 CATEGORIAS:
 - "subir_voz": Quiere subir algo al mapa: foto, reporte, queja, problema de agua (fuga, desbordamiento, alcantarilla tapada, sin agua, contaminacion, drenaje, etc.). Cualquier intencion de "reportar", "subir", "publicar", "poner en el mapa".
+- "mis_reportes": Pregunta por reportes que YA subio: que paso con su reporte, si ya lo atendieron, como va, "mis reportes".
+- "pedir_agua": Quiere pedir, cotizar o comparar una pipa de agua, o dar seguimiento / cancelar un pedido de pipa que ya hizo.
+- "alertas": Pregunta por la situacion del agua en su zona: alertas, avisos, cortes programados, si va a haber escasez, pronostico de demanda, programas de apoyo. Tambien si quiere recibir o dejar de recibir alertas ("avisame de alertas en Coyoacan").
 - "informacion": Preguntas generales, que es WaterHub, como funciona, ver el mapa, comunidad, transparencia, saludos. Tambien si pide "hablar con alguien" o "asesor" -> informacion (no hay asesores; este WhatsApp es el unico canal).
 
 REGLAS:
 1. "Quiero reportar", "subir una foto", "hay una fuga", "no tenemos agua", "alcantarilla tapada", "desbordamiento", "quiero poner en el mapa" -> subir_voz
-2. "Hola", "que es WaterHub", "como funciona", "donde veo el mapa", "quiero hablar con alguien", "asesor" -> informacion
+2. "¿Que paso con lo que reporte?", "¿ya atendieron mi reporte?", "mis reportes", "¿como va la fuga que subi?" -> mis_reportes
+3. "Necesito una pipa", "cuanto cuesta una pipa de 10 mil litros", "que proveedores hay en Iztapalapa", "donde viene mi pipa", "cancela mi pedido" -> pedir_agua
+4. "No tenemos agua" sin pedir pipa -> subir_voz (es un reporte); si ademas pide una pipa -> pedir_agua
+5. "¿Va a haber escasez en Iztapalapa?", "hay alertas en mi alcaldia", "como va a estar el agua esta semana", "hay cortes programados", "avisame de alertas en Coyoacan", "ya no quiero alertas" -> alertas
+6. "Hola", "que es WaterHub", "como funciona", "donde veo el mapa", "quiero hablar con alguien", "asesor" -> informacion
 
 Si detectas una alcaldia de CDMX, extraela en extractedAlcaldia.`,
     outputType: ClassificationSchema,
@@ -161,6 +210,32 @@ NO debes:
     }
 });
 
+// ============================================
+// Report Extraction Agent (structured slots for the draft)
+// ============================================
+
+const reportExtractionAgent = new Agent({
+    name: "WaterHub - Extractor de Reporte",
+    model: MODELS.SPECIALIST_VISION,
+    instructions: `Extraes datos de un reporte ciudadano sobre agua para WaterHub. Solo devuelves datos; no conversas.
+
+Lee el ULTIMO mensaje del usuario (y la foto si la hay), usando la conversacion solo como contexto.
+- tipo: fuga, sin_agua, contaminacion, infraestructura u otro. Mapea: inundacion/desbordamiento -> fuga; alcantarilla tapada o drenaje -> infraestructura; sin agua o baja presion -> sin_agua; agua sucia o con olor -> contaminacion. Puedes inferirlo de la foto. null si no hay pista.
+- descripcion: lo que el usuario escribio sobre el problema (que pasa, desde cuando). NO inventes ni describas la foto si el usuario no escribio nada. null si no hay.
+- direccion: calle, numero o referencias que el usuario ESCRIBIO. Ignora los textos "[El usuario compartió su ubicación ...]" (esos ya se procesan aparte). null si no hay.
+- colonia, alcaldia: solo si se mencionan.
+- mismo_problema: solo si el asistente acaba de preguntar "¿es el mismo problema que ya reportaron aqui?": true si el usuario confirma (si, es ese, el mismo), false si lo niega o dice que es otro. null en cualquier otro caso.
+- ubicacion_correcta: solo si el asistente acaba de preguntar si el problema esta en la ubicacion sacada de la foto: true si el usuario confirma (si, ahi es), false si lo niega o da otro lugar. null en cualquier otro caso.
+- direccion_opcion: solo si el asistente acaba de ofrecer direcciones numeradas: el numero que eligio el usuario (1, 2, 3; "la primera" = 1; "si" cuando habia una sola = 1), 0 si dice que ninguna es. null en cualquier otro caso.
+
+Nunca inventes valores. Si el mensaje no aporta nada nuevo, devuelve todo en null.`,
+    outputType: ReportExtractionSchema,
+    modelSettings: {
+        temperature: 0,
+        maxTokens: 256
+    }
+});
+
 // ============================================
 // Subir Voz Agent (post to map — anonymous)
 // ============================================
@@ -170,50 +245,176 @@ const subirVozAgent = new Agent({
     model: MODELS.SPECIALIST_VISION,
     instructions: `Eres el asistente que ayuda a subir la voz de la ciudadania al mapa de WaterHub. Todo es anonimo. No pidas nombre ni telefono.
 
+Tu UNICA tarea es redactar el siguiente mensaje. El sistema lleva el control del reporte: en cada turno recibes un bloque "[ESTADO DEL REPORTE ...]" con tipo, ubicacion, descripcion, foto y status. Ese bloque es la verdad; no lo contradigas ni lo copies literal.
+
 FORMATO: Mensajes faciles de leer (saltos de linea entre ideas, 1-2 emojis por mensaje si encajan, sin abusar).
 
-PRIMER PASO (siempre): Ofrece pedir una foto primero (opcional). Ejemplo: "Si tienes una foto del problema o del lugar, puedes enviarla (es opcional). Luego necesito la ubicacion y una breve descripcion." Si el usuario ya envio foto en el primer mensaje, salta este paso y sigue con ubicacion y descripcion.
-
-SI EL USUARIO ENVIO UNA IMAGEN:
-- Reconoce y clasifica el tipo segun lo que se ve: inundacion/desbordamiento, fuga, alcantarilla tapada, sin agua, contaminacion, infraestructura danada, otro.
-- Es OBLIGATORIO pedir al menos: (1) UBICACION y (2) una BREVE DESCRIPCION del evento/problema. Responde pidiendo ambos: "Gracias por la foto. Para ponerla en el mapa necesito dos cosas: 1) La ubicacion (comparte tu ubicacion con el boton de WhatsApp o escribe direccion y colonia). 2) Una breve descripcion del problema o evento (que esta pasando, desde cuando, etc.)."
-- Puedes pedir primero la ubicacion y luego la descripcion, o al reves, pero NO crees el reporte hasta tener ambas.
-- No repitas pedir la foto; ya la tienes.
-
-FLUJO (uno a la vez, amigable):
-1. Al iniciar un reporte: ofrece foto opcional primero ("Si tienes una foto, enviala (opcional); luego pido ubicacion y descripcion"). Si ya enviaron foto, no pidas foto de nuevo.
-2. Si enviaron foto: reconoce tipo de la imagen. Pide ubicacion Y descripcion breve (puedes pedir en un mensaje o uno a la vez).
-3. Si no enviaron foto: sin problema, pide ubicacion y descripcion.
-4. Ubicacion: "Comparte tu ubicacion (boton Ubicacion en WhatsApp) o escribe direccion y colonia." Si el mensaje del usuario dice "[El usuario compartió su ubicación" o "Coordenadas: lat", YA tienes la ubicacion: extrae nombre/direccion o "lat X, lng Y" y SIEMPRE responde confirmando donde esta: "Ubicacion recibida: [nombre del lugar o direccion o lat, lng]. ¿Puedes darme una breve descripcion del problema o evento?" Asi el usuario ve que si la recibiste.
-5. Descripcion: al menos una frase del evento/problema (que pasa, desde cuando). Es obligatoria cuando hubo foto; recomendada siempre.
-6. Confirma en una linea: tipo, ubicacion, descripcion breve, "con foto" o "sin foto".
-7. OBLIGATORIO: Cuando tengas tipo + ubicacion + descripcion, PRIMERO llama a la herramienta reportar_incidente en este mismo turno. No escribas "Resumen" ni el cierre sin haber llamado a reportar_incidente antes. Tipos: fuga, sin_agua, contaminacion, infraestructura, otro. Mapea: inundacion/desbordamiento -> fuga; alcantarilla tapada -> infraestructura; sin agua -> sin_agua. Para direccion: si el usuario compartio ubicacion con nombre/direccion, usala; si solo hay lat/lng, usa "lat X, lng Y". Si el mensaje incluye coordenadas (lat X, lng Y), extraelas y pasalas como latitud y longitud. Descripcion: usa lo que el usuario escribio o resume lo que se ve en la foto.
-8. Solo DESPUES de que reportar_incidente haya sido llamado (y haya devuelto resultado), manda el RESUMEN y el cierre:
-   - Primera linea: "Resumen: [tipo], [ubicacion en texto: calle/colonia/alcaldia si la tienes, no coordenadas], [descripcion breve]."
-   - Segunda linea: "Perfecto, tu voz sera escuchada. Se creo un nuevo reporte en [direccion/colonia en texto]."
-   - Tercera linea (obligatoria): escribe "Aqui puedes ver el mapa:" y en la misma linea o la siguiente SOLO UNA VEZ el enlace ${WATERHUB_MAP_URL}. No repitas el link ni pongas "Ver mapa" aparte; solo el texto "Aqui puedes ver el mapa:" seguido del enlace una vez.
-   Usa la direccion real (calle, colonia, alcaldia) en el resumen cuando el mensaje del usuario la traiga; si solo hay coordenadas, di "ubicacion indicada" o las coords si no hay mas.
+SI status es EN CURSO:
+- Pide SOLO lo que falta, una cosa a la vez, en tono cercano.
+- Si aun no hay foto y es el inicio del reporte, puedes ofrecer enviar una foto (opcional) antes de pedir lo que falta. Si ya hay foto, no la pidas de nuevo.
+- Si hay foto, reconoce lo que se ve en una frase.
+- Tipo de problema: preguntalo en una frase corta sin enumerar opciones; el sistema manda aparte una lista para elegir.
+- Ubicacion: "Comparte tu ubicacion (boton Ubicacion en WhatsApp) o escribe direccion y colonia."
+- Si la ubicacion ya esta en el estado y el usuario la acaba de compartir, confirmala: "Ubicacion recibida: [ubicacion]." y pide lo siguiente.
+- Descripcion: al menos una frase del problema (que pasa, desde cuando).
+- NUNCA escribas "Resumen:" ni el enlace al mapa.
+
+SI status es CONFIRMAR UBICACION:
+- Reconoce la foto en una frase y pregunta si el problema esta en la direccion del estado: "Por la foto parece que es en [ubicacion]. ¿Es ahi?" El sistema manda aparte botones de si/no.
+- Si la foto es de otro dia, puedes mencionarlo. No pidas nada mas en este mensaje.
+
+SI status es CONFIRMAR DIRECCION:
+- La direccion que escribio no se pudo ubicar con seguridad en el mapa. Muestra las opciones del estado numeradas (1., 2., ...) y pregunta cual es; si hay una sola, pregunta si es ahi. El sistema manda aparte los botones.
+- Si ninguna es, puede compartir su ubicacion (boton Ubicacion en WhatsApp) o escribir la direccion con colonia y alcaldia. No pidas nada mas en este mensaje.
+
+SI status es REPORTE CREADO:
+- Primera linea: "Resumen: [tipo], [ubicacion en texto: calle/colonia/alcaldia si la tienes, no coordenadas], [descripcion breve]."
+- Segunda linea: "Perfecto, tu voz sera escuchada. Se creo un nuevo reporte en [direccion/colonia en texto]."
+- Tercera linea (obligatoria): "Aqui puedes ver el mapa:" seguido SOLO UNA VEZ del enlace ${WATERHUB_MAP_URL}.
+Si solo hay coordenadas, di "ubicacion indicada".
+
+SI status es NO SE PUDO GUARDAR: disculpate brevemente y pide que lo intente de nuevo en un momento.
 
 REGLAS:
-- Siempre ofrece foto primero (opcional) al iniciar un reporte; si no envian, sigue con ubicacion y descripcion.
 - Una cosa a la vez. Tono cercano.
 - Nunca digas "numero de reporte" ni "folio".
-- Si el usuario ya compartio ubicacion (mensaje con "compartió su ubicación" o coordenadas), confirma SIEMPRE donde esta ("Ubicacion recibida: [lugar/direccion/coords]") y pide solo lo que falte (ej. descripcion) o crea el reporte si ya tienes todo.
-- Si hay imagen: pide ubicacion Y descripcion breve antes de crear el reporte.
-- NUNCA escribas "Resumen:" ni el enlace al mapa sin haber llamado antes a la herramienta reportar_incidente. Si en este turno ya tienes tipo, ubicacion y descripcion, tu unica accion debe ser llamar a reportar_incidente; el resumen lo envias en el siguiente mensaje tras ver el resultado.`,
-    tools: [reportarIncidenteTool],
+- Nunca digas que el reporte se creo si el estado no dice REPORTE CREADO.`,
     modelSettings: {
         temperature: 0.5,
         maxTokens: 1024
     }
 });
 
+// ============================================
+// Mis Reportes Agent (status of the citizen's own reports)
+// ============================================
+
+const misReportesAgent = new Agent<ReportanteRunContext>({
+    name: "WaterHub - Mis Reportes",
+    model: MODELS.INFO,
+    instructions: `Eres el asistente de WaterHub que le cuenta al ciudadano como van los reportes que subio al mapa. Todo es anonimo.
+
+Usa SIEMPRE mis_reportes antes de responder. No inventes estados.
+
+FORMATO WHATSAPP:
+- Un bloque por reporte (maximo 5, el mas reciente primero): tipo y ubicacion en *negritas*, luego "Estado: ..." y "Subido: hace ...".
+- Estados: pendiente -> "⏳ Pendiente (aun sin respuesta de la autoridad)", reconocido -> "✅ Reconocido", en_progreso -> "🛠️ En atencion", resuelto -> "🎉 Resuelto".
+- Si hogares_afectados > 1, di cuantos vecinos se sumaron. Si reportes_parecidos_cerca > 0, menciona que hay N reportes parecidos cerca (mas presion para que lo atiendan).
+- Si relacion es "sumado", di que sumo su voz a ese reporte.
+- Cierra con una linea: le avisaremos por aqui cuando cambie el estado.
+
+SI NO HAY REPORTES: dilo con calidez y ofrece subir su voz al mapa.
+SI FALLA: disculpate en una linea y sugiere intentar mas tarde.
+
+No muestres IDs, telefonos ni datos de otras personas.`,
+    tools: [misReportesTool],
+    modelSettings: {
+        temperature: 0.3,
+        maxTokens: 768
+    }
+});
+
+// ============================================
+// Pedir Agua Agent (pipas: providers, quote, order, tracking)
+// ============================================
+
+const pedirAguaAgent = new Agent<PedidosRunContext>({
+    name: "WaterHub - Pedir Agua",
+    model: MODELS.SPECIALIST,
+    instructions: `Eres el asistente de WaterHub que ayuda a pedir una pipa de agua en CDMX con los proveedores de AquaHub.
+
+FLUJO (una cosa a la vez):
+1. Alcaldia: si no la sabes, preguntala. Luego usa listar_proveedores con esa alcaldia.
+2. Compara maximo 3 proveedores: nombre, precio por litro, tiempo estimado y calificacion. Señala el mas barato y el que llega antes.
+3. Litros: pregunta cuantos litros necesita si no lo dijo (referencia: una pipa comun es de 10,000 litros).
+4. Cotiza con cotizar_pedido y muestra subtotal, subsidio (si aplica) y total. NUNCA calcules precios tu mismo.
+5. Para entregar: nombre de quien recibe y direccion (calle, numero, colonia). Si compartio ubicacion, usala.
+6. Antes de crear_pedido repite proveedor, litros, total y direccion y pide confirmacion explicita ("¿Confirmo el pedido?"). Solo con un si claro, crea el pedido.
+7. Al crearlo: confirma proveedor, total, tiempo estimado y que puede escribir "¿donde viene mi pipa?" para seguimiento.
+
+SEGUIMIENTO Y CANCELACION:
+- En "[PEDIDOS DE ESTA CONVERSACION ...]" recibes los IDs de sus pedidos. Usa consultar_pedido con el mas reciente si no dice cual. No le pidas el ID si ya esta ahi.
+- Para cancelar, confirma primero cual pedido y luego usa cancelar_pedido. Un pedido entregado no se puede cancelar.
+- listar_pedidos solo si pide ver pedidos por estado o alcaldia.
+
+FORMATO: Mensajes cortos para WhatsApp, saltos de linea entre ideas, precios en pesos ($1,234.50), 1-2 emojis (🚚 💧) sin abusar.
+
+REGLAS:
+- Si una herramienta falla, dilo con sencillez y ofrece intentarlo de nuevo; no inventes proveedores, precios ni estados.
+- No muestres IDs largos salvo que los pida.
+- Si el mensaje es un reporte de un problema (fuga, sin agua) y no quiere pipa, dile que tambien puede subir su voz al mapa.`,
+    tools: [
+        listarProveedoresTool,
+        cotizarPedidoTool,
+        crearPedidoTool,
+        consultarPedidoTool,
+        listarPedidosTool,
+        cancelarPedidoTool
+    ],
+    modelSettings: {
+        temperature: 0.4,
+        maxTokens: 1024
+    }
+});
+
+function buildPedidosContext(pedidos: string[], alcaldia?: string | null): string {
+    const lines = [
+        pedidos.length === 0
+            ? "[PEDIDOS DE ESTA CONVERSACION: ninguno]"
+            : `[PEDIDOS DE ESTA CONVERSACION (el ultimo es el mas reciente): ${pedidos.join(", ")}]`
+    ];
+    if (alcaldia) lines.push(`[Alcaldia mencionada: ${alcaldia}]`);
+    return lines.join("\n");
+}
+
+// ============================================
+// Alertas Agent (alerts + demand forecast by alcaldia)
+// ============================================
+
+const alertasAgent = new Agent<AlertasRunContext>({
+    name: "WaterHub - Alertas",
+    model: MODELS.INFO,
+    instructions: `Eres el asistente de WaterHub que informa sobre la situacion del agua por alcaldia en CDMX: alertas activas y pronostico de demanda (riesgo de escasez).
+
+FLUJO:
+1. Alcaldia: usa la de "[Alcaldia mencionada: ...]" si viene; si no hay ninguna, preguntala (una sola pregunta) y no llames herramientas.
+2. Con alcaldia: llama consultar_prediccion(alcaldia) y consultar_alertas(alcaldia). Si pregunta solo por un tipo (cortes, programas de apoyo), filtra con tipo.
+
+FORMATO WHATSAPP (importante):
+- Primera linea: "[nivel] Demanda [intensidad] en [alcaldia]" usando el emoji de nivel (🟢 baja, 🟡 media, 🟠 alta, 🔴 critica).
+- Una frase simple de lo que significa (alta/critica: posible baja presion o cortes; baja: sin riesgo esperado). No muestres numeros de demanda ni confianza salvo que los pida.
+- Recomendaciones: maximo 3, en viñetas (•), cortas.
+- Alertas: titulo en *negritas* y una linea de mensaje; maximo 3. Si no hay, dilo en una linea.
+- 1-2 emojis extra como maximo. Nada de tablas ni markdown de titulos (#).
+
+SI ALGO FALLA:
+- Si una herramienta regresa servicio_no_disponible, di que por ahora no se pudo consultar esa informacion y que lo intente mas tarde. Si la otra funciono, comparte lo que si hay.
+- Si regresa desactualizado: true, aclara "Ultima informacion disponible" y la hora de consultado_en.
+- Nunca inventes niveles, alertas ni fechas. No prometas que habra o no habra agua.
+
+SUSCRIPCIONES:
+- Si pide que le avisen ("avisame", "mandame alertas de ..."), usa suscribir_alertas con sus alcaldias y confirma: que alcaldias, que tipos y que puede responder BAJA para salir.
+- Si pide dejar de recibirlas, usa cancelar_suscripcion_alertas.
+- "[Suscrito a alertas: ...]" te dice a que ya esta suscrito; no lo vuelvas a suscribir a lo mismo.
+- Despues de responder sobre la situacion de una alcaldia, si no esta suscrito a ella, puedes ofrecer en una linea: "¿Quieres que te avise por aqui si hay alertas nuevas?"
+
+Al final, si el nivel es alto o critico, puedes mencionar en una linea que puede pedir una pipa o subir su voz al mapa si ya no tiene agua.`,
+    tools: [consultarPrediccionTool, consultarAlertasTool, suscribirAlertasTool, cancelarSuscripcionAlertasTool],
+    modelSettings: {
+        temperature: 0.3,
+        maxTokens: 768
+    }
+});
+
 // ============================================
 // Agent Router Map
 // ============================================
 
 const agentMap: Record<Classification, Agent<any>> = {
     subir_voz: subirVozAgent,
+    mis_reportes: misReportesAgent,
+    pedir_agua: pedirAguaAgent,
+    alertas: alertasAgent,
     informacion: informacionAgent
 };
 
@@ -224,14 +425,15 @@ const agentMap: Record<Classification, Agent<any>> = {
 async function runAgentWithApproval(
     runner: Runner,
     agent: Agent<any>,
-    history: AgentInputItem[]
+    history: AgentInputItem[],
+    context?: unknown
 ): Promise<{ output: string; newItems: AgentInputItem[]; toolsUsed: string[] }> {
-    const result = await runner.run(agent, history);
+    const result = await runner.run(agent, history, { context });
     const toolsUsed: string[] = [];
 
     for (const item of result.newItems) {
         const rawItem = (item as any).rawItem || item;
-        if (rawItem.type === "hosted_tool_call" && rawItem.name) {
+        if ((rawItem.type === "hosted_tool_call" || rawItem.type === "function_call") && rawItem.name) {
             toolsUsed.push(rawItem.name);
         }
     }
@@ -258,10 +460,202 @@ async function runAgentWithApproval(
     return { output: output || '', newItems, toolsUsed };
 }
 
+// ============================================
+// Report Draft (Subir Voz)
+// ============================================
+
+async function extractReportSlots(runner: Runner, history: AgentInputItem[]): Promise<ReportExtraction | null> {
+    try {
+        const result = await runner.run(reportExtractionAgent, history);
+        return result.finalOutput ?? null;
+    } catch (error) {
+        // El borrador sigue con lo deterministico (pin, fotos, botones)
+        console.error(`[Workflow] Report extraction failed:`, error);
+        return null;
+    }
+}
+
+// Guarda la foto en el storage; el borrador solo conserva la referencia (nunca los bytes)
+async function persistReportPhoto(image: PreparedImage): Promise<ReportPhoto> {
+    const stored = await storeReportPhoto(image.data);
+    if (!stored) return { ref: photoRefFor(image.dataUrl), phash: image.phash };
+    return { ref: stored.ref, url: stored.url, thumbnailUrl: stored.thumbnailUrl, phash: image.phash };
+}
+
+function markDraftSubmitted(draft: ReportDraft, incidenteId: string | undefined): void {
+    draft.status = "submitted";
+    draft.incidenteId = incidenteId;
+    draft.lastError = undefined;
+    draft.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Creates the queja for a complete draft, at most once per draft id. If an earlier
+ * turn created it but could not save the conversation, the draft is marked submitted
+ * with that queja instead of inserting a second one.
+ */
+async function submitReportDraft(draft: ReportDraft, reportante?: ChannelSender): Promise<void> {
+    // Borradores guardados antes de que existiera el id
+    draft.id ??= crypto.randomUUID();
+    const key = `queja:${draft.id}`;
+    const idempotency = getIdempotencyStore();
+    const existing = await idempotency.begin(key);
+    if (existing?.status === "done") {
+        const incidenteId = (existing.result as { incidenteId?: string } | undefined)?.incidenteId;
+        console.log(`[Workflow] Report draft ${draft.id} already submitted as queja ${incidenteId ?? "?"}, not creating it again`);
+        markDraftSubmitted(draft, incidenteId);
+        return;
+    }
+    if (existing) {
+        draft.status = "failed";
+        draft.lastError = "El envio anterior de este reporte no termino; se puede reintentar en unos minutos";
+        return;
+    }
+
+    const coords = draft.latitud != null && draft.longitud != null ? `lat ${draft.latitud}, lng ${draft.longitud}` : null;
+    const result = await reportarIncidente({
+        tipo: draft.tipo!,
+        descripcion: draft.descripcion!,
+        direccion: draft.direccion ?? coords,
+        colonia: draft.colonia ?? null,
+        alcaldia: draft.alcaldia ?? null,
+        latitud: draft.latitud ?? null,
+        longitud: draft.longitud ?? null,
+        photo_url: getStoredPhotoUrl(draft),
+        photo_urls: getStoredPhotoUrls(draft),
+        photo_hashes: getPhotoHashes(draft),
+        geocode_confianza: draft.geocodeConfidence ?? null
+    }, reportante);
+    if ("error" in result) {
+        await idempotency.release(key).catch((e) => console.error(`[Workflow] Could not release ${key}:`, e));
+        draft.status = "failed";
+        draft.lastError = result.error;
+        return;
+    }
+    const incidenteId = result.incidente_id != null ? String(result.incidente_id) : undefined;
+    await idempotency.complete(key, { incidenteId }).catch((e) => console.error(`[Workflow] Could not record ${key}:`, e));
+    markDraftSubmitted(draft, incidenteId);
+}
+
+/**
+ * Moves the draft forward: resolves a pending duplicate question, checks for similar
+ * reports once the slots are complete, and submits. Returns true if the report was
+ * created (or merged into an existing one) during this turn.
+ */
+async function advanceReportDraft(
+    draft: ReportDraft,
+    extraction: ReportExtraction | null,
+    toolsUsed: string[],
+    reportante?: ChannelSender
+): Promise<boolean> {
+    if (draft.status === "confirming_duplicate" && draft.duplicateOf) {
+        const answer = extraction?.mismo_problema;
+        if (answer == null) return false;
+
+        draft.status = "collecting";
+        if (answer) {
+            const result = await sumarAfectadoAReporte(draft.duplicateOf.id, reportante);
+            toolsUsed.push("reportar_incidente");
+            if (!("error" in result)) {
+                draft.status = "submitted";
+                draft.mergedIntoExisting = true;
+                draft.incidenteId = result.incidente_id;
+                draft.duplicateOf.hogaresAfectados = result.hogares_afectados;
+                draft.updatedAt = new Date().toISOString();
+                return true;
+            }
+            // No se pudo sumar: mejor crear el reporte nuevo que perder la voz del ciudadano
+            console.warn(`[Workflow] Could not merge into ${draft.duplicateOf.id}: ${result.error}; creating a new report`);
+        }
+        draft.duplicateOf = undefined;
+    }
+
+    if (!isDraftComplete(draft)) return false;
+
+    // Solo hay direccion escrita: se ubica en el mapa antes de buscar duplicados y enviar
+    if (needsGeocoding(draft)) {
+        applyGeocode(draft, await geocodeAddress(draft.direccion!, { colonia: draft.colonia, alcaldia: draft.alcaldia }));
+        if (!isDraftComplete(draft)) return false;
+    }
+
+    if (!draft.duplicateChecked) {
+        draft.duplicateChecked = true;
+        const [similar] = await buscarReportesSimilares({
+            tipo: draft.tipo!,
+            latitud: draft.latitud,
+            longitud: draft.longitud,
+            colonia: draft.colonia,
+            alcaldia: draft.alcaldia,
+            photo_hashes: getPhotoHashes(draft)
+        });
+        if (similar) {
+            console.log(`[Workflow] Possible duplicate of queja ${similar.id} (${similar.misma_foto ? "same photo, " : ""}${similar.distancia_m ?? "colonia"} m)`);
+            draft.status = "confirming_duplicate";
+            draft.duplicateOf = {
+                id: similar.id,
+                descripcion: similar.descripcion,
+                distanciaM: similar.distancia_m,
+                creadoEn: similar.creado_en,
+                hogaresAfectados: similar.hogares_afectados,
+                mismaFoto: similar.misma_foto
+            };
+            return false;
+        }
+    }
+
+    console.log(`[Workflow] Report draft complete, submitting`);
+    await submitReportDraft(draft, reportante);
+    toolsUsed.push("reportar_incidente");
+    return draft.status === "submitted";
+}
+
 // ============================================
 // Main Workflow Function
 // ============================================
 
+const MESSAGING_CHANNELS: ChannelName[] = ["evolution", "whatsapp_cloud", "telegram"];
+
+// Mensajes de un canal de mensajeria (no /api/chat): hay a donde mandar avisos posteriores
+function getChannelSender(input: WorkflowInput, conversationId: string): ChannelSender | undefined {
+    const { source, instance, chatId, privateChatId } = input.metadata ?? {};
+    if (!MESSAGING_CHANNELS.includes(source as ChannelName) || !instance || !chatId) return undefined;
+    // Desde un grupo, alertas y avisos de estado van al chat privado de quien escribio
+    const deliverTo = String(privateChatId || chatId);
+    return { channel: source as ChannelName, senderKey: conversationId, address: { account: String(instance), chatId: deliverTo } };
+}
+
+// Todas las fotos del turno que caben en el limite (cantidad y bytes); las demas no se ven ni se guardan
+function getInputImages(input: WorkflowInput): { images: string[]; dropped: number } {
+    const all = input.image_urls?.length ? input.image_urls : input.image_url ? [input.image_url] : [];
+    const { kept, dropped } = capTurnImages(all);
+    if (dropped > 0) console.warn(`[Workflow] ${dropped} of ${all.length} image(s) over the per-turn limit, dropped`);
+    return { images: kept, dropped };
+}
+
+// Cada imagen pasa por el pipeline antes de la llamada de vision; las que no son fotos validas se omiten
+async function prepareTurnImages(imageUrls: string[]): Promise<{ prepared: PreparedImage[]; rejected: number; dropped: number }> {
+    const { loaded, dropped } = await loadTurnImages(imageUrls);
+    const prepared: PreparedImage[] = [];
+    let rejected = 0;
+    for (const image of loaded) {
+        try {
+            if (!image) throw new ImageRejectedError("unreadable", "Could not load image");
+            prepared.push(await prepareImage(image.data));
+        } catch (error) {
+            if (!(error instanceof ImageRejectedError)) throw error;
+            console.warn(`[Workflow] Image rejected (${error.reason}): ${error.message}`);
+            rejected++;
+        }
+    }
+    if (dropped > 0) console.warn(`[Workflow] ${dropped} of ${imageUrls.length} image(s) over the per-turn size limit once downloaded, dropped`);
+    return { prepared, rejected, dropped };
+}
+
+// De cada video, el cuadro del medio es la "foto" del reporte (los demas solo los ve el modelo)
+function getCoverFrame(frames: PreparedImage[]): PreparedImage | undefined {
+    return frames[Math.floor(frames.length / 2)];
+}
+
 export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput> {
     const startTime = Date.now();
     const conversationId = input.conversationId || crypto.randomUUID();
@@ -271,38 +665,58 @@ export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput>
         console.log(`ConversationId: ${conversationId}`);
         console.log(`Input: "${input.input_as_text}"`);
 
-        const conversation = getConversation(conversationId);
+        const toolsUsed: string[] = [];
+        // Si algo falla antes de armar el mensaje (store caido, imagen), el historial guarda al menos el texto
+        let userMessageTextOnly: AgentInputItem = { role: "user", content: [{ type: "input_text", text: input.input_as_text }] };
 
-        const contextualInput = `${buildSystemContext()}\n${input.input_as_text}`;
+        try {
+            const conversation = await getConversation(conversationId);
+            // Lo que habia al empezar el turno: si otro turno guarda antes, solo se aplica lo que cambio este
+            const draftAtStart: ReportDraft | undefined = conversation.reportDraft && structuredClone(conversation.reportDraft);
+            const pedidosAtStart = [...(conversation.pedidos ?? [])];
+            const { images, dropped: droppedImages } = getInputImages(input);
+            const photos = await prepareTurnImages(images);
+            const videoFrames: PreparedImage[][] = [];
+            for (const video of input.videos ?? []) {
+                videoFrames.push((await prepareTurnImages(video.frames)).prepared);
+            }
+            const visionImages = [...photos.prepared, ...videoFrames.flat()].map((image) => image.dataUrl);
 
-        const contentArr: Array<{ type: "input_text"; text: string } | { type: "input_image"; image: string }> = [
-            { type: "input_text", text: contextualInput }
-        ];
-        if (input.image_url) {
-            contentArr.push({ type: "input_image", image: input.image_url });
-        }
-        const userMessage: AgentInputItem = {
-            role: "user",
-            content: contentArr
-        };
-
-        const userMessageTextOnly: AgentInputItem = {
-            role: "user",
-            content: [{ type: "input_text", text: contextualInput }]
-        };
-
-        const workingHistory: AgentInputItem[] = [...conversation.history, userMessage];
-        const classificationHistory: AgentInputItem[] = [...conversation.history, userMessageTextOnly];
-        const toolsUsed: string[] = [];
+            const notes: string[] = [];
+            if (droppedImages + photos.dropped > 0) {
+                notes.push(`[Solo se revisaron ${images.length - photos.dropped} de ${images.length + droppedImages} fotos (limite por mensaje). Si hace falta, pide que mande las demas despues.]`);
+            }
+            if (photos.rejected > 0) {
+                notes.push(`[${photos.rejected === 1 ? "Un archivo no es" : `${photos.rejected} archivos no son`} una foto valida y no se pudo ver. Si era una foto del problema, pide que la mande de nuevo.]`);
+            }
+            const contextualInput = [buildSystemContext(), input.input_as_text, ...notes].join("\n");
 
-        const runner = new Runner({
-            traceMetadata: {
-                __trace_source__: "waterhub-agent",
-                conversation_id: conversationId
+            const contentArr: Array<{ type: "input_text"; text: string } | { type: "input_image"; image: string }> = [
+                { type: "input_text", text: contextualInput }
+            ];
+            for (const image of visionImages) {
+                contentArr.push({ type: "input_image", image });
             }
-        });
+            const userMessage: AgentInputItem = {
+                role: "user",
+                content: contentArr
+            };
+
+            userMessageTextOnly = {
+                role: "user",
+                content: [{ type: "input_text", text: contextualInput }]
+            };
+
+            const workingHistory: AgentInputItem[] = [...conversation.history, userMessage];
+            const classificationHistory: AgentInputItem[] = [...conversation.history, userMessageTextOnly];
+
+            const runner = new Runner({
+                traceMetadata: {
+                    __trace_source__: "waterhub-agent",
+                    conversation_id: conversationId
+                }
+            });
 
-        try {
             // Step 1: Classification (solo texto; el clasificador no usa visión)
             console.log(`[Workflow] Running classification...`);
             const classificationResult = await runner.run(classificationAgent, classificationHistory);
@@ -311,62 +725,134 @@ export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput>
                 throw new Error("Classification failed - no output");
             }
 
-            const classification = classificationResult.finalOutput.classification as Classification;
+            let classification = classificationResult.finalOutput.classification as Classification;
             const extractedAlcaldia = classificationResult.finalOutput.extractedAlcaldia;
 
             console.log(`[Workflow] Classification: ${classification}`);
             if (extractedAlcaldia) {
                 console.log(`[Workflow] Extracted alcaldia: ${extractedAlcaldia}`);
-                conversation.alcaldia = extractedAlcaldia;
             }
 
-            conversation.classification = classification;
+            const sender = getChannelSender(input, conversationId);
 
-            // Step 2: Route to specialized agent
-            const selectedAgent = agentMap[classification];
-            console.log(`[Workflow] Routing to: ${selectedAgent.name}`);
+            // Un pin o foto a mitad de un reporte sigue siendo parte del reporte
+            const activeDraft = isDraftActive(conversation.reportDraft) ? conversation.reportDraft : undefined;
+            const draftNeedsAnswer = activeDraft?.status === "confirming_duplicate" || !!activeDraft?.locationUnconfirmed
+                || !!activeDraft?.addressCandidates?.length;
+            if (classification !== "subir_voz" && activeDraft && (input.location || visionImages.length > 0 || draftNeedsAnswer)) {
+                console.log(`[Workflow] Active report draft, routing ${classification} -> subir_voz`);
+                classification = "subir_voz";
+            }
+            // Un boton del reporte (tipo, "es el mismo") siempre es parte del reporte
+            const draftChoice = input.choice && isDraftChoice(input.choice.id) ? input.choice.id : undefined;
+            if (classification !== "subir_voz" && draftChoice) {
+                console.log(`[Workflow] Report choice ${draftChoice}, routing ${classification} -> subir_voz`);
+                classification = "subir_voz";
+            }
 
-            let agentResult: { output: string; newItems: AgentInputItem[]; toolsUsed: string[] };
-            try {
-                agentResult = await runAgentWithApproval(runner, selectedAgent, workingHistory);
-            } catch (imageError: unknown) {
-                const err = imageError as { status?: number; message?: string; error?: { message?: string } };
-                const msg = err?.message ?? err?.error?.message ?? "";
-                const isInvalidImage = err?.status === 400 && /image|invalid.*value/i.test(msg);
-                if (input.image_url && isInvalidImage) {
-                    console.log(`[Workflow] Image invalid for API, retrying without image (text only)`);
-                    const workingHistoryNoImage: AgentInputItem[] = [
-                        ...conversation.history,
-                        { role: "user", content: [{ type: "input_text", text: contextualInput }] }
-                    ];
-                    agentResult = await runAgentWithApproval(runner, selectedAgent, workingHistoryNoImage);
+            // Step 2: Fill the report draft and submit it from code once complete
+            let reportDraft: ReportDraft | undefined;
+            let submittedThisTurn = false;
+            const attachments: WorkflowAttachment[] = [];
+            let specialistHistory = workingHistory;
+            if (classification === "subir_voz") {
+                reportDraft = activeDraft ?? createReportDraft();
+                if (input.location) applyLocation(reportDraft, input.location);
+                const covers = videoFrames.map(getCoverFrame).filter((frame): frame is PreparedImage => !!frame);
+                for (const image of [...photos.prepared, ...covers]) {
+                    if (reportDraft.photos.length >= MAX_DRAFT_PHOTOS) {
+                        console.log(`[Workflow] Report draft already has ${MAX_DRAFT_PHOTOS} photos, not storing more`);
+                        break;
+                    }
+                    applyPhoto(reportDraft, await persistReportPhoto(image));
+                }
+
+                let extraction = await extractReportSlots(runner, workingHistory);
+                if (draftChoice) extraction = applyChoiceToExtraction(extraction, draftChoice);
+                if (extraction) applyExtraction(reportDraft, extraction);
+                if (!reportDraft.alcaldia && extractedAlcaldia) reportDraft.alcaldia = extractedAlcaldia;
+
+                submittedThisTurn = await advanceReportDraft(reportDraft, extraction, toolsUsed, sender);
+                console.log(`[Workflow] Report draft: status=${reportDraft.status}, tipo=${reportDraft.tipo ?? "-"}, photos=${reportDraft.photos.length}`);
+
+                specialistHistory = [
+                    ...workingHistory,
+                    { role: "system", content: buildDraftContext(reportDraft, submittedThisTurn) }
+                ];
+                attachments.push(...buildDraftAttachments(reportDraft, submittedThisTurn));
+            }
+
+            // Alertas: suscribirse solo es posible si el mensaje llego por un canal de mensajeria (hay a quien avisar)
+            let alertasContext: AlertasRunContext | undefined;
+            if (classification === "alertas") {
+                alertasContext = { subscriber: sender };
+                const contextLines: string[] = [];
+                const alcaldia = extractedAlcaldia ?? conversation.alcaldia;
+                if (alcaldia) contextLines.push(`[Alcaldia mencionada: ${alcaldia}]`);
+                if (alertasContext.subscriber) {
+                    const subscription = await describeAlertSubscription(hashSender(conversationId));
+                    contextLines.push(subscription ? `[Suscrito a alertas: ${subscription}]` : "[Sin suscripcion a alertas]");
                 } else {
-                    throw imageError;
+                    contextLines.push("[Canal sin WhatsApp ni Telegram: no se puede suscribir a alertas]");
                 }
+                specialistHistory = [...workingHistory, { role: "system", content: contextLines.join("\n") }];
             }
+
+            // Pedidos: las herramientas agregan al contexto los pedidos que crean
+            let pedidosContext: PedidosRunContext | undefined;
+            if (classification === "pedir_agua") {
+                pedidosContext = { pedidos: [...(conversation.pedidos ?? [])] };
+                specialistHistory = [
+                    ...workingHistory,
+                    { role: "system", content: buildPedidosContext(pedidosContext.pedidos, extractedAlcaldia ?? conversation.alcaldia) }
+                ];
+            }
+
+            // Mis reportes: solo los ligados (por hash) a este remitente
+            const reportanteContext: ReportanteRunContext | undefined =
+                classification === "mis_reportes" ? { reportante: sender } : undefined;
+            const runContext = pedidosContext ?? alertasContext ?? reportanteContext;
+
+            // Step 3: Route to specialized agent
+            const selectedAgent = agentMap[classification];
+            console.log(`[Workflow] Routing to: ${selectedAgent.name}`);
+
+            // Las imagenes ya pasaron por el pipeline: no hace falta reintentar sin ellas
+            const agentResult = await runAgentWithApproval(runner, selectedAgent, specialistHistory, runContext);
             const output = agentResult.output;
             const newItems = agentResult.newItems;
             toolsUsed.push(...agentResult.toolsUsed);
 
-            // Primera interacción: solo bienvenida (evitar doble mensaje del agente)
+            // Primera interacción: solo bienvenida (evitar doble mensaje del agente),
+            // salvo que el mensaje ya avanzo o envio un reporte: entonces saludo + respuesta real
             const isFirstMessage = conversation.history.length === 0;
-            const finalOutput = isFirstMessage ? WELCOME_MESSAGE : output;
+            const reportProgress = !!reportDraft && (submittedThisTurn || hasDraftProgress(reportDraft));
+            const welcomeOnly = isFirstMessage && !reportProgress;
+            const finalOutput = welcomeOnly
+                ? WELCOME_MESSAGE
+                : isFirstMessage ? `${WELCOME_GREETING}\n\n${output}` : output;
 
             // Step 4: Update conversation history — solo texto (nunca imagen) para que el siguiente turno no falle
-            conversation.history.push(userMessageTextOnly);
+            const turnItems: AgentInputItem[] = [userMessageTextOnly];
             if (newItems.length > 0) {
-                conversation.history.push(...newItems);
+                turnItems.push(...newItems);
             } else if (finalOutput) {
-                conversation.history.push({
+                turnItems.push({
                     role: "assistant",
                     content: [{ type: "output_text", text: finalOutput }]
                 } as any);
             }
-
-            // Limit history length (keep last 20 messages)
-            if (conversation.history.length > 20) {
-                conversation.history = conversation.history.slice(-20);
-            }
+            await updateConversation(conversationStore, conversationId, (entry) => {
+                if (extractedAlcaldia) entry.alcaldia = extractedAlcaldia;
+                entry.classification = classification;
+                if (reportDraft) entry.reportDraft = mergeReportDraft(draftAtStart, reportDraft, entry.reportDraft);
+                if (pedidosContext) {
+                    const nuevos = pedidosContext.pedidos.filter((id) => !pedidosAtStart.includes(id));
+                    const stored = entry.pedidos ?? [];
+                    entry.pedidos = [...stored, ...nuevos.filter((id) => !stored.includes(id))].slice(-MAX_PEDIDOS_TRACKED);
+                }
+                appendTurn(entry, turnItems);
+            });
 
             const processingTime = Date.now() - startTime;
             console.log(`[Workflow] Complete in ${processingTime}ms`);
@@ -375,6 +861,8 @@ export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput>
 
             return {
                 output_text: finalOutput,
+                // La bienvenida sola va sin adjuntos; los botones llegan en el siguiente turno
+                attachments: !welcomeOnly && attachments.length > 0 ? attachments : undefined,
                 classification,
                 toolsUsed
             };
@@ -383,13 +871,15 @@ export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput>
             console.error(`[Workflow] Error:`, error);
 
             const errorOutput = "No pude procesar ese mensaje. Cuentame de nuevo: ¿quieres subir tu voz al mapa (foto + ubicación + descripción) o tienes alguna pregunta sobre WaterHub?";
-            conversation.history.push(userMessageTextOnly);
-            conversation.history.push({
-                role: "assistant",
-                content: [{ type: "output_text", text: errorOutput }]
-            } as any);
-            if (conversation.history.length > 20) {
-                conversation.history = conversation.history.slice(-20);
+            try {
+                await updateConversation(conversationStore, conversationId, (entry) => {
+                    appendTurn(entry, [
+                        userMessageTextOnly,
+                        { role: "assistant", content: [{ type: "output_text", text: errorOutput }] } as any
+                    ]);
+                });
+            } catch (storeError) {
+                console.error(`[Workflow] Could not save conversation:`, storeError);
             }
 
             return {
@@ -405,14 +895,24 @@ export async function runWorkflow(input: WorkflowInput): Promise<WorkflowOutput>
 // Health Check for Agents
 // ============================================
 
-export function getAgentHealth(): { status: string; agents: string[]; conversationCount: number } {
+export async function getAgentHealth(): Promise<{ status: string; agents: string[]; conversationStore: string; conversationCount: number | null }> {
+    let conversationCount: number | null = null;
+    try {
+        conversationCount = await conversationStore.size();
+    } catch (error) {
+        console.error(`[ConversationStore:${conversationStore.name}] size() failed:`, error);
+    }
     return {
-        status: "healthy",
+        status: conversationCount === null ? "degraded" : "healthy",
         agents: [
             classificationAgent.name,
             subirVozAgent.name,
+            misReportesAgent.name,
+            pedirAguaAgent.name,
+            alertasAgent.name,
             informacionAgent.name
         ],
-        conversationCount: conversationStore.size
+        conversationStore: conversationStore.name,
+        conversationCount
     };
 }
@@ -0,0 +1,475 @@
+// ============================================
+// WaterHub Alert Subscriptions - by alcaldia, broadcast on each subscriber's channel
+// ============================================
+// Citizens subscribe from the chat ("avisame de alertas en Coyoacan") and leave
+// with "BAJA". New alerts (polled from /api/alertas or posted by an admin) are
+// sent to every subscriber whose alcaldias match zonas_objetivo.
+// SUBSCRIPTION_STORE=memory | postgres
+
+import type { Pool } from "pg";
+import type { Alerta, TipoAlerta } from "./types.js";
+import { fetchAquaHub, getDbPool } from "./clients.js";
+import { normalizePlaceName } from "./geo.js";
+import { hashSender } from "./sender-id.js";
+import { getChannelAdapter, type ChannelAddress, type ChannelName, type ChannelSender } from "./channels.js";
+import { EVOLUTION_INSTANCE } from "./whatsapp.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface AlertSubscription {
+    /** hashSender(senderKey); es lo unico que sale en listados y logs */
+    id: string;
+    channel: ChannelName;
+    /** Evolution instance / Cloud API phone_number_id / Telegram bot */
+    account: string;
+    /** Destino de entrega (remoteJid / chat id); nunca se expone */
+    chatId: string;
+    alcaldias: string[];
+    /** Vacio = todos los tipos */
+    tipos: TipoAlerta[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type DeliveryStatus = "sent" | "failed";
+
+export interface AlertDelivery {
+    alertaId: string;
+    subscriberId: string;
+    status: DeliveryStatus;
+    attempts: number;
+    error?: string;
+    updatedAt: string;
+}
+
+export interface BroadcastResult {
+    alertaId: string;
+    /** = cantidad_destinatarios */
+    destinatarios: number;
+    enviados: number;
+    fallidos: number;
+    /** Ya enviados en una corrida anterior */
+    omitidos: number;
+}
+
+export interface SubscriptionStore {
+    readonly name: string;
+    get(id: string): Promise<AlertSubscription | null>;
+    save(subscription: AlertSubscription): Promise<void>;
+    delete(id: string): Promise<boolean>;
+    list(): Promise<AlertSubscription[]>;
+    getDelivery(alertaId: string, subscriberId: string): Promise<AlertDelivery | null>;
+    saveDelivery(delivery: AlertDelivery): Promise<void>;
+    listDeliveries(alertaId: string): Promise<AlertDelivery[]>;
+    /** Alertas ya repartidas (para que el poller no las mande dos veces) */
+    isProcessed(alertaId: string): Promise<boolean>;
+    markProcessed(alertaId: string, destinatarios: number): Promise<void>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const SEND_PER_SECOND = Number(process.env.ALERTAS_SEND_PER_SECOND || 1);
+const MAX_ATTEMPTS = 3;
+// El poller ignora alertas mas viejas que esto (p. ej. al arrancar con la base vacia)
+const POLL_MAX_AGE_HOURS = Number(process.env.ALERTAS_POLL_MAX_AGE_HOURS || 24);
+
+const TIPO_EMOJI: Record<TipoAlerta, string> = {
+    escasez: "🚱",
+    emergencia: "🚨",
+    conservacion: "💧",
+    programa: "📢"
+};
+
+// ============================================
+// In-Memory Store (default, single process)
+// ============================================
+
+export class InMemorySubscriptionStore implements SubscriptionStore {
+    readonly name = "memory";
+    private readonly subscriptions = new Map<string, AlertSubscription>();
+    private readonly deliveries = new Map<string, AlertDelivery>();
+    private readonly processed = new Set<string>();
+
+    async get(id: string): Promise<AlertSubscription | null> {
+        const sub = this.subscriptions.get(id);
+        return sub ? { ...sub } : null;
+    }
+
+    async save(subscription: AlertSubscription): Promise<void> {
+        this.subscriptions.set(subscription.id, { ...subscription });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.subscriptions.delete(id);
+    }
+
+    async list(): Promise<AlertSubscription[]> {
+        return Array.from(this.subscriptions.values(), (s) => ({ ...s }));
+    }
+
+    async getDelivery(alertaId: string, subscriberId: string): Promise<AlertDelivery | null> {
+        return this.deliveries.get(`${alertaId}:${subscriberId}`) ?? null;
+    }
+
+    async saveDelivery(delivery: AlertDelivery): Promise<void> {
+        this.deliveries.set(`${delivery.alertaId}:${delivery.subscriberId}`, { ...delivery });
+    }
+
+    async listDeliveries(alertaId: string): Promise<AlertDelivery[]> {
+        return Array.from(this.deliveries.values()).filter((d) => d.alertaId === alertaId);
+    }
+
+    async isProcessed(alertaId: string): Promise<boolean> {
+        return this.processed.has(alertaId);
+    }
+
+    async markProcessed(alertaId: string): Promise<void> {
+        this.processed.add(alertaId);
+    }
+}
+
+// ============================================
+// Postgres Store (DATABASE_URL)
+// ============================================
+
+export class PostgresSubscriptionStore implements SubscriptionStore {
+    readonly name = "postgres";
+    private ready: Promise<void> | null = null;
+
+    constructor(private readonly pool: Pool) {}
+
+    private ensureTables(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.pool
+                .query(
+                    `CREATE TABLE IF NOT EXISTS public.waterhub_alert_subscriptions (
+                        id TEXT PRIMARY KEY,
+                        remote_jid TEXT NOT NULL,
+                        instance TEXT NOT NULL,
+                        alcaldias TEXT[] NOT NULL,
+                        tipos TEXT[] NOT NULL DEFAULT '{}',
+                        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+                        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+                    );
+                    -- Suscripciones anteriores a los demas canales son de Evolution
+                    ALTER TABLE public.waterhub_alert_subscriptions ADD COLUMN IF NOT EXISTS channel VARCHAR(20) NOT NULL DEFAULT 'evolution';
+                    CREATE TABLE IF NOT EXISTS public.waterhub_alert_deliveries (
+                        alerta_id TEXT NOT NULL,
+                        subscriber_id TEXT NOT NULL,
+                        status VARCHAR(10) NOT NULL,
+                        attempts INTEGER NOT NULL,
+                        error TEXT,
+                        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+                        PRIMARY KEY (alerta_id, subscriber_id)
+                    );
+                    CREATE TABLE IF NOT EXISTS public.waterhub_alertas_procesadas (
+                        alerta_id TEXT PRIMARY KEY,
+                        destinatarios INTEGER NOT NULL,
+                        processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+                    )`
+                )
+                .then(() => undefined)
+                .catch((e) => {
+                    this.ready = null;
+                    throw e;
+                });
+        }
+        return this.ready;
+    }
+
+    private static toSubscription(r: Record<string, any>): AlertSubscription {
+        return {
+            id: r.id,
+            channel: r.channel,
+            // remote_jid / instance: nombres de columna de cuando solo habia Evolution
+            account: r.instance,
+            chatId: r.remote_jid,
+            alcaldias: r.alcaldias,
+            tipos: r.tipos,
+            createdAt: new Date(r.created_at).toISOString(),
+            updatedAt: new Date(r.updated_at).toISOString()
+        };
+    }
+
+    private static toDelivery(r: Record<string, any>): AlertDelivery {
+        return {
+            alertaId: r.alerta_id,
+            subscriberId: r.subscriber_id,
+            status: r.status,
+            attempts: r.attempts,
+            error: r.error ?? undefined,
+            updatedAt: new Date(r.updated_at).toISOString()
+        };
+    }
+
+    async get(id: string): Promise<AlertSubscription | null> {
+        await this.ensureTables();
+        const res = await this.pool.query(`SELECT * FROM public.waterhub_alert_subscriptions WHERE id = $1`, [id]);
+        return res.rows?.[0] ? PostgresSubscriptionStore.toSubscription(res.rows[0]) : null;
+    }
+
+    async save(s: AlertSubscription): Promise<void> {
+        await this.ensureTables();
+        await this.pool.query(
+            `INSERT INTO public.waterhub_alert_subscriptions (id, channel, remote_jid, instance, alcaldias, tipos, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             ON CONFLICT (id) DO UPDATE SET channel = EXCLUDED.channel, remote_jid = EXCLUDED.remote_jid, instance = EXCLUDED.instance,
+                alcaldias = EXCLUDED.alcaldias, tipos = EXCLUDED.tipos, updated_at = EXCLUDED.updated_at`,
+            [s.id, s.channel, s.chatId, s.account, s.alcaldias, s.tipos, s.createdAt, s.updatedAt]
+        );
+    }
+
+    async delete(id: string): Promise<boolean> {
+        await this.ensureTables();
+        const res = await this.pool.query(`DELETE FROM public.waterhub_alert_subscriptions WHERE id = $1`, [id]);
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    async list(): Promise<AlertSubscription[]> {
+        await this.ensureTables();
+        const res = await this.pool.query(`SELECT * FROM public.waterhub_alert_subscriptions`);
+        return res.rows.map(PostgresSubscriptionStore.toSubscription);
+    }
+
+    async getDelivery(alertaId: string, subscriberId: string): Promise<AlertDelivery | null> {
+        await this.ensureTables();
+        const res = await this.pool.query(
+            `SELECT * FROM public.waterhub_alert_deliveries WHERE alerta_id = $1 AND subscriber_id = $2`,
+            [alertaId, subscriberId]
+        );
+        return res.rows?.[0] ? PostgresSubscriptionStore.toDelivery(res.rows[0]) : null;
+    }
+
+    async saveDelivery(d: AlertDelivery): Promise<void> {
+        await this.ensureTables();
+        await this.pool.query(
+            `INSERT INTO public.waterhub_alert_deliveries (alerta_id, subscriber_id, status, attempts, error, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (alerta_id, subscriber_id) DO UPDATE SET status = EXCLUDED.status, attempts = EXCLUDED.attempts,
+                error = EXCLUDED.error, updated_at = EXCLUDED.updated_at`,
+            [d.alertaId, d.subscriberId, d.status, d.attempts, d.error ?? null, d.updatedAt]
+        );
+    }
+
+    async listDeliveries(alertaId: string): Promise<AlertDelivery[]> {
+        await this.ensureTables();
+        const res = await this.pool.query(
+            `SELECT * FROM public.waterhub_alert_deliveries WHERE alerta_id = $1 ORDER BY updated_at`,
+            [alertaId]
+        );
+        return res.rows.map(PostgresSubscriptionStore.toDelivery);
+    }
+
+    async isProcessed(alertaId: string): Promise<boolean> {
+        await this.ensureTables();
+        const res = await this.pool.query(`SELECT 1 FROM public.waterhub_alertas_procesadas WHERE alerta_id = $1`, [alertaId]);
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    async markProcessed(alertaId: string, destinatarios: number): Promise<void> {
+        await this.ensureTables();
+        await this.pool.query(
+            `INSERT INTO public.waterhub_alertas_procesadas (alerta_id, destinatarios) VALUES ($1, $2)
+             ON CONFLICT (alerta_id) DO UPDATE SET destinatarios = EXCLUDED.destinatarios, processed_at = NOW()`,
+            [alertaId, destinatarios]
+        );
+    }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+export function createSubscriptionStore(kind = process.env.SUBSCRIPTION_STORE || "memory"): SubscriptionStore {
+    switch (kind) {
+        case "postgres": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("SUBSCRIPTION_STORE=postgres requires DATABASE_URL (postgresql://...)");
+            return new PostgresSubscriptionStore(pool);
+        }
+        case "memory":
+            return new InMemorySubscriptionStore();
+        default:
+            throw new Error(`Unknown SUBSCRIPTION_STORE: ${kind} (use memory or postgres)`);
+    }
+}
+
+let subscriptionStore: SubscriptionStore | null = null;
+
+export function getSubscriptionStore(): SubscriptionStore {
+    if (!subscriptionStore) {
+        subscriptionStore = createSubscriptionStore();
+        console.log(`[Alertas] Using ${subscriptionStore.name} subscription store`);
+    }
+    return subscriptionStore;
+}
+
+/** Tests / custom wiring. */
+export function setSubscriptionStore(store: SubscriptionStore): void {
+    subscriptionStore = store;
+}
+
+// ============================================
+// Subscribe / Unsubscribe
+// ============================================
+
+/** "BAJA", "baja.", "Baja alertas" */
+export function isUnsubscribeCommand(text: string): boolean {
+    return /^\s*baja\b[\s.!]*(alertas?)?[\s.!]*$/i.test(text);
+}
+
+/** Adds alcaldias/tipos to the sender's subscription (creates it if needed). */
+export async function subscribe(
+    input: { sender: ChannelSender; alcaldias: string[]; tipos?: TipoAlerta[] | null },
+    store = getSubscriptionStore()
+): Promise<AlertSubscription> {
+    const id = hashSender(input.sender.senderKey);
+    const now = new Date().toISOString();
+    const current = await store.get(id);
+
+    const alcaldias = [...(current?.alcaldias ?? [])];
+    for (const alcaldia of input.alcaldias.map((a) => a.trim()).filter(Boolean)) {
+        if (!alcaldias.some((a) => normalizePlaceName(a) === normalizePlaceName(alcaldia))) alcaldias.push(alcaldia);
+    }
+    // Pedir tipos concretos acota; pedir "todas" (sin tipos) las vuelve a abrir
+    const tipos = input.tipos && input.tipos.length > 0
+        ? Array.from(new Set([...(current && current.tipos.length > 0 ? current.tipos : []), ...input.tipos]))
+        : [];
+
+    const subscription: AlertSubscription = {
+        id,
+        channel: input.sender.channel,
+        account: input.sender.address.account,
+        chatId: input.sender.address.chatId,
+        alcaldias,
+        tipos,
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now
+    };
+    await store.save(subscription);
+    console.log(`[Alertas] Subscriber ${id.substring(0, 8)} -> ${alcaldias.join(", ")} (${tipos.join(", ") || "todas"})`);
+    return subscription;
+}
+
+export async function unsubscribe(senderKey: string, store = getSubscriptionStore()): Promise<boolean> {
+    const id = hashSender(senderKey);
+    const removed = await store.delete(id);
+    if (removed) console.log(`[Alertas] Subscriber ${id.substring(0, 8)} unsubscribed`);
+    return removed;
+}
+
+// ============================================
+// Broadcast
+// ============================================
+
+/** Alertas sin zonas van a todos; con zonas, a quien tenga alguna de esas alcaldias. */
+export function subscriptionMatches(subscription: AlertSubscription, alerta: Pick<Alerta, "tipo" | "zonas_objetivo">): boolean {
+    if (subscription.tipos.length > 0 && !subscription.tipos.includes(alerta.tipo)) return false;
+    const zonas = alerta.zonas_objetivo ?? [];
+    if (zonas.length === 0) return true;
+    const targets = new Set(zonas.map(normalizePlaceName));
+    return subscription.alcaldias.some((a) => targets.has(normalizePlaceName(a)));
+}
+
+export function formatAlertaMessage(alerta: Pick<Alerta, "titulo" | "mensaje" | "tipo" | "zonas_objetivo">): string {
+    const zonas = alerta.zonas_objetivo?.length ? `\n📍 ${alerta.zonas_objetivo.join(", ")}` : "";
+    return `${TIPO_EMOJI[alerta.tipo] ?? "📢"} *${alerta.titulo}*\n\n${alerta.mensaje}${zonas}\n\n_Responde BAJA para dejar de recibir alertas._`;
+}
+
+export type SendFn = (channel: ChannelName, to: ChannelAddress, text: string) => Promise<boolean>;
+
+/** Default SendFn: straight to the channel (the broadcast keeps its own delivery records and retries). */
+function sendOnChannel(channel: ChannelName, to: ChannelAddress, text: string): Promise<boolean> {
+    return getChannelAdapter(channel).sendText(to, text);
+}
+
+/**
+ * Sends the alert to every matching subscriber, at most ALERTAS_SEND_PER_SECOND messages
+ * per second. Recipients already marked sent are skipped, so a retry only re-sends failures.
+ */
+export async function broadcastAlerta(
+    alerta: Alerta,
+    options: { store?: SubscriptionStore; send?: SendFn; perSecond?: number } = {}
+): Promise<BroadcastResult> {
+    const store = options.store ?? getSubscriptionStore();
+    const send = options.send ?? sendOnChannel;
+    const intervalMs = 1000 / Math.max(options.perSecond ?? SEND_PER_SECOND, 0.01);
+
+    const recipients = (await store.list()).filter((s) => subscriptionMatches(s, alerta));
+    const text = formatAlertaMessage(alerta);
+    const result: BroadcastResult = { alertaId: alerta.id, destinatarios: recipients.length, enviados: 0, fallidos: 0, omitidos: 0 };
+    console.log(`[Alertas] Broadcasting ${alerta.id} (${alerta.tipo}) to ${recipients.length} subscribers`);
+
+    let lastSentAt = 0;
+    for (const subscriber of recipients) {
+        const previous = await store.getDelivery(alerta.id, subscriber.id);
+        if (previous?.status === "sent" || (previous && previous.attempts >= MAX_ATTEMPTS)) {
+            result.omitidos++;
+            continue;
+        }
+
+        const wait = lastSentAt + intervalMs - Date.now();
+        if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+        lastSentAt = Date.now();
+
+        const account = subscriber.account || (subscriber.channel === "evolution" ? EVOLUTION_INSTANCE : "");
+        const ok = await send(subscriber.channel, { account, chatId: subscriber.chatId }, text);
+        await store.saveDelivery({
+            alertaId: alerta.id,
+            subscriberId: subscriber.id,
+            status: ok ? "sent" : "failed",
+            attempts: (previous?.attempts ?? 0) + 1,
+            error: ok ? undefined : `${subscriber.channel} rejected or unreachable`,
+            updatedAt: new Date().toISOString()
+        });
+        if (ok) result.enviados++;
+        else result.fallidos++;
+    }
+
+    await store.markProcessed(alerta.id, recipients.length);
+    console.log(`[Alertas] ${alerta.id}: ${result.enviados} sent, ${result.fallidos} failed, ${result.omitidos} skipped`);
+    return result;
+}
+
+// ============================================
+// Poller (ALERTAS_POLL_SECONDS > 0)
+// ============================================
+
+async function pollAlertas(): Promise<void> {
+    const store = getSubscriptionStore();
+    const alertas: Alerta[] = await fetchAquaHub(`/api/alertas?limit=20`, {}, 1);
+    const minDate = Date.now() - POLL_MAX_AGE_HOURS * 3600 * 1000;
+
+    for (const alerta of alertas ?? []) {
+        if (!alerta.id || new Date(alerta.enviado_en).getTime() < minDate) continue;
+        if (await store.isProcessed(alerta.id)) continue;
+
+        const result = await broadcastAlerta(alerta, { store });
+        // cantidad_destinatarios de la AquaHub API refleja a cuantos se les envio
+        await fetchAquaHub(`/api/alertas/${encodeURIComponent(alerta.id)}`, {
+            method: "PATCH",
+            body: JSON.stringify({ cantidad_destinatarios: result.enviados })
+        }, 1).catch((e) => console.warn(`[Alertas] Could not update cantidad_destinatarios for ${alerta.id}:`, e.message));
+    }
+}
+
+/** Starts polling /api/alertas; returns a stop function (no-op if polling is disabled). */
+export function startAlertPoller(intervalSeconds = Number(process.env.ALERTAS_POLL_SECONDS || 0)): () => void {
+    if (!intervalSeconds || intervalSeconds <= 0) return () => {};
+
+    let running = false;
+    const timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        pollAlertas()
+            .catch((e) => console.error(`[Alertas] Poll failed:`, e instanceof Error ? e.message : e))
+            .finally(() => { running = false; });
+    }, intervalSeconds * 1000);
+    timer.unref();
+    console.log(`[Alertas] Polling /api/alertas every ${intervalSeconds}s`);
+    return () => clearInterval(timer);
+}
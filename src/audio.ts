@@ -0,0 +1,94 @@
+// ============================================
+// WaterHub Audio - ffmpeg conversions for voice notes
+// ============================================
+// Everything that touches audio bytes goes through ffmpeg: voice notes in
+// (any codec -> 16 kHz mono WAV for speech-to-text, stt.ts), voice replies
+// out (TTS audio -> OGG/Opus, tts.ts) and video frames/soundtracks (video.ts).
+
+import { spawn } from "node:child_process";
+
+// ============================================
+// ffmpeg
+// ============================================
+
+const STT_SAMPLE_RATE = 16000;
+
+/**
+ * Runs ffmpeg with `args` (stdin optional, output on stdout). Never throws:
+ * `ok` is false if ffmpeg is missing or exited with an error.
+ */
+export function runFfmpegCommand(args: string[], stdin?: ArrayBuffer | Buffer): Promise<{ ok: boolean; stdout: Buffer; stderr: string }> {
+    return new Promise((resolve) => {
+        const ffmpeg = spawn("ffmpeg", ["-hide_banner", ...args], { stdio: [stdin ? "pipe" : "ignore", "pipe", "pipe"] });
+        const chunks: Buffer[] = [];
+        let stderr = "";
+        ffmpeg.stdout!.on("data", (chunk: Buffer) => chunks.push(chunk));
+        ffmpeg.stderr!.on("data", (chunk: Buffer) => { stderr = (stderr + chunk.toString()).slice(-4000); });
+        ffmpeg.on("error", (e) => {
+            console.error(`[Audio] ffmpeg could not start: ${e.message}`);
+            resolve({ ok: false, stdout: Buffer.alloc(0), stderr: e.message });
+        });
+        ffmpeg.on("close", (code) => resolve({ ok: code === 0, stdout: Buffer.concat(chunks), stderr }));
+        if (stdin) {
+            ffmpeg.stdin!.on("error", () => {});
+            ffmpeg.stdin!.end(Buffer.from(stdin as ArrayBuffer));
+        }
+    });
+}
+
+// Pasa el audio por ffmpeg (stdin -> stdout); null si falla.
+async function runFfmpeg(inputBuffer: ArrayBuffer | Buffer, outputArgs: string[]): Promise<Buffer | null> {
+    const result = await runFfmpegCommand(["-i", "pipe:0", ...outputArgs, "pipe:1"], inputBuffer);
+    if (!result.ok) {
+        console.error(`[Audio] ffmpeg failed: ${result.stderr.trim().split("\n").pop() ?? ""}`);
+        return null;
+    }
+    return result.stdout.length > 0 ? result.stdout : null;
+}
+
+/** True if `ffmpeg -version` runs; checked once at startup. */
+export function checkFfmpeg(): Promise<boolean> {
+    return new Promise((resolve) => {
+        const ffmpeg = spawn("ffmpeg", ["-version"], { stdio: "ignore" });
+        ffmpeg.on("error", () => resolve(false));
+        ffmpeg.on("close", (code) => resolve(code === 0));
+    });
+}
+
+/** 16-bit mono PCM wrapped in a WAV header (ffmpeg can't write a correct one to a pipe). */
+export function pcmToWav(pcm: Buffer, sampleRate = STT_SAMPLE_RATE): Buffer {
+    const header = Buffer.alloc(44);
+    header.write("RIFF", 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write("WAVE", 8);
+    header.write("fmt ", 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write("data", 36);
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Any audio to 16 kHz mono WAV, what Whisper-family models expect. Decodes at
+ * most `maxSeconds + 1` s, so an hour-long upload costs no more than the limit;
+ * `durationSeconds` above the limit means the original is too long.
+ */
+export async function convertAudioForSpeechToText(
+    inputBuffer: ArrayBuffer | Buffer,
+    maxSeconds: number
+): Promise<{ wav: Buffer; durationSeconds: number } | null> {
+    const pcm = await runFfmpeg(inputBuffer, ["-vn", "-t", String(maxSeconds + 1), "-ac", "1", "-ar", String(STT_SAMPLE_RATE), "-f", "s16le"]);
+    if (!pcm) return null;
+    return { wav: pcmToWav(pcm), durationSeconds: pcm.length / (STT_SAMPLE_RATE * 2) };
+}
+
+/** Any audio to a WhatsApp-style voice note: OGG/Opus, mono, 48 kHz. */
+export function convertAudioToOggOpus(inputBuffer: ArrayBuffer | Buffer): Promise<Buffer | null> {
+    return runFfmpeg(inputBuffer, ["-vn", "-ac", "1", "-ar", "48000", "-c:a", "libopus", "-b:a", "32k", "-application", "voip", "-f", "ogg"]);
+}
@@ -0,0 +1,176 @@
+// ============================================
+// WaterHub Channel - Evolution API (WhatsApp)
+// ============================================
+
+import type { IncomingHttpHeaders } from "node:http";
+import {
+    formatChoicesAsText,
+    MAX_LIST_ROWS,
+    MAX_REPLY_BUTTONS,
+    type ChannelAdapter,
+    type ChannelAddress,
+    type InboundMedia,
+    type OutboundChoices,
+    type OutboundLocation,
+    type ParsedInbound
+} from "./channels.js";
+import { getMediaBufferFromMessage } from "./media.js";
+import {
+    sendWhatsAppButtons,
+    sendWhatsAppImage,
+    sendWhatsAppList,
+    sendWhatsAppLocation,
+    sendWhatsAppMessage,
+    sendWhatsAppVoiceNote
+} from "./whatsapp.js";
+
+type EvolutionMedia = { url?: string; directUrl?: string; base64?: string; mimetype?: string };
+
+type EvolutionLocation = {
+    degreesLatitude?: number;
+    degreesLongitude?: number;
+    latitude?: number;
+    longitude?: number;
+    name?: string;
+    address?: string;
+};
+
+export interface EvolutionWebhook {
+    event: string;
+    instance: string;
+    data: {
+        key: { remoteJid: string; fromMe: boolean; id: string };
+        pushName?: string;
+        message?: {
+            conversation?: string;
+            extendedTextMessage?: { text: string };
+            imageMessage?: EvolutionMedia & { caption?: string };
+            /** Foto mandada como documento (sin comprimir, conserva EXIF) */
+            documentMessage?: EvolutionMedia & { caption?: string; fileName?: string };
+            documentWithCaptionMessage?: { message?: { documentMessage?: EvolutionMedia & { caption?: string; fileName?: string } } };
+            locationMessage?: EvolutionLocation;
+            location?: EvolutionLocation;
+            audioMessage?: EvolutionMedia;
+            pttMessage?: EvolutionMedia;
+            audio?: EvolutionMedia;
+            videoMessage?: EvolutionMedia & { caption?: string; seconds?: number };
+            /** Cabecera de un album; cada foto llega despues como imageMessage propio */
+            albumMessage?: { expectedImageCount?: number; expectedVideoCount?: number };
+            buttonsResponseMessage?: { selectedButtonId?: string; selectedDisplayText?: string };
+            templateButtonReplyMessage?: { selectedId?: string; selectedDisplayText?: string };
+            listResponseMessage?: { title?: string; singleSelectReply?: { selectedRowId?: string } };
+        };
+        messageType?: string;
+    };
+}
+
+export class EvolutionAdapter implements ChannelAdapter {
+    readonly name = "evolution" as const;
+    readonly label = "Evolution";
+    readonly kind = "whatsapp" as const;
+    readonly maxTextLength = 4096;
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    verifyRequest(_headers: IncomingHttpHeaders): boolean {
+        return true;
+    }
+
+    parseInbound(body: unknown): ParsedInbound {
+        const payload = body as EvolutionWebhook;
+
+        if (payload?.event !== "messages.upsert") return { ignored: "not a message event" };
+        if (payload.data?.key?.fromMe) return { ignored: "message from self" };
+
+        const remoteJid = payload.data?.key?.remoteJid;
+        if (!remoteJid) return { ignored: "missing remoteJid" };
+
+        const msg = payload.data.message;
+        if (msg?.albumMessage && Object.keys(msg).every((k) => k === "albumMessage" || k === "messageContextInfo")) {
+            return { ignored: "album header" };
+        }
+        const media = (m: EvolutionMedia): InboundMedia => ({
+            mimeType: m.mimetype,
+            ref: { url: m.url, directUrl: m.directUrl, base64: m.base64 },
+            fallbackUrl: m.url || m.directUrl
+        });
+
+        const documentMsg = msg?.documentMessage ?? msg?.documentWithCaptionMessage?.message?.documentMessage;
+        const imageMsg = msg?.imageMessage ?? (documentMsg?.mimetype?.startsWith("image/") ? documentMsg : undefined);
+        const locationMsg = msg?.locationMessage ?? msg?.location;
+        const audioMsg = msg?.audioMessage ?? msg?.pttMessage ?? msg?.audio;
+        const videoMsg = msg?.videoMessage;
+        const choice = this.parseChoice(msg);
+
+        return {
+            messages: [{
+                channel: this.name,
+                messageId: payload.data.key.id,
+                conversationId: remoteJid,
+                address: { account: payload.instance, chatId: remoteJid },
+                senderName: payload.data.pushName,
+                text: msg?.conversation || msg?.extendedTextMessage?.text || undefined,
+                choice,
+                image: imageMsg ? { ...media(imageMsg), caption: imageMsg.caption } : undefined,
+                location: locationMsg
+                    ? {
+                        latitude: locationMsg.degreesLatitude ?? locationMsg.latitude,
+                        longitude: locationMsg.degreesLongitude ?? locationMsg.longitude,
+                        name: locationMsg.name,
+                        address: locationMsg.address
+                    }
+                    : undefined,
+                audio: audioMsg && typeof audioMsg === "object" ? { ...media(audioMsg), voiceNote: !!msg?.pttMessage } : undefined,
+                video: videoMsg ? { ...media(videoMsg), caption: videoMsg.caption } : undefined,
+                rawKinds: msg ? Object.keys(msg) : []
+            }]
+        };
+    }
+
+    private parseChoice(msg: EvolutionWebhook["data"]["message"]): { id: string; title: string } | undefined {
+        const button = msg?.buttonsResponseMessage;
+        if (button?.selectedButtonId) return { id: button.selectedButtonId, title: button.selectedDisplayText || button.selectedButtonId };
+        const template = msg?.templateButtonReplyMessage;
+        if (template?.selectedId) return { id: template.selectedId, title: template.selectedDisplayText || template.selectedId };
+        const list = msg?.listResponseMessage;
+        const rowId = list?.singleSelectReply?.selectedRowId;
+        if (rowId) return { id: rowId, title: list?.title || rowId };
+        return undefined;
+    }
+
+    async downloadMedia(media: InboundMedia, requestId: string, label: string): Promise<ArrayBuffer | null> {
+        const evolutionUrl = process.env.EVOLUTION_API_URL || "";
+        const evolutionKey = process.env.EVOLUTION_API_KEY || "";
+        return getMediaBufferFromMessage(media.ref as EvolutionMedia, evolutionUrl, evolutionKey, requestId, label);
+    }
+
+    sendText(to: ChannelAddress, text: string): Promise<boolean> {
+        return sendWhatsAppMessage(to.account, to.chatId, text);
+    }
+
+    sendImage(to: ChannelAddress, imageUrl: string, caption?: string): Promise<boolean> {
+        return sendWhatsAppImage(to.account, to.chatId, imageUrl, caption);
+    }
+
+    sendLocation(to: ChannelAddress, location: OutboundLocation): Promise<boolean> {
+        return sendWhatsAppLocation(to.account, to.chatId, location);
+    }
+
+    sendVoiceNote(to: ChannelAddress, audioUrl: string): Promise<boolean> {
+        return sendWhatsAppVoiceNote(to.account, to.chatId, audioUrl);
+    }
+
+    async sendChoices(to: ChannelAddress, choices: OutboundChoices): Promise<boolean> {
+        const { options } = choices;
+        let sent = false;
+        if (options.length <= MAX_REPLY_BUTTONS) {
+            sent = await sendWhatsAppButtons(to.account, to.chatId, choices.text, options);
+        } else if (options.length <= MAX_LIST_ROWS) {
+            sent = await sendWhatsAppList(to.account, to.chatId, choices.text, choices.buttonLabel || "Ver opciones", options);
+        }
+        // Algunas instancias (Baileys) no soportan botones: mejor la lista en texto que nada
+        return sent || sendWhatsAppMessage(to.account, to.chatId, formatChoicesAsText(choices));
+    }
+}
@@ -0,0 +1,306 @@
+// ============================================
+// WaterHub Channel - Telegram Bot API
+// ============================================
+// POST /webhook/telegram receives Updates (setWebhook with secret_token =
+// TELEGRAM_WEBHOOK_SECRET; without the secret the channel stays disabled). In
+// groups every neighbour gets their own conversation (chat + user), and replies
+// quote the message they answer. Options go as an inline keyboard; a tap comes
+// back as a callback_query carrying the option id.
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import {
+    formatChoicesAsText,
+    type ChannelAdapter,
+    type ChannelAddress,
+    type InboundMedia,
+    type InboundMessage,
+    type OutboundChoices,
+    type OutboundLocation,
+    type ParsedInbound
+} from "./channels.js";
+
+// ============================================
+// Configuration
+// ============================================
+
+const TELEGRAM_API_URL = process.env.TELEGRAM_API_URL || "https://api.telegram.org";
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
+const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET || "";
+// Limite de Telegram para callback_data
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+// ============================================
+// Types (subset of the Bot API we read)
+// ============================================
+
+interface TelegramFile {
+    file_id: string;
+    mime_type?: string;
+}
+
+interface TelegramUser {
+    id: number;
+    is_bot: boolean;
+    first_name?: string;
+}
+
+interface TelegramMessage {
+    message_id: number;
+    chat: { id: number; type: "private" | "group" | "supergroup" | "channel" };
+    from?: TelegramUser;
+    text?: string;
+    caption?: string;
+    photo?: Array<TelegramFile & { width: number; height: number }>;
+    document?: TelegramFile;
+    location?: { latitude: number; longitude: number };
+    venue?: { location: { latitude: number; longitude: number }; title?: string; address?: string };
+    voice?: TelegramFile;
+    audio?: TelegramFile;
+    video?: TelegramFile;
+    /** Video redondo */
+    video_note?: TelegramFile;
+    reply_markup?: { inline_keyboard?: Array<Array<{ text: string; callback_data?: string }>> };
+}
+
+/** Tap on an inline keyboard button; `message` is the bot message that had the keyboard */
+interface TelegramCallbackQuery {
+    id: string;
+    from: TelegramUser;
+    message?: TelegramMessage;
+    data?: string;
+}
+
+export interface TelegramUpdate {
+    update_id: number;
+    message?: TelegramMessage;
+    callback_query?: TelegramCallbackQuery;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+export class TelegramAdapter implements ChannelAdapter {
+    readonly name = "telegram" as const;
+    readonly label = "Telegram";
+    readonly kind = "telegram" as const;
+    readonly maxTextLength = 4096;
+
+    constructor(
+        private readonly token = TELEGRAM_BOT_TOKEN,
+        private readonly webhookSecret = TELEGRAM_WEBHOOK_SECRET,
+        private readonly apiUrl = TELEGRAM_API_URL
+    ) {}
+
+    isConfigured(): boolean {
+        // Sin secret cualquiera podria mandar updates falsos: no se aceptan webhooks
+        return !!this.token && !!this.webhookSecret;
+    }
+
+    verifyRequest(headers: IncomingHttpHeaders): boolean {
+        if (!this.webhookSecret) return false;
+        const received = String(headers["x-telegram-bot-api-secret-token"] ?? "");
+        const a = createHash("sha256").update(received).digest();
+        const b = createHash("sha256").update(this.webhookSecret).digest();
+        return timingSafeEqual(a, b);
+    }
+
+    parseInbound(body: unknown): ParsedInbound {
+        const update = body as TelegramUpdate;
+        if (update?.callback_query) return this.parseCallbackQuery(update.callback_query);
+        const m = update?.message;
+        if (!m?.chat) return { ignored: "not a message update" };
+        if (m.from?.is_bot) return { ignored: "message from bot" };
+        if (m.chat.type === "channel") return { ignored: "channel post" };
+
+        const isGroup = m.chat.type === "group" || m.chat.type === "supergroup";
+        const chatId = String(m.chat.id);
+        const conversationId = isGroup && m.from ? `telegram:${chatId}:${m.from.id}` : `telegram:${chatId}`;
+
+        // La foto mas grande es la ultima; un documento tambien cuenta si es imagen
+        const photo = m.photo?.length ? m.photo[m.photo.length - 1] : undefined;
+        const imageDoc = !photo && m.document?.mime_type?.startsWith("image/") ? m.document : undefined;
+        const image = photo ?? imageDoc;
+        const audio = m.voice ?? m.audio;
+        const video = m.video ?? m.video_note;
+        const point = m.venue?.location ?? m.location;
+
+        const rawKinds = Object.keys(m).filter((k) => !["message_id", "chat", "from", "date"].includes(k));
+
+        return {
+            messages: [{
+                channel: this.name,
+                messageId: `${chatId}:${m.message_id}`,
+                conversationId,
+                address: {
+                    account: "bot",
+                    chatId,
+                    replyToMessageId: isGroup ? String(m.message_id) : undefined,
+                    // En Telegram el id del usuario es tambien el de su chat privado con el bot
+                    privateChatId: isGroup && m.from ? String(m.from.id) : undefined
+                },
+                senderName: m.from?.first_name,
+                text: m.text || undefined,
+                image: image
+                    ? { mimeType: image.mime_type ?? "image/jpeg", ref: { fileId: image.file_id }, caption: m.caption }
+                    : undefined,
+                location: point
+                    ? { latitude: point.latitude, longitude: point.longitude, name: m.venue?.title, address: m.venue?.address }
+                    : undefined,
+                audio: audio ? { mimeType: audio.mime_type, ref: { fileId: audio.file_id }, voiceNote: !!m.voice } : undefined,
+                video: video ? { mimeType: video.mime_type ?? "video/mp4", ref: { fileId: video.file_id }, caption: m.caption } : undefined,
+                rawKinds
+            }]
+        };
+    }
+
+    private parseCallbackQuery(q: TelegramCallbackQuery): ParsedInbound {
+        const m = q.message;
+        if (!m?.chat || !q.data) return { ignored: "callback without message or data" };
+        if (q.from.is_bot) return { ignored: "callback from bot" };
+
+        const isGroup = m.chat.type === "group" || m.chat.type === "supergroup";
+        const chatId = String(m.chat.id);
+        const button = m.reply_markup?.inline_keyboard?.flat().find((b) => b.callback_data === q.data);
+        return {
+            messages: [{
+                channel: this.name,
+                messageId: `callback:${q.id}`,
+                // Quien toco el boton, no quien recibio el mensaje (en grupos cada vecino tiene su conversacion)
+                conversationId: isGroup ? `telegram:${chatId}:${q.from.id}` : `telegram:${chatId}`,
+                address: {
+                    account: "bot",
+                    chatId,
+                    replyToMessageId: isGroup ? String(m.message_id) : undefined,
+                    privateChatId: isGroup ? String(q.from.id) : undefined
+                },
+                senderName: q.from.first_name,
+                choice: { id: q.data, title: button?.text ?? q.data },
+                ackRef: q.id,
+                rawKinds: ["callback_query"]
+            }]
+        };
+    }
+
+    async acknowledge(message: InboundMessage): Promise<void> {
+        if (message.ackRef) await this.call("answerCallbackQuery", { callback_query_id: message.ackRef });
+    }
+
+    async downloadMedia(media: InboundMedia, requestId: string, label: string): Promise<ArrayBuffer | null> {
+        const fileId = String(media.ref.fileId ?? "");
+        if (!fileId) return null;
+        try {
+            const info = await this.call<{ file_path?: string }>("getFile", { file_id: fileId });
+            if (!info?.file_path) return null;
+            const res = await fetch(`${this.apiUrl}/file/bot${this.token}/${info.file_path}`, { signal: AbortSignal.timeout(15000) });
+            if (!res.ok) {
+                console.warn(`[${requestId}] [Telegram] ${label} download failed: ${res.status}`);
+                return null;
+            }
+            const buf = await res.arrayBuffer();
+            console.log(`[${requestId}] [Telegram] ${label} downloaded, size=${buf.byteLength}`);
+            return buf;
+        } catch (e) {
+            console.warn(`[${requestId}] [Telegram] ${label} download error:`, e);
+            return null;
+        }
+    }
+
+    async sendText(to: ChannelAddress, text: string): Promise<boolean> {
+        return (await this.call("sendMessage", { chat_id: to.chatId, text, ...this.replyTo(to) })) !== null;
+    }
+
+    async sendImage(to: ChannelAddress, imageUrl: string, caption?: string): Promise<boolean> {
+        const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(imageUrl);
+        if (!dataUrl) {
+            return (await this.call("sendPhoto", { chat_id: to.chatId, photo: imageUrl, caption, ...this.replyTo(to) })) !== null;
+        }
+        // Telegram no acepta data URLs: se sube como archivo
+        const form = new FormData();
+        form.append("chat_id", to.chatId);
+        if (caption) form.append("caption", caption);
+        const reply = this.replyTo(to);
+        if (reply.reply_parameters) form.append("reply_parameters", JSON.stringify(reply.reply_parameters));
+        form.append("photo", new Blob([Buffer.from(dataUrl[2], "base64")], { type: dataUrl[1] }), "foto.jpg");
+        return (await this.call("sendPhoto", form)) !== null;
+    }
+
+    async sendVoiceNote(to: ChannelAddress, audioUrl: string): Promise<boolean> {
+        const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(audioUrl);
+        if (!dataUrl) {
+            return (await this.call("sendVoice", { chat_id: to.chatId, voice: audioUrl, ...this.replyTo(to) })) !== null;
+        }
+        const form = new FormData();
+        form.append("chat_id", to.chatId);
+        const reply = this.replyTo(to);
+        if (reply.reply_parameters) form.append("reply_parameters", JSON.stringify(reply.reply_parameters));
+        form.append("voice", new Blob([Buffer.from(dataUrl[2], "base64")], { type: "audio/ogg" }), "voz.ogg");
+        return (await this.call("sendVoice", form)) !== null;
+    }
+
+    async sendLocation(to: ChannelAddress, location: OutboundLocation): Promise<boolean> {
+        if (location.name || location.address) {
+            return (await this.call("sendVenue", {
+                chat_id: to.chatId,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                title: location.name || location.address,
+                address: location.address || "",
+                ...this.replyTo(to)
+            })) !== null;
+        }
+        return (await this.call("sendLocation", {
+            chat_id: to.chatId,
+            latitude: location.latitude,
+            longitude: location.longitude,
+            ...this.replyTo(to)
+        })) !== null;
+    }
+
+    async sendChoices(to: ChannelAddress, choices: OutboundChoices): Promise<boolean> {
+        // Teclado inline: al tocar una opcion llega un callback_query con su id
+        if (choices.options.some((o) => Buffer.byteLength(o.id) > MAX_CALLBACK_DATA_BYTES)) {
+            return this.sendText(to, formatChoicesAsText(choices));
+        }
+        return (await this.call("sendMessage", {
+            chat_id: to.chatId,
+            text: choices.text,
+            reply_markup: {
+                inline_keyboard: choices.options.map((o) => [{ text: o.title, callback_data: o.id }])
+            },
+            ...this.replyTo(to)
+        })) !== null;
+    }
+
+    private replyTo(to: ChannelAddress): { reply_parameters?: { message_id: number; allow_sending_without_reply: boolean } } {
+        if (!to.replyToMessageId) return {};
+        return { reply_parameters: { message_id: Number(to.replyToMessageId), allow_sending_without_reply: true } };
+    }
+
+    /** Bot API call; returns `result` or null (and logs) on any error. */
+    private async call<T = unknown>(method: string, body: Record<string, unknown> | FormData): Promise<T | null> {
+        if (!this.token) {
+            console.error(`[Telegram] TELEGRAM_BOT_TOKEN not configured`);
+            return null;
+        }
+        try {
+            const isForm = body instanceof FormData;
+            const res = await fetch(`${this.apiUrl}/bot${this.token}/${method}`, {
+                method: "POST",
+                headers: isForm ? undefined : { "Content-Type": "application/json" },
+                body: isForm ? body : JSON.stringify(body),
+                signal: AbortSignal.timeout(30000)
+            });
+            const data = (await res.json().catch(() => null)) as { ok?: boolean; result?: T; description?: string } | null;
+            if (!res.ok || !data?.ok) {
+                console.error(`[Telegram] ${method} failed: ${res.status} ${data?.description ?? ""}`);
+                return null;
+            }
+            return (data.result ?? ({} as T));
+        } catch (error) {
+            console.error(`[Telegram] ${method} error:`, error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,294 @@
+// ============================================
+// WaterHub Channel - WhatsApp Cloud API (Meta)
+// ============================================
+// Official alternative to Evolution. GET /webhook/whatsapp answers Meta's
+// verification (hub.verify_token = WHATSAPP_VERIFY_TOKEN); every POST must carry
+// X-Hub-Signature-256 = HMAC-SHA256(raw body, WHATSAPP_APP_SECRET).
+// Conversations use the same "<wa_id>@s.whatsapp.net" id as Evolution, so a
+// citizen keeps their history and reports if a deployment switches channel.
+// Meta only allows free-form replies within 24 h of the citizen's last message.
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import {
+    formatChoicesAsText,
+    MAX_LIST_ROWS,
+    MAX_REPLY_BUTTONS,
+    type ChannelAdapter,
+    type ChannelAddress,
+    type InboundMedia,
+    type InboundMessage,
+    type OutboundChoices,
+    type OutboundLocation,
+    type ParsedInbound
+} from "./channels.js";
+
+// ============================================
+// Configuration
+// ============================================
+
+const WHATSAPP_GRAPH_URL = process.env.WHATSAPP_GRAPH_URL || "https://graph.facebook.com";
+const WHATSAPP_GRAPH_VERSION = process.env.WHATSAPP_GRAPH_VERSION || "v21.0";
+const WHATSAPP_CLOUD_TOKEN = process.env.WHATSAPP_CLOUD_TOKEN || "";
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET || "";
+const WHATSAPP_VERIFY_TOKEN = process.env.WHATSAPP_VERIFY_TOKEN || "";
+
+// ============================================
+// Types (subset of the webhook we read)
+// ============================================
+
+interface CloudMedia {
+    id: string;
+    mime_type?: string;
+    caption?: string;
+    voice?: boolean;
+}
+
+interface CloudMessage {
+    id: string;
+    from: string;
+    type: string;
+    text?: { body: string };
+    image?: CloudMedia;
+    audio?: CloudMedia;
+    video?: CloudMedia;
+    /** Foto mandada como documento (sin comprimir, conserva EXIF) */
+    document?: CloudMedia & { filename?: string };
+    location?: { latitude: number; longitude: number; name?: string; address?: string };
+    interactive?: {
+        type: "button_reply" | "list_reply";
+        button_reply?: { id: string; title: string };
+        list_reply?: { id: string; title: string; description?: string };
+    };
+    /** Quick reply of a template message */
+    button?: { payload: string; text: string };
+}
+
+interface CloudChangeValue {
+    messaging_product?: string;
+    metadata?: { phone_number_id: string; display_phone_number?: string };
+    contacts?: Array<{ wa_id: string; profile?: { name?: string } }>;
+    messages?: CloudMessage[];
+    statuses?: unknown[];
+}
+
+export interface WhatsAppCloudWebhook {
+    object: string;
+    entry?: Array<{ id: string; changes?: Array<{ field: string; value: CloudChangeValue }> }>;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+export class WhatsAppCloudAdapter implements ChannelAdapter {
+    readonly name = "whatsapp_cloud" as const;
+    readonly label = "WhatsAppCloud";
+    readonly kind = "whatsapp" as const;
+    readonly maxTextLength = 4096;
+
+    constructor(
+        private readonly token = WHATSAPP_CLOUD_TOKEN,
+        private readonly appSecret = WHATSAPP_APP_SECRET,
+        private readonly verifyToken = WHATSAPP_VERIFY_TOKEN,
+        private readonly graphUrl = `${WHATSAPP_GRAPH_URL}/${WHATSAPP_GRAPH_VERSION}`
+    ) {}
+
+    isConfigured(): boolean {
+        // Sin app secret no se puede validar la firma: no se aceptan webhooks
+        return !!this.token && !!this.appSecret;
+    }
+
+    verifySubscription(query: Record<string, unknown>): string | null {
+        if (!this.verifyToken) return null;
+        if (query["hub.mode"] !== "subscribe" || query["hub.verify_token"] !== this.verifyToken) return null;
+        return typeof query["hub.challenge"] === "string" ? query["hub.challenge"] : null;
+    }
+
+    verifyRequest(headers: IncomingHttpHeaders, rawBody?: Buffer): boolean {
+        const signature = String(headers["x-hub-signature-256"] ?? "");
+        if (!this.appSecret || !rawBody || !signature.startsWith("sha256=")) return false;
+        const expected = Buffer.from(createHmac("sha256", this.appSecret).update(rawBody).digest("hex"));
+        const received = Buffer.from(signature.slice("sha256=".length));
+        return expected.length === received.length && timingSafeEqual(expected, received);
+    }
+
+    parseInbound(body: unknown): ParsedInbound {
+        const payload = body as WhatsAppCloudWebhook;
+        if (payload?.object !== "whatsapp_business_account") return { ignored: "not a WhatsApp Business webhook" };
+
+        const messages: InboundMessage[] = [];
+        for (const entry of payload.entry ?? []) {
+            for (const change of entry.changes ?? []) {
+                if (change.field !== "messages") continue;
+                const value = change.value;
+                const phoneNumberId = value.metadata?.phone_number_id;
+                if (!phoneNumberId) continue;
+                for (const m of value.messages ?? []) {
+                    messages.push(this.toInbound(m, phoneNumberId, value.contacts));
+                }
+            }
+        }
+
+        // Los recibos de entrega/lectura (statuses) llegan por el mismo webhook
+        if (messages.length === 0) return { ignored: "no messages (status update)" };
+        return { messages };
+    }
+
+    private toInbound(m: CloudMessage, phoneNumberId: string, contacts: CloudChangeValue["contacts"]): InboundMessage {
+        const conversationId = `${m.from}@s.whatsapp.net`;
+        const media = (c: CloudMedia): InboundMedia => ({ mimeType: c.mime_type, ref: { mediaId: c.id } });
+        const image = m.image ?? (m.document?.mime_type?.startsWith("image/") ? m.document : undefined);
+        return {
+            channel: this.name,
+            messageId: m.id,
+            conversationId,
+            address: { account: phoneNumberId, chatId: m.from },
+            senderName: contacts?.find((c) => c.wa_id === m.from)?.profile?.name,
+            text: m.text?.body || undefined,
+            image: image ? { ...media(image), caption: image.caption } : undefined,
+            location: m.location
+                ? { latitude: m.location.latitude, longitude: m.location.longitude, name: m.location.name, address: m.location.address }
+                : undefined,
+            audio: m.audio ? { ...media(m.audio), voiceNote: !!m.audio.voice } : undefined,
+            video: m.video ? { ...media(m.video), caption: m.video.caption } : undefined,
+            choice: this.parseChoice(m),
+            rawKinds: [m.type]
+        };
+    }
+
+    private parseChoice(m: CloudMessage): { id: string; title: string } | undefined {
+        const reply = m.interactive?.button_reply ?? m.interactive?.list_reply;
+        if (reply?.id) return { id: reply.id, title: reply.title };
+        if (m.button?.payload) return { id: m.button.payload, title: m.button.text };
+        return undefined;
+    }
+
+    async downloadMedia(media: InboundMedia, requestId: string, label: string): Promise<ArrayBuffer | null> {
+        const mediaId = String(media.ref.mediaId ?? "");
+        if (!mediaId) return null;
+        try {
+            // Dos pasos: el id da una URL temporal, que tambien pide el token
+            const info = await this.graph<{ url?: string }>(`/${mediaId}`, { method: "GET" });
+            if (!info?.url) return null;
+            const res = await fetch(info.url, {
+                headers: { Authorization: `Bearer ${this.token}` },
+                signal: AbortSignal.timeout(15000)
+            });
+            if (!res.ok) {
+                console.warn(`[${requestId}] [WhatsAppCloud] ${label} download failed: ${res.status}`);
+                return null;
+            }
+            const buf = await res.arrayBuffer();
+            console.log(`[${requestId}] [WhatsAppCloud] ${label} downloaded, size=${buf.byteLength}`);
+            return buf;
+        } catch (e) {
+            console.warn(`[${requestId}] [WhatsAppCloud] ${label} download error:`, e);
+            return null;
+        }
+    }
+
+    async sendText(to: ChannelAddress, text: string): Promise<boolean> {
+        return this.sendMessage(to, { type: "text", text: { body: text, preview_url: true } }, "message");
+    }
+
+    async sendImage(to: ChannelAddress, imageUrl: string, caption?: string): Promise<boolean> {
+        const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(imageUrl);
+        if (!dataUrl) {
+            return this.sendMessage(to, { type: "image", image: { link: imageUrl, caption } }, "image");
+        }
+        // Meta no acepta data URLs: se sube el archivo y se manda por id
+        const mediaId = await this.uploadMedia(to, dataUrl[1], dataUrl[2], "foto.jpg");
+        if (!mediaId) return false;
+        return this.sendMessage(to, { type: "image", image: { id: mediaId, caption } }, "image");
+    }
+
+    async sendVoiceNote(to: ChannelAddress, audioUrl: string): Promise<boolean> {
+        const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(audioUrl);
+        if (!dataUrl) {
+            return this.sendMessage(to, { type: "audio", audio: { link: audioUrl } }, "voice note");
+        }
+        // OGG/Opus mono se muestra como nota de voz
+        const mediaId = await this.uploadMedia(to, "audio/ogg", dataUrl[2], "voz.ogg");
+        if (!mediaId) return false;
+        return this.sendMessage(to, { type: "audio", audio: { id: mediaId } }, "voice note");
+    }
+
+    private async uploadMedia(to: ChannelAddress, mimeType: string, base64: string, filename: string): Promise<string | null> {
+        const form = new FormData();
+        form.append("messaging_product", "whatsapp");
+        form.append("type", mimeType);
+        form.append("file", new Blob([Buffer.from(base64, "base64")], { type: mimeType }), filename);
+        const uploaded = await this.graph<{ id?: string }>(`/${to.account}/media`, { method: "POST", body: form });
+        return uploaded?.id ?? null;
+    }
+
+    async sendLocation(to: ChannelAddress, location: OutboundLocation): Promise<boolean> {
+        return this.sendMessage(to, { type: "location", location }, "location");
+    }
+
+    async sendChoices(to: ChannelAddress, choices: OutboundChoices): Promise<boolean> {
+        const { options } = choices;
+        // Limites de Meta: 20 caracteres por boton, 24 por fila, 72 por descripcion
+        if (options.length <= MAX_REPLY_BUTTONS) {
+            return this.sendMessage(to, {
+                type: "interactive",
+                interactive: {
+                    type: "button",
+                    body: { text: choices.text },
+                    action: { buttons: options.map((o) => ({ type: "reply", reply: { id: o.id, title: o.title.slice(0, 20) } })) }
+                }
+            }, "buttons");
+        }
+        if (options.length <= MAX_LIST_ROWS) {
+            return this.sendMessage(to, {
+                type: "interactive",
+                interactive: {
+                    type: "list",
+                    body: { text: choices.text },
+                    action: {
+                        button: (choices.buttonLabel || "Ver opciones").slice(0, 20),
+                        sections: [{
+                            rows: options.map((o) => ({ id: o.id, title: o.title.slice(0, 24), description: o.description?.slice(0, 72) }))
+                        }]
+                    }
+                }
+            }, "list");
+        }
+        return this.sendText(to, formatChoicesAsText(choices));
+    }
+
+    private async sendMessage(to: ChannelAddress, message: Record<string, unknown>, what: string): Promise<boolean> {
+        const result = await this.graph(`/${to.account}/messages`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ messaging_product: "whatsapp", recipient_type: "individual", to: to.chatId, ...message })
+        });
+        if (!result) console.error(`[WhatsAppCloud] Failed to send ${what}`);
+        return result !== null;
+    }
+
+    /** Graph API call; returns the JSON body or null (and logs) on any error. */
+    private async graph<T = unknown>(path: string, init: RequestInit): Promise<T | null> {
+        if (!this.token) {
+            console.error(`[WhatsAppCloud] WHATSAPP_CLOUD_TOKEN not configured`);
+            return null;
+        }
+        try {
+            const res = await fetch(`${this.graphUrl}${path}`, {
+                ...init,
+                headers: { ...(init.headers as Record<string, string> | undefined), Authorization: `Bearer ${this.token}` },
+                signal: AbortSignal.timeout(30000)
+            });
+            const data = (await res.json().catch(() => null)) as (T & { error?: { message?: string } }) | null;
+            if (!res.ok) {
+                console.error(`[WhatsAppCloud] ${init.method} ${path.split("/").pop()} failed: ${res.status} ${data?.error?.message ?? ""}`);
+                return null;
+            }
+            return data ?? ({} as T);
+        } catch (error) {
+            console.error(`[WhatsAppCloud] ${init.method} ${path.split("/").pop()} error:`, error);
+            return null;
+        }
+    }
+}
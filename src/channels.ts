@@ -0,0 +1,149 @@
+// ============================================
+// WaterHub Channels - one shape for every messaging app
+// ============================================
+// Each channel (Evolution/WhatsApp, WhatsApp Cloud API, Telegram) parses its
+// webhook into InboundMessages and knows how to send text, images, pins,
+// buttons/lists and voice notes back. Everything
+// in between (media download, location, transcription, debounce, queue, agents)
+// is shared and lives in inbound.ts.
+// InboundMessage travels through the job queue, so it must stay plain JSON.
+
+import type { IncomingHttpHeaders } from "node:http";
+import type { ChannelKind, ChoiceOption } from "./types.js";
+import { EvolutionAdapter } from "./channel-evolution.js";
+import { TelegramAdapter } from "./channel-telegram.js";
+import { WhatsAppCloudAdapter } from "./channel-whatsapp-cloud.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type ChannelName = "evolution" | "whatsapp_cloud" | "telegram";
+
+/** Where to send replies. */
+export interface ChannelAddress {
+    /** Evolution instance / Cloud API phone_number_id / Telegram bot */
+    account: string;
+    /** remoteJid / Telegram chat id */
+    chatId: string;
+    /** En grupos se responde citando el mensaje para que se vea a quien */
+    replyToMessageId?: string;
+    /** Chat privado de quien escribio en un grupo: ahi van los avisos (alertas, estado de reportes), nunca al grupo */
+    privateChatId?: string;
+}
+
+export interface InboundMedia {
+    mimeType?: string;
+    /** Whatever the adapter needs to download the file (Evolution message object, Telegram file_id) */
+    ref: Record<string, unknown>;
+    /** Used as-is if the download fails (e.g. a public URL the model can fetch) */
+    fallbackUrl?: string;
+}
+
+export interface InboundLocation {
+    latitude?: number;
+    longitude?: number;
+    name?: string;
+    address?: string;
+}
+
+export interface InboundMessage {
+    channel: ChannelName;
+    /** Unique per account; used for idempotency */
+    messageId: string;
+    /** Conversation key for the agent, the queue and the debounce (WhatsApp: the remoteJid) */
+    conversationId: string;
+    address: ChannelAddress;
+    senderName?: string;
+    text?: string;
+    image?: InboundMedia & { caption?: string };
+    location?: InboundLocation;
+    audio?: InboundMedia & { voiceNote: boolean };
+    video?: InboundMedia & { caption?: string };
+    /** Reply to a button or list row we sent (id = ChoiceOption.id) */
+    choice?: { id: string; title: string };
+    /** What the channel needs to confirm the message was received (Telegram: callback_query id) */
+    ackRef?: string;
+    /** Raw message parts, for the log when nothing usable came in */
+    rawKinds: string[];
+}
+
+/**
+ * Who wrote in, for anything we send back later (status notices, alerts).
+ * Only ever stored privately; links and subscriptions are keyed by hashSender(senderKey).
+ */
+export interface ChannelSender {
+    channel: ChannelName;
+    /** The conversationId (WhatsApp: remoteJid, so Evolution and Cloud API share it) */
+    senderKey: string;
+    /** Where later messages go; without reply quoting, they do not answer a message */
+    address: ChannelAddress;
+}
+
+/** One webhook can carry several messages (the Cloud API batches them). */
+export type ParsedInbound = { messages: InboundMessage[] } | { ignored: string };
+
+export interface OutboundLocation {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+}
+
+/** Buttons (up to 3 options) or a list (up to 10); longer menus go as numbered text. */
+export interface OutboundChoices {
+    text: string;
+    /** Label of the button that opens the list */
+    buttonLabel?: string;
+    options: ChoiceOption[];
+}
+
+export const MAX_REPLY_BUTTONS = 3;
+export const MAX_LIST_ROWS = 10;
+
+/** Fallback for channels (or accounts) without interactive messages. */
+export function formatChoicesAsText(choices: OutboundChoices): string {
+    const lines = choices.options.map((o, i) => `${i + 1}. ${o.title}${o.description ? ` - ${o.description}` : ""}`);
+    return [choices.text, "", ...lines].join("\n");
+}
+
+export interface ChannelAdapter {
+    readonly name: ChannelName;
+    /** Prefix for log lines */
+    readonly label: string;
+    /** WorkflowInput.metadata.channel */
+    readonly kind: ChannelKind;
+    /** Longest text the channel accepts in one message; longer replies are split */
+    readonly maxTextLength: number;
+    isConfigured(): boolean;
+    /** Checks the webhook came from the channel (shared secret header or body signature). */
+    verifyRequest(headers: IncomingHttpHeaders, rawBody?: Buffer): boolean;
+    /** Confirms a message that carries an ackRef (e.g. stops the spinner on a tapped button). */
+    acknowledge?(message: InboundMessage): Promise<void>;
+    /** GET handshake some channels use to register the webhook; returns the challenge to echo or null. */
+    verifySubscription?(query: Record<string, unknown>): string | null;
+    parseInbound(body: unknown): ParsedInbound;
+    downloadMedia(media: InboundMedia, requestId: string, label: string): Promise<ArrayBuffer | null>;
+    sendText(to: ChannelAddress, text: string): Promise<boolean>;
+    sendImage(to: ChannelAddress, imageUrl: string, caption?: string): Promise<boolean>;
+    sendLocation(to: ChannelAddress, location: OutboundLocation): Promise<boolean>;
+    sendChoices(to: ChannelAddress, choices: OutboundChoices): Promise<boolean>;
+    /** Sends an OGG/Opus data URL as a voice note (not as a file). */
+    sendVoiceNote(to: ChannelAddress, audioUrl: string): Promise<boolean>;
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+// Se crean al primer uso: los adaptadores importan helpers de este modulo
+let channelAdapters: Record<ChannelName, ChannelAdapter> | null = null;
+
+export function getChannelAdapter(name: ChannelName): ChannelAdapter {
+    channelAdapters ??= {
+        evolution: new EvolutionAdapter(),
+        whatsapp_cloud: new WhatsAppCloudAdapter(),
+        telegram: new TelegramAdapter()
+    };
+    return channelAdapters[name];
+}
@@ -0,0 +1,101 @@
+// ============================================
+// AquaHub Clients - Postgres, Supabase, AquaHub REST API
+// ============================================
+
+import { config } from "dotenv";
+config();
+
+import * as dns from "node:dns";
+dns.setDefaultResultOrder("ipv4first");
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { Pool } from "pg";
+
+// ============================================
+// Configuration
+// ============================================
+
+const AQUAHUB_API_BASE = process.env.AQUAHUB_API_URL || "http://localhost:8000";
+
+// Mapa publico de WaterHub (siempre con / final)
+export const WATERHUB_MAP_URL = (process.env.WATERHUB_MAP_URL || "https://aquahub.whoopflow.com/").replace(/\/?$/, "/");
+
+let dbPool: Pool | null = null;
+let supabaseClient: SupabaseClient | null = null;
+let supabaseServiceClient: SupabaseClient | null = null;
+
+export function getSupabase(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_ANON_KEY;
+    if (!url || !key) return null;
+    if (!supabaseClient) supabaseClient = createClient(url, key);
+    return supabaseClient;
+}
+
+// Service role: solo para escrituras que la anon key no tiene permitidas (cambios de estado)
+export function getSupabaseService(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_KEY;
+    if (!url || !key) return null;
+    if (!supabaseServiceClient) supabaseServiceClient = createClient(url, key);
+    return supabaseServiceClient;
+}
+
+export function getDbPool(): Pool | null {
+    const url = process.env.DATABASE_URL || process.env.SUPABASE_DB_URL;
+    if (!url || !url.startsWith("postgresql://")) return null;
+    if (!dbPool) dbPool = new Pool({ connectionString: url, ssl: { rejectUnauthorized: false } });
+    return dbPool;
+}
+
+// ============================================
+// AquaHub REST API
+// ============================================
+
+export async function fetchAquaHub(
+    path: string,
+    options: RequestInit = {},
+    maxRetries = 3,
+    delayMs = 1000
+): Promise<any> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+            const url = `${AQUAHUB_API_BASE}${path}`;
+            console.log(`[AquaHub API] ${options.method || 'GET'} ${url} (attempt ${attempt})`);
+
+            const response = await fetch(url, {
+                ...options,
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...options.headers
+                },
+                signal: AbortSignal.timeout(30000)
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text().catch(() => "");
+                if (response.status === 500) {
+                    console.error(`[AquaHub API] 500 Internal Server Error - response body:`, errorBody);
+                }
+                if (attempt < maxRetries) {
+                    console.warn(`[AquaHub API] Attempt ${attempt} failed: ${response.status} ${errorBody.substring(0, 200)}`);
+                    await new Promise(r => setTimeout(r, delayMs * attempt));
+                    continue;
+                }
+                throw new Error(`API error ${response.status}: ${errorBody}`);
+            }
+
+            return await response.json();
+        } catch (error) {
+            lastError = error as Error;
+            if (attempt < maxRetries) {
+                console.warn(`[AquaHub API] Attempt ${attempt} error: ${lastError.message}`);
+                await new Promise(r => setTimeout(r, delayMs * attempt));
+            }
+        }
+    }
+
+    throw lastError || new Error("Request failed after retries");
+}
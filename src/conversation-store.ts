@@ -0,0 +1,329 @@
+// ============================================
+// WaterHub Conversation Store - Memory / Redis / Postgres
+// ============================================
+// Backend is selected with CONVERSATION_STORE (memory | redis | postgres).
+// Every save is versioned: a write only succeeds if the stored entry still
+// has the version that was read, so two replicas never overwrite each other.
+
+import type { AgentInputItem } from "@openai/agents";
+import { Redis } from "ioredis";
+import type { Pool } from "pg";
+import type { Classification } from "./types.js";
+import type { ReportDraft } from "./report-draft.js";
+import { getDbPool } from "./clients.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ConversationEntry {
+    history: AgentInputItem[];
+    lastAccess: Date;
+    classification?: Classification;
+    ciudadanoNombre?: string;
+    alcaldia?: string;
+    /** Borrador del reporte Subir Voz en curso (o el ultimo enviado) */
+    reportDraft?: ReportDraft;
+    /** IDs de pedidos de pipa creados en esta conversacion (el mas reciente al final) */
+    pedidos?: string[];
+    /** Incrementa en cada save; 0 = todavia no persistida */
+    version: number;
+}
+
+export interface ConversationStore {
+    readonly name: string;
+    get(id: string): Promise<ConversationEntry | null>;
+    /**
+     * Persists the entry if the stored version still equals `entry.version`.
+     * Returns the saved entry (with the new version) or throws ConversationVersionConflictError.
+     */
+    save(id: string, entry: ConversationEntry): Promise<ConversationEntry>;
+    size(): Promise<number>;
+    close(): Promise<void>;
+}
+
+export class ConversationVersionConflictError extends Error {
+    constructor(public readonly conversationId: string, public readonly expectedVersion: number) {
+        super(`Conversation ${conversationId} was modified concurrently (expected version ${expectedVersion})`);
+        this.name = "ConversationVersionConflictError";
+    }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONVERSATION_TTL_MS = Number(process.env.CONVERSATION_TTL_SECONDS || 3600) * 1000;
+const MAX_SAVE_ATTEMPTS = 3;
+
+export function createEmptyConversation(): ConversationEntry {
+    return {
+        history: [],
+        lastAccess: new Date(),
+        version: 0
+    };
+}
+
+function serializeEntry(entry: ConversationEntry): string {
+    return JSON.stringify({ ...entry, lastAccess: entry.lastAccess.toISOString() });
+}
+
+function deserializeEntry(raw: string | Record<string, unknown>): ConversationEntry {
+    const data = (typeof raw === "string" ? JSON.parse(raw) : raw) as Omit<ConversationEntry, "lastAccess"> & { lastAccess: string };
+    return { ...data, lastAccess: new Date(data.lastAccess) };
+}
+
+// ============================================
+// In-Memory Store (default, single process)
+// ============================================
+
+export class InMemoryConversationStore implements ConversationStore {
+    readonly name = "memory";
+    private readonly entries = new Map<string, ConversationEntry>();
+    private readonly sweepTimer: NodeJS.Timeout;
+
+    constructor(private readonly ttlMs = CONVERSATION_TTL_MS) {
+        // Cleanup old conversations
+        this.sweepTimer = setInterval(() => {
+            const now = Date.now();
+            for (const [id, entry] of this.entries.entries()) {
+                if (now - entry.lastAccess.getTime() > this.ttlMs) {
+                    this.entries.delete(id);
+                }
+            }
+        }, 300000);
+        this.sweepTimer.unref();
+    }
+
+    async get(id: string): Promise<ConversationEntry | null> {
+        const existing = this.entries.get(id);
+        if (!existing) return null;
+        if (Date.now() - existing.lastAccess.getTime() > this.ttlMs) {
+            this.entries.delete(id);
+            return null;
+        }
+        // Copia para que los cambios solo cuenten al hacer save()
+        return deserializeEntry(serializeEntry(existing));
+    }
+
+    async save(id: string, entry: ConversationEntry): Promise<ConversationEntry> {
+        const currentVersion = this.entries.get(id)?.version ?? 0;
+        if (currentVersion !== entry.version) {
+            throw new ConversationVersionConflictError(id, entry.version);
+        }
+        const saved: ConversationEntry = { ...entry, lastAccess: new Date(), version: entry.version + 1 };
+        this.entries.set(id, deserializeEntry(serializeEntry(saved)));
+        return saved;
+    }
+
+    async size(): Promise<number> {
+        return this.entries.size;
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.sweepTimer);
+    }
+}
+
+// ============================================
+// Redis Store
+// ============================================
+
+// Compare-and-set: solo escribe si la version guardada coincide (0 = no existe).
+const REDIS_CAS_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+local expected = tonumber(ARGV[2])
+if current then
+    if cjson.decode(current).version ~= expected then return 0 end
+elseif expected ~= 0 then
+    return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[3])
+return 1
+`;
+
+export class RedisConversationStore implements ConversationStore {
+    readonly name = "redis";
+    private readonly redis: Redis;
+
+    constructor(
+        redisUrl: string,
+        private readonly ttlMs = CONVERSATION_TTL_MS,
+        private readonly keyPrefix = "waterhub:conversation:"
+    ) {
+        this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+        this.redis.on("error", (e) => console.error(`[ConversationStore:redis] Error:`, e.message));
+    }
+
+    async get(id: string): Promise<ConversationEntry | null> {
+        const raw = await this.redis.get(this.keyPrefix + id);
+        return raw ? deserializeEntry(raw) : null;
+    }
+
+    async save(id: string, entry: ConversationEntry): Promise<ConversationEntry> {
+        const saved: ConversationEntry = { ...entry, lastAccess: new Date(), version: entry.version + 1 };
+        const ok = await this.redis.eval(
+            REDIS_CAS_SCRIPT,
+            1,
+            this.keyPrefix + id,
+            serializeEntry(saved),
+            String(entry.version),
+            String(this.ttlMs)
+        );
+        if (ok !== 1) {
+            throw new ConversationVersionConflictError(id, entry.version);
+        }
+        return saved;
+    }
+
+    async size(): Promise<number> {
+        let count = 0;
+        let cursor = "0";
+        do {
+            const [next, keys] = await this.redis.scan(cursor, "MATCH", `${this.keyPrefix}*`, "COUNT", 500);
+            cursor = next;
+            count += keys.length;
+        } while (cursor !== "0");
+        return count;
+    }
+
+    async close(): Promise<void> {
+        await this.redis.quit();
+    }
+}
+
+// ============================================
+// Postgres Store
+// ============================================
+
+export class PostgresConversationStore implements ConversationStore {
+    readonly name = "postgres";
+    private ready: Promise<void> | null = null;
+    private readonly sweepTimer: NodeJS.Timeout;
+
+    constructor(
+        private readonly pool: Pool,
+        private readonly ttlMs = CONVERSATION_TTL_MS,
+        private readonly table = "public.waterhub_conversations"
+    ) {
+        this.sweepTimer = setInterval(() => {
+            this.pool
+                .query(`DELETE FROM ${this.table} WHERE expires_at <= NOW()`)
+                .catch((e) => console.error(`[ConversationStore:postgres] Sweep error:`, e));
+        }, 300000);
+        this.sweepTimer.unref();
+    }
+
+    private ensureTable(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.pool
+                .query(
+                    `CREATE TABLE IF NOT EXISTS ${this.table} (
+                        id TEXT PRIMARY KEY,
+                        data JSONB NOT NULL,
+                        version INTEGER NOT NULL,
+                        expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+                    )`
+                )
+                .then(() => undefined)
+                .catch((e) => {
+                    this.ready = null;
+                    throw e;
+                });
+        }
+        return this.ready;
+    }
+
+    async get(id: string): Promise<ConversationEntry | null> {
+        await this.ensureTable();
+        const res = await this.pool.query(
+            `SELECT data FROM ${this.table} WHERE id = $1 AND expires_at > NOW()`,
+            [id]
+        );
+        const row = res.rows?.[0] as { data: Record<string, unknown> } | undefined;
+        return row ? deserializeEntry(row.data) : null;
+    }
+
+    async save(id: string, entry: ConversationEntry): Promise<ConversationEntry> {
+        await this.ensureTable();
+        const saved: ConversationEntry = { ...entry, lastAccess: new Date(), version: entry.version + 1 };
+        const expiresAt = new Date(Date.now() + this.ttlMs);
+        const data = serializeEntry(saved);
+
+        // version 0: fila nueva (o una expirada que aun no barre el sweep)
+        const res = entry.version === 0
+            ? await this.pool.query(
+                `INSERT INTO ${this.table} (id, data, version, expires_at)
+                 VALUES ($1, $2::jsonb, $3, $4)
+                 ON CONFLICT (id) DO UPDATE SET data = EXCLUDED.data, version = EXCLUDED.version, expires_at = EXCLUDED.expires_at
+                 WHERE ${this.table}.expires_at <= NOW()`,
+                [id, data, saved.version, expiresAt]
+            )
+            : await this.pool.query(
+                `UPDATE ${this.table} SET data = $2::jsonb, version = $3, expires_at = $4
+                 WHERE id = $1 AND version = $5 AND expires_at > NOW()`,
+                [id, data, saved.version, expiresAt, entry.version]
+            );
+
+        if (res.rowCount !== 1) {
+            throw new ConversationVersionConflictError(id, entry.version);
+        }
+        return saved;
+    }
+
+    async size(): Promise<number> {
+        await this.ensureTable();
+        const res = await this.pool.query(`SELECT COUNT(*)::int AS count FROM ${this.table} WHERE expires_at > NOW()`);
+        return res.rows?.[0]?.count ?? 0;
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.sweepTimer);
+    }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+export function createConversationStore(kind = process.env.CONVERSATION_STORE || "memory"): ConversationStore {
+    switch (kind) {
+        case "redis": {
+            const url = process.env.REDIS_URL;
+            if (!url) throw new Error("CONVERSATION_STORE=redis requires REDIS_URL");
+            return new RedisConversationStore(url);
+        }
+        case "postgres": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("CONVERSATION_STORE=postgres requires DATABASE_URL (postgresql://...)");
+            return new PostgresConversationStore(pool);
+        }
+        case "memory":
+            return new InMemoryConversationStore();
+        default:
+            throw new Error(`Unknown CONVERSATION_STORE: ${kind} (use memory, redis or postgres)`);
+    }
+}
+
+/**
+ * Loads the conversation, applies `mutate` and saves it. On a version conflict
+ * (another replica saved first) the latest entry is reloaded and `mutate` re-applied.
+ */
+export async function updateConversation(
+    store: ConversationStore,
+    id: string,
+    mutate: (entry: ConversationEntry) => void
+): Promise<ConversationEntry> {
+    for (let attempt = 1; ; attempt++) {
+        const entry = (await store.get(id)) ?? createEmptyConversation();
+        mutate(entry);
+        try {
+            return await store.save(id, entry);
+        } catch (error) {
+            if (!(error instanceof ConversationVersionConflictError) || attempt >= MAX_SAVE_ATTEMPTS) {
+                throw error;
+            }
+            console.warn(`[ConversationStore:${store.name}] Version conflict on ${id}, retrying (attempt ${attempt})`);
+        }
+    }
+}
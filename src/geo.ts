@@ -0,0 +1,131 @@
+// ============================================
+// WaterHub Geo helpers
+// ============================================
+
+const EARTH_RADIUS_M = 6371000;
+
+function toRad(deg: number): number {
+    return (deg * Math.PI) / 180;
+}
+
+/** Great-circle distance in meters between two lat/lng points. */
+export function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/** Rectangulo que contiene el circulo de `radiusM` (para prefiltrar en SQL antes del haversine). */
+export function boundingBox(lat: number, lng: number, radiusM: number): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+    const dLat = (radiusM / EARTH_RADIUS_M) * (180 / Math.PI);
+    const dLng = dLat / Math.max(Math.cos(toRad(lat)), 0.01);
+    return { minLat: lat - dLat, maxLat: lat + dLat, minLng: lng - dLng, maxLng: lng + dLng };
+}
+
+/** Compara colonias/alcaldias sin acentos, mayusculas ni prefijo "Col.". */
+export function normalizePlaceName(name: string): string {
+    return name
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/^col(onia)?\.?\s+/, "")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// ============================================
+// Reverse Geocoding (Google Maps API)
+// ============================================
+
+export interface AddressComponent {
+    long_name: string;
+    short_name: string;
+    types: string[];
+}
+
+/** "Calle 12, Col. X, Alcaldia, CP 00000" from Google address components. */
+export function buildAddressFromComponents(components: AddressComponent[]): string | null {
+    const get = (type: string) => components.find((c) => c.types.includes(type))?.long_name || "";
+    const route = get("route");
+    const streetNumber = get("street_number");
+    const sublocality = get("sublocality") || get("sublocality_level_1");
+    const locality = get("locality");
+    const admin2 = get("administrative_area_level_2");
+    const postalCode = get("postal_code");
+    const parts: string[] = [];
+    if (route) parts.push(streetNumber ? `${route} ${streetNumber}` : route);
+    if (sublocality) parts.push(`Col. ${sublocality}`);
+    else if (locality) parts.push(locality);
+    if (admin2) parts.push(admin2);
+    if (postalCode) parts.push(`CP ${postalCode}`);
+    return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function hasStreetOrColonia(components: AddressComponent[]): boolean {
+    const types = new Set(components.flatMap((c) => c.types));
+    return types.has("route") || types.has("street_number") || types.has("sublocality") || types.has("sublocality_level_1");
+}
+
+// state = entidad federativa (ej. Ciudad de México / CDMX). alcaldia = la que varía (ej. Álvaro Obregón, Benito Juárez).
+function getAlcaldiaAndState(components: AddressComponent[]): { alcaldia: string; state: string } {
+    const getLong = (type: string) => components.find((c) => c.types.includes(type))?.long_name || "";
+    const getShort = (type: string) => components.find((c) => c.types.includes(type))?.short_name || "";
+    const locality = getLong("locality");
+    const admin2 = getLong("administrative_area_level_2");
+    const state = getShort("administrative_area_level_1") || getLong("administrative_area_level_1");
+    const alcaldia = admin2 || locality;
+    return { alcaldia, state };
+}
+
+function appendAlcaldiaAndStateIfMissing(address: string, alcaldia: string, state: string): string {
+    const lower = address.toLowerCase();
+    const hasAlcaldia = alcaldia && lower.includes(alcaldia.toLowerCase());
+    const hasState = state && lower.includes(state.toLowerCase());
+    if (hasAlcaldia && hasState) return address;
+    const extra: string[] = [];
+    if (!hasAlcaldia && alcaldia) extra.push(alcaldia);
+    if (!hasState && state && state !== alcaldia) extra.push(state);
+    return extra.length ? `${address}, ${extra.join(", ")}` : address;
+}
+
+/** Google reverse geocode tuned for CDMX: calle + colonia + alcaldia when available. */
+export async function reverseGeocode(lat: number, lng: number): Promise<string | null> {
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    if (!apiKey) return null;
+    try {
+        const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&key=${apiKey}&language=es`;
+        const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
+        if (!res.ok) return null;
+        const data = (await res.json()) as {
+            results?: { address_components?: AddressComponent[]; formatted_address?: string }[];
+        };
+        const results = data.results || [];
+        if (results.length === 0) return null;
+
+        const firstComps = results[0]?.address_components || [];
+        const { alcaldia, state } = getAlcaldiaAndState(firstComps);
+
+        let bestBuilt: string | null = null;
+        let bestFormatted: string | null = null;
+
+        for (const r of results) {
+            const comps = r.address_components || [];
+            const built = comps.length ? buildAddressFromComponents(comps) : null;
+            const formatted = r.formatted_address || null;
+            if (built && hasStreetOrColonia(comps)) {
+                return appendAlcaldiaAndStateIfMissing(built, alcaldia, state);
+            }
+            if (built && built.length > (bestBuilt?.length ?? 0)) bestBuilt = built;
+            if (formatted && formatted.length > (bestFormatted?.length ?? 0)) bestFormatted = formatted;
+        }
+
+        if (bestBuilt && (bestBuilt.length >= 15 || (bestBuilt.includes("Col.") || bestBuilt.includes(",")))) {
+            return appendAlcaldiaAndStateIfMissing(bestBuilt, alcaldia, state);
+        }
+        if (bestFormatted) return bestFormatted;
+        return bestBuilt ? appendAlcaldiaAndStateIfMissing(bestBuilt, alcaldia, state) : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,374 @@
+// ============================================
+// WaterHub Geocoding - typed addresses to map coordinates
+// ============================================
+// A report with only a typed address ("Av. Universidad 123, Col. Centro") has no
+// pin on the map. Before it is saved the address goes to a provider; a single
+// confident match becomes the coordinates (with its confidence recorded), several
+// distinct places or a weak match are offered to the citizen to pick from.
+// GEOCODING_PROVIDER=google (default with GOOGLE_MAPS_API_KEY) | nominatim | gazetteer | none
+
+import { readFileSync } from "node:fs";
+import { buildAddressFromComponents, haversineMeters, normalizePlaceName, type AddressComponent } from "./geo.js";
+
+// ============================================
+// Types
+// ============================================
+
+/** How specific the match is: a house number, a street, a colonia or only the alcaldia. */
+export type GeocodePrecision = "exacta" | "calle" | "colonia" | "alcaldia";
+
+export interface GeocodeMatch {
+    latitud: number;
+    longitud: number;
+    /** Address as the provider understood it */
+    direccion: string;
+    colonia?: string;
+    alcaldia?: string;
+    precision: GeocodePrecision;
+    /** 0-1: how sure the provider is that this is the place the citizen typed */
+    confianza: number;
+}
+
+export interface GeocodeHint {
+    colonia?: string | null;
+    alcaldia?: string | null;
+}
+
+export interface GeocodingProvider {
+    readonly name: string;
+    /** Candidates for the address, best first. Throws if the provider fails. */
+    geocode(query: string): Promise<GeocodeMatch[]>;
+}
+
+export type GeocodeOutcome =
+    | { status: "resolved"; match: GeocodeMatch }
+    | { status: "ambiguous"; candidates: GeocodeMatch[] }
+    | { status: "not_found" };
+
+// ============================================
+// Configuration
+// ============================================
+
+const GEOCODING_MIN_CONFIDENCE = Number(process.env.GEOCODING_MIN_CONFIDENCE || 0.8);
+// Candidatos a menos de esto del mejor son el mismo lugar, no una ambiguedad
+const SAME_PLACE_METERS = 250;
+// Un rival con confianza cercana a la del mejor obliga a preguntar
+const RIVAL_MARGIN = 0.2;
+const MAX_CANDIDATES = 3;
+const GEOCODING_TIMEOUT_MS = 5000;
+const NOMINATIM_URL = (process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org").replace(/\/$/, "");
+// La politica de Nominatim pide identificar la aplicacion
+const NOMINATIM_USER_AGENT = process.env.NOMINATIM_USER_AGENT || "WaterHub/1.0 (agente de reportes de agua CDMX)";
+const GEOCODING_GAZETTEER_FILE = process.env.GEOCODING_GAZETTEER_FILE || "";
+
+// Zona de busqueda preferida: Ciudad de Mexico (sur, oeste, norte, este)
+const CDMX_BOUNDS = { south: 19.04, west: -99.37, north: 19.6, east: -98.94 };
+
+const PRECISION_CONFIDENCE: Record<GeocodePrecision, number> = {
+    exacta: 0.9,
+    calle: 0.7,
+    colonia: 0.55,
+    alcaldia: 0.3
+};
+
+// ============================================
+// Providers
+// ============================================
+
+const GOOGLE_LOCATION_CONFIDENCE: Record<string, number> = {
+    ROOFTOP: 0.95,
+    RANGE_INTERPOLATED: 0.85,
+    GEOMETRIC_CENTER: 0.65,
+    APPROXIMATE: 0.4
+};
+
+function googlePrecision(types: string[]): GeocodePrecision {
+    if (types.some((t) => ["street_address", "premise", "subpremise", "intersection"].includes(t))) return "exacta";
+    if (types.includes("route")) return "calle";
+    if (types.some((t) => ["sublocality", "sublocality_level_1", "neighborhood", "postal_code"].includes(t))) return "colonia";
+    return "alcaldia";
+}
+
+export class GoogleGeocodingProvider implements GeocodingProvider {
+    readonly name = "google";
+
+    constructor(private readonly apiKey = process.env.GOOGLE_MAPS_API_KEY || "") {}
+
+    async geocode(query: string): Promise<GeocodeMatch[]> {
+        if (!this.apiKey) throw new Error("GOOGLE_MAPS_API_KEY not configured");
+        const bounds = `${CDMX_BOUNDS.south},${CDMX_BOUNDS.west}|${CDMX_BOUNDS.north},${CDMX_BOUNDS.east}`;
+        const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}&components=country:MX&bounds=${encodeURIComponent(bounds)}&language=es&key=${this.apiKey}`;
+        const res = await fetch(url, { signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS) });
+        if (!res.ok) throw new Error(`Google geocode ${res.status}`);
+        const data = (await res.json()) as {
+            status?: string;
+            error_message?: string;
+            results?: Array<{
+                formatted_address?: string;
+                address_components?: AddressComponent[];
+                types?: string[];
+                partial_match?: boolean;
+                geometry?: { location?: { lat: number; lng: number }; location_type?: string };
+            }>;
+        };
+        if (data.status === "ZERO_RESULTS") return [];
+        if (data.status !== "OK") throw new Error(`Google geocode ${data.status}: ${data.error_message ?? ""}`);
+
+        return (data.results ?? []).flatMap((r) => {
+            const location = r.geometry?.location;
+            if (!location) return [];
+            const components = r.address_components ?? [];
+            const get = (type: string) => components.find((c) => c.types.includes(type))?.long_name || undefined;
+            // Google marca partial_match cuando tuvo que ignorar parte de lo escrito
+            const confianza = (GOOGLE_LOCATION_CONFIDENCE[r.geometry?.location_type ?? ""] ?? 0.4) - (r.partial_match ? 0.25 : 0);
+            return [{
+                latitud: location.lat,
+                longitud: location.lng,
+                direccion: buildAddressFromComponents(components) ?? r.formatted_address ?? query,
+                colonia: get("sublocality_level_1") ?? get("sublocality") ?? get("neighborhood"),
+                alcaldia: get("administrative_area_level_2") ?? get("locality"),
+                precision: googlePrecision(r.types ?? []),
+                confianza: Math.max(Math.round(confianza * 100) / 100, 0)
+            }];
+        });
+    }
+}
+
+function nominatimPrecision(placeRank: number): GeocodePrecision {
+    if (placeRank >= 30) return "exacta";
+    if (placeRank >= 26) return "calle";
+    if (placeRank >= 17) return "colonia";
+    return "alcaldia";
+}
+
+/** OpenStreetMap search (public instance or self-hosted with NOMINATIM_URL). */
+export class NominatimGeocodingProvider implements GeocodingProvider {
+    readonly name = "nominatim";
+
+    constructor(private readonly baseUrl = NOMINATIM_URL, private readonly userAgent = NOMINATIM_USER_AGENT) {}
+
+    async geocode(query: string): Promise<GeocodeMatch[]> {
+        const viewbox = `${CDMX_BOUNDS.west},${CDMX_BOUNDS.north},${CDMX_BOUNDS.east},${CDMX_BOUNDS.south}`;
+        const url = `${this.baseUrl}/search?q=${encodeURIComponent(query)}&format=jsonv2&addressdetails=1&countrycodes=mx&limit=5&viewbox=${viewbox}&accept-language=es`;
+        const res = await fetch(url, {
+            headers: { "User-Agent": this.userAgent },
+            signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS)
+        });
+        if (!res.ok) throw new Error(`Nominatim ${res.status}`);
+        const results = (await res.json()) as Array<{
+            lat: string;
+            lon: string;
+            display_name?: string;
+            place_rank?: number;
+            address?: Record<string, string | undefined>;
+        }>;
+
+        return results.map((r) => {
+            const a = r.address ?? {};
+            const precision = nominatimPrecision(r.place_rank ?? 0);
+            const colonia = a.neighbourhood ?? a.suburb ?? a.quarter;
+            const alcaldia = a.city_district ?? a.borough ?? a.city;
+            const calle = a.road ? [a.road, a.house_number].filter(Boolean).join(" ") : undefined;
+            const direccion = [calle, colonia && `Col. ${colonia}`, alcaldia].filter(Boolean).join(", ");
+            return {
+                latitud: Number(r.lat),
+                longitud: Number(r.lon),
+                direccion: direccion || r.display_name || query,
+                colonia,
+                alcaldia,
+                precision,
+                confianza: PRECISION_CONFIDENCE[precision]
+            };
+        });
+    }
+}
+
+export interface GazetteerEntry {
+    /** Calle, colonia o alcaldia tal como se escribiria ("Calle Hidalgo", "Del Carmen") */
+    nombre: string;
+    colonia?: string;
+    alcaldia: string;
+    latitud: number;
+    longitud: number;
+    precision: GeocodePrecision;
+}
+
+// Centros aproximados de las 16 alcaldias: lo minimo para ubicar un reporte sin red
+export const ALCALDIA_CENTERS: readonly GazetteerEntry[] = [
+    { nombre: "Álvaro Obregón", alcaldia: "Álvaro Obregón", latitud: 19.3587, longitud: -99.2033, precision: "alcaldia" },
+    { nombre: "Azcapotzalco", alcaldia: "Azcapotzalco", latitud: 19.4869, longitud: -99.1848, precision: "alcaldia" },
+    { nombre: "Benito Juárez", alcaldia: "Benito Juárez", latitud: 19.3727, longitud: -99.1564, precision: "alcaldia" },
+    { nombre: "Coyoacán", alcaldia: "Coyoacán", latitud: 19.3467, longitud: -99.1617, precision: "alcaldia" },
+    { nombre: "Cuajimalpa", alcaldia: "Cuajimalpa de Morelos", latitud: 19.357, longitud: -99.299, precision: "alcaldia" },
+    { nombre: "Cuauhtémoc", alcaldia: "Cuauhtémoc", latitud: 19.4326, longitud: -99.1466, precision: "alcaldia" },
+    { nombre: "Gustavo A. Madero", alcaldia: "Gustavo A. Madero", latitud: 19.4828, longitud: -99.1133, precision: "alcaldia" },
+    { nombre: "Iztacalco", alcaldia: "Iztacalco", latitud: 19.3953, longitud: -99.0976, precision: "alcaldia" },
+    { nombre: "Iztapalapa", alcaldia: "Iztapalapa", latitud: 19.3574, longitud: -99.0671, precision: "alcaldia" },
+    { nombre: "Magdalena Contreras", alcaldia: "La Magdalena Contreras", latitud: 19.3046, longitud: -99.2418, precision: "alcaldia" },
+    { nombre: "Miguel Hidalgo", alcaldia: "Miguel Hidalgo", latitud: 19.4328, longitud: -99.2003, precision: "alcaldia" },
+    { nombre: "Milpa Alta", alcaldia: "Milpa Alta", latitud: 19.1923, longitud: -99.0237, precision: "alcaldia" },
+    { nombre: "Tláhuac", alcaldia: "Tláhuac", latitud: 19.2866, longitud: -99.005, precision: "alcaldia" },
+    { nombre: "Tlalpan", alcaldia: "Tlalpan", latitud: 19.2047, longitud: -99.1877, precision: "alcaldia" },
+    { nombre: "Venustiano Carranza", alcaldia: "Venustiano Carranza", latitud: 19.4304, longitud: -99.0995, precision: "alcaldia" },
+    { nombre: "Xochimilco", alcaldia: "Xochimilco", latitud: 19.2625, longitud: -99.1036, precision: "alcaldia" }
+];
+
+// Sin acentos, minusculas y solo letras/numeros separados por un espacio
+function toWords(text: string): string {
+    return ` ${normalizePlaceName(text).replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+/**
+ * Offline stand-in: entries from GEOCODING_GAZETTEER_FILE (JSON array of
+ * GazetteerEntry) plus the alcaldia centers. A name matches when it appears as
+ * whole words in the address; naming the entry's alcaldia raises the confidence
+ * and naming a different one lowers it.
+ */
+export class GazetteerGeocodingProvider implements GeocodingProvider {
+    readonly name = "gazetteer";
+    private readonly entries: GazetteerEntry[];
+
+    constructor(entries: GazetteerEntry[] = GazetteerGeocodingProvider.loadFile(GEOCODING_GAZETTEER_FILE)) {
+        this.entries = [...entries, ...ALCALDIA_CENTERS];
+    }
+
+    static loadFile(file: string): GazetteerEntry[] {
+        if (!file) return [];
+        return JSON.parse(readFileSync(file, "utf8")) as GazetteerEntry[];
+    }
+
+    async geocode(query: string): Promise<GeocodeMatch[]> {
+        const words = toWords(query);
+        const mentioned = ALCALDIA_CENTERS.filter((a) => words.includes(toWords(a.nombre)));
+        const matches: GeocodeMatch[] = [];
+        for (const entry of this.entries) {
+            if (!words.includes(toWords(entry.nombre))) continue;
+            let confianza = PRECISION_CONFIDENCE[entry.precision];
+            if (entry.precision !== "alcaldia" && mentioned.length > 0) {
+                const same = mentioned.some((a) => normalizePlaceName(a.alcaldia) === normalizePlaceName(entry.alcaldia));
+                confianza = same ? Math.min(confianza + 0.15, 1) : confianza * 0.5;
+            }
+            matches.push({
+                latitud: entry.latitud,
+                longitud: entry.longitud,
+                direccion: [entry.nombre, entry.colonia && `Col. ${entry.colonia}`, entry.alcaldia]
+                    .filter((part, i, all) => part && all.indexOf(part) === i)
+                    .join(", "),
+                colonia: entry.colonia,
+                alcaldia: entry.alcaldia,
+                precision: entry.precision,
+                confianza: Math.round(confianza * 100) / 100
+            });
+        }
+        return matches.sort((a, b) => b.confianza - a.confianza);
+    }
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+export function createGeocodingProvider(
+    kind = process.env.GEOCODING_PROVIDER || (process.env.GOOGLE_MAPS_API_KEY ? "google" : "none")
+): GeocodingProvider | null {
+    switch (kind) {
+        case "google":
+            if (!process.env.GOOGLE_MAPS_API_KEY) throw new Error("GEOCODING_PROVIDER=google requires GOOGLE_MAPS_API_KEY");
+            return new GoogleGeocodingProvider();
+        case "nominatim":
+            return new NominatimGeocodingProvider();
+        case "gazetteer":
+            return new GazetteerGeocodingProvider();
+        case "none":
+            return null;
+        default:
+            throw new Error(`Unknown GEOCODING_PROVIDER: ${kind} (use google, nominatim, gazetteer or none)`);
+    }
+}
+
+let geocodingProvider: GeocodingProvider | null | undefined;
+
+export function getGeocodingProvider(): GeocodingProvider | null {
+    if (geocodingProvider === undefined) {
+        geocodingProvider = createGeocodingProvider();
+        console.log(`[Geocoding] Using ${geocodingProvider?.name ?? "no"} forward geocoding`);
+    }
+    return geocodingProvider;
+}
+
+/** Tests / custom wiring. */
+export function setGeocodingProvider(provider: GeocodingProvider | null): void {
+    geocodingProvider = provider;
+}
+
+// ============================================
+// Forward Geocoding
+// ============================================
+
+/** The typed address plus the colonia/alcaldia the citizen gave apart, scoped to CDMX. */
+export function buildGeocodeQuery(direccion: string, hint: GeocodeHint = {}): string {
+    const words = toWords(direccion);
+    const parts = [direccion.trim()];
+    for (const extra of [hint.colonia, hint.alcaldia]) {
+        if (extra?.trim() && !words.includes(toWords(extra))) parts.push(extra.trim());
+    }
+    if (!/ciudad de mexico|cdmx/.test(normalizePlaceName(direccion))) parts.push("Ciudad de México");
+    return parts.join(", ");
+}
+
+/**
+ * Resolved when the best match reaches GEOCODING_MIN_CONFIDENCE and no other
+ * place comes close to it; ambiguous when there are candidates but not one clear
+ * place (or only a weak one); not_found when there is nothing.
+ */
+export function decideGeocode(matches: GeocodeMatch[], minConfidence = GEOCODING_MIN_CONFIDENCE): GeocodeOutcome {
+    const sorted = [...matches].sort((a, b) => b.confianza - a.confianza);
+    const [best] = sorted;
+    if (!best) return { status: "not_found" };
+
+    // Un lugar por candidato: los resultados pegados al mejor no cuentan como otra opcion
+    const places: GeocodeMatch[] = [];
+    for (const match of sorted) {
+        const duplicate = places.some((p) => haversineMeters(p.latitud, p.longitud, match.latitud, match.longitud) <= SAME_PLACE_METERS);
+        if (!duplicate) places.push(match);
+    }
+    const rivals = places.slice(1).filter((p) => p.confianza > best.confianza - RIVAL_MARGIN);
+    if (best.confianza >= minConfidence && rivals.length === 0) return { status: "resolved", match: best };
+    return { status: "ambiguous", candidates: places.slice(0, MAX_CANDIDATES) };
+}
+
+/**
+ * Forward geocodes a typed address. A match in a different alcaldia than the one
+ * the citizen named loses half its confidence. Never throws: without a provider,
+ * with a misconfigured one or when it fails the report is simply saved without
+ * coordinates. `provider` defaults to getGeocodingProvider(); pass null for none.
+ */
+export async function geocodeAddress(
+    direccion: string,
+    hint: GeocodeHint = {},
+    provider?: GeocodingProvider | null
+): Promise<GeocodeOutcome> {
+    if (!direccion.trim()) return { status: "not_found" };
+    const query = buildGeocodeQuery(direccion, hint);
+    let name = "provider";
+    try {
+        const resolved = provider === undefined ? getGeocodingProvider() : provider;
+        if (!resolved) return { status: "not_found" };
+        name = resolved.name;
+        const alcaldia = hint.alcaldia ? normalizePlaceName(hint.alcaldia) : null;
+        const matches = (await resolved.geocode(query)).map((m) =>
+            alcaldia && m.alcaldia && !normalizePlaceName(m.alcaldia).includes(alcaldia) && !alcaldia.includes(normalizePlaceName(m.alcaldia))
+                ? { ...m, confianza: Math.round(m.confianza * 50) / 100 }
+                : m
+        );
+        const outcome = decideGeocode(matches);
+        const detail = outcome.status === "resolved"
+            ? `confianza=${outcome.match.confianza} (${outcome.match.precision})`
+            : outcome.status === "ambiguous" ? `${outcome.candidates.length} candidate(s)` : "";
+        console.log(`[Geocoding] ${name} "${query.substring(0, 60)}" -> ${outcome.status} ${detail}`);
+        return outcome;
+    } catch (error) {
+        console.warn(`[Geocoding] ${name} failed:`, error instanceof Error ? error.message : error);
+        return { status: "not_found" };
+    }
+}
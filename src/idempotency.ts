@@ -0,0 +1,185 @@
+// ============================================
+// WaterHub Idempotency - drop re-delivered webhooks and retried requests
+// ============================================
+// Evolution re-delivers messages.upsert when our webhook is slow, and API
+// clients retry /api/chat on timeouts. Each processed key (the WhatsApp message
+// id, or the Idempotency-Key header) is kept for IDEMPOTENCY_TTL_SECONDS so a
+// repeat never becomes a second agent turn, reply or queja.
+// IDEMPOTENCY_STORE=memory (default, single process) | redis (REDIS_URL, several replicas)
+
+import { createHash } from "node:crypto";
+import { Redis } from "ioredis";
+
+// ============================================
+// Types
+// ============================================
+
+export interface IdempotencyRecord {
+    status: "in_progress" | "done";
+    /** Lo que se respondio la primera vez (para repetirlo tal cual) */
+    result?: unknown;
+    /** Hash del request que tomo la llave: la misma llave con otro cuerpo es un error del cliente */
+    fingerprint?: string;
+    createdAt: string;
+}
+
+export interface IdempotencyStore {
+    readonly name: string;
+    /**
+     * Claims the key. Returns null if the caller now owns it, or the existing
+     * record if the key was already seen (in progress or done).
+     */
+    begin(key: string, fingerprint?: string): Promise<IdempotencyRecord | null>;
+    /** Marks the key as done and keeps the result for the full TTL. */
+    complete(key: string, result?: unknown): Promise<void>;
+    /** Forgets the key so a retry is processed again (the first attempt failed). */
+    release(key: string): Promise<void>;
+    close(): Promise<void>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const IDEMPOTENCY_TTL_MS = Number(process.env.IDEMPOTENCY_TTL_SECONDS || 86400) * 1000;
+// Si el proceso muere a medio turno, la llave no queda bloqueada para siempre
+const IN_PROGRESS_TTL_MS = 5 * 60 * 1000;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** Hash of a request body, kept with the key so a reused key with another body can be refused. */
+export function fingerprintRequest(body: unknown): string {
+    return createHash("sha256").update(JSON.stringify(body ?? {})).digest("hex");
+}
+
+// ============================================
+// In-Memory Store (default)
+// ============================================
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    readonly name = "memory";
+    private readonly records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+    private readonly sweepTimer: NodeJS.Timeout;
+
+    constructor(private readonly ttlMs = IDEMPOTENCY_TTL_MS) {
+        this.sweepTimer = setInterval(() => {
+            const now = Date.now();
+            for (const [key, entry] of this.records.entries()) {
+                if (entry.expiresAt <= now) this.records.delete(key);
+            }
+        }, 300000);
+        this.sweepTimer.unref();
+    }
+
+    async begin(key: string, fingerprint?: string): Promise<IdempotencyRecord | null> {
+        const existing = this.records.get(key);
+        if (existing && existing.expiresAt > Date.now()) return existing.record;
+        this.records.set(key, {
+            record: { status: "in_progress", fingerprint, createdAt: new Date().toISOString() },
+            expiresAt: Date.now() + Math.min(IN_PROGRESS_TTL_MS, this.ttlMs)
+        });
+        return null;
+    }
+
+    async complete(key: string, result?: unknown): Promise<void> {
+        const claimed = this.records.get(key)?.record;
+        const createdAt = claimed?.createdAt ?? new Date().toISOString();
+        this.records.set(key, {
+            record: { status: "done", result, fingerprint: claimed?.fingerprint, createdAt },
+            expiresAt: Date.now() + this.ttlMs
+        });
+    }
+
+    async release(key: string): Promise<void> {
+        this.records.delete(key);
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.sweepTimer);
+    }
+}
+
+// ============================================
+// Redis Store
+// ============================================
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+    readonly name = "redis";
+    private readonly redis: Redis;
+
+    constructor(
+        redisUrl: string,
+        private readonly ttlMs = IDEMPOTENCY_TTL_MS,
+        private readonly keyPrefix = "waterhub:idempotency:"
+    ) {
+        this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+        this.redis.on("error", (e) => console.error(`[Idempotency:redis] Error:`, e.message));
+    }
+
+    async begin(key: string, fingerprint?: string): Promise<IdempotencyRecord | null> {
+        const record: IdempotencyRecord = { status: "in_progress", fingerprint, createdAt: new Date().toISOString() };
+        const claimed = await this.redis.set(
+            this.keyPrefix + key,
+            JSON.stringify(record),
+            "PX",
+            Math.min(IN_PROGRESS_TTL_MS, this.ttlMs),
+            "NX"
+        );
+        if (claimed === "OK") return null;
+        const raw = await this.redis.get(this.keyPrefix + key);
+        // Expiro entre el SET y el GET: se trata como visto, el reintento siguiente entra
+        return raw ? (JSON.parse(raw) as IdempotencyRecord) : record;
+    }
+
+    async complete(key: string, result?: unknown): Promise<void> {
+        const raw = await this.redis.get(this.keyPrefix + key);
+        const claimed = raw ? (JSON.parse(raw) as IdempotencyRecord) : undefined;
+        const record: IdempotencyRecord = {
+            status: "done",
+            result,
+            fingerprint: claimed?.fingerprint,
+            createdAt: claimed?.createdAt ?? new Date().toISOString()
+        };
+        await this.redis.set(this.keyPrefix + key, JSON.stringify(record), "PX", this.ttlMs);
+    }
+
+    async release(key: string): Promise<void> {
+        await this.redis.del(this.keyPrefix + key);
+    }
+
+    async close(): Promise<void> {
+        await this.redis.quit();
+    }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+export function createIdempotencyStore(kind = process.env.IDEMPOTENCY_STORE || "memory"): IdempotencyStore {
+    switch (kind) {
+        case "redis": {
+            const url = process.env.REDIS_URL;
+            if (!url) throw new Error("IDEMPOTENCY_STORE=redis requires REDIS_URL");
+            return new RedisIdempotencyStore(url);
+        }
+        case "memory":
+            return new InMemoryIdempotencyStore();
+        default:
+            throw new Error(`Unknown IDEMPOTENCY_STORE: ${kind} (use memory or redis)`);
+    }
+}
+
+let idempotencyStore: IdempotencyStore | null = null;
+
+export function getIdempotencyStore(): IdempotencyStore {
+    if (!idempotencyStore) {
+        idempotencyStore = createIdempotencyStore();
+        console.log(`[Idempotency] Using ${idempotencyStore.name} idempotency store`);
+    }
+    return idempotencyStore;
+}
+
+/** Tests / custom wiring. */
+export function setIdempotencyStore(store: IdempotencyStore): void {
+    idempotencyStore = store;
+}
@@ -0,0 +1,131 @@
+// ============================================
+// WaterHub Image Metadata - EXIF GPS and capture time
+// ============================================
+// Photos sent as documents (uncompressed) usually keep their EXIF, including
+// where and when they were taken. It is read once when the photo comes in; the
+// preprocessing pipeline (image-preprocess.ts) then drops every metadata block
+// before the photo goes anywhere else (vision model, storage, conversation logs):
+// the GPS is only used to propose the report location, never kept with the picture.
+
+import sharp from "sharp";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ImageMetadata {
+    latitude?: number;
+    longitude?: number;
+    /** DateTimeOriginal as "YYYY-MM-DDTHH:mm:ss" in the camera's local time, with the offset if it saved one */
+    takenAt?: string;
+}
+
+// ============================================
+// EXIF (TIFF) parsing
+// ============================================
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes por valor segun el tipo TIFF (BYTE, ASCII, SHORT, LONG, RATIONAL, UNDEFINED, SLONG, SRATIONAL)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+    type: number;
+    count: number;
+    /** Offset of the value inside the TIFF block */
+    offset: number;
+}
+
+/**
+ * GPS and DateTimeOriginal from a raw EXIF block (as returned by sharp, with or
+ * without the "Exif\0\0" header). Malformed or partial data gives what could be read.
+ */
+export function parseExif(exif: Buffer): ImageMetadata {
+    const tiff = exif.toString("latin1", 0, 6) === "Exif\0\0" ? exif.subarray(6) : exif;
+    const byteOrder = tiff.toString("latin1", 0, 2);
+    if (byteOrder !== "II" && byteOrder !== "MM") return {};
+    const le = byteOrder === "II";
+    const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+    const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+
+    const readIfd = (start: number): Map<number, IfdEntry> => {
+        const entries = new Map<number, IfdEntry>();
+        const count = u16(start);
+        for (let i = 0; i < count; i++) {
+            const at = start + 2 + i * 12;
+            const type = u16(at + 2);
+            const valueCount = u32(at + 4);
+            const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+            entries.set(u16(at), { type, count: valueCount, offset: size <= 4 ? at + 8 : u32(at + 8) });
+        }
+        return entries;
+    };
+    const ascii = (entry: IfdEntry | undefined) =>
+        entry ? tiff.toString("latin1", entry.offset, entry.offset + entry.count).replace(/\0.*$/s, "").trim() : "";
+    const rationals = (entry: IfdEntry | undefined) =>
+        entry && entry.type === 5
+            ? Array.from({ length: entry.count }, (_, i) => {
+                const denominator = u32(entry.offset + i * 8 + 4);
+                return denominator ? u32(entry.offset + i * 8) / denominator : NaN;
+            })
+            : [];
+
+    const metadata: ImageMetadata = {};
+    try {
+        const ifd0 = readIfd(u32(4));
+
+        const exifIfd = ifd0.get(TAG_EXIF_IFD);
+        if (exifIfd) {
+            const entries = readIfd(u32(exifIfd.offset));
+            const taken = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})$/.exec(ascii(entries.get(TAG_DATETIME_ORIGINAL)));
+            if (taken && taken[1] !== "0000") {
+                const offset = ascii(entries.get(TAG_OFFSET_TIME_ORIGINAL));
+                metadata.takenAt = `${taken[1]}-${taken[2]}-${taken[3]}T${taken[4]}${/^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ""}`;
+            }
+        }
+
+        const gpsIfd = ifd0.get(TAG_GPS_IFD);
+        if (gpsIfd) {
+            const entries = readIfd(u32(gpsIfd.offset));
+            const toDegrees = ([d, m = 0, s = 0]: number[]) => d + m / 60 + s / 3600;
+            const lat = rationals(entries.get(TAG_GPS_LATITUDE));
+            const lng = rationals(entries.get(TAG_GPS_LONGITUDE));
+            if (lat.length > 0 && lng.length > 0) {
+                const latitude = toDegrees(lat) * (ascii(entries.get(TAG_GPS_LATITUDE_REF)) === "S" ? -1 : 1);
+                const longitude = toDegrees(lng) * (ascii(entries.get(TAG_GPS_LONGITUDE_REF)) === "W" ? -1 : 1);
+                // Algunos telefonos escriben 0,0 cuando no tenian senal: no es una ubicacion
+                const valid = Number.isFinite(latitude) && Number.isFinite(longitude)
+                    && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+                    && !(latitude === 0 && longitude === 0);
+                if (valid) {
+                    metadata.latitude = Math.round(latitude * 1e6) / 1e6;
+                    metadata.longitude = Math.round(longitude * 1e6) / 1e6;
+                }
+            }
+        }
+    } catch {
+        // Offsets fuera del bloque: EXIF truncado, se queda lo que se alcanzo a leer
+    }
+    return metadata;
+}
+
+// ============================================
+// Image helpers (sharp)
+// ============================================
+
+/** GPS / capture time of a photo; empty if it has no EXIF or is not an image sharp can read. */
+export async function readImageMetadata(data: Buffer): Promise<ImageMetadata> {
+    try {
+        const { exif } = await sharp(data).metadata();
+        return exif ? parseExif(exif) : {};
+    } catch {
+        return {};
+    }
+}
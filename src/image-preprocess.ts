@@ -0,0 +1,174 @@
+// ============================================
+// WaterHub Image Preprocessing - what the vision model and storage receive
+// ============================================
+// Every photo goes through here once before the agents see it: the real type is
+// sniffed from the bytes (a PDF or an HTML error page named .jpg is rejected
+// instead of failing the model call), it is re-encoded as a JPEG without
+// metadata, no larger than VISION_IMAGE_MAX_SIDE and, lowering quality and then
+// size, within VISION_IMAGE_TARGET_KB. A perceptual hash (dHash) lets the same
+// picture be recognized after WhatsApp recompresses or a neighbor forwards it.
+
+import sharp from "sharp";
+import { readImageMetadata, type ImageMetadata } from "./image-metadata.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface PreparedImage {
+    /** JPEG without metadata, within the size budget */
+    data: Buffer;
+    dataUrl: string;
+    /** Type sniffed from the original bytes (what the sender claimed is ignored) */
+    sourceMimeType: string;
+    width: number;
+    height: number;
+    /** 64-bit difference hash, 16 hex chars */
+    phash: string;
+    /** GPS / capture time read before the metadata was dropped */
+    metadata: ImageMetadata;
+}
+
+export type ImageRejectionReason =
+    /** The bytes are not an image at all (PDF, HTML, audio...) */
+    | "not_an_image"
+    /** An image format this server cannot decode (e.g. HEIC without libheif) */
+    | "unsupported"
+    /** Looks like an image but is truncated or corrupt */
+    | "unreadable";
+
+export class ImageRejectedError extends Error {
+    constructor(public readonly reason: ImageRejectionReason, message: string) {
+        super(message);
+        this.name = "ImageRejectedError";
+    }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const VISION_IMAGE_MAX_SIDE = Number(process.env.VISION_IMAGE_MAX_SIDE || 1536);
+const VISION_IMAGE_TARGET_BYTES = Number(process.env.VISION_IMAGE_TARGET_KB || 300) * 1024;
+// Calidad JPEG que se prueba en orden; si ninguna cabe, se reduce el tamano
+const JPEG_QUALITIES = [82, 70, 58];
+const MAX_RESIZE_STEPS = 4;
+/** Bits distintos (de 64) hasta los que dos hashes se consideran la misma foto */
+export const PHASH_MATCH_DISTANCE = 6;
+
+// ============================================
+// Type Sniffing
+// ============================================
+
+const DECODABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif"]);
+
+/** Image MIME type from the magic bytes; null if the bytes are not a known image format. */
+export function sniffImageType(data: Buffer): string | null {
+    const ascii = (start: number, end: number) => data.toString("latin1", start, end);
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+    if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) return "image/png";
+    if (ascii(0, 4) === "GIF8") return "image/gif";
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+    if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "image/tiff";
+    if (ascii(0, 2) === "BM") return "image/bmp";
+    if (ascii(4, 8) === "ftyp") {
+        const brand = ascii(8, 12);
+        if (brand === "avif" || brand === "avis") return "image/avif";
+        if (["heic", "heix", "hevc", "hevx", "mif1", "msf1"].includes(brand)) return "image/heic";
+    }
+    return null;
+}
+
+// ============================================
+// Perceptual Hash
+// ============================================
+
+/** dHash: 9x8 grayscale, one bit per horizontal gradient. Robust to resizing and recompression. */
+export async function perceptualHash(image: Buffer): Promise<string> {
+    const pixels = await sharp(image).greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n);
+        }
+    }
+    return hash.toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let bits = 0;
+    while (diff > 0n) {
+        bits += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return bits;
+}
+
+/** True if both hashes are present and within PHASH_MATCH_DISTANCE. */
+export function isSamePicture(a: string | undefined, b: string | undefined): boolean {
+    return !!a && !!b && hammingDistance(a, b) <= PHASH_MATCH_DISTANCE;
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+/**
+ * Validates and normalizes one photo for the vision model and storage.
+ * Throws ImageRejectedError when the bytes are not a usable image.
+ */
+export async function prepareImage(
+    input: ArrayBuffer | Buffer,
+    maxSide = VISION_IMAGE_MAX_SIDE,
+    targetBytes = VISION_IMAGE_TARGET_BYTES
+): Promise<PreparedImage> {
+    const data = Buffer.from(input as ArrayBuffer);
+    const sourceMimeType = sniffImageType(data);
+    if (!sourceMimeType) throw new ImageRejectedError("not_an_image", `Not an image (${data.length} bytes, starts with ${data.subarray(0, 4).toString("hex")})`);
+
+    const metadata = await readImageMetadata(data);
+
+    let encoded: { data: Buffer; info: { width: number; height: number } } | null = null;
+    let phash: string;
+    try {
+        // Ya preparada (foto de inbound o cuadro de video): no se recomprime otra vez
+        const info = await sharp(data).metadata();
+        const clean = !info.exif && !info.icc && !info.xmp && (info.orientation ?? 1) === 1;
+        if (sourceMimeType === "image/jpeg" && clean && data.length <= targetBytes
+            && info.width && info.height && Math.max(info.width, info.height) <= maxSide) {
+            encoded = { data, info: { width: info.width, height: info.height } };
+        } else {
+            // rotate() aplica la orientacion EXIF; la salida JPEG no lleva ningun metadato
+            const base = sharp(data, { animated: false }).rotate().flatten({ background: "#ffffff" });
+            let side = maxSide;
+            resize: for (let step = 0; step < MAX_RESIZE_STEPS; step++) {
+                for (const quality of JPEG_QUALITIES) {
+                    encoded = await base.clone()
+                        .resize({ width: side, height: side, fit: "inside", withoutEnlargement: true })
+                        .jpeg({ quality, mozjpeg: true })
+                        .toBuffer({ resolveWithObject: true });
+                    if (encoded.data.length <= targetBytes) break resize;
+                }
+                side = Math.round(side * 0.7);
+            }
+        }
+        if (!encoded) throw new Error("No output from encoder");
+        phash = await perceptualHash(encoded.data);
+    } catch (e) {
+        const detail = e instanceof Error ? e.message : String(e);
+        if (!DECODABLE_TYPES.has(sourceMimeType)) throw new ImageRejectedError("unsupported", `${sourceMimeType} cannot be decoded: ${detail}`);
+        throw new ImageRejectedError("unreadable", `Corrupt ${sourceMimeType}: ${detail}`);
+    }
+
+    console.log(`[Image] ${sourceMimeType} ${data.length} B -> jpeg ${encoded.info.width}x${encoded.info.height} ${encoded.data.length} B, phash=${phash}`);
+    return {
+        data: encoded.data,
+        dataUrl: `data:image/jpeg;base64,${encoded.data.toString("base64")}`,
+        sourceMimeType,
+        width: encoded.info.width,
+        height: encoded.info.height,
+        phash,
+        metadata
+    };
+}
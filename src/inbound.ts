@@ -0,0 +1,344 @@
+// ============================================
+// WaterHub Inbound - channel messages to one agent turn
+// ============================================
+// Shared by every channel: downloads photos (EXIF GPS becomes a location to
+// confirm, then all metadata is stripped), reverse-geocodes pins, transcribes
+// voice notes, pulls key frames out of videos, merges a burst into one WorkflowInput, runs the agents and queues
+// the reply on the same channel (outbound.ts retries it if the channel is down).
+// A turn that came in as a voice note is also answered with one (TTS_PROVIDER).
+
+import { runWorkflow } from "./agent.js";
+import type { ReportLocation, WorkflowAttachment } from "./types.js";
+import { getChannelAdapter, type ChannelAdapter, type ChannelAddress, type ChannelName, type InboundMessage } from "./channels.js";
+import { reverseGeocode } from "./geo.js";
+import { STT_MAX_SECONDS, transcribeAudio, TranscriptionError } from "./stt.js";
+import { isUnsubscribeCommand, unsubscribe } from "./alert-subscriptions.js";
+import { getOutboundQueue } from "./outbound.js";
+import { synthesizeVoiceNote } from "./tts.js";
+import { extractVideoContent } from "./video.js";
+import { ImageRejectedError, prepareImage, type PreparedImage } from "./image-preprocess.js";
+
+// ============================================
+// Jobs
+// ============================================
+
+/** Queue payload: every message of one burst from one conversation, in arrival order. */
+export interface ChannelJob {
+    channel: ChannelName;
+    messages: InboundMessage[];
+    requestId: string;
+}
+
+// ============================================
+// Content Extraction
+// ============================================
+
+interface InboundContent {
+    /** Texto, caption, ubicacion y transcripcion del audio, una entrada por parte */
+    texts: string[];
+    imageUrl?: string;
+    location?: ReportLocation;
+    /** Cuadros clave del video (data URLs) para el modelo de vision */
+    video?: { frames: string[]; durationSeconds?: number };
+    choice?: { id: string; title: string };
+    /** Llego una nota de voz que se pudo transcribir: la respuesta tambien puede ir en voz */
+    voiceNote?: boolean;
+}
+
+/** Downloads media and turns one message into text / image / video frames / location for the agent. */
+export async function extractInboundContent(
+    adapter: ChannelAdapter,
+    message: InboundMessage,
+    requestId: string
+): Promise<InboundContent | null> {
+    const tag = `[${requestId}] [${adapter.label}]`;
+    console.log(`${tag} message keys: ${message.rawKinds.join(", ") || "(none)"}`);
+
+    const texts: string[] = [];
+    let imageUrl: string | undefined;
+    let location: ReportLocation | undefined;
+    let video: InboundContent["video"];
+    let voiceNote = false;
+
+    if (message.text) texts.push(message.text);
+
+    // Boton o fila de lista: el titulo es lo que el usuario "dijo", el id va aparte al workflow
+    if (message.choice) {
+        if (!message.text) texts.push(message.choice.title);
+        console.log(`${tag} choice: ${message.choice.id}`);
+    }
+
+    const image = message.image;
+    if (image) {
+        const buffer = await adapter.downloadMedia(image, requestId, "image");
+        const prepared = buffer ? await prepareForAgent(buffer, tag) : null;
+        if (prepared && "text" in prepared) {
+            texts.push(prepared.text);
+        } else if (prepared) {
+            // Desde aqui la foto ya no lleva GPS ni ningun otro metadato (modelo, storage, logs)
+            imageUrl = prepared.dataUrl;
+            const metadata = prepared.metadata;
+            // Un pin en el mismo mensaje vale mas que el GPS de la foto
+            if (metadata.latitude != null && metadata.longitude != null && !message.location) {
+                const shared = await describeCoordinates(metadata.latitude, metadata.longitude, "", tag);
+                location = { ...shared.location, origen: "foto", fotoTomadaEn: metadata.takenAt };
+                const tomada = metadata.takenAt ? `, tomada el ${formatTakenAt(metadata.takenAt)}` : "";
+                texts.push(`${shared.text.slice(0, -1).replace(/\.$/, "")}. Sale de los datos GPS de la foto${tomada}; hay que confirmarla.]`);
+                console.log(`${tag} photo EXIF GPS: lat=${metadata.latitude}, lng=${metadata.longitude}, takenAt=${metadata.takenAt ?? "?"}`);
+            }
+        } else {
+            imageUrl = image.fallbackUrl;
+        }
+        console.log(`${tag} image: downloaded=${!!buffer}, fallbackUrl=${!!image.fallbackUrl}, caption=${(image.caption || "").substring(0, 40)}`);
+        if (!message.text && image.caption) {
+            texts.push(image.caption);
+        }
+    }
+
+    const pin = message.location;
+    if (pin) {
+        const lat = pin.latitude;
+        const lng = pin.longitude;
+        const name = pin.name || pin.address || "";
+        console.log(`${tag} location: lat=${lat}, lng=${lng}, name=${name || "(empty)"}, address=${(pin.address || "").substring(0, 40) || "(empty)"}`);
+        let locationText: string;
+        if (lat != null && lng != null) {
+            const shared = await describeCoordinates(lat, lng, name, tag);
+            location = shared.location;
+            locationText = shared.text;
+        } else {
+            if (name) location = { direccion: name };
+            locationText = name
+                ? `[El usuario compartió su ubicación: ${name}.]`
+                : "[El usuario compartió su ubicación]";
+        }
+        texts.push(locationText);
+        console.log(`${tag} location parsed -> input: "${locationText.substring(0, 80)}..."`);
+    }
+
+    const audio = message.audio;
+    if (audio) {
+        console.log(`${tag} audio message: voiceNote=${audio.voiceNote}, fallbackUrl=${!!audio.fallbackUrl}`);
+        const buffer = await adapter.downloadMedia(audio, requestId, "audio");
+        if (buffer) {
+            const transcribed = await transcribeForAgent(buffer, audio.voiceNote ? "una nota de voz" : "un audio", tag);
+            texts.push(transcribed.text);
+            voiceNote = audio.voiceNote && transcribed.ok;
+        } else {
+            texts.push("[El usuario envió un audio. No se pudo obtener el archivo.]");
+        }
+    }
+
+    const videoMedia = message.video;
+    if (videoMedia) {
+        if (!message.text && videoMedia.caption) texts.push(videoMedia.caption);
+        const buffer = await adapter.downloadMedia(videoMedia, requestId, "video");
+        const extracted = buffer ? await extractVideoContent(buffer) : null;
+        console.log(`${tag} video: downloaded=${!!buffer}, frames=${extracted?.frames.length ?? 0}, audio=${!!extracted?.audioWav}`);
+        if (extracted && extracted.frames.length > 0) {
+            const durationSeconds = extracted.durationSeconds === null ? undefined : Math.round(extracted.durationSeconds);
+            video = { frames: extracted.frames, durationSeconds };
+            texts.push(`[El usuario envió un video${durationSeconds ? ` de ${durationSeconds} s` : ""}; se adjuntan ${extracted.frames.length} cuadros en orden.]`);
+            if (extracted.audioWav) {
+                // Solo se agrega si se entendio algo: el ruido de la calle no es informacion
+                const transcribed = await transcribeForAgent(extracted.audioWav, "el audio del video", tag);
+                if (transcribed.ok) texts.push(transcribed.text);
+            }
+        } else {
+            texts.push("[El usuario envió un video. No se pudo procesar el archivo.]");
+        }
+    }
+
+    if (texts.length === 0 && !imageUrl && !video) {
+        console.log(`${tag} ignored: no text, image, video, location or audio. Message parts: ${JSON.stringify(message.rawKinds)}`);
+        return null;
+    }
+
+    return { texts, imageUrl, location, video, choice: message.choice, voiceNote };
+}
+
+/** Reverse-geocoded location and the "[El usuario compartió su ubicación ...]" text for the agent. */
+async function describeCoordinates(lat: number, lng: number, name: string, tag: string): Promise<{ location: ReportLocation; text: string }> {
+    const address = await reverseGeocode(lat, lng);
+    const location: ReportLocation = { latitud: lat, longitud: lng, direccion: address || name || undefined };
+    if (address) {
+        console.log(`${tag} reverse geocode -> "${address.substring(0, 60)}..."`);
+        return { location, text: `[El usuario compartió su ubicación: ${address} (lat ${lat}, lng ${lng})]` };
+    }
+    return {
+        location,
+        text: name
+            ? `[El usuario compartió su ubicación: ${name}. Coordenadas: lat ${lat}, lng ${lng}.]`
+            : `[El usuario compartió su ubicación: Coordenadas: lat ${lat}, lng ${lng}.]`
+    };
+}
+
+// "2026-10-18T14:03:21-06:00" -> "18/10/2026 14:03" (hora de la camara)
+function formatTakenAt(takenAt: string): string {
+    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2})/.exec(takenAt);
+    return match ? `${match[3]}/${match[2]}/${match[1]} ${match[4]}` : takenAt;
+}
+
+/** The photo after the preprocessing pipeline, or a note for the agent when it is not a usable image. */
+async function prepareForAgent(buffer: ArrayBuffer, tag: string): Promise<PreparedImage | { text: string }> {
+    try {
+        return await prepareImage(buffer);
+    } catch (error) {
+        if (!(error instanceof ImageRejectedError)) throw error;
+        console.warn(`${tag} image rejected (${error.reason}): ${error.message}`);
+        switch (error.reason) {
+            case "unsupported":
+                return { text: "[El usuario envió una foto en un formato que no se puede abrir (por ejemplo HEIC). Pídele que la mande como foto normal, no como documento.]" };
+            case "not_an_image":
+                return { text: "[El usuario envió un archivo como foto, pero no es una imagen.]" };
+            default:
+                return { text: "[El usuario envió una foto dañada que no se pudo abrir. Pídele que la mande de nuevo.]" };
+        }
+    }
+}
+
+/** The voice note as agent input; failures become a note the agent can act on. */
+async function transcribeForAgent(buffer: ArrayBuffer | Buffer, audioLabel: string, tag: string): Promise<{ text: string; ok: boolean }> {
+    try {
+        const transcript = await transcribeAudio(buffer);
+        console.log(`${tag} STT ${transcript.provider}: ok ${transcript.text.length} chars, ${transcript.durationSeconds}s, language=${transcript.language ?? "?"}`);
+        const idioma = transcript.language && transcript.language !== "es" ? ` (idioma detectado: ${transcript.language})` : "";
+        return { text: `[El usuario envió ${audioLabel}${idioma}:] ${transcript.text}`, ok: true };
+    } catch (error) {
+        const category = error instanceof TranscriptionError ? error.category : "provider_error";
+        console.warn(`${tag} STT failed (${category}):`, error instanceof Error ? error.message : error);
+        switch (category) {
+            case "too_long":
+                return { text: `[El usuario envió ${audioLabel} de más de ${Math.round(STT_MAX_SECONDS / 60)} minutos; es demasiado largo para transcribirlo. Pídele que lo cuente en un audio más corto o por escrito.]`, ok: false };
+            case "empty":
+                return { text: `[El usuario envió ${audioLabel} sin voz que se pudiera entender.]`, ok: false };
+            default:
+                return { text: `[El usuario envió ${audioLabel}. No se pudo transcribir.]`, ok: false };
+        }
+    }
+}
+
+// ============================================
+// Processing
+// ============================================
+
+/** One agent turn and one reply for the whole burst. */
+export async function processInboundMessages(adapter: ChannelAdapter, messages: InboundMessage[], requestId: string): Promise<void> {
+    const last = messages[messages.length - 1];
+    const conversationId = last.conversationId;
+
+    const texts: string[] = [];
+    const imageUrls: string[] = [];
+    const videos: NonNullable<InboundContent["video"]>[] = [];
+    let location: ReportLocation | undefined;
+    let choice: InboundContent["choice"];
+    let voiceNote = false;
+    for (const message of messages) {
+        const content = await extractInboundContent(adapter, message, requestId);
+        if (!content) continue;
+        texts.push(...content.texts);
+        if (content.imageUrl) imageUrls.push(content.imageUrl);
+        if (content.video) videos.push(content.video);
+        // Si mandaron dos pines, vale el ultimo; el GPS de una foto no reemplaza a un pin
+        if (content.location && !(content.location.origen === "foto" && location && location.origen !== "foto")) location = content.location;
+        if (content.choice) choice = content.choice;
+        if (content.voiceNote) voiceNote = true;
+    }
+
+    if (texts.length === 0 && imageUrls.length === 0 && videos.length === 0) return;
+
+    let messageText = texts.join("\n");
+    if (!messageText) {
+        messageText = imageUrls.length > 1
+            ? `[El usuario envió ${imageUrls.length} fotos]`
+            : imageUrls.length === 1 ? "[El usuario envió una foto]" : "[El usuario envió un video]";
+    }
+
+    // "BAJA" sale de las alertas sin pasar por los agentes
+    if (imageUrls.length === 0 && videos.length === 0 && !location && isUnsubscribeCommand(messageText)) {
+        const removed = await unsubscribe(conversationId);
+        await getOutboundQueue().sendText(adapter.name, last.address, removed
+            ? "Listo, ya no te enviaremos alertas. Si quieres volver a recibirlas, escribe por ejemplo: avisame de alertas en Coyoacán 💧"
+            : "No tenías alertas activas. Si quieres recibirlas, escribe por ejemplo: avisame de alertas en Coyoacán 💧", requestId);
+        console.log(`[${requestId}] [${adapter.label}] ${conversationId} unsubscribed from alerts (removed=${removed})`);
+        return;
+    }
+
+    console.log(`[${requestId}] [${adapter.label}] from ${conversationId} (${messages.length} message(s)) -> input_as_text: "${messageText.substring(0, 80)}..."${imageUrls.length ? `, images: ${imageUrls.length}` : ""}${videos.length ? `, videos: ${videos.length}` : ""}`);
+
+    const result = await runWorkflow({
+        input_as_text: messageText,
+        image_url: imageUrls[0],
+        image_urls: imageUrls.length > 1 ? imageUrls : undefined,
+        videos: videos.length ? videos : undefined,
+        location: location,
+        choice,
+        conversationId,
+        metadata: {
+            source: adapter.name,
+            channel: adapter.kind,
+            instance: last.address.account,
+            chatId: last.address.chatId,
+            privateChatId: last.address.privateChatId,
+            pushName: last.senderName
+        }
+    });
+
+    if (result.output_text) {
+        const reply = await getOutboundQueue().sendText(adapter.name, last.address, result.output_text, requestId);
+        console.log(`[${requestId}] Response ${reply.status} to ${conversationId} (${result.classification}, ${result.output_text.length} chars, ${reply.payload.kind === "text" ? reply.payload.parts.length : 1} part(s))`);
+    }
+    if (voiceNote && result.output_text) {
+        const audioUrl = await synthesizeVoiceNote(result.output_text);
+        if (audioUrl) {
+            await getOutboundQueue().sendVoiceNote(adapter.name, last.address, audioUrl, requestId);
+            console.log(`[${requestId}] [${adapter.label}] voice reply queued (${Math.round(audioUrl.length * 0.75 / 1024)} KB)`);
+        }
+    }
+    for (const attachment of result.attachments ?? []) {
+        await sendAttachment(adapter, last.address, attachment, requestId);
+    }
+}
+
+/** Queues a pin, photo or button/list message after the text reply. */
+async function sendAttachment(adapter: ChannelAdapter, address: ChannelAddress, attachment: WorkflowAttachment, requestId: string): Promise<void> {
+    const queue = getOutboundQueue();
+    switch (attachment.type) {
+        case "location":
+            await queue.sendLocation(adapter.name, address, {
+                latitude: attachment.latitud,
+                longitude: attachment.longitud,
+                name: attachment.nombre,
+                address: attachment.direccion
+            }, requestId);
+            break;
+        case "image":
+            await queue.sendImage(adapter.name, address, attachment.url, attachment.caption, requestId);
+            break;
+        case "choices":
+            await queue.sendChoices(adapter.name, address, {
+                text: attachment.text,
+                buttonLabel: attachment.buttonLabel,
+                options: attachment.options
+            }, requestId);
+            break;
+    }
+    console.log(`[${requestId}] [${adapter.label}] ${attachment.type} attachment queued`);
+}
+
+/** Job queue handler: never throws; on failure the citizen gets an apology instead of silence. */
+export async function handleChannelJob(job: ChannelJob): Promise<void> {
+    const adapter = getChannelAdapter(job.channel);
+    try {
+        await processInboundMessages(adapter, job.messages, job.requestId);
+    } catch (error) {
+        console.error(`[${job.requestId}] ${adapter.label} job error:`, error);
+        const last = job.messages[job.messages.length - 1];
+        await getOutboundQueue().sendText(
+            job.channel,
+            last.address,
+            "Lo siento, tuve un problema procesando tu mensaje. ¿Puedes intentarlo de nuevo en un momento? 💧",
+            job.requestId
+        );
+    }
+}
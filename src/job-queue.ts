@@ -0,0 +1,294 @@
+// ============================================
+// WaterHub Job Queue - webhook work off the request path
+// ============================================
+// Jobs with the same key (the conversation / remoteJid) run one at a time and in
+// order; different keys run in parallel up to JOB_CONCURRENCY.
+// JOB_QUEUE=memory (default, single process) | redis (REDIS_URL, several replicas)
+
+import { randomUUID } from "node:crypto";
+import { Redis, type RedisOptions } from "ioredis";
+
+// ============================================
+// Types
+// ============================================
+
+export interface Job<T> {
+    id: string;
+    /** Serialization key: jobs with the same key never overlap */
+    key: string;
+    data: T;
+    enqueuedAt: string;
+}
+
+export type JobHandler<T> = (job: Job<T>) => Promise<void>;
+
+export interface JobQueue<T> {
+    readonly name: string;
+    enqueue(key: string, data: T): Promise<Job<T>>;
+    /** Starts the workers; jobs enqueued before start() wait until then. */
+    start(handler: JobHandler<T>): void;
+    /** Pending (not yet started) jobs. */
+    size(): Promise<number>;
+    /** Stops taking jobs and waits (up to timeoutMs) for the running ones. */
+    close(timeoutMs?: number): Promise<void>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const JOB_CONCURRENCY = Math.max(Number(process.env.JOB_CONCURRENCY || 4), 1);
+// Un turno con Whisper + 2 LLM + envio cabe holgado; el lock se renueva mientras corre
+const LOCK_TTL_MS = 60000;
+
+function createJob<T>(key: string, data: T): Job<T> {
+    return { id: randomUUID(), key, data, enqueuedAt: new Date().toISOString() };
+}
+
+async function runHandler<T>(handler: JobHandler<T>, job: Job<T>, queueName: string): Promise<void> {
+    const waitedMs = Date.now() - new Date(job.enqueuedAt).getTime();
+    try {
+        await handler(job);
+    } catch (error) {
+        // Sin reintentos: el handler ya responde al ciudadano cuando algo falla
+        console.error(`[JobQueue:${queueName}] Job ${job.id} failed:`, error);
+    }
+    if (waitedMs > 5000) console.warn(`[JobQueue:${queueName}] Job ${job.id} waited ${waitedMs}ms in queue`);
+}
+
+// ============================================
+// In-Memory Queue (default)
+// ============================================
+
+export class InMemoryJobQueue<T> implements JobQueue<T> {
+    readonly name = "memory";
+    private readonly pending = new Map<string, Job<T>[]>();
+    /** Keys with pending jobs and no job running, in arrival order */
+    private readonly readyKeys: string[] = [];
+    private readonly activeKeys = new Set<string>();
+    private handler: JobHandler<T> | null = null;
+    private running = 0;
+    private closed = false;
+    private idleWaiters: Array<() => void> = [];
+
+    constructor(private readonly concurrency = JOB_CONCURRENCY) {}
+
+    async enqueue(key: string, data: T): Promise<Job<T>> {
+        if (this.closed) throw new Error("Job queue is closed");
+        const job = createJob(key, data);
+        const list = this.pending.get(key);
+        if (list) {
+            list.push(job);
+        } else {
+            this.pending.set(key, [job]);
+            if (!this.activeKeys.has(key)) this.readyKeys.push(key);
+        }
+        this.pump();
+        return job;
+    }
+
+    start(handler: JobHandler<T>): void {
+        this.handler = handler;
+        this.pump();
+    }
+
+    private pump(): void {
+        if (!this.handler || this.closed) return;
+        while (this.running < this.concurrency && this.readyKeys.length > 0) {
+            const key = this.readyKeys.shift()!;
+            const list = this.pending.get(key)!;
+            const job = list.shift()!;
+            if (list.length === 0) this.pending.delete(key);
+
+            this.activeKeys.add(key);
+            this.running++;
+            runHandler(this.handler, job, this.name).finally(() => {
+                this.running--;
+                this.activeKeys.delete(key);
+                // Uno por turno: la conversacion vuelve a la fila para no acaparar un worker
+                if (this.pending.has(key)) this.readyKeys.push(key);
+                if (this.running === 0) this.idleWaiters.splice(0).forEach((resolve) => resolve());
+                this.pump();
+            });
+        }
+    }
+
+    async size(): Promise<number> {
+        let count = 0;
+        for (const list of this.pending.values()) count += list.length;
+        return count;
+    }
+
+    async close(timeoutMs = 10000): Promise<void> {
+        this.closed = true;
+        if (this.running === 0) return;
+        await Promise.race([
+            new Promise<void>((resolve) => this.idleWaiters.push(resolve)),
+            new Promise<void>((resolve) => setTimeout(resolve, timeoutMs).unref())
+        ]);
+    }
+}
+
+// ============================================
+// Redis Queue
+// ============================================
+// waterhub:jobs:q:<key>   list of jobs for one conversation (FIFO)
+// waterhub:jobs:ready     list of keys that may have work
+// waterhub:jobs:lock:<key> owner token while a worker drains that conversation
+
+const REDIS_RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) end
+return 0
+`;
+
+const REDIS_RENEW_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("PEXPIRE", KEYS[1], ARGV[2]) end
+return 0
+`;
+
+/** Opens a Redis connection (tests pass a fake). */
+export type RedisConnect = (options: RedisOptions) => Redis;
+
+export class RedisJobQueue<T> implements JobQueue<T> {
+    readonly name = "redis";
+    private readonly redis: Redis;
+    private readonly workers: Redis[] = [];
+    private readonly loops: Promise<void>[] = [];
+    private closed = false;
+
+    constructor(
+        redisUrl: string,
+        private readonly concurrency = JOB_CONCURRENCY,
+        private readonly prefix = "waterhub:jobs:",
+        private readonly connect: RedisConnect = (options) => new Redis(redisUrl, options),
+        private readonly retryDelayMs = 1000
+    ) {
+        this.redis = connect({ maxRetriesPerRequest: 3 });
+        this.redis.on("error", (e) => console.error(`[JobQueue:redis] Error:`, e.message));
+    }
+
+    private listKey(key: string): string {
+        return `${this.prefix}q:${key}`;
+    }
+
+    private lockKey(key: string): string {
+        return `${this.prefix}lock:${key}`;
+    }
+
+    async enqueue(key: string, data: T): Promise<Job<T>> {
+        if (this.closed) throw new Error("Job queue is closed");
+        const job = createJob(key, data);
+        await this.redis
+            .multi()
+            .rpush(this.listKey(key), JSON.stringify(job))
+            .incr(`${this.prefix}pending`)
+            .rpush(`${this.prefix}ready`, key)
+            .exec();
+        return job;
+    }
+
+    start(handler: JobHandler<T>): void {
+        for (let i = 0; i < this.concurrency; i++) {
+            // BLPOP bloquea la conexion: cada worker usa la suya
+            const conn = this.connect({ maxRetriesPerRequest: null });
+            conn.on("error", (e) => console.error(`[JobQueue:redis] Worker error:`, e.message));
+            this.workers.push(conn);
+            this.loops.push(this.workerLoop(conn, handler));
+        }
+    }
+
+    /** Never rejects: a Redis error (reset, failover, timeout) is logged and the worker retries after a pause. */
+    private async workerLoop(conn: Redis, handler: JobHandler<T>): Promise<void> {
+        while (!this.closed) {
+            let key: string | undefined;
+            try {
+                const popped = await conn.blpop(`${this.prefix}ready`, 5);
+                if (!popped) continue;
+                key = popped[1];
+                await this.drain(key, handler);
+            } catch (error) {
+                if (this.closed) return;
+                const step = key ? `Draining ${key}` : "BLPOP";
+                console.error(`[JobQueue:redis] ${step} failed:`, error instanceof Error ? error.message : error);
+                await new Promise((r) => setTimeout(r, this.retryDelayMs));
+                // La clave ya salio de la fila: se devuelve para que sus jobs no se queden esperando
+                if (key && !this.closed) {
+                    await this.redis.rpush(`${this.prefix}ready`, key)
+                        .catch((e) => console.error(`[JobQueue:redis] Could not requeue ${key}:`, e.message));
+                }
+            }
+        }
+    }
+
+    /** Takes the conversation lock and runs its jobs in order. If another worker holds it, that worker drains. */
+    private async drain(key: string, handler: JobHandler<T>): Promise<void> {
+        const token = randomUUID();
+        const acquired = await this.redis.set(this.lockKey(key), token, "PX", LOCK_TTL_MS, "NX");
+        if (acquired !== "OK") return;
+
+        const renew = setInterval(() => {
+            this.redis
+                .eval(REDIS_RENEW_SCRIPT, 1, this.lockKey(key), token, String(LOCK_TTL_MS))
+                .catch((e) => console.error(`[JobQueue:redis] Lock renew failed for ${key}:`, e.message));
+        }, LOCK_TTL_MS / 3);
+
+        try {
+            while (!this.closed) {
+                const raw = await this.redis.lpop(this.listKey(key));
+                if (!raw) break;
+                // El job ya salio de la lista: un error del contador no debe impedir que corra
+                await this.redis.decr(`${this.prefix}pending`)
+                    .catch((e) => console.error(`[JobQueue:redis] Pending counter failed:`, e.message));
+                await runHandler(handler, JSON.parse(raw) as Job<T>, this.name);
+            }
+        } finally {
+            clearInterval(renew);
+            await this.release(key, token);
+        }
+    }
+
+    /** Frees the conversation lock; if Redis is unreachable the lock expires on its own after LOCK_TTL_MS. */
+    private async release(key: string, token: string): Promise<void> {
+        try {
+            await this.redis.eval(REDIS_RELEASE_SCRIPT, 1, this.lockKey(key), token);
+            // Llego un job entre el ultimo LPOP y soltar el lock: que otro worker lo tome
+            if ((await this.redis.llen(this.listKey(key))) > 0) {
+                await this.redis.rpush(`${this.prefix}ready`, key);
+            }
+        } catch (error) {
+            console.error(`[JobQueue:redis] Lock release failed for ${key}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    async size(): Promise<number> {
+        return Math.max(Number(await this.redis.get(`${this.prefix}pending`)) || 0, 0);
+    }
+
+    async close(timeoutMs = 10000): Promise<void> {
+        this.closed = true;
+        await Promise.race([
+            Promise.allSettled(this.loops),
+            new Promise<void>((resolve) => setTimeout(resolve, timeoutMs).unref())
+        ]);
+        this.workers.forEach((w) => w.disconnect());
+        await this.redis.quit();
+    }
+}
+
+// ============================================
+// Queue Selection
+// ============================================
+
+export function createJobQueue<T>(kind = process.env.JOB_QUEUE || "memory"): JobQueue<T> {
+    switch (kind) {
+        case "redis": {
+            const url = process.env.REDIS_URL;
+            if (!url) throw new Error("JOB_QUEUE=redis requires REDIS_URL");
+            return new RedisJobQueue<T>(url);
+        }
+        case "memory":
+            return new InMemoryJobQueue<T>();
+        default:
+            throw new Error(`Unknown JOB_QUEUE: ${kind} (use memory or redis)`);
+    }
+}
@@ -0,0 +1,370 @@
+// ============================================
+// WaterHub Media - Report photos (download, storage, thumbnails)
+// ============================================
+// Storage is selected with MEDIA_STORAGE (local | supabase).
+// local: files under MEDIA_LOCAL_DIR, served by the server at /media.
+// supabase: Supabase Storage bucket (S3-compatible), public URLs.
+
+import { createHash } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { mkdir, writeFile } from "node:fs/promises";
+import { BlockList, isIP } from "node:net";
+import path from "node:path";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StoredPhoto {
+    /** sha256 del contenido; identifica la foto aunque se reenvie */
+    ref: string;
+    url: string;
+    thumbnailUrl: string;
+    mimeType: string;
+    bytes: number;
+}
+
+export interface LoadedImage {
+    data: Buffer;
+    mimeType: string;
+}
+
+/** The image is bigger than the bytes allowed for it; loading stopped there. */
+export class ImageTooLargeError extends Error {
+    constructor(public readonly maxBytes: number) {
+        super(`Image is larger than ${maxBytes} bytes`);
+        this.name = "ImageTooLargeError";
+    }
+}
+
+export interface MediaStorage {
+    readonly name: string;
+    /** Saves the object and returns its public URL */
+    put(key: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+export const MEDIA_LOCAL_DIR = path.resolve(process.env.MEDIA_LOCAL_DIR || "./media");
+const MEDIA_PUBLIC_BASE_URL = (process.env.MEDIA_PUBLIC_BASE_URL || "/media").replace(/\/$/, "");
+const MEDIA_BUCKET = process.env.MEDIA_BUCKET || "reportes";
+const THUMBNAIL_WIDTH = 320;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Audio/video de un canal: WhatsApp los limita a 16 MB; holgura para documentos
+const MAX_MEDIA_BYTES = 64 * 1024 * 1024;
+const MAX_IMAGE_REDIRECTS = 3;
+// Por turno (album o rafaga): todas van juntas al modelo de vision en una sola llamada
+export const MAX_TURN_IMAGES = Math.max(Number(process.env.MAX_TURN_IMAGES || 10), 1);
+export const MAX_TURN_IMAGE_BYTES = Number(process.env.MAX_TURN_IMAGE_MB || 20) * 1024 * 1024;
+
+// ============================================
+// Media download (Evolution: base64 or url)
+// ============================================
+
+export async function getMediaBufferFromMessage(
+    mediaMsg: { url?: string; directUrl?: string; base64?: string },
+    evolutionUrl?: string,
+    evolutionKey?: string,
+    requestId?: string,
+    label = "media"
+): Promise<ArrayBuffer | null> {
+    if (mediaMsg.base64) {
+        try {
+            const bin = Buffer.from(mediaMsg.base64, "base64");
+            const buf = bin.buffer.slice(bin.byteOffset, bin.byteOffset + bin.byteLength);
+            if (requestId) console.log(`[${requestId}] [Evolution] ${label} from base64, size=${bin.length}`);
+            return buf as ArrayBuffer;
+        } catch (e) {
+            if (requestId) console.warn(`[${requestId}] [Evolution] ${label} base64 decode failed:`, e);
+            return null;
+        }
+    }
+    let url = mediaMsg.url || mediaMsg.directUrl || "";
+    if (!url) {
+        if (requestId) console.warn(`[${requestId}] [Evolution] ${label}: no base64, no url/directUrl`);
+        return null;
+    }
+    if (evolutionUrl && url.startsWith("/")) {
+        url = evolutionUrl.replace(/\/$/, "") + url;
+    }
+    try {
+        const headers: Record<string, string> = {};
+        if (evolutionKey && evolutionUrl && url.startsWith(evolutionUrl)) {
+            headers.apikey = evolutionKey;
+        }
+        const res = await fetch(url, { headers, signal: AbortSignal.timeout(15000) });
+        if (!res.ok) {
+            if (requestId) console.warn(`[${requestId}] [Evolution] ${label} fetch failed: ${res.status} ${url.substring(0, 60)}`);
+            return null;
+        }
+        const bin = await readBodyLimited(res, MAX_MEDIA_BYTES);
+        if (requestId) console.log(`[${requestId}] [Evolution] ${label} from url, size=${bin.length}`);
+        return bin.buffer.slice(bin.byteOffset, bin.byteOffset + bin.byteLength) as ArrayBuffer;
+    } catch (e) {
+        if (requestId) console.warn(`[${requestId}] [Evolution] ${label} fetch error:`, e);
+        return null;
+    }
+}
+
+/**
+ * Reads a response body up to maxBytes: a larger content-length is refused before
+ * reading, and the stream is cancelled as soon as it goes over.
+ */
+export async function readBodyLimited(res: Response, maxBytes: number): Promise<Buffer> {
+    const declared = Number(res.headers.get("content-length"));
+    if (declared > maxBytes) {
+        await res.body?.cancel().catch(() => {});
+        throw new ImageTooLargeError(maxBytes);
+    }
+    if (!res.body) return Buffer.alloc(0);
+    const reader = res.body.getReader();
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+            await reader.cancel().catch(() => {});
+            throw new ImageTooLargeError(maxBytes);
+        }
+        chunks.push(Buffer.from(value));
+    }
+    return Buffer.concat(chunks, total);
+}
+
+// Loopback, redes privadas, link-local (metadata de la nube), CGNAT, multicast y reservadas
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+    ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) {
+    NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// Las subredes IPv4 tambien cubren su forma ::ffff:a.b.c.d
+for (const [network, prefix] of [["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+    NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** True when every address the host resolves to is public (the server never fetches into its own network). */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+    const host = hostname.replace(/^\[|\]$/g, "");
+    try {
+        const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+        return addresses.length > 0
+            && addresses.every(({ address, family }) => !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decodes a data URL or downloads an http(s) image URL from a public host (every
+ * redirect is checked too). Reads at most maxBytes (never more than 10 MB) and
+ * throws ImageTooLargeError past that; null when the image cannot be loaded.
+ */
+export async function loadImage(imageUrl: string, maxBytes = MAX_IMAGE_BYTES): Promise<LoadedImage | null> {
+    const limit = Math.min(maxBytes, MAX_IMAGE_BYTES);
+    const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(imageUrl);
+    if (dataUrl) {
+        if (inlineImageBytes(imageUrl) > limit) throw new ImageTooLargeError(limit);
+        const data = dataUrl[2]
+            ? Buffer.from(dataUrl[3], "base64")
+            : Buffer.from(decodeURIComponent(dataUrl[3]));
+        return { data, mimeType: dataUrl[1] || "image/jpeg" };
+    }
+    if (!/^https?:\/\//i.test(imageUrl)) return null;
+    try {
+        let url = new URL(imageUrl);
+        for (let redirects = 0; ; redirects++) {
+            if (!(await isPublicHost(url.hostname))) {
+                console.warn(`[Media] Image host not allowed: ${url.hostname}`);
+                return null;
+            }
+            const res = await fetch(url, { redirect: "manual", signal: AbortSignal.timeout(15000) });
+            const location = res.headers.get("location");
+            if (res.status >= 300 && res.status < 400 && location && redirects < MAX_IMAGE_REDIRECTS) {
+                await res.body?.cancel().catch(() => {});
+                url = new URL(location, url);
+                continue;
+            }
+            if (!res.ok) {
+                await res.body?.cancel().catch(() => {});
+                console.warn(`[Media] Image fetch failed: ${res.status} ${imageUrl.substring(0, 60)}`);
+                return null;
+            }
+            const data = await readBodyLimited(res, limit);
+            return { data, mimeType: res.headers.get("content-type")?.split(";")[0] || "image/jpeg" };
+        }
+    } catch (e) {
+        if (e instanceof ImageTooLargeError) throw e;
+        console.warn(`[Media] Image fetch error:`, e);
+        return null;
+    }
+}
+
+/** Decoded size of a data URL; 0 for remote URLs (loadTurnImages counts them as they download). */
+export function inlineImageBytes(imageUrl: string): number {
+    const comma = imageUrl.indexOf(",");
+    if (!imageUrl.startsWith("data:") || comma < 0) return 0;
+    const payload = imageUrl.length - comma - 1;
+    return imageUrl.substring(0, comma).endsWith(";base64") ? Math.floor(payload * 3 / 4) : payload;
+}
+
+/**
+ * The images of one turn that fit in MAX_TURN_IMAGES / MAX_TURN_IMAGE_BYTES, in
+ * arrival order. An image that would overflow the budget is skipped, not cut.
+ * Remote URLs count as 0 here; loadTurnImages applies the budget to their real size.
+ */
+export function capTurnImages(
+    imageUrls: string[],
+    maxCount = MAX_TURN_IMAGES,
+    maxBytes = MAX_TURN_IMAGE_BYTES
+): { kept: string[]; dropped: number } {
+    const kept: string[] = [];
+    let bytes = 0;
+    for (const url of imageUrls) {
+        const size = inlineImageBytes(url);
+        if (kept.length >= maxCount || bytes + size > maxBytes) continue;
+        kept.push(url);
+        bytes += size;
+    }
+    return { kept, dropped: imageUrls.length - kept.length };
+}
+
+/**
+ * Loads the images of one turn in order, counting what each one really weighs
+ * (remote URLs included) against maxBytes. An image past what is left of the
+ * budget is skipped and counted in `dropped`; one that cannot be loaded, or is
+ * over 10 MB by itself, comes back as null.
+ */
+export async function loadTurnImages(
+    imageUrls: string[],
+    maxBytes = MAX_TURN_IMAGE_BYTES
+): Promise<{ loaded: Array<LoadedImage | null>; dropped: number }> {
+    const loaded: Array<LoadedImage | null> = [];
+    let left = maxBytes;
+    let dropped = 0;
+    for (const url of imageUrls) {
+        if (left <= 0) {
+            dropped++;
+            continue;
+        }
+        try {
+            const image = await loadImage(url, left);
+            if (image) left -= image.data.length;
+            loaded.push(image);
+        } catch (error) {
+            if (!(error instanceof ImageTooLargeError)) throw error;
+            // Cortada por lo que quedaba del turno: se omite como las que no caben; sola no cabia nunca
+            if (error.maxBytes < MAX_IMAGE_BYTES) dropped++;
+            else loaded.push(null);
+        }
+    }
+    return { loaded, dropped };
+}
+
+// ============================================
+// Storage Adapters
+// ============================================
+
+export class LocalMediaStorage implements MediaStorage {
+    readonly name = "local";
+
+    constructor(
+        private readonly rootDir = MEDIA_LOCAL_DIR,
+        private readonly publicBaseUrl = MEDIA_PUBLIC_BASE_URL
+    ) {}
+
+    async put(key: string, data: Buffer): Promise<string> {
+        const filePath = path.join(this.rootDir, key);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, data);
+        return `${this.publicBaseUrl}/${key}`;
+    }
+}
+
+export class SupabaseMediaStorage implements MediaStorage {
+    readonly name = "supabase";
+
+    constructor(private readonly client: SupabaseClient, private readonly bucket = MEDIA_BUCKET) {}
+
+    async put(key: string, data: Buffer, contentType: string): Promise<string> {
+        const { error } = await this.client.storage
+            .from(this.bucket)
+            .upload(key, data, { contentType, upsert: true });
+        if (error) throw new Error(`Supabase Storage upload failed: ${error.message}`);
+        return this.client.storage.from(this.bucket).getPublicUrl(key).data.publicUrl;
+    }
+}
+
+export function createMediaStorage(kind = process.env.MEDIA_STORAGE || "local"): MediaStorage {
+    switch (kind) {
+        case "supabase": {
+            const url = process.env.SUPABASE_URL;
+            const key = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_ANON_KEY;
+            if (!url || !key) throw new Error("MEDIA_STORAGE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_KEY");
+            return new SupabaseMediaStorage(createClient(url, key));
+        }
+        case "local":
+            return new LocalMediaStorage();
+        default:
+            throw new Error(`Unknown MEDIA_STORAGE: ${kind} (use local or supabase)`);
+    }
+}
+
+let mediaStorage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+    if (!mediaStorage) mediaStorage = createMediaStorage();
+    return mediaStorage;
+}
+
+// ============================================
+// Report Photos
+// ============================================
+
+export function photoKeyFor(ref: string, date = new Date()): string {
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    return `reportes/${date.getUTCFullYear()}/${month}/${ref}.jpg`;
+}
+
+/** La miniatura vive junto a la foto: <key>_thumb.jpg */
+export function thumbnailKeyFor(photoKey: string): string {
+    return photoKey.replace(/\.jpg$/, "_thumb.jpg");
+}
+
+/**
+ * Normalizes the image to JPEG, stores it with a thumbnail and returns the references.
+ * Returns null (and logs) if the bytes are not a usable image or storage fails.
+ */
+export async function storeReportPhoto(
+    data: Buffer,
+    storage: MediaStorage = getMediaStorage()
+): Promise<StoredPhoto | null> {
+    if (data.length === 0 || data.length > MAX_IMAGE_BYTES) {
+        console.warn(`[Media] Rejected photo: ${data.length} bytes`);
+        return null;
+    }
+    try {
+        const ref = createHash("sha256").update(data).digest("hex").substring(0, 32);
+        // rotate() aplica la orientacion EXIF; la salida JPEG no conserva metadatos
+        const photo = await sharp(data).rotate().jpeg({ quality: 85 }).toBuffer();
+        const thumbnail = await sharp(photo).resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer();
+
+        const key = photoKeyFor(ref);
+        const [url, thumbnailUrl] = await Promise.all([
+            storage.put(key, photo, "image/jpeg"),
+            storage.put(thumbnailKeyFor(key), thumbnail, "image/jpeg")
+        ]);
+        console.log(`[Media] Stored photo ${ref} (${photo.length} bytes) via ${storage.name}`);
+        return { ref, url, thumbnailUrl, mimeType: "image/jpeg", bytes: photo.length };
+    } catch (e) {
+        console.error(`[Media] Could not store photo:`, e);
+        return null;
+    }
+}
@@ -0,0 +1,98 @@
+// ============================================
+// WaterHub Message Debounce - one agent turn per burst of WhatsApp messages
+// ============================================
+// Citizens often send a photo, then a pin, then "hay una fuga" within a few
+// seconds. Messages from the same conversation are held until MESSAGE_DEBOUNCE_MS
+// pass without a new one (or MESSAGE_DEBOUNCE_MAX_WAIT_MS since the first, or
+// MESSAGE_DEBOUNCE_MAX_ITEMS messages), then flushed together.
+// The buffer is per process: with several replicas behind a balancer, a burst
+// only merges if it lands on the same replica (otherwise it is still processed
+// in order by the job queue, just in more than one turn).
+
+// ============================================
+// Configuration
+// ============================================
+
+const MESSAGE_DEBOUNCE_MS = Math.max(Number(process.env.MESSAGE_DEBOUNCE_MS ?? 4000), 0);
+const MESSAGE_DEBOUNCE_MAX_WAIT_MS = Math.max(Number(process.env.MESSAGE_DEBOUNCE_MAX_WAIT_MS || 15000), 0);
+const MESSAGE_DEBOUNCE_MAX_ITEMS = Math.max(Number(process.env.MESSAGE_DEBOUNCE_MAX_ITEMS || 10), 1);
+
+export type FlushHandler<T> = (key: string, items: T[]) => Promise<void>;
+
+interface PendingBurst<T> {
+    items: T[];
+    firstAt: number;
+    timer?: NodeJS.Timeout;
+}
+
+// ============================================
+// Debouncer
+// ============================================
+
+export class MessageDebouncer<T> {
+    private readonly bursts = new Map<string, PendingBurst<T>>();
+
+    constructor(
+        private readonly onFlush: FlushHandler<T>,
+        private readonly windowMs = MESSAGE_DEBOUNCE_MS,
+        private readonly maxWaitMs = MESSAGE_DEBOUNCE_MAX_WAIT_MS,
+        private readonly maxItems = MESSAGE_DEBOUNCE_MAX_ITEMS
+    ) {}
+
+    /** Adds a message to the conversation's burst and (re)starts its window. */
+    push(key: string, item: T): void {
+        if (this.windowMs === 0) {
+            this.emit(key, [item]);
+            return;
+        }
+
+        const now = Date.now();
+        let burst = this.bursts.get(key);
+        if (burst) {
+            clearTimeout(burst.timer);
+            burst.items.push(item);
+        } else {
+            burst = { items: [item], firstAt: now };
+            this.bursts.set(key, burst);
+        }
+        if (burst.items.length >= this.maxItems) {
+            this.flush(key);
+            return;
+        }
+
+        // Nunca esperar mas de maxWaitMs desde el primer mensaje aunque sigan llegando
+        const delay = Math.max(Math.min(this.windowMs, burst.firstAt + this.maxWaitMs - now), 0);
+        burst.timer = setTimeout(() => this.flush(key), delay);
+    }
+
+    /** Flushes one conversation now (no-op if nothing is buffered). */
+    flush(key: string): void {
+        const burst = this.bursts.get(key);
+        if (!burst) return;
+        clearTimeout(burst.timer);
+        this.bursts.delete(key);
+        this.emit(key, burst.items);
+    }
+
+    /** Flushes every buffered conversation (shutdown). */
+    async flushAll(): Promise<void> {
+        const pending: Promise<void>[] = [];
+        for (const [key, burst] of Array.from(this.bursts.entries())) {
+            clearTimeout(burst.timer);
+            this.bursts.delete(key);
+            pending.push(this.emit(key, burst.items));
+        }
+        await Promise.all(pending);
+    }
+
+    /** Conversations with messages waiting for their window to close. */
+    size(): number {
+        return this.bursts.size;
+    }
+
+    private emit(key: string, items: T[]): Promise<void> {
+        return this.onFlush(key, items).catch((error) => {
+            console.error(`[Debounce] Flush of ${items.length} message(s) for ${key} failed:`, error);
+        });
+    }
+}
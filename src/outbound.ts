@@ -0,0 +1,495 @@
+// ============================================
+// WaterHub Outbound - replies that survive a channel outage
+// ============================================
+// Every reply to a citizen is stored before it is sent. If the channel rejects
+// it or is unreachable, it is retried with exponential backoff; after
+// OUTBOUND_MAX_ATTEMPTS it stays as "failed" (dead letter) until an operator
+// retries it from /api/admin/envios. Long texts are split at paragraph
+// boundaries so no part exceeds the channel's limit.
+// OUTBOUND_STORE=memory (default, single process) | postgres (DATABASE_URL, several replicas)
+
+import { randomUUID } from "node:crypto";
+import type { Pool } from "pg";
+import { getDbPool } from "./clients.js";
+import {
+    getChannelAdapter,
+    type ChannelAdapter,
+    type ChannelAddress,
+    type ChannelName,
+    type OutboundChoices,
+    type OutboundLocation
+} from "./channels.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type OutboundStatus = "queued" | "sending" | "sent" | "failed";
+
+export type OutboundPayload =
+    | { kind: "text"; parts: string[] }
+    | { kind: "image"; imageUrl: string; caption?: string }
+    | { kind: "location"; location: OutboundLocation }
+    | { kind: "choices"; choices: OutboundChoices }
+    | { kind: "voice"; audioUrl: string };
+
+export interface OutboundMessage {
+    id: string;
+    channel: ChannelName;
+    address: ChannelAddress;
+    payload: OutboundPayload;
+    status: OutboundStatus;
+    attempts: number;
+    /** Partes de texto ya entregadas: un reintento sigue desde la siguiente */
+    sentParts: number;
+    lastError?: string;
+    nextAttemptAt: string;
+    createdAt: string;
+    updatedAt: string;
+    requestId?: string;
+}
+
+export interface OutboundStore {
+    readonly name: string;
+    insert(message: OutboundMessage): Promise<void>;
+    update(message: OutboundMessage): Promise<void>;
+    get(id: string): Promise<OutboundMessage | null>;
+    /** Marks up to `limit` due messages as "sending" and returns them (also reclaims stuck sends). */
+    claimDue(now: Date, limit: number): Promise<OutboundMessage[]>;
+    list(status?: OutboundStatus, limit?: number): Promise<OutboundMessage[]>;
+}
+
+export class OutboundNotFoundError extends Error {
+    constructor(public readonly messageId: string) {
+        super(`Outbound message ${messageId} not found`);
+        this.name = "OutboundNotFoundError";
+    }
+}
+
+export class OutboundStateError extends Error {
+    constructor(public readonly messageId: string, public readonly status: OutboundStatus) {
+        super(`Outbound message ${messageId} is ${status}; only failed messages can be retried`);
+        this.name = "OutboundStateError";
+    }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const OUTBOUND_MAX_ATTEMPTS = Math.max(Number(process.env.OUTBOUND_MAX_ATTEMPTS || 8), 1);
+const OUTBOUND_RETRY_BASE_MS = Number(process.env.OUTBOUND_RETRY_BASE_SECONDS || 5) * 1000;
+const OUTBOUND_RETRY_MAX_MS = 10 * 60 * 1000;
+const OUTBOUND_POLL_MS = 1000;
+// Un envio "sending" mas viejo que esto es de una replica que murio: se vuelve a intentar
+const STUCK_SENDING_MS = 5 * 60 * 1000;
+// Los enviados solo se guardan para consulta un rato
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** Delay before attempt `attempts + 1`: base, 2x base, 4x base... capped at 10 min. */
+export function retryDelayMs(attempts: number, baseMs = OUTBOUND_RETRY_BASE_MS): number {
+    return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), OUTBOUND_RETRY_MAX_MS);
+}
+
+// ============================================
+// Message Splitting
+// ============================================
+
+function splitBy(text: string, separator: string, maxLength: number): string[] {
+    const parts: string[] = [];
+    let current = "";
+    for (const piece of text.split(separator)) {
+        const candidate = current ? `${current}${separator}${piece}` : piece;
+        if (candidate.length <= maxLength) {
+            current = candidate;
+        } else {
+            if (current) parts.push(current);
+            current = piece;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+}
+
+/**
+ * Splits a long reply into messages of at most `maxLength` characters, preferring
+ * paragraph breaks, then line breaks, then spaces; only cuts a word if it has to.
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+    const trimmed = text.trim();
+    if (trimmed.length <= maxLength) return trimmed ? [trimmed] : [];
+
+    const result: string[] = [];
+    for (const paragraphGroup of splitBy(trimmed, "\n\n", maxLength)) {
+        if (paragraphGroup.length <= maxLength) {
+            result.push(paragraphGroup);
+            continue;
+        }
+        for (const lineGroup of splitBy(paragraphGroup, "\n", maxLength)) {
+            if (lineGroup.length <= maxLength) {
+                result.push(lineGroup);
+                continue;
+            }
+            for (const wordGroup of splitBy(lineGroup, " ", maxLength)) {
+                for (let i = 0; i < wordGroup.length; i += maxLength) {
+                    result.push(wordGroup.slice(i, i + maxLength));
+                }
+            }
+        }
+    }
+    return result.map((part) => part.trim()).filter(Boolean);
+}
+
+// ============================================
+// In-Memory Store (default)
+// ============================================
+
+export class InMemoryOutboundStore implements OutboundStore {
+    readonly name = "memory";
+    private readonly messages = new Map<string, OutboundMessage>();
+
+    async insert(message: OutboundMessage): Promise<void> {
+        this.messages.set(message.id, structuredClone(message));
+    }
+
+    async update(message: OutboundMessage): Promise<void> {
+        this.messages.set(message.id, structuredClone(message));
+    }
+
+    async get(id: string): Promise<OutboundMessage | null> {
+        const message = this.messages.get(id);
+        return message ? structuredClone(message) : null;
+    }
+
+    async claimDue(now: Date, limit: number): Promise<OutboundMessage[]> {
+        const claimed: OutboundMessage[] = [];
+        for (const message of this.messages.values()) {
+            const age = now.getTime() - new Date(message.updatedAt).getTime();
+            if (message.status === "sent" && age > SENT_RETENTION_MS) {
+                this.messages.delete(message.id);
+                continue;
+            }
+            if (claimed.length >= limit) continue;
+            const due = message.status === "queued" && new Date(message.nextAttemptAt) <= now;
+            const stuck = message.status === "sending" && age > STUCK_SENDING_MS;
+            if (due || stuck) {
+                message.status = "sending";
+                message.updatedAt = now.toISOString();
+                claimed.push(structuredClone(message));
+            }
+        }
+        return claimed;
+    }
+
+    async list(status?: OutboundStatus, limit = 100): Promise<OutboundMessage[]> {
+        return Array.from(this.messages.values())
+            .filter((m) => !status || m.status === status)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, limit)
+            .map((m) => structuredClone(m));
+    }
+}
+
+// ============================================
+// Postgres Store (DATABASE_URL)
+// ============================================
+
+export class PostgresOutboundStore implements OutboundStore {
+    readonly name = "postgres";
+    private ready: Promise<void> | null = null;
+
+    constructor(private readonly pool: Pool) {}
+
+    private ensureTable(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.pool
+                .query(
+                    `CREATE TABLE IF NOT EXISTS public.waterhub_outbound_messages (
+                        id TEXT PRIMARY KEY,
+                        channel VARCHAR(20) NOT NULL,
+                        address JSONB NOT NULL,
+                        payload JSONB NOT NULL,
+                        status VARCHAR(10) NOT NULL,
+                        attempts INTEGER NOT NULL DEFAULT 0,
+                        sent_parts INTEGER NOT NULL DEFAULT 0,
+                        last_error TEXT,
+                        next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+                        request_id TEXT,
+                        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+                        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+                    );
+                    CREATE INDEX IF NOT EXISTS idx_waterhub_outbound_due
+                        ON public.waterhub_outbound_messages (status, next_attempt_at)`
+                )
+                .then(() => undefined)
+                .catch((e) => {
+                    this.ready = null;
+                    throw e;
+                });
+        }
+        return this.ready;
+    }
+
+    private static toMessage(r: Record<string, any>): OutboundMessage {
+        return {
+            id: r.id,
+            channel: r.channel,
+            address: r.address,
+            payload: r.payload,
+            status: r.status,
+            attempts: r.attempts,
+            sentParts: r.sent_parts,
+            lastError: r.last_error ?? undefined,
+            nextAttemptAt: new Date(r.next_attempt_at).toISOString(),
+            createdAt: new Date(r.created_at).toISOString(),
+            updatedAt: new Date(r.updated_at).toISOString(),
+            requestId: r.request_id ?? undefined
+        };
+    }
+
+    async insert(m: OutboundMessage): Promise<void> {
+        await this.ensureTable();
+        await this.pool.query(
+            `INSERT INTO public.waterhub_outbound_messages
+                (id, channel, address, payload, status, attempts, sent_parts, last_error, next_attempt_at, request_id, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+            [m.id, m.channel, JSON.stringify(m.address), JSON.stringify(m.payload), m.status, m.attempts, m.sentParts,
+                m.lastError ?? null, m.nextAttemptAt, m.requestId ?? null, m.createdAt, m.updatedAt]
+        );
+    }
+
+    async update(m: OutboundMessage): Promise<void> {
+        await this.ensureTable();
+        await this.pool.query(
+            `UPDATE public.waterhub_outbound_messages
+             SET status = $2, attempts = $3, sent_parts = $4, last_error = $5, next_attempt_at = $6, updated_at = $7
+             WHERE id = $1`,
+            [m.id, m.status, m.attempts, m.sentParts, m.lastError ?? null, m.nextAttemptAt, m.updatedAt]
+        );
+    }
+
+    async get(id: string): Promise<OutboundMessage | null> {
+        await this.ensureTable();
+        const res = await this.pool.query(`SELECT * FROM public.waterhub_outbound_messages WHERE id = $1`, [id]);
+        return res.rows[0] ? PostgresOutboundStore.toMessage(res.rows[0]) : null;
+    }
+
+    async claimDue(now: Date, limit: number): Promise<OutboundMessage[]> {
+        await this.ensureTable();
+        await this.pool.query(
+            `DELETE FROM public.waterhub_outbound_messages WHERE status = 'sent' AND updated_at < $1`,
+            [new Date(now.getTime() - SENT_RETENTION_MS)]
+        );
+        // SKIP LOCKED: dos replicas nunca toman el mismo envio
+        const res = await this.pool.query(
+            `UPDATE public.waterhub_outbound_messages SET status = 'sending', updated_at = $1
+             WHERE id IN (
+                 SELECT id FROM public.waterhub_outbound_messages
+                 WHERE (status = 'queued' AND next_attempt_at <= $1)
+                    OR (status = 'sending' AND updated_at < $2)
+                 ORDER BY next_attempt_at
+                 LIMIT $3
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING *`,
+            [now, new Date(now.getTime() - STUCK_SENDING_MS), limit]
+        );
+        return res.rows.map(PostgresOutboundStore.toMessage);
+    }
+
+    async list(status?: OutboundStatus, limit = 100): Promise<OutboundMessage[]> {
+        await this.ensureTable();
+        const res = status
+            ? await this.pool.query(
+                `SELECT * FROM public.waterhub_outbound_messages WHERE status = $1 ORDER BY created_at DESC LIMIT $2`,
+                [status, limit]
+            )
+            : await this.pool.query(`SELECT * FROM public.waterhub_outbound_messages ORDER BY created_at DESC LIMIT $1`, [limit]);
+        return res.rows.map(PostgresOutboundStore.toMessage);
+    }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+export function createOutboundStore(kind = process.env.OUTBOUND_STORE || "memory"): OutboundStore {
+    switch (kind) {
+        case "postgres": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("OUTBOUND_STORE=postgres requires DATABASE_URL (postgresql://...)");
+            return new PostgresOutboundStore(pool);
+        }
+        case "memory":
+            return new InMemoryOutboundStore();
+        default:
+            throw new Error(`Unknown OUTBOUND_STORE: ${kind} (use memory or postgres)`);
+    }
+}
+
+// ============================================
+// Outbound Queue
+// ============================================
+
+export class OutboundQueue {
+    private sweeping = false;
+
+    constructor(
+        readonly store: OutboundStore,
+        private readonly resolveAdapter: (channel: ChannelName) => ChannelAdapter = getChannelAdapter,
+        private readonly maxAttempts = OUTBOUND_MAX_ATTEMPTS,
+        private readonly retryBaseMs = OUTBOUND_RETRY_BASE_MS
+    ) {}
+
+    /** Stores a text reply (split to the channel's limit) and makes the first attempt right away. */
+    sendText(channel: ChannelName, address: ChannelAddress, text: string, requestId?: string): Promise<OutboundMessage> {
+        const parts = splitMessage(text, this.resolveAdapter(channel).maxTextLength);
+        return this.enqueue(channel, address, { kind: "text", parts }, requestId);
+    }
+
+    sendImage(channel: ChannelName, address: ChannelAddress, imageUrl: string, caption?: string, requestId?: string): Promise<OutboundMessage> {
+        return this.enqueue(channel, address, { kind: "image", imageUrl, caption }, requestId);
+    }
+
+    sendLocation(channel: ChannelName, address: ChannelAddress, location: OutboundLocation, requestId?: string): Promise<OutboundMessage> {
+        return this.enqueue(channel, address, { kind: "location", location }, requestId);
+    }
+
+    sendChoices(channel: ChannelName, address: ChannelAddress, choices: OutboundChoices, requestId?: string): Promise<OutboundMessage> {
+        return this.enqueue(channel, address, { kind: "choices", choices }, requestId);
+    }
+
+    sendVoiceNote(channel: ChannelName, address: ChannelAddress, audioUrl: string, requestId?: string): Promise<OutboundMessage> {
+        return this.enqueue(channel, address, { kind: "voice", audioUrl }, requestId);
+    }
+
+    private async enqueue(
+        channel: ChannelName,
+        address: ChannelAddress,
+        payload: OutboundPayload,
+        requestId?: string
+    ): Promise<OutboundMessage> {
+        const now = new Date().toISOString();
+        // Se guarda ya como "sending": esta replica hace el primer intento
+        const message: OutboundMessage = {
+            id: randomUUID(),
+            channel,
+            address,
+            payload,
+            status: "sending",
+            attempts: 0,
+            sentParts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now,
+            requestId
+        };
+        await this.store.insert(message);
+        return this.deliver(message);
+    }
+
+    /** One attempt; updates status, attempts and the next retry time. */
+    private async deliver(message: OutboundMessage): Promise<OutboundMessage> {
+        const adapter = this.resolveAdapter(message.channel);
+        const payload = message.payload;
+        let ok: boolean;
+        let failure = `${adapter.label} rejected the message or was unreachable`;
+        try {
+            if (payload.kind === "text") {
+                ok = true;
+                while (message.sentParts < payload.parts.length) {
+                    if (!(await adapter.sendText(message.address, payload.parts[message.sentParts]))) {
+                        ok = false;
+                        break;
+                    }
+                    message.sentParts++;
+                }
+            } else if (payload.kind === "image") {
+                ok = await adapter.sendImage(message.address, payload.imageUrl, payload.caption);
+            } else if (payload.kind === "location") {
+                ok = await adapter.sendLocation(message.address, payload.location);
+            } else if (payload.kind === "choices") {
+                ok = await adapter.sendChoices(message.address, payload.choices);
+            } else {
+                ok = await adapter.sendVoiceNote(message.address, payload.audioUrl);
+            }
+        } catch (error) {
+            ok = false;
+            failure = error instanceof Error ? error.message : String(error);
+        }
+
+        message.attempts++;
+        message.updatedAt = new Date().toISOString();
+        const tag = `[Outbound]${message.requestId ? ` [${message.requestId}]` : ""}`;
+        if (ok) {
+            message.status = "sent";
+            message.lastError = undefined;
+        } else if (message.attempts >= this.maxAttempts) {
+            message.status = "failed";
+            message.lastError = failure;
+            console.error(`${tag} ${payload.kind} ${message.id} failed after ${message.attempts} attempts (dead letter)`);
+        } else {
+            message.status = "queued";
+            message.lastError = failure;
+            const delay = retryDelayMs(message.attempts, this.retryBaseMs);
+            message.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+            console.warn(`${tag} ${payload.kind} ${message.id} attempt ${message.attempts} failed, retrying in ${Math.round(delay / 1000)}s`);
+        }
+
+        try {
+            await this.store.update(message);
+        } catch (error) {
+            console.error(`${tag} Could not save status of ${message.id}:`, error);
+        }
+        return message;
+    }
+
+    /** Attempts every due message once; returns how many were attempted. */
+    async processDue(limit = 20): Promise<number> {
+        if (this.sweeping) return 0;
+        this.sweeping = true;
+        try {
+            const due = await this.store.claimDue(new Date(), limit);
+            for (const message of due) await this.deliver(message);
+            return due.length;
+        } finally {
+            this.sweeping = false;
+        }
+    }
+
+    /** Puts a dead-lettered message back in the queue and attempts it now. */
+    async retry(id: string): Promise<OutboundMessage> {
+        const message = await this.store.get(id);
+        if (!message) throw new OutboundNotFoundError(id);
+        if (message.status !== "failed") throw new OutboundStateError(id, message.status);
+        message.status = "sending";
+        message.attempts = 0;
+        message.updatedAt = new Date().toISOString();
+        await this.store.update(message);
+        return this.deliver(message);
+    }
+
+    /** Polls for due retries; returns a stop function. */
+    start(pollMs = OUTBOUND_POLL_MS): () => void {
+        const timer = setInterval(() => {
+            this.processDue().catch((e) => console.error(`[Outbound] Retry sweep failed:`, e));
+        }, pollMs);
+        timer.unref();
+        return () => clearInterval(timer);
+    }
+}
+
+let outboundQueue: OutboundQueue | null = null;
+
+export function getOutboundQueue(): OutboundQueue {
+    if (!outboundQueue) {
+        outboundQueue = new OutboundQueue(createOutboundStore());
+        console.log(`[Outbound] Using ${outboundQueue.store.name} outbound store`);
+    }
+    return outboundQueue;
+}
+
+/** Tests / custom wiring. */
+export function setOutboundQueue(queue: OutboundQueue): void {
+    outboundQueue = queue;
+}
@@ -0,0 +1,608 @@
+// ============================================
+// WaterHub Quejas Repository - Postgres / Supabase / AquaHub API / Memory
+// ============================================
+// One place that reads and writes reports. The backend is chosen once with
+// QUEJAS_BACKEND (postgres | supabase | aquahub | memory); without it the
+// first configured one wins: DATABASE_URL, then Supabase, then the AquaHub API.
+
+import type { Pool } from "pg";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EstadoIncidente, Incidente, TipoIncidente } from "./types.js";
+import { fetchAquaHub, getDbPool, getSupabase, getSupabaseService } from "./clients.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface NuevaQueja {
+    tipo: TipoIncidente;
+    descripcion: string;
+    direccion?: string | null;
+    colonia?: string | null;
+    alcaldia?: string | null;
+    latitud?: number | null;
+    longitud?: number | null;
+    hogares_afectados?: number | null;
+    duracion?: string | null;
+    photo_url?: string | null;
+    /** Todas las fotos; si falta photo_url se usa la primera */
+    photo_urls?: string[] | null;
+    /** Hash perceptual de cada foto (para reconocer la misma foto en otro reporte) */
+    photo_hashes?: string[] | null;
+    /** 0-1 si las coordenadas salieron de geocodificar la direccion escrita; null si vinieron de un pin */
+    geocode_confianza?: number | null;
+}
+
+export interface QuejasFilter {
+    tipo?: TipoIncidente | null;
+    alcaldia?: string | null;
+    estado?: EstadoIncidente | null;
+    /** Solo quejas creadas desde esta fecha */
+    since?: Date;
+    /** Solo quejas con coordenadas dentro del rectangulo */
+    bbox?: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+    limit?: number;
+}
+
+export interface EstadoChange {
+    /** Estado leido antes del cambio; el update solo aplica si sigue igual */
+    from: EstadoIncidente;
+    to: EstadoIncidente;
+    /** Quien hizo el cambio (nombre de la API key de la autoridad) */
+    actor: string;
+    nota?: string | null;
+}
+
+export interface QuejasRepository {
+    readonly name: string;
+    create(queja: NuevaQueja): Promise<Incidente>;
+    query(filter?: QuejasFilter): Promise<Incidente[]>;
+    getById(id: string): Promise<Incidente | null>;
+    /** Aplica el cambio si el estado actual sigue siendo `change.from`; null si no existe o cambio antes. */
+    updateStatus(id: string, change: EstadoChange): Promise<Incidente | null>;
+    /** Suma un afectado (duplicado confirmado). Devuelve null si no existe. */
+    incrementAfectados(id: string): Promise<Incidente | null>;
+}
+
+// ============================================
+// Row Mapping (public.quejas)
+// ============================================
+
+type TipoQuejaSupabase = "sin_agua" | "fuga" | "agua_contaminada" | "baja_presion" | "otro";
+
+export function mapTipoToSupabase(tipo: string): TipoQuejaSupabase {
+    switch (tipo) {
+        case "fuga": return "fuga";
+        case "sin_agua": return "sin_agua";
+        case "contaminacion": return "agua_contaminada";
+        case "infraestructura":
+        default: return "otro";
+    }
+}
+
+function mapTipoFromSupabase(tipo: string): TipoIncidente {
+    switch (tipo) {
+        case "fuga": return "fuga";
+        case "sin_agua":
+        case "baja_presion": return "sin_agua";
+        case "agua_contaminada": return "contaminacion";
+        default: return "otro";
+    }
+}
+
+interface QuejaRow {
+    id: number | string;
+    texto: string;
+    tipo: string;
+    alcaldia: string | null;
+    colonia: string | null;
+    direccion: string | null;
+    duracion: string | null;
+    latitud: number | null;
+    longitud: number | null;
+    photo_url: string | null;
+    photo_urls: string[] | null;
+    photo_hashes: string[] | null;
+    geocode_confianza: number | null;
+    hogares_afectados: number | null;
+    estado: string | null;
+    created_at: string;
+    reconocido_en: string | null;
+    en_progreso_en: string | null;
+    resuelto_en: string | null;
+    estado_actualizado_por: string | null;
+}
+
+const QUEJA_COLUMNS = "id, texto, tipo, alcaldia, colonia, direccion, duracion, latitud, longitud, photo_url, photo_urls, photo_hashes, geocode_confianza, hogares_afectados, estado, created_at, reconocido_en, en_progreso_en, resuelto_en, estado_actualizado_por";
+
+// Columna con la fecha de cada transicion
+const ESTADO_TIMESTAMP_COLUMN: Record<EstadoIncidente, "reconocido_en" | "en_progreso_en" | "resuelto_en" | null> = {
+    pendiente: null,
+    reconocido: "reconocido_en",
+    en_progreso: "en_progreso_en",
+    resuelto: "resuelto_en"
+};
+
+function toIsoString(value: string | Date | null | undefined): string | undefined {
+    if (value == null) return undefined;
+    return typeof value === "string" ? value : new Date(value).toISOString();
+}
+
+function rowToIncidente(r: QuejaRow): Incidente {
+    return {
+        id: String(r.id),
+        tipo: mapTipoFromSupabase(r.tipo),
+        descripcion: r.texto,
+        direccion: r.direccion ?? undefined,
+        colonia: r.colonia ?? undefined,
+        alcaldia: r.alcaldia ?? undefined,
+        latitud: r.latitud ?? undefined,
+        longitud: r.longitud ?? undefined,
+        photo_url: r.photo_url ?? undefined,
+        photo_urls: r.photo_urls?.length ? r.photo_urls : r.photo_url ? [r.photo_url] : undefined,
+        photo_hashes: r.photo_hashes?.length ? r.photo_hashes : undefined,
+        geocode_confianza: r.geocode_confianza ?? undefined,
+        hogares_afectados: r.hogares_afectados ?? 1,
+        duracion: r.duracion ?? undefined,
+        estado: (r.estado as EstadoIncidente | null) ?? "pendiente",
+        creado_en: toIsoString(r.created_at)!,
+        reconocido_en: toIsoString(r.reconocido_en),
+        en_progreso_en: toIsoString(r.en_progreso_en),
+        resuelto_en: toIsoString(r.resuelto_en),
+        estado_actualizado_por: r.estado_actualizado_por ?? undefined
+    };
+}
+
+// Lista de fotos sin vacios ni repetidas; photo_url va primero si vino aparte
+function normalizePhotoUrls(q: NuevaQueja): string[] {
+    return [...new Set([q.photo_url, ...(q.photo_urls ?? [])].filter((u): u is string => !!u))];
+}
+
+// texto es lo que pinta la app del mapa: descripcion + direccion
+function quejaToRow(q: NuevaQueja) {
+    const photoUrls = normalizePhotoUrls(q);
+    return {
+        texto: [q.descripcion, q.direccion].filter(Boolean).join(". "),
+        tipo: mapTipoToSupabase(q.tipo),
+        alcaldia: q.alcaldia || null,
+        colonia: q.colonia || null,
+        direccion: q.direccion || null,
+        duracion: q.duracion || null,
+        latitud: q.latitud ?? null,
+        longitud: q.longitud ?? null,
+        photo_url: photoUrls[0] ?? null,
+        photo_urls: photoUrls.length ? photoUrls : null,
+        photo_hashes: q.photo_hashes?.length ? [...new Set(q.photo_hashes)] : null,
+        geocode_confianza: q.geocode_confianza ?? null,
+        hogares_afectados: q.hogares_afectados ?? 1
+    };
+}
+
+// ============================================
+// Postgres (DATABASE_URL)
+// ============================================
+
+export class PostgresQuejasRepository implements QuejasRepository {
+    readonly name = "postgres";
+
+    constructor(private readonly pool: Pool) {}
+
+    async create(queja: NuevaQueja): Promise<Incidente> {
+        const row = quejaToRow(queja);
+        const res = await this.pool.query(
+            `INSERT INTO public.quejas (texto, tipo, alcaldia, colonia, direccion, duracion, latitud, longitud, photo_url, photo_urls, photo_hashes, geocode_confianza, hogares_afectados)
+             VALUES ($1, $2::tipo_queja, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+             RETURNING ${QUEJA_COLUMNS}`,
+            [row.texto, row.tipo, row.alcaldia, row.colonia, row.direccion, row.duracion, row.latitud, row.longitud, row.photo_url, row.photo_urls, row.photo_hashes, row.geocode_confianza, row.hogares_afectados]
+        );
+        return rowToIncidente(res.rows[0]);
+    }
+
+    async query(filter: QuejasFilter = {}): Promise<Incidente[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        const add = (sql: string, value: unknown) => {
+            params.push(value);
+            conditions.push(sql.replace("?", `$${params.length}`));
+        };
+        if (filter.tipo) add("tipo = ?::tipo_queja", mapTipoToSupabase(filter.tipo));
+        if (filter.alcaldia) add("alcaldia = ?", filter.alcaldia);
+        if (filter.estado) add("estado = ?", filter.estado);
+        if (filter.since) add("created_at >= ?", filter.since.toISOString());
+        if (filter.bbox) {
+            add("latitud >= ?", filter.bbox.minLat);
+            add("latitud <= ?", filter.bbox.maxLat);
+            add("longitud >= ?", filter.bbox.minLng);
+            add("longitud <= ?", filter.bbox.maxLng);
+        }
+        const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
+        const res = await this.pool.query(
+            `SELECT ${QUEJA_COLUMNS} FROM public.quejas${where} ORDER BY created_at DESC LIMIT ${Math.floor(filter.limit ?? 10)}`,
+            params
+        );
+        return (res.rows || []).map(rowToIncidente);
+    }
+
+    async getById(id: string): Promise<Incidente | null> {
+        const res = await this.pool.query(`SELECT ${QUEJA_COLUMNS} FROM public.quejas WHERE id = $1`, [id]);
+        return res.rows?.[0] ? rowToIncidente(res.rows[0]) : null;
+    }
+
+    async updateStatus(id: string, change: EstadoChange): Promise<Incidente | null> {
+        const tsColumn = ESTADO_TIMESTAMP_COLUMN[change.to];
+        // Update condicionado al estado leido + historial en la misma sentencia
+        const res = await this.pool.query(
+            `WITH updated AS (
+                UPDATE public.quejas
+                SET estado = $3, estado_actualizado_por = $4, estado_actualizado_en = NOW()${tsColumn ? `, ${tsColumn} = NOW()` : ""}
+                WHERE id = $1 AND COALESCE(estado, 'pendiente') = $2
+                RETURNING ${QUEJA_COLUMNS}
+            ), historial AS (
+                INSERT INTO public.quejas_estado_historial (queja_id, estado_anterior, estado_nuevo, cambiado_por, nota)
+                SELECT id, $2, $3, $4, $5 FROM updated
+            )
+            SELECT * FROM updated`,
+            [id, change.from, change.to, change.actor, change.nota ?? null]
+        );
+        return res.rows?.[0] ? rowToIncidente(res.rows[0]) : null;
+    }
+
+    async incrementAfectados(id: string): Promise<Incidente | null> {
+        const res = await this.pool.query(
+            `UPDATE public.quejas SET hogares_afectados = COALESCE(hogares_afectados, 1) + 1
+             WHERE id = $1 RETURNING ${QUEJA_COLUMNS}`,
+            [id]
+        );
+        return res.rows?.[0] ? rowToIncidente(res.rows[0]) : null;
+    }
+}
+
+// ============================================
+// Supabase (REST, anon key; service key for status changes)
+// ============================================
+
+export class SupabaseQuejasRepository implements QuejasRepository {
+    readonly name = "supabase";
+
+    constructor(
+        private readonly client: SupabaseClient,
+        private readonly serviceClient: SupabaseClient | null = null
+    ) {}
+
+    async create(queja: NuevaQueja): Promise<Incidente> {
+        const row = { ...quejaToRow(queja), tweet_id: null, username: null, user_name: null };
+        const { data, error } = await this.client.from("quejas").insert(row).select(QUEJA_COLUMNS).single();
+        if (error) throw new Error(error.message);
+        return rowToIncidente(data as QuejaRow);
+    }
+
+    async query(filter: QuejasFilter = {}): Promise<Incidente[]> {
+        let query = this.client.from("quejas").select(QUEJA_COLUMNS)
+            .order("created_at", { ascending: false })
+            .limit(filter.limit ?? 10);
+        if (filter.tipo) query = query.eq("tipo", mapTipoToSupabase(filter.tipo));
+        if (filter.alcaldia) query = query.eq("alcaldia", filter.alcaldia);
+        if (filter.estado) query = query.eq("estado", filter.estado);
+        if (filter.since) query = query.gte("created_at", filter.since.toISOString());
+        if (filter.bbox) {
+            query = query.gte("latitud", filter.bbox.minLat).lte("latitud", filter.bbox.maxLat)
+                .gte("longitud", filter.bbox.minLng).lte("longitud", filter.bbox.maxLng);
+        }
+        const { data, error } = await query;
+        if (error) throw new Error(error.message);
+        return ((data || []) as QuejaRow[]).map(rowToIncidente);
+    }
+
+    async getById(id: string): Promise<Incidente | null> {
+        const { data, error } = await this.client.from("quejas").select(QUEJA_COLUMNS).eq("id", id).maybeSingle();
+        if (error) throw new Error(error.message);
+        return data ? rowToIncidente(data as QuejaRow) : null;
+    }
+
+    async updateStatus(id: string, change: EstadoChange): Promise<Incidente | null> {
+        if (!this.serviceClient) throw new Error("Status changes on supabase require SUPABASE_SERVICE_KEY");
+        const now = new Date().toISOString();
+        const tsColumn = ESTADO_TIMESTAMP_COLUMN[change.to];
+        const values: Record<string, unknown> = { estado: change.to, estado_actualizado_por: change.actor, estado_actualizado_en: now };
+        if (tsColumn) values[tsColumn] = now;
+
+        // Filas viejas sin estado cuentan como pendiente (igual que el COALESCE de Postgres)
+        const update = this.serviceClient.from("quejas").update(values).eq("id", id);
+        const { data, error } = await (change.from === "pendiente"
+            ? update.or("estado.is.null,estado.eq.pendiente")
+            : update.eq("estado", change.from)
+        ).select(QUEJA_COLUMNS).maybeSingle();
+        if (error) throw new Error(error.message);
+        if (!data) return null;
+
+        const { error: historialError } = await this.serviceClient.from("quejas_estado_historial").insert({
+            queja_id: Number(id),
+            estado_anterior: change.from,
+            estado_nuevo: change.to,
+            cambiado_por: change.actor,
+            nota: change.nota ?? null
+        });
+        if (historialError) console.error(`[Quejas:supabase] Historial insert failed:`, historialError.message);
+        return rowToIncidente(data as QuejaRow);
+    }
+
+    async incrementAfectados(id: string): Promise<Incidente | null> {
+        // Funcion SQL (docs/supabase-quejas.sql): incremento atomico; solo service_role puede ejecutarla
+        if (!this.serviceClient) throw new Error("Adding an afectado on supabase requires SUPABASE_SERVICE_KEY");
+        const { data, error } = await this.serviceClient.rpc("sumar_afectado_queja", { queja_id: Number(id) });
+        if (error) throw new Error(error.message);
+        if (data == null) return null;
+        return this.getById(id);
+    }
+}
+
+// ============================================
+// AquaHub REST API (/api/incidentes)
+// ============================================
+
+export class AquaHubQuejasRepository implements QuejasRepository {
+    readonly name = "aquahub";
+
+    async create(queja: NuevaQueja): Promise<Incidente> {
+        return fetchAquaHub("/api/incidentes", {
+            method: "POST",
+            body: JSON.stringify({
+                tipo: queja.tipo,
+                descripcion: queja.descripcion,
+                direccion: queja.direccion || null,
+                colonia: queja.colonia || null,
+                alcaldia: queja.alcaldia || null,
+                latitud: queja.latitud ?? null,
+                longitud: queja.longitud ?? null,
+                hogares_afectados: queja.hogares_afectados ?? 1,
+                duracion: queja.duracion || null,
+                photo_url: normalizePhotoUrls(queja)[0] ?? null,
+                photo_urls: normalizePhotoUrls(queja),
+                photo_hashes: queja.photo_hashes ?? [],
+                geocode_confianza: queja.geocode_confianza ?? null
+            })
+        });
+    }
+
+    async query(filter: QuejasFilter = {}): Promise<Incidente[]> {
+        const params = new URLSearchParams();
+        if (filter.tipo) params.set("tipo", filter.tipo);
+        if (filter.alcaldia) params.set("alcaldia", filter.alcaldia);
+        if (filter.estado) params.set("estado", filter.estado);
+        // La API no filtra por fecha ni coordenadas: se piden mas y se filtra aqui
+        const needsLocalFilter = !!(filter.since || filter.bbox);
+        params.set("limit", String(needsLocalFilter ? Math.max(filter.limit ?? 10, 50) : filter.limit ?? 10));
+
+        const incidentes: Incidente[] = (await fetchAquaHub(`/api/incidentes?${params.toString()}`)) || [];
+        return incidentes
+            .filter((i) => matchesFilter(i, filter))
+            .slice(0, filter.limit ?? 10);
+    }
+
+    async getById(id: string): Promise<Incidente | null> {
+        try {
+            return await fetchAquaHub(`/api/incidentes/${encodeURIComponent(id)}`, {}, 1);
+        } catch (error) {
+            if (error instanceof Error && /API error 404/.test(error.message)) return null;
+            throw error;
+        }
+    }
+
+    async updateStatus(id: string, change: EstadoChange): Promise<Incidente | null> {
+        return fetchAquaHub(`/api/incidentes/${encodeURIComponent(id)}`, {
+            method: "PATCH",
+            body: JSON.stringify({
+                estado: change.to,
+                estado_anterior: change.from,
+                actualizado_por: change.actor,
+                nota: change.nota ?? null
+            })
+        });
+    }
+
+    async incrementAfectados(id: string): Promise<Incidente | null> {
+        const incidente = await this.getById(id);
+        if (!incidente) return null;
+        return fetchAquaHub(`/api/incidentes/${encodeURIComponent(id)}`, {
+            method: "PATCH",
+            body: JSON.stringify({ hogares_afectados: (incidente.hogares_afectados ?? 1) + 1 })
+        });
+    }
+}
+
+// ============================================
+// In-Memory (tests / local development)
+// ============================================
+
+function matchesFilter(i: Incidente, filter: QuejasFilter): boolean {
+    if (filter.tipo && i.tipo !== filter.tipo) return false;
+    if (filter.alcaldia && i.alcaldia !== filter.alcaldia) return false;
+    if (filter.estado && i.estado !== filter.estado) return false;
+    if (filter.since && new Date(i.creado_en).getTime() < filter.since.getTime()) return false;
+    if (filter.bbox) {
+        if (i.latitud == null || i.longitud == null) return false;
+        const { minLat, maxLat, minLng, maxLng } = filter.bbox;
+        if (i.latitud < minLat || i.latitud > maxLat || i.longitud < minLng || i.longitud > maxLng) return false;
+    }
+    return true;
+}
+
+export class InMemoryQuejasRepository implements QuejasRepository {
+    readonly name = "memory";
+    private readonly quejas = new Map<string, Incidente>();
+    private nextId = 1;
+
+    async create(queja: NuevaQueja): Promise<Incidente> {
+        const photoUrls = normalizePhotoUrls(queja);
+        const incidente: Incidente = {
+            id: String(this.nextId++),
+            tipo: queja.tipo,
+            descripcion: queja.descripcion,
+            direccion: queja.direccion ?? undefined,
+            colonia: queja.colonia ?? undefined,
+            alcaldia: queja.alcaldia ?? undefined,
+            latitud: queja.latitud ?? undefined,
+            longitud: queja.longitud ?? undefined,
+            photo_url: photoUrls[0],
+            photo_urls: photoUrls.length ? photoUrls : undefined,
+            photo_hashes: queja.photo_hashes?.length ? [...new Set(queja.photo_hashes)] : undefined,
+            geocode_confianza: queja.geocode_confianza ?? undefined,
+            hogares_afectados: queja.hogares_afectados ?? 1,
+            duracion: queja.duracion ?? undefined,
+            estado: "pendiente",
+            creado_en: new Date().toISOString()
+        };
+        this.quejas.set(incidente.id, incidente);
+        return { ...incidente };
+    }
+
+    async query(filter: QuejasFilter = {}): Promise<Incidente[]> {
+        return [...this.quejas.values()]
+            .filter((i) => matchesFilter(i, filter))
+            .sort((a, b) => b.creado_en.localeCompare(a.creado_en))
+            .slice(0, filter.limit ?? 10)
+            .map((i) => ({ ...i }));
+    }
+
+    async getById(id: string): Promise<Incidente | null> {
+        const incidente = this.quejas.get(id);
+        return incidente ? { ...incidente } : null;
+    }
+
+    async updateStatus(id: string, change: EstadoChange): Promise<Incidente | null> {
+        const incidente = this.quejas.get(id);
+        if (!incidente || incidente.estado !== change.from) return null;
+        const now = new Date().toISOString();
+        incidente.estado = change.to;
+        incidente.estado_actualizado_por = change.actor;
+        const tsColumn = ESTADO_TIMESTAMP_COLUMN[change.to];
+        if (tsColumn) incidente[tsColumn] = now;
+        return { ...incidente };
+    }
+
+    async incrementAfectados(id: string): Promise<Incidente | null> {
+        const incidente = this.quejas.get(id);
+        if (!incidente) return null;
+        incidente.hogares_afectados += 1;
+        return { ...incidente };
+    }
+}
+
+// ============================================
+// Status Lifecycle
+// ============================================
+
+// resuelto -> en_progreso permite reabrir un reporte que volvio a fallar
+export const ESTADO_TRANSITIONS: Record<EstadoIncidente, readonly EstadoIncidente[]> = {
+    pendiente: ["reconocido", "en_progreso", "resuelto"],
+    reconocido: ["en_progreso", "resuelto"],
+    en_progreso: ["resuelto"],
+    resuelto: ["en_progreso"]
+};
+
+export function canTransition(from: EstadoIncidente, to: EstadoIncidente): boolean {
+    return ESTADO_TRANSITIONS[from].includes(to);
+}
+
+export class QuejaNotFoundError extends Error {
+    constructor(public readonly quejaId: string) {
+        super(`Queja ${quejaId} not found`);
+        this.name = "QuejaNotFoundError";
+    }
+}
+
+export class EstadoTransitionError extends Error {
+    constructor(public readonly from: EstadoIncidente, public readonly to: EstadoIncidente, reason?: string) {
+        super(reason ?? `Invalid transition ${from} -> ${to} (allowed: ${ESTADO_TRANSITIONS[from].join(", ") || "none"})`);
+        this.name = "EstadoTransitionError";
+    }
+}
+
+export type EstadoChangeListener = (incidente: Incidente, change: EstadoChange) => Promise<void> | void;
+
+const estadoListeners = new Set<EstadoChangeListener>();
+
+/** Called after every successful cambiarEstadoQueja (e.g. citizen notifications). Returns an unsubscribe function. */
+export function onEstadoChange(listener: EstadoChangeListener): () => void {
+    estadoListeners.add(listener);
+    return () => estadoListeners.delete(listener);
+}
+
+/**
+ * Validates and applies a status change. Throws QuejaNotFoundError or EstadoTransitionError
+ * (also when another authority changed the status in between).
+ */
+export async function cambiarEstadoQueja(
+    repository: QuejasRepository,
+    id: string,
+    to: EstadoIncidente,
+    actor: string,
+    nota?: string | null
+): Promise<Incidente> {
+    const current = await repository.getById(id);
+    if (!current) throw new QuejaNotFoundError(id);
+    if (!canTransition(current.estado, to)) throw new EstadoTransitionError(current.estado, to);
+
+    const updated = await repository.updateStatus(id, { from: current.estado, to, actor, nota });
+    if (!updated) {
+        throw new EstadoTransitionError(current.estado, to, `Queja ${id} changed status concurrently, reload and retry`);
+    }
+    console.log(`[Quejas] ${id}: ${current.estado} -> ${to} by ${actor}`);
+
+    // Los avisos no bloquean ni tumban la respuesta de la API
+    const change: EstadoChange = { from: current.estado, to, actor, nota };
+    for (const listener of estadoListeners) {
+        Promise.resolve()
+            .then(() => listener(updated, change))
+            .catch((e) => console.error(`[Quejas] Status listener failed for ${id}:`, e));
+    }
+    return updated;
+}
+
+// ============================================
+// Repository Selection
+// ============================================
+
+export function createQuejasRepository(kind = process.env.QUEJAS_BACKEND): QuejasRepository {
+    switch (kind) {
+        case "postgres": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("QUEJAS_BACKEND=postgres requires DATABASE_URL (postgresql://...)");
+            return new PostgresQuejasRepository(pool);
+        }
+        case "supabase": {
+            const client = getSupabase();
+            if (!client) throw new Error("QUEJAS_BACKEND=supabase requires SUPABASE_URL and SUPABASE_ANON_KEY");
+            return new SupabaseQuejasRepository(client, getSupabaseService());
+        }
+        case "aquahub":
+            return new AquaHubQuejasRepository();
+        case "memory":
+            return new InMemoryQuejasRepository();
+        case undefined:
+        case "": {
+            const pool = getDbPool();
+            if (pool) return new PostgresQuejasRepository(pool);
+            const client = getSupabase();
+            if (client) return new SupabaseQuejasRepository(client, getSupabaseService());
+            return new AquaHubQuejasRepository();
+        }
+        default:
+            throw new Error(`Unknown QUEJAS_BACKEND: ${kind} (use postgres, supabase, aquahub or memory)`);
+    }
+}
+
+let quejasRepository: QuejasRepository | null = null;
+
+export function getQuejasRepository(): QuejasRepository {
+    if (!quejasRepository) {
+        quejasRepository = createQuejasRepository();
+        console.log(`[Quejas] Using ${quejasRepository.name} repository`);
+    }
+    return quejasRepository;
+}
+
+/** Reemplaza el repositorio (tests con InMemoryQuejasRepository). */
+export function setQuejasRepository(repository: QuejasRepository): void {
+    quejasRepository = repository;
+}
@@ -0,0 +1,478 @@
+// ============================================
+// WaterHub Report Draft - Subir Voz slot filling
+// ============================================
+// The draft lives on the ConversationEntry and is filled deterministically:
+// location pins and photos come from the channel, tipo/descripcion/direccion
+// from the extraction agent. A location read from a photo's GPS is only a
+// proposal: the citizen confirms it (button or text) before submitting. A typed
+// address is geocoded once the slots are complete; an ambiguous match is offered
+// as options to pick from. Once the required slots are present the report is
+// submitted from code; the Subir Voz agent only phrases the questions.
+
+import { createHash, randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { ReportLocation, TipoIncidente, WorkflowAttachment } from "./types.js";
+import type { GeocodeMatch, GeocodeOutcome } from "./geocoding.js";
+import { isSamePicture } from "./image-preprocess.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type ReportDraftStatus = "collecting" | "confirming_duplicate" | "submitted" | "failed";
+
+export type ReportSlot = "tipo" | "ubicacion" | "descripcion";
+
+export interface ReportPhoto {
+    /** Identificador estable (hash del contenido o URL remota) */
+    ref: string;
+    /** URL en el storage de media; ausente si no se pudo guardar */
+    url?: string;
+    thumbnailUrl?: string;
+    /** Hash perceptual (dHash); reconoce la misma foto aunque venga recomprimida */
+    phash?: string;
+}
+
+/** Reporte existente parecido que se le ofrece al ciudadano antes de crear uno nuevo */
+export interface DuplicateCandidate {
+    id: string;
+    descripcion: string | null;
+    distanciaM: number | null;
+    creadoEn: string;
+    hogaresAfectados: number;
+    /** El reporte existente trae la misma foto */
+    mismaFoto?: boolean;
+}
+
+export interface ReportDraft {
+    /** Llave de idempotencia del envio: una queja por borrador aunque el turno se repita */
+    id: string;
+    status: ReportDraftStatus;
+    tipo?: TipoIncidente;
+    latitud?: number;
+    longitud?: number;
+    /** Direccion en texto (escrita por el usuario o de reverse geocode) */
+    direccion?: string;
+    colonia?: string;
+    alcaldia?: string;
+    descripcion?: string;
+    /** La ubicacion salio del GPS de una foto y el ciudadano aun no la confirma */
+    locationUnconfirmed?: boolean;
+    /** Cuando se tomo la foto de la que salio la ubicacion (EXIF) */
+    photoTakenAt?: string;
+    /** Direccion escrita que ya se geocodifico (no se vuelve a consultar) */
+    geocodedAddress?: string;
+    /** 0-1 si latitud/longitud salieron de la direccion escrita; 1 si el ciudadano eligio la opcion */
+    geocodeConfidence?: number;
+    /** Lugares posibles para la direccion escrita; el ciudadano elige uno antes de enviar */
+    addressCandidates?: GeocodeMatch[];
+    /** Veces que el ciudadano dijo que ninguna opcion era */
+    addressRejections?: number;
+    /** Referencias a las fotos recibidas (nunca los bytes) */
+    photos: ReportPhoto[];
+    incidenteId?: string;
+    /** Ya se busco duplicado para este borrador (solo se pregunta una vez) */
+    duplicateChecked?: boolean;
+    duplicateOf?: DuplicateCandidate;
+    /** true si el ciudadano confirmo el duplicado y se sumo al reporte existente */
+    mergedIntoExisting?: boolean;
+    lastError?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const REQUIRED_SLOTS: readonly ReportSlot[] = ["tipo", "ubicacion", "descripcion"];
+/** Fotos por reporte; las que lleguen despues no se guardan */
+export const MAX_DRAFT_PHOTOS = Math.max(Number(process.env.MAX_REPORT_PHOTOS || 10), 1);
+// Despues de esta cantidad de "ninguna", se guarda la direccion escrita sin coordenadas
+const MAX_ADDRESS_REJECTIONS = 2;
+
+// Salida estructurada del agente extractor (solo lo que el usuario dijo o se ve en la foto)
+export const ReportExtractionSchema = z.object({
+    tipo: z.enum(["fuga", "sin_agua", "contaminacion", "infraestructura", "otro"]).nullable()
+        .describe("Tipo de problema si se puede inferir del mensaje o la foto"),
+    descripcion: z.string().nullable().describe("Breve descripcion del problema escrita por el usuario"),
+    direccion: z.string().nullable().describe("Direccion escrita por el usuario (calle, numero, referencias)"),
+    colonia: z.string().nullable().describe("Colonia si se menciona"),
+    alcaldia: z.string().nullable().describe("Alcaldia de CDMX si se menciona"),
+    mismo_problema: z.boolean().nullable()
+        .describe("Respuesta a '¿es el mismo problema que ya reportaron aqui?': true si confirma, false si lo niega, null si no aplica"),
+    ubicacion_correcta: z.boolean().nullable()
+        .describe("Respuesta a '¿el problema esta en <ubicacion sacada de la foto>?': true si confirma, false si lo niega, null si no aplica"),
+    direccion_opcion: z.number().int().nullable()
+        .describe("Si se le ofrecieron direcciones numeradas: el numero que eligio (1, 2, 3), 0 si dijo que ninguna, null si no aplica")
+});
+
+export type ReportExtraction = z.infer<typeof ReportExtractionSchema>;
+
+// ============================================
+// Draft Operations
+// ============================================
+
+export function createReportDraft(): ReportDraft {
+    const now = new Date().toISOString();
+    return { id: randomUUID(), status: "collecting", photos: [], createdAt: now, updatedAt: now };
+}
+
+export function isDraftActive(draft: ReportDraft | undefined): draft is ReportDraft {
+    return !!draft && draft.status !== "submitted";
+}
+
+/** Referencia de respaldo cuando la foto no se pudo guardar: la URL si es remota, o un hash de la data URL. */
+export function photoRefFor(imageUrl: string): string {
+    if (/^https?:\/\//i.test(imageUrl)) return imageUrl;
+    return `sha256:${createHash("sha256").update(imageUrl).digest("hex").substring(0, 32)}`;
+}
+
+export function applyLocation(draft: ReportDraft, location: ReportLocation): void {
+    const fromPhoto = location.origen === "foto";
+    // El GPS de una foto no reemplaza una ubicacion que el ciudadano ya dio o confirmo
+    if (fromPhoto && hasLocation(draft) && !draft.locationUnconfirmed) return;
+    clearGeocode(draft);
+    if (location.latitud != null && location.longitud != null) {
+        draft.latitud = location.latitud;
+        draft.longitud = location.longitud;
+    }
+    if (location.direccion || fromPhoto) draft.direccion = location.direccion;
+    draft.locationUnconfirmed = fromPhoto;
+    draft.photoTakenAt = fromPhoto ? location.fotoTomadaEn : undefined;
+    draft.updatedAt = new Date().toISOString();
+}
+
+/** Answer to "is the problem where the photo was taken?": keeps the location or clears it to ask again. */
+export function confirmLocation(draft: ReportDraft, correct: boolean): void {
+    if (!draft.locationUnconfirmed) return;
+    draft.locationUnconfirmed = false;
+    if (!correct) {
+        draft.latitud = undefined;
+        draft.longitud = undefined;
+        draft.direccion = undefined;
+        draft.photoTakenAt = undefined;
+    }
+    draft.updatedAt = new Date().toISOString();
+}
+
+// Coordenadas que salieron de geocodificar: se descartan si la direccion cambia o llega un pin
+function clearGeocode(draft: ReportDraft): void {
+    if (draft.geocodeConfidence != null) {
+        draft.latitud = undefined;
+        draft.longitud = undefined;
+    }
+    draft.geocodeConfidence = undefined;
+    draft.geocodedAddress = undefined;
+    draft.addressCandidates = undefined;
+}
+
+/** True when the location is only a typed address that has not been geocoded yet. */
+export function needsGeocoding(draft: ReportDraft): boolean {
+    return !!draft.direccion && draft.latitud == null && draft.geocodedAddress !== draft.direccion;
+}
+
+function setGeocodedLocation(draft: ReportDraft, match: GeocodeMatch, confidence: number): void {
+    draft.latitud = match.latitud;
+    draft.longitud = match.longitud;
+    draft.colonia ??= match.colonia;
+    draft.alcaldia ??= match.alcaldia;
+    draft.geocodeConfidence = confidence;
+    draft.addressCandidates = undefined;
+}
+
+/** Result of geocoding the typed address: coordinates, options to pick from, or nothing (saved without pin). */
+export function applyGeocode(draft: ReportDraft, outcome: GeocodeOutcome): void {
+    draft.geocodedAddress = draft.direccion;
+    if (outcome.status === "resolved") setGeocodedLocation(draft, outcome.match, outcome.match.confianza);
+    if (outcome.status === "ambiguous") draft.addressCandidates = outcome.candidates;
+    draft.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Answer to "which of these is it?" (1-based; 0 = none). After MAX_ADDRESS_REJECTIONS
+ * "none" answers the typed address is kept without coordinates instead of asking again.
+ */
+export function chooseAddressCandidate(draft: ReportDraft, option: number): void {
+    const candidates = draft.addressCandidates;
+    if (!candidates?.length) return;
+    const chosen = candidates[option - 1];
+    if (chosen) {
+        setGeocodedLocation(draft, chosen, 1);
+    } else if (option === 0) {
+        draft.addressCandidates = undefined;
+        draft.addressRejections = (draft.addressRejections ?? 0) + 1;
+        // Ninguna: se pide la ubicacion de nuevo (pin o direccion mas precisa)
+        if (draft.addressRejections < MAX_ADDRESS_REJECTIONS) {
+            draft.direccion = undefined;
+            draft.geocodedAddress = undefined;
+        }
+    }
+    draft.updatedAt = new Date().toISOString();
+}
+
+/** Primera foto guardada en el storage (la que se adjunta a quejas.photo_url). */
+export function getStoredPhotoUrl(draft: ReportDraft): string | null {
+    return draft.photos.find((p) => p.url)?.url ?? null;
+}
+
+/** Todas las fotos guardadas en el storage, en orden (quejas.photo_urls). */
+export function getStoredPhotoUrls(draft: ReportDraft): string[] {
+    return draft.photos.flatMap((p) => (p.url ? [p.url] : []));
+}
+
+/** Perceptual hashes of the draft photos (quejas.photo_hashes and the duplicate search). */
+export function getPhotoHashes(draft: ReportDraft): string[] {
+    return draft.photos.flatMap((p) => (p.phash ? [p.phash] : []));
+}
+
+/**
+ * Returns false when the draft already has MAX_DRAFT_PHOTOS (the photo is not added).
+ * The same picture sent again (same bytes or same perceptual hash) is kept only once.
+ */
+export function applyPhoto(draft: ReportDraft, photo: ReportPhoto): boolean {
+    if (draft.photos.some((p) => p.ref === photo.ref || isSamePicture(p.phash, photo.phash))) return true;
+    if (draft.photos.length >= MAX_DRAFT_PHOTOS) return false;
+    draft.photos.push(photo);
+    draft.updatedAt = new Date().toISOString();
+    return true;
+}
+
+// Campos que cambian juntos: en un merge van todos de un mismo lado (un pin no se mezcla con otra direccion)
+const DRAFT_FIELD_GROUPS: ReadonlyArray<ReadonlyArray<keyof ReportDraft>> = [
+    ["latitud", "longitud", "direccion", "colonia", "alcaldia", "locationUnconfirmed", "photoTakenAt",
+        "geocodedAddress", "geocodeConfidence", "addressCandidates", "addressRejections"],
+    ["status", "incidenteId", "duplicateChecked", "duplicateOf", "mergedIntoExisting", "lastError"]
+];
+
+/**
+ * Three-way merge when another turn saved the conversation after this one read it.
+ * `base` is the draft as this turn read it, `ours` what this turn made of it and
+ * `theirs` what is stored now. Fields (or field groups) this turn changed win; the
+ * rest keeps the stored value, and photos from both turns are kept. If the stored
+ * draft is a different one than this turn started from, the newest replacement wins.
+ */
+export function mergeReportDraft(base: ReportDraft | undefined, ours: ReportDraft, theirs: ReportDraft | undefined): ReportDraft {
+    if (!theirs || (theirs.id === ours.id && JSON.stringify(theirs) === JSON.stringify(base))) return ours;
+    // Este turno empezo un borrador nuevo y el otro siguio con el viejo: gana el nuevo
+    if (ours.id !== base?.id && theirs.id === base?.id) return ours;
+    // El otro turno reemplazo el borrador: lo que este turno hizo sobre el anterior ya no aplica
+    if (theirs.id !== ours.id) return theirs;
+
+    const merged: ReportDraft = { ...theirs, photos: [...theirs.photos] };
+    const changed = (key: keyof ReportDraft) => JSON.stringify(ours[key]) !== JSON.stringify(base?.[key]);
+    const grouped = new Set<keyof ReportDraft>(DRAFT_FIELD_GROUPS.flat());
+    const groups = [
+        ...DRAFT_FIELD_GROUPS,
+        ...(Object.keys({ ...ours, ...theirs }) as Array<keyof ReportDraft>)
+            .filter((key) => !grouped.has(key) && key !== "photos" && key !== "updatedAt")
+            .map((key) => [key])
+    ];
+    for (const group of groups) {
+        if (!group.some(changed)) continue;
+        for (const key of group) (merged as unknown as Record<string, unknown>)[key] = ours[key];
+    }
+    for (const photo of ours.photos) applyPhoto(merged, photo);
+    merged.updatedAt = ours.updatedAt > theirs.updatedAt ? ours.updatedAt : theirs.updatedAt;
+    return merged;
+}
+
+/**
+ * Merges the extraction into the draft. Only fills values the model actually found;
+ * a location pin shared through the channel is never overwritten by typed text.
+ */
+export function applyExtraction(draft: ReportDraft, extraction: ReportExtraction): void {
+    if (extraction.ubicacion_correcta != null) confirmLocation(draft, extraction.ubicacion_correcta);
+    // Escribir otra direccion en vez de confirmar la de la foto es un "no, es aqui"
+    if (draft.locationUnconfirmed && extraction.direccion?.trim()) confirmLocation(draft, false);
+    if (extraction.direccion_opcion != null) chooseAddressCandidate(draft, extraction.direccion_opcion);
+    if (extraction.tipo) draft.tipo = extraction.tipo;
+    if (extraction.descripcion?.trim()) draft.descripcion = extraction.descripcion.trim();
+    // Una direccion nueva reemplaza a la anterior y a lo que se geocodifico de ella (no a un pin)
+    const direccion = extraction.direccion?.trim();
+    if (direccion && direccion !== draft.direccion && (draft.latitud == null || draft.geocodeConfidence != null)) {
+        clearGeocode(draft);
+        draft.direccion = direccion;
+    }
+    if (extraction.colonia?.trim()) draft.colonia = extraction.colonia.trim();
+    if (extraction.alcaldia?.trim()) draft.alcaldia = extraction.alcaldia.trim();
+    draft.updatedAt = new Date().toISOString();
+}
+
+export function hasLocation(draft: ReportDraft): boolean {
+    return (draft.latitud != null && draft.longitud != null) || !!draft.direccion || !!draft.colonia;
+}
+
+export function getMissingSlots(draft: ReportDraft): ReportSlot[] {
+    return REQUIRED_SLOTS.filter((slot) => {
+        switch (slot) {
+            case "tipo": return !draft.tipo;
+            case "ubicacion": return !hasLocation(draft);
+            case "descripcion": return !draft.descripcion;
+        }
+    });
+}
+
+export function isDraftComplete(draft: ReportDraft): boolean {
+    return getMissingSlots(draft).length === 0 && !draft.locationUnconfirmed && !draft.addressCandidates?.length;
+}
+
+/** True once the draft holds anything from the citizen (a slot, a photo) or left "collecting". */
+export function hasDraftProgress(draft: ReportDraft): boolean {
+    return draft.status !== "collecting" || getMissingSlots(draft).length < REQUIRED_SLOTS.length || draft.photos.length > 0;
+}
+
+export function describeLocation(draft: ReportDraft): string | null {
+    const text = [draft.direccion, draft.colonia, draft.alcaldia].filter(Boolean).join(", ");
+    if (text) return text;
+    if (draft.latitud != null && draft.longitud != null) return `lat ${draft.latitud}, lng ${draft.longitud}`;
+    return null;
+}
+
+// ============================================
+// Rich Replies (buttons, lists, pin)
+// ============================================
+
+const TIPO_OPTIONS: Array<{ tipo: TipoIncidente; title: string; description: string }> = [
+    { tipo: "fuga", title: "Fuga", description: "Fuga en la calle o en una tubería" },
+    { tipo: "sin_agua", title: "Sin agua", description: "No llega el agua o llega muy poca" },
+    { tipo: "contaminacion", title: "Agua contaminada", description: "Color, olor o sabor raro" },
+    { tipo: "infraestructura", title: "Alcantarilla / drenaje", description: "Coladera, drenaje o tubería dañada" },
+    { tipo: "otro", title: "Otro", description: "Otro problema con el agua" }
+];
+
+const TIPO_CHOICE_PREFIX = "tipo:";
+const DUPLICATE_CHOICE_YES = "duplicado:si";
+const DUPLICATE_CHOICE_NO = "duplicado:no";
+const LOCATION_CHOICE_YES = "ubicacion:si";
+const LOCATION_CHOICE_NO = "ubicacion:no";
+const ADDRESS_CHOICE_PREFIX = "direccion:";
+
+/**
+ * Button/list/pin messages that go with the agent's reply: the tipo list while
+ * it is the next missing slot, yes/no while confirming a duplicate or a location
+ * read from a photo, the possible places for an ambiguous address, and a pin of where the report was placed once it is submitted.
+ */
+export function buildDraftAttachments(draft: ReportDraft, submittedThisTurn: boolean): WorkflowAttachment[] {
+    if (submittedThisTurn && draft.status === "submitted") {
+        if (draft.latitud == null || draft.longitud == null || draft.mergedIntoExisting) return [];
+        const tipo = TIPO_OPTIONS.find((o) => o.tipo === draft.tipo)?.title ?? "Reporte";
+        return [{
+            type: "location",
+            latitud: draft.latitud,
+            longitud: draft.longitud,
+            nombre: `${tipo} - tu reporte en el mapa`,
+            direccion: describeLocation(draft) ?? undefined
+        }];
+    }
+    if (draft.status === "confirming_duplicate" && draft.duplicateOf) {
+        return [{
+            type: "choices",
+            text: "Toca una opción 👇",
+            options: [
+                { id: DUPLICATE_CHOICE_YES, title: "Sí, es el mismo" },
+                { id: DUPLICATE_CHOICE_NO, title: "No, es otro" }
+            ]
+        }];
+    }
+    if (draft.status === "collecting" && draft.locationUnconfirmed) {
+        return [{
+            type: "choices",
+            text: "Toca una opción 👇",
+            options: [
+                { id: LOCATION_CHOICE_YES, title: "Sí, es ahí" },
+                { id: LOCATION_CHOICE_NO, title: "No, es en otro lugar" }
+            ]
+        }];
+    }
+    if (draft.status === "collecting" && draft.addressCandidates?.length) {
+        return [{
+            type: "choices",
+            text: "¿Cuál es? 👇",
+            buttonLabel: "Elegir dirección",
+            options: [
+                ...draft.addressCandidates.map((c, i) => ({ id: `${ADDRESS_CHOICE_PREFIX}${i + 1}`, title: `${i + 1}. ${c.direccion}`, description: c.direccion })),
+                { id: `${ADDRESS_CHOICE_PREFIX}0`, title: "Ninguna de estas" }
+            ]
+        }];
+    }
+    if (draft.status === "collecting" && getMissingSlots(draft)[0] === "tipo") {
+        return [{
+            type: "choices",
+            text: "Elige el tipo de problema:",
+            buttonLabel: "Tipo de problema",
+            options: TIPO_OPTIONS.map((o) => ({ id: `${TIPO_CHOICE_PREFIX}${o.tipo}`, title: o.title, description: o.description }))
+        }];
+    }
+    return [];
+}
+
+/** True if the choice id was produced by buildDraftAttachments (the reply belongs to a report). */
+export function isDraftChoice(choiceId: string): boolean {
+    return choiceId.startsWith(TIPO_CHOICE_PREFIX) || choiceId.startsWith(ADDRESS_CHOICE_PREFIX)
+        || [DUPLICATE_CHOICE_YES, DUPLICATE_CHOICE_NO, LOCATION_CHOICE_YES, LOCATION_CHOICE_NO].includes(choiceId);
+}
+
+/** A button/list reply is an exact answer: it overrides what the extraction model read. */
+export function applyChoiceToExtraction(extraction: ReportExtraction | null, choiceId: string): ReportExtraction | null {
+    const base: ReportExtraction = extraction ?? {
+        tipo: null, descripcion: null, direccion: null, colonia: null, alcaldia: null, mismo_problema: null, ubicacion_correcta: null, direccion_opcion: null
+    };
+    if (choiceId.startsWith(TIPO_CHOICE_PREFIX)) {
+        const tipo = TIPO_OPTIONS.find((o) => `${TIPO_CHOICE_PREFIX}${o.tipo}` === choiceId)?.tipo;
+        return tipo ? { ...base, tipo } : extraction;
+    }
+    if (choiceId === DUPLICATE_CHOICE_YES) return { ...base, mismo_problema: true };
+    if (choiceId === DUPLICATE_CHOICE_NO) return { ...base, mismo_problema: false };
+    if (choiceId === LOCATION_CHOICE_YES) return { ...base, ubicacion_correcta: true };
+    if (choiceId === LOCATION_CHOICE_NO) return { ...base, ubicacion_correcta: false, direccion: null };
+    if (choiceId.startsWith(ADDRESS_CHOICE_PREFIX)) {
+        const option = Number(choiceId.substring(ADDRESS_CHOICE_PREFIX.length));
+        return Number.isInteger(option) ? { ...base, direccion_opcion: option, direccion: null } : extraction;
+    }
+    return extraction;
+}
+
+// ============================================
+// Agent Context
+// ============================================
+
+const SLOT_LABELS: Record<ReportSlot, string> = {
+    tipo: "tipo de problema",
+    ubicacion: "ubicacion",
+    descripcion: "breve descripcion"
+};
+
+/** Estado del borrador que se le pasa al agente Subir Voz para que solo redacte la respuesta. */
+export function buildDraftContext(draft: ReportDraft, submittedThisTurn: boolean): string {
+    const lines = ["[ESTADO DEL REPORTE - generado por el sistema, no lo muestres literal]"];
+    lines.push(`tipo: ${draft.tipo ?? "(falta)"}`);
+    const fromPhoto = draft.locationUnconfirmed
+        ? ` (sacada del GPS de la foto${draft.photoTakenAt ? `, tomada ${draft.photoTakenAt}` : ""}; SIN CONFIRMAR)`
+        : "";
+    const geocoded = draft.geocodeConfidence != null ? " (ubicada en el mapa a partir de la direccion escrita)" : "";
+    lines.push(`ubicacion: ${describeLocation(draft) ?? "(falta)"}${fromPhoto}${geocoded}`);
+    lines.push(`descripcion: ${draft.descripcion ?? "(falta)"}`);
+    lines.push(`foto: ${draft.photos.length > 0 ? `si (${draft.photos.length}${draft.photos.length >= MAX_DRAFT_PHOTOS ? ", ya no caben mas" : ""})` : "no"}`);
+
+    if (submittedThisTurn && draft.status === "submitted" && draft.mergedIntoExisting) {
+        lines.push(`status: SUMADO A REPORTE EXISTENTE en este turno (ya son ${draft.duplicateOf?.hogaresAfectados ?? 2} afectados). Agradece, di que su voz se sumo al reporte que ya estaba en el mapa (no se creo uno nuevo) y comparte el enlace al mapa.`);
+    } else if (submittedThisTurn && draft.status === "submitted") {
+        lines.push("status: REPORTE CREADO en este turno. Envia el resumen y el cierre con el enlace al mapa.");
+    } else if (draft.status === "confirming_duplicate" && draft.duplicateOf) {
+        const d = draft.duplicateOf;
+        const donde = d.distanciaM != null ? `a unos ${d.distanciaM} m` : d.mismaFoto ? "en otra ubicacion" : "en la misma colonia";
+        lines.push(`reporte parecido: ${d.mismaFoto ? "tiene LA MISMA FOTO, " : ""}${donde}, creado ${d.creadoEn}, "${(d.descripcion ?? "").substring(0, 120)}"`);
+        lines.push(`status: POSIBLE DUPLICADO. Describe brevemente el reporte parecido y pregunta: "¿es el mismo problema que ya reportaron aqui?" No escribas "Resumen:".`);
+    } else if (draft.status === "failed") {
+        lines.push(`status: NO SE PUDO GUARDAR el reporte (${draft.lastError ?? "error"}). Discúlpate y pide intentar de nuevo en un momento. No escribas "Resumen:".`);
+    } else if (draft.locationUnconfirmed) {
+        lines.push(`status: CONFIRMAR UBICACION. La ubicacion salio de los datos GPS de la foto: pregunta solo si el problema esta ahi (menciona la direccion). No la des por buena ni escribas "Resumen:".`);
+    } else if (draft.addressCandidates?.length) {
+        draft.addressCandidates.forEach((c, i) => lines.push(`opcion ${i + 1}: ${c.direccion}`));
+        const pregunta = draft.addressCandidates.length === 1
+            ? "pregunta si es ahi"
+            : "muestra las opciones numeradas y pregunta cual es";
+        lines.push(`status: CONFIRMAR DIRECCION. La direccion escrita no se pudo ubicar con seguridad: ${pregunta}. No escribas "Resumen:".`);
+    } else {
+        const missing = getMissingSlots(draft).map((s) => SLOT_LABELS[s]);
+        lines.push(`status: EN CURSO. Falta: ${missing.join(", ")}. Pide SOLO lo que falta (una cosa a la vez). No escribas "Resumen:".`);
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,419 @@
+// ============================================
+// WaterHub Report Followers - status notifications to whoever reported
+// ============================================
+// When a citizen files a report (or adds their voice to an existing one) we keep
+// a private link queja -> hashed sender + sealed chat address (sender-id.ts).
+// quejas itself never stores who reported, so the public map stays anonymous.
+// When the status changes to reconocido or resuelto, every follower gets a
+// message on the channel they reported from, with the new status and the map link.
+// REPORT_FOLLOWER_STORE=memory | postgres
+// STATUS_NOTIFIER=repository (cambios via la API del agente) | listen (Postgres LISTEN/NOTIFY) | off
+
+import type { Pool, PoolClient } from "pg";
+import type { EstadoIncidente, Incidente } from "./types.js";
+import { getDbPool, WATERHUB_MAP_URL } from "./clients.js";
+import { getQuejasRepository, onEstadoChange } from "./quejas-repository.js";
+import { hashSender, openAddress, sealAddress } from "./sender-id.js";
+import { getOutboundQueue } from "./outbound.js";
+import type { ChannelAddress, ChannelName, ChannelSender } from "./channels.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReportFollower {
+    quejaId: string;
+    /** hashSender(senderKey) */
+    senderId: string;
+    channel: ChannelName;
+    /** Evolution instance / Cloud API phone_number_id / Telegram bot */
+    account: string;
+    /** sealAddress(chatId): solo se abre para mandar el aviso */
+    address: string;
+    /** "creado" = lo reporto; "sumado" = confirmo que era el mismo problema */
+    relacion: "creado" | "sumado";
+    createdAt: string;
+    /** Estados ya avisados (no repetir si llegan por dos caminos) */
+    notified: EstadoIncidente[];
+}
+
+export interface ReportFollowerStore {
+    readonly name: string;
+    add(follower: ReportFollower): Promise<void>;
+    listByQueja(quejaId: string): Promise<ReportFollower[]>;
+    listBySender(senderId: string, limit?: number): Promise<ReportFollower[]>;
+    /** Marks the estado as notified; false if it already was (someone else sent it). */
+    markNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<boolean>;
+    /** Undoes markNotified when the message could not be sent, so the next change event retries it. */
+    unmarkNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<void>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const NOTIFY_ESTADOS: EstadoIncidente[] = ["reconocido", "resuelto"];
+
+const ESTADO_LABEL: Record<EstadoIncidente, string> = {
+    pendiente: "Pendiente",
+    reconocido: "Reconocido ✅",
+    en_progreso: "En atención 🛠️",
+    resuelto: "Resuelto 🎉"
+};
+
+const TIPO_LABEL: Record<string, string> = {
+    fuga: "Fuga",
+    sin_agua: "Sin agua",
+    contaminacion: "Agua contaminada",
+    infraestructura: "Drenaje / infraestructura",
+    otro: "Reporte"
+};
+
+// ============================================
+// In-Memory Store (default, single process)
+// ============================================
+
+export class InMemoryReportFollowerStore implements ReportFollowerStore {
+    readonly name = "memory";
+    private readonly followers = new Map<string, ReportFollower>();
+
+    async add(follower: ReportFollower): Promise<void> {
+        const key = `${follower.quejaId}:${follower.senderId}`;
+        if (!this.followers.has(key)) this.followers.set(key, { ...follower, notified: [...follower.notified] });
+    }
+
+    async listByQueja(quejaId: string): Promise<ReportFollower[]> {
+        return Array.from(this.followers.values()).filter((f) => f.quejaId === quejaId);
+    }
+
+    async listBySender(senderId: string, limit = 20): Promise<ReportFollower[]> {
+        return Array.from(this.followers.values())
+            .filter((f) => f.senderId === senderId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, limit);
+    }
+
+    async markNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<boolean> {
+        const follower = this.followers.get(`${quejaId}:${senderId}`);
+        if (!follower || follower.notified.includes(estado)) return false;
+        follower.notified.push(estado);
+        return true;
+    }
+
+    async unmarkNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<void> {
+        const follower = this.followers.get(`${quejaId}:${senderId}`);
+        if (follower) follower.notified = follower.notified.filter((e) => e !== estado);
+    }
+}
+
+// ============================================
+// Postgres Store (DATABASE_URL)
+// ============================================
+
+export class PostgresReportFollowerStore implements ReportFollowerStore {
+    readonly name = "postgres";
+    private ready: Promise<void> | null = null;
+
+    constructor(private readonly pool: Pool) {}
+
+    private ensureTable(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.pool
+                .query(
+                    `CREATE TABLE IF NOT EXISTS public.waterhub_report_followers (
+                        queja_id TEXT NOT NULL,
+                        sender_id TEXT NOT NULL,
+                        channel VARCHAR(20) NOT NULL,
+                        account TEXT NOT NULL,
+                        address TEXT NOT NULL,
+                        relacion VARCHAR(10) NOT NULL,
+                        notified TEXT[] NOT NULL DEFAULT '{}',
+                        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+                        PRIMARY KEY (queja_id, sender_id)
+                    );
+                    CREATE INDEX IF NOT EXISTS idx_waterhub_report_followers_sender
+                        ON public.waterhub_report_followers (sender_id, created_at DESC)`
+                )
+                .then(() => undefined)
+                .catch((e) => {
+                    this.ready = null;
+                    throw e;
+                });
+        }
+        return this.ready;
+    }
+
+    private static toFollower(r: Record<string, any>): ReportFollower {
+        return {
+            quejaId: r.queja_id,
+            senderId: r.sender_id,
+            channel: r.channel,
+            account: r.account,
+            address: r.address,
+            relacion: r.relacion,
+            createdAt: new Date(r.created_at).toISOString(),
+            notified: r.notified ?? []
+        };
+    }
+
+    async add(f: ReportFollower): Promise<void> {
+        await this.ensureTable();
+        await this.pool.query(
+            `INSERT INTO public.waterhub_report_followers (queja_id, sender_id, channel, account, address, relacion, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (queja_id, sender_id) DO NOTHING`,
+            [f.quejaId, f.senderId, f.channel, f.account, f.address, f.relacion, f.createdAt]
+        );
+    }
+
+    async listByQueja(quejaId: string): Promise<ReportFollower[]> {
+        await this.ensureTable();
+        const res = await this.pool.query(`SELECT * FROM public.waterhub_report_followers WHERE queja_id = $1`, [quejaId]);
+        return res.rows.map(PostgresReportFollowerStore.toFollower);
+    }
+
+    async listBySender(senderId: string, limit = 20): Promise<ReportFollower[]> {
+        await this.ensureTable();
+        const res = await this.pool.query(
+            `SELECT * FROM public.waterhub_report_followers WHERE sender_id = $1 ORDER BY created_at DESC LIMIT $2`,
+            [senderId, limit]
+        );
+        return res.rows.map(PostgresReportFollowerStore.toFollower);
+    }
+
+    async markNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<boolean> {
+        await this.ensureTable();
+        // Atomico: solo una replica (o un solo camino) gana el aviso
+        const res = await this.pool.query(
+            `UPDATE public.waterhub_report_followers SET notified = array_append(notified, $3)
+             WHERE queja_id = $1 AND sender_id = $2 AND NOT ($3 = ANY(notified))`,
+            [quejaId, senderId, estado]
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    async unmarkNotified(quejaId: string, senderId: string, estado: EstadoIncidente): Promise<void> {
+        await this.ensureTable();
+        await this.pool.query(
+            `UPDATE public.waterhub_report_followers SET notified = array_remove(notified, $3)
+             WHERE queja_id = $1 AND sender_id = $2`,
+            [quejaId, senderId, estado]
+        );
+    }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+export function createReportFollowerStore(kind = process.env.REPORT_FOLLOWER_STORE || "memory"): ReportFollowerStore {
+    switch (kind) {
+        case "postgres": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("REPORT_FOLLOWER_STORE=postgres requires DATABASE_URL (postgresql://...)");
+            return new PostgresReportFollowerStore(pool);
+        }
+        case "memory":
+            return new InMemoryReportFollowerStore();
+        default:
+            throw new Error(`Unknown REPORT_FOLLOWER_STORE: ${kind} (use memory or postgres)`);
+    }
+}
+
+let followerStore: ReportFollowerStore | null = null;
+
+export function getReportFollowerStore(): ReportFollowerStore {
+    if (!followerStore) {
+        followerStore = createReportFollowerStore();
+        console.log(`[Followers] Using ${followerStore.name} follower store`);
+    }
+    return followerStore;
+}
+
+/** Tests / custom wiring. */
+export function setReportFollowerStore(store: ReportFollowerStore): void {
+    followerStore = store;
+}
+
+/** Links the sender to the report. Never throws: a failed link must not lose the report. */
+export async function followReport(quejaId: string, sender: ChannelSender, relacion: ReportFollower["relacion"]): Promise<void> {
+    const senderId = hashSender(sender.senderKey);
+    try {
+        await getReportFollowerStore().add({
+            quejaId,
+            senderId,
+            channel: sender.channel,
+            account: sender.address.account,
+            address: sealAddress(sender.address.chatId),
+            relacion,
+            createdAt: new Date().toISOString(),
+            notified: []
+        });
+    } catch (error) {
+        console.error(`[Followers] Could not link queja ${quejaId} to ${senderId.substring(0, 8)}:`, error);
+    }
+}
+
+// ============================================
+// Notifier
+// ============================================
+
+export function formatEstadoMessage(incidente: Incidente): string {
+    const lugar = incidente.colonia || incidente.direccion || incidente.alcaldia || "la ubicación que compartiste";
+    const lines = [
+        `📢 Actualización de tu reporte`,
+        ``,
+        `${TIPO_LABEL[incidente.tipo] ?? "Reporte"} en ${lugar}`,
+        `Estado: *${ESTADO_LABEL[incidente.estado]}*`
+    ];
+    if (incidente.estado === "resuelto") {
+        lines.push(``, `Si el problema sigue, escríbenos y lo volvemos a subir al mapa.`);
+    }
+    lines.push(``, `Míralo en el mapa: ${WATERHUB_MAP_URL}?queja=${encodeURIComponent(incidente.id)}`);
+    return lines.join("\n");
+}
+
+export type SendFn = (channel: ChannelName, to: ChannelAddress, text: string) => Promise<boolean>;
+
+/** Default SendFn: goes through the outbound queue, so a brief channel outage is retried. */
+async function queueMessage(channel: ChannelName, to: ChannelAddress, text: string): Promise<boolean> {
+    const message = await getOutboundQueue().sendText(channel, to, text);
+    return message.status !== "failed";
+}
+
+/** Sends the new status to every follower of the report. Returns how many were notified. */
+export async function notifyEstadoChange(
+    incidente: Incidente,
+    options: { store?: ReportFollowerStore; send?: SendFn } = {}
+): Promise<number> {
+    if (!NOTIFY_ESTADOS.includes(incidente.estado)) return 0;
+    const store = options.store ?? getReportFollowerStore();
+    const send = options.send ?? queueMessage;
+
+    const text = formatEstadoMessage(incidente);
+    let notified = 0;
+    for (const follower of await store.listByQueja(incidente.id)) {
+        const chatId = openAddress(follower.address);
+        if (!chatId) {
+            console.warn(`[Followers] Address of ${follower.senderId.substring(0, 8)} cannot be opened (SENDER_ADDRESS_KEY changed?)`);
+            continue;
+        }
+        // La marca reclama el aviso (una sola replica lo manda); si el envio falla se quita para reintentar
+        if (!(await store.markNotified(incidente.id, follower.senderId, incidente.estado))) continue;
+        const sent = await send(follower.channel, { account: follower.account, chatId }, text).catch((e) => {
+            console.error(`[Followers] Send error:`, e instanceof Error ? e.message : e);
+            return false;
+        });
+        if (sent) {
+            notified++;
+            continue;
+        }
+        console.warn(`[Followers] Could not notify ${follower.senderId.substring(0, 8)} about queja ${incidente.id}, will retry on the next change event`);
+        await store.unmarkNotified(incidente.id, follower.senderId, incidente.estado)
+            .catch((e) => console.error(`[Followers] Could not unmark ${follower.senderId.substring(0, 8)}:`, e));
+    }
+    if (notified > 0) console.log(`[Followers] Queja ${incidente.id} -> ${incidente.estado}: notified ${notified} follower(s)`);
+    return notified;
+}
+
+// Postgres LISTEN/NOTIFY: atrapa cambios hechos fuera del agente (dashboard, SQL, otra app)
+const LISTEN_RETRY_BASE_MS = 1000;
+const LISTEN_RETRY_MAX_MS = 60000;
+
+function handleEstadoNotification(payload: string | undefined): void {
+    if (!payload) return;
+    let id: string;
+    try {
+        id = String(JSON.parse(payload).id);
+    } catch {
+        return;
+    }
+    getQuejasRepository()
+        .getById(id)
+        .then((incidente) => (incidente ? notifyEstadoChange(incidente) : 0))
+        .catch((e) => console.error(`[Followers] Notify for queja ${id} failed:`, e));
+}
+
+/**
+ * Keeps a dedicated connection LISTENing on quejas_estado. When it errors or is
+ * closed, the client is discarded and a new one subscribes again with exponential
+ * backoff. Resolves once the first LISTEN succeeds; returns a stop function.
+ */
+export async function listenForEstadoChanges(pool: Pool, retryBaseMs = LISTEN_RETRY_BASE_MS): Promise<() => void> {
+    let client: PoolClient | null = null;
+    let stopped = false;
+    let retryTimer: NodeJS.Timeout | null = null;
+    let failures = 0;
+
+    const subscribe = async (): Promise<void> => {
+        const next = await pool.connect();
+        let lost = false;
+        const onLost = (error?: Error) => {
+            if (lost) return;
+            lost = true;
+            if (stopped) return;
+            if (client === next) client = null;
+            // Con error, release(err) descarta la conexion en vez de devolverla al pool
+            next.release(error ?? true);
+            console.error(`[Followers] LISTEN connection lost${error ? `: ${error.message}` : ""}, reconnecting`);
+            scheduleRetry();
+        };
+        next.on("notification", (msg) => {
+            if (msg.channel === "quejas_estado") handleEstadoNotification(msg.payload);
+        });
+        next.on("error", onLost);
+        next.on("end", () => onLost());
+        try {
+            await next.query("LISTEN quejas_estado");
+        } catch (error) {
+            onLost(error instanceof Error ? error : new Error(String(error)));
+            throw error;
+        }
+        client = next;
+        failures = 0;
+    };
+
+    const scheduleRetry = () => {
+        if (stopped || retryTimer) return;
+        const delay = Math.min(retryBaseMs * 2 ** failures, LISTEN_RETRY_MAX_MS);
+        failures++;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            subscribe()
+                .then(() => console.log(`[Followers] Listening on Postgres channel quejas_estado again`))
+                .catch((e) => {
+                    console.error(`[Followers] LISTEN reconnect failed (attempt ${failures}):`, e instanceof Error ? e.message : e);
+                    scheduleRetry();
+                });
+        }, delay);
+        retryTimer.unref();
+    };
+
+    await subscribe();
+    return () => {
+        stopped = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        client?.release();
+        client = null;
+    };
+}
+
+/** Wires the notifier according to STATUS_NOTIFIER; returns a stop function. */
+export async function startStatusNotifier(mode = process.env.STATUS_NOTIFIER || "repository"): Promise<() => void> {
+    switch (mode) {
+        case "repository":
+            console.log(`[Followers] Notifying status changes made through the agent API`);
+            return onEstadoChange((incidente) => notifyEstadoChange(incidente).then(() => undefined));
+        case "listen": {
+            const pool = getDbPool();
+            if (!pool) throw new Error("STATUS_NOTIFIER=listen requires DATABASE_URL (postgresql://...)");
+            const stop = await listenForEstadoChanges(pool);
+            console.log(`[Followers] Listening on Postgres channel quejas_estado`);
+            return stop;
+        }
+        case "off":
+            return () => {};
+        default:
+            throw new Error(`Unknown STATUS_NOTIFIER: ${mode} (use repository, listen or off)`);
+    }
+}
@@ -0,0 +1,72 @@
+// ============================================
+// WaterHub Sender IDs - salted hash of the sender (WhatsApp remoteJid, Telegram chat)
+// ============================================
+// Reports and subscriptions are keyed by this hash so nothing public (map,
+// admin listings, logs) carries a phone number. Where the number is still needed
+// to write back (report status notices), it is stored sealed with
+// SENDER_ADDRESS_KEY (AES-256-GCM), never next to the hash in clear.
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "node:crypto";
+
+let warnedMissingSalt = false;
+let warnedMissingAddressKey = false;
+
+function getSalt(): string {
+    const salt = process.env.SENDER_HASH_SALT;
+    if (salt) return salt;
+    if (!warnedMissingSalt) {
+        console.warn("[SenderId] SENDER_HASH_SALT not set, using a development salt (set it in production)");
+        warnedMissingSalt = true;
+    }
+    return "waterhub-dev-salt";
+}
+
+/** "5215512345678:3@s.whatsapp.net" -> "5215512345678"; other keys ("telegram:42") stay as they are */
+export function normalizeRemoteJid(remoteJid: string): string {
+    const [user, domain] = remoteJid.split("@");
+    return (domain === undefined ? remoteJid : user.split(":")[0]).trim();
+}
+
+/** Stable, non-reversible id for a sender (HMAC-SHA256, 32 hex chars). */
+export function hashSender(senderKey: string): string {
+    return createHmac("sha256", getSalt()).update(normalizeRemoteJid(senderKey)).digest("hex").substring(0, 32);
+}
+
+// ============================================
+// Sealed Addresses
+// ============================================
+
+const SEALED_PREFIX = "v1";
+
+function getAddressKey(): Buffer {
+    let secret = process.env.SENDER_ADDRESS_KEY;
+    if (!secret) {
+        if (!warnedMissingAddressKey) {
+            console.warn("[SenderId] SENDER_ADDRESS_KEY not set, using a development key (set it in production)");
+            warnedMissingAddressKey = true;
+        }
+        secret = "waterhub-dev-address-key";
+    }
+    return createHash("sha256").update(secret).digest();
+}
+
+/** Encrypts a delivery address (remoteJid, chat id) for storage: "v1:<iv>:<tag>:<data>", base64url. */
+export function sealAddress(address: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", getAddressKey(), iv);
+    const data = Buffer.concat([cipher.update(address, "utf8"), cipher.final()]);
+    return [SEALED_PREFIX, iv, cipher.getAuthTag(), data].map((p) => (typeof p === "string" ? p : p.toString("base64url"))).join(":");
+}
+
+/** Decrypts a sealAddress() value; null if it is malformed or was sealed with another key. */
+export function openAddress(sealed: string): string | null {
+    const [version, iv, tag, data] = sealed.split(":");
+    if (version !== SEALED_PREFIX || !iv || !tag || data == null) return null;
+    try {
+        const decipher = createDecipheriv("aes-256-gcm", getAddressKey(), Buffer.from(iv, "base64url"));
+        decipher.setAuthTag(Buffer.from(tag, "base64url"));
+        return Buffer.concat([decipher.update(Buffer.from(data, "base64url")), decipher.final()]).toString("utf8");
+    } catch {
+        return null;
+    }
+}
@@ -3,10 +3,25 @@
 // ============================================
 
 import express, { Request, Response, NextFunction } from "express";
-import { spawn } from "node:child_process";
 import { config } from "dotenv";
 import { runWorkflow, getAgentHealth } from "./agent.js";
-import type { ChatRequest, ChatResponse } from "./types.js";
+import type { Alerta, ChatRequest, ChatResponse, EstadoIncidente, TipoAlerta } from "./types.js";
+import { MAX_TURN_IMAGE_BYTES, MAX_TURN_IMAGES, MEDIA_LOCAL_DIR } from "./media.js";
+import { cambiarEstadoQueja, EstadoTransitionError, getQuejasRepository, QuejaNotFoundError } from "./quejas-repository.js";
+import { requireAdmin } from "./admin-auth.js";
+import { createJobQueue } from "./job-queue.js";
+import { MessageDebouncer } from "./message-debounce.js";
+import { fingerprintRequest, getIdempotencyStore, MAX_IDEMPOTENCY_KEY_LENGTH, type IdempotencyRecord } from "./idempotency.js";
+import { broadcastAlerta, getSubscriptionStore, startAlertPoller } from "./alert-subscriptions.js";
+import { getChannelAdapter, type ChannelName } from "./channels.js";
+import { handleChannelJob, type ChannelJob } from "./inbound.js";
+import { startStatusNotifier } from "./report-followers.js";
+import { getOutboundQueue, OutboundNotFoundError, OutboundStateError, type OutboundMessage, type OutboundStatus } from "./outbound.js";
+import { hashSender } from "./sender-id.js";
+import { getTtsProvider } from "./tts.js";
+import { getSttProvider } from "./stt.js";
+import { getGeocodingProvider } from "./geocoding.js";
+import { checkFfmpeg } from "./audio.js";
 
 // Load environment variables
 config();
@@ -27,212 +42,6 @@ for (const envVar of requiredEnvVars) {
     }
 }
 
-// ============================================
-// Reverse Geocoding (Google Maps API)
-// ============================================
-
-interface AddressComponent {
-    long_name: string;
-    short_name: string;
-    types: string[];
-}
-
-function buildAddressFromComponents(components: AddressComponent[]): string | null {
-    const get = (type: string) => components.find((c) => c.types.includes(type))?.long_name || "";
-    const route = get("route");
-    const streetNumber = get("street_number");
-    const sublocality = get("sublocality") || get("sublocality_level_1");
-    const locality = get("locality");
-    const admin2 = get("administrative_area_level_2");
-    const postalCode = get("postal_code");
-    const parts: string[] = [];
-    if (route) parts.push(streetNumber ? `${route} ${streetNumber}` : route);
-    if (sublocality) parts.push(`Col. ${sublocality}`);
-    else if (locality) parts.push(locality);
-    if (admin2) parts.push(admin2);
-    if (postalCode) parts.push(`CP ${postalCode}`);
-    return parts.length > 0 ? parts.join(", ") : null;
-}
-
-function hasStreetOrColonia(components: AddressComponent[]): boolean {
-    const types = new Set(components.flatMap((c) => c.types));
-    return types.has("route") || types.has("street_number") || types.has("sublocality") || types.has("sublocality_level_1");
-}
-
-// state = entidad federativa (ej. Ciudad de México / CDMX). alcaldia = la que varía (ej. Álvaro Obregón, Benito Juárez).
-function getAlcaldiaAndState(components: AddressComponent[]): { alcaldia: string; state: string } {
-    const getLong = (type: string) => components.find((c) => c.types.includes(type))?.long_name || "";
-    const getShort = (type: string) => components.find((c) => c.types.includes(type))?.short_name || "";
-    const locality = getLong("locality");
-    const admin2 = getLong("administrative_area_level_2");
-    const state = getShort("administrative_area_level_1") || getLong("administrative_area_level_1");
-    const alcaldia = admin2 || locality;
-    return { alcaldia, state };
-}
-
-function appendAlcaldiaAndStateIfMissing(address: string, alcaldia: string, state: string): string {
-    const lower = address.toLowerCase();
-    const hasAlcaldia = alcaldia && lower.includes(alcaldia.toLowerCase());
-    const hasState = state && lower.includes(state.toLowerCase());
-    if (hasAlcaldia && hasState) return address;
-    const extra: string[] = [];
-    if (!hasAlcaldia && alcaldia) extra.push(alcaldia);
-    if (!hasState && state && state !== alcaldia) extra.push(state);
-    return extra.length ? `${address}, ${extra.join(", ")}` : address;
-}
-
-async function reverseGeocode(lat: number, lng: number): Promise<string | null> {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) return null;
-    try {
-        const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&key=${apiKey}&language=es`;
-        const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
-        if (!res.ok) return null;
-        const data = (await res.json()) as {
-            results?: { address_components?: AddressComponent[]; formatted_address?: string }[];
-        };
-        const results = data.results || [];
-        if (results.length === 0) return null;
-
-        const firstComps = results[0]?.address_components || [];
-        const { alcaldia, state } = getAlcaldiaAndState(firstComps);
-
-        let bestBuilt: string | null = null;
-        let bestFormatted: string | null = null;
-
-        for (const r of results) {
-            const comps = r.address_components || [];
-            const built = comps.length ? buildAddressFromComponents(comps) : null;
-            const formatted = r.formatted_address || null;
-            if (built && hasStreetOrColonia(comps)) {
-                return appendAlcaldiaAndStateIfMissing(built, alcaldia, state);
-            }
-            if (built && built.length > (bestBuilt?.length ?? 0)) bestBuilt = built;
-            if (formatted && formatted.length > (bestFormatted?.length ?? 0)) bestFormatted = formatted;
-        }
-
-        if (bestBuilt && (bestBuilt.length >= 15 || (bestBuilt.includes("Col.") || bestBuilt.includes(",")))) {
-            return appendAlcaldiaAndStateIfMissing(bestBuilt, alcaldia, state);
-        }
-        if (bestFormatted) return bestFormatted;
-        return bestBuilt ? appendAlcaldiaAndStateIfMissing(bestBuilt, alcaldia, state) : null;
-    } catch {
-        return null;
-    }
-}
-
-// ============================================
-// Audio transcription (OpenAI Whisper)
-// ============================================
-
-const WHISPER_API = "https://api.openai.com/v1/audio/transcriptions";
-
-// Convierte cualquier audio a MP3 con ffmpeg (Whisper acepta mp3). Requiere ffmpeg instalado.
-function convertAudioToMp3(inputBuffer: ArrayBuffer): Promise<Buffer | null> {
-    return new Promise((resolve) => {
-        const ffmpeg = spawn(
-            "ffmpeg",
-            ["-i", "pipe:0", "-f", "mp3", "-acodec", "libmp3lame", "-ar", "16000", "pipe:1"],
-            { stdio: ["pipe", "pipe", "pipe"] }
-        );
-        const chunks: Buffer[] = [];
-        ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
-        ffmpeg.stderr.on("data", () => {});
-        ffmpeg.on("error", () => resolve(null));
-        ffmpeg.on("close", (code) => {
-            if (code === 0 && chunks.length > 0) resolve(Buffer.concat(chunks));
-            else resolve(null);
-        });
-        ffmpeg.stdin.write(Buffer.from(inputBuffer));
-        ffmpeg.stdin.end();
-    });
-}
-
-async function transcribeAudio(buffer: ArrayBuffer, mimeType?: string): Promise<string | null> {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return null;
-
-    let body: ArrayBuffer = buffer;
-    let ext = "ogg";
-    let type = "audio/ogg";
-
-    const mp3 = await convertAudioToMp3(buffer);
-    if (mp3 && mp3.length > 0) {
-        body = mp3.buffer.slice(mp3.byteOffset, mp3.byteOffset + mp3.byteLength) as ArrayBuffer;
-        ext = "mp3";
-        type = "audio/mpeg";
-    }
-
-    try {
-        const blob = new Blob([body], { type });
-        const formData = new FormData();
-        formData.append("file", blob, `audio.${ext}`);
-        formData.append("model", "whisper-1");
-        formData.append("language", "es");
-
-        const res = await fetch(WHISPER_API, {
-            method: "POST",
-            headers: { Authorization: `Bearer ${apiKey}` },
-            body: formData,
-            signal: AbortSignal.timeout(30000)
-        });
-        if (!res.ok) {
-            const err = await res.text();
-            console.error(`[Whisper] API error ${res.status}:`, err.substring(0, 200));
-            return null;
-        }
-        const data = (await res.json()) as { text?: string };
-        return data.text?.trim() || null;
-    } catch (e) {
-        console.error("[Whisper] Transcribe error:", e);
-        return null;
-    }
-}
-
-async function getAudioBufferFromMessage(
-    audioMsg: { url?: string; directUrl?: string; base64?: string },
-    evolutionUrl?: string,
-    evolutionKey?: string,
-    requestId?: string
-): Promise<ArrayBuffer | null> {
-    if (audioMsg.base64) {
-        try {
-            const bin = Buffer.from(audioMsg.base64, "base64");
-            const buf = bin.buffer.slice(bin.byteOffset, bin.byteOffset + bin.byteLength);
-            if (requestId) console.log(`[${requestId}] [Evolution] audio from base64, size=${bin.length}`);
-            return buf as ArrayBuffer;
-        } catch (e) {
-            if (requestId) console.warn(`[${requestId}] [Evolution] audio base64 decode failed:`, e);
-            return null;
-        }
-    }
-    let url = audioMsg.url || audioMsg.directUrl || "";
-    if (!url) {
-        if (requestId) console.warn(`[${requestId}] [Evolution] audio: no base64, no url/directUrl`);
-        return null;
-    }
-    if (evolutionUrl && url.startsWith("/")) {
-        url = evolutionUrl.replace(/\/$/, "") + url;
-    }
-    try {
-        const headers: Record<string, string> = {};
-        if (evolutionKey && evolutionUrl && url.startsWith(evolutionUrl)) {
-            headers.apikey = evolutionKey;
-        }
-        const res = await fetch(url, { headers, signal: AbortSignal.timeout(15000) });
-        if (!res.ok) {
-            if (requestId) console.warn(`[${requestId}] [Evolution] audio fetch failed: ${res.status} ${url.substring(0, 60)}`);
-            return null;
-        }
-        const buf = await res.arrayBuffer();
-        if (requestId) console.log(`[${requestId}] [Evolution] audio from url, size=${buf.byteLength}`);
-        return buf;
-    } catch (e) {
-        if (requestId) console.warn(`[${requestId}] [Evolution] audio fetch error:`, e);
-        return null;
-    }
-}
-
 // ============================================
 // Express App Setup
 // ============================================
@@ -240,7 +49,12 @@ async function getAudioBufferFromMessage(
 const app = express();
 
 // Middleware
-app.use(express.json({ limit: "10mb" }));
+// rawBody: la firma de Meta (X-Hub-Signature-256) se calcula sobre los bytes tal cual llegaron
+// Un album en data URLs (base64 ocupa 4/3) mas el resto del cuerpo
+app.use(express.json({ limit: Math.ceil(MAX_TURN_IMAGE_BYTES * 4 / 3) + 1024 * 1024, verify: (req, _res, buf) => { (req as any).rawBody = buf; } }));
+
+// Fotos de reportes (MEDIA_STORAGE=local)
+app.use("/media", express.static(MEDIA_LOCAL_DIR, { maxAge: "7d", index: false }));
 
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -261,8 +75,8 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 // CORS headers for web clients
 app.use((req: Request, res: Response, next: NextFunction) => {
     res.header("Access-Control-Allow-Origin", "*");
-    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.header("Access-Control-Allow-Methods", "GET, POST, PATCH, OPTIONS");
+    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, Idempotency-Key");
 
     if (req.method === "OPTIONS") {
         return res.sendStatus(200);
@@ -282,8 +96,8 @@ app.get("/health", (req: Request, res: Response) => {
     });
 });
 
-app.get("/status", (req: Request, res: Response) => {
-    const agentHealth = getAgentHealth();
+app.get("/status", async (req: Request, res: Response) => {
+    const agentHealth = await getAgentHealth();
 
     res.json({
         status: "ok",
@@ -295,19 +109,45 @@ app.get("/status", (req: Request, res: Response) => {
             heapUsed: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
             heapTotal: Math.round(process.memoryUsage().heapTotal / 1024 / 1024)
         },
-        agents: agentHealth
+        agents: agentHealth,
+        webhookQueue: {
+            backend: webhookQueue.name,
+            pending: await webhookQueue.size().catch(() => null),
+            debouncing: webhookDebouncer.size()
+        }
     });
 });
 
+// ============================================
+// Idempotency
+// ============================================
+
+/** Claims an idempotency key; if the store is down the request goes through (better a repeat than a lost message). */
+async function claimIdempotencyKey(key: string, requestId: string, fingerprint?: string): Promise<IdempotencyRecord | null> {
+    try {
+        return await getIdempotencyStore().begin(key, fingerprint);
+    } catch (error) {
+        console.error(`[${requestId}] [Idempotency] Could not claim ${key}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+function settleIdempotencyKey(key: string, requestId: string, outcome: { result: unknown } | "failed"): void {
+    const store = getIdempotencyStore();
+    const pending = outcome === "failed" ? store.release(key) : store.complete(key, outcome.result);
+    pending.catch((e) => console.error(`[${requestId}] [Idempotency] Could not update ${key}:`, e instanceof Error ? e.message : e));
+}
+
 // ============================================
 // Main Chat Handler
 // ============================================
 
 async function handleChat(req: Request, res: Response): Promise<void> {
     const requestId = (req as any).requestId || crypto.randomUUID().substring(0, 8);
+    let idempotencyKey: string | null = null;
 
     try {
-        let { message, image_url, conversationId, metadata } = req.body as ChatRequest;
+        let { message, image_url, image_urls, location, choice, conversationId, metadata } = req.body as ChatRequest;
 
         // Sanitize message input
         if (Array.isArray(message)) {
@@ -325,12 +165,33 @@ async function handleChat(req: Request, res: Response): Promise<void> {
         if (typeof message !== "string") {
             message = "";
         }
-        if (!message && image_url) {
-            message = "[El usuario envió una foto]";
+        const validChoice = typeof choice?.id === "string" && typeof choice.title === "string" ? choice : undefined;
+        if (!message && validChoice) {
+            message = validChoice.title;
+        }
+        if (image_urls !== undefined && (!Array.isArray(image_urls) || image_urls.some((u) => typeof u !== "string"))) {
+            res.status(400).json({
+                error: "'image_urls' must be an array of strings",
+                response: "",
+                conversationId: conversationId || crypto.randomUUID()
+            } as ChatResponse);
+            return;
+        }
+        const images = [...(typeof image_url === "string" && image_url ? [image_url] : []), ...(image_urls ?? [])];
+        if (images.length > MAX_TURN_IMAGES) {
+            res.status(400).json({
+                error: `Too many images (max ${MAX_TURN_IMAGES} per message)`,
+                response: "",
+                conversationId: conversationId || crypto.randomUUID()
+            } as ChatResponse);
+            return;
+        }
+        if (!message && images.length > 0) {
+            message = images.length > 1 ? `[El usuario envió ${images.length} fotos]` : "[El usuario envió una foto]";
         }
         if (!message) {
             res.status(400).json({
-                error: "Missing or invalid 'message' field (or image_url)",
+                error: "Missing or invalid 'message' field (or image_url / image_urls)",
                 response: "",
                 conversationId: conversationId || crypto.randomUUID()
             } as ChatResponse);
@@ -346,17 +207,59 @@ async function handleChat(req: Request, res: Response): Promise<void> {
             return;
         }
 
+        const idempotencyHeader = req.get("Idempotency-Key")?.trim();
+        if (idempotencyHeader) {
+            if (idempotencyHeader.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+                res.status(400).json({
+                    error: `Idempotency-Key too long (max ${MAX_IDEMPOTENCY_KEY_LENGTH} characters)`,
+                    response: "",
+                    conversationId: conversationId || crypto.randomUUID()
+                } as ChatResponse);
+                return;
+            }
+            // La llave vale dentro de una conversacion: dos clientes con la misma llave no comparten respuesta
+            const scopedKey = `chat:${conversationId || "-"}:${idempotencyHeader}`;
+            const fingerprint = fingerprintRequest(req.body);
+            const existing = await claimIdempotencyKey(scopedKey, requestId, fingerprint);
+            if (existing?.fingerprint && existing.fingerprint !== fingerprint) {
+                res.status(422).json({
+                    error: "Idempotency-Key was already used with a different request body",
+                    response: "",
+                    conversationId: conversationId || crypto.randomUUID()
+                } as ChatResponse);
+                return;
+            }
+            if (existing?.status === "done" && existing.result) {
+                console.log(`[${requestId}] Idempotency-Key already processed, replaying response`);
+                res.set("Idempotent-Replayed", "true").json(existing.result);
+                return;
+            }
+            if (existing) {
+                res.status(409).json({
+                    error: "A request with this Idempotency-Key is still being processed",
+                    response: "",
+                    conversationId: conversationId || crypto.randomUUID()
+                } as ChatResponse);
+                return;
+            }
+            idempotencyKey = scopedKey;
+        }
+
         console.log(`[${requestId}] Processing: "${message.substring(0, 100)}${message.length > 100 ? '...' : ''}"`);
 
         const result = await runWorkflow({
             input_as_text: message,
-            image_url: image_url,
+            image_url: images[0],
+            image_urls: images.length > 1 ? images : undefined,
+            location: location,
+            choice: validChoice,
             conversationId: conversationId,
             metadata: metadata
         });
 
         const response: ChatResponse = {
             response: result.output_text || "Lo siento, no pude procesar tu mensaje.",
+            attachments: result.attachments,
             classification: result.classification,
             conversationId: conversationId || crypto.randomUUID(),
             metadata: {
@@ -368,10 +271,12 @@ async function handleChat(req: Request, res: Response): Promise<void> {
         console.log(`[${requestId}] Classification: ${result.classification}`);
         console.log(`[${requestId}] Response length: ${response.response.length} chars`);
 
+        if (idempotencyKey) settleIdempotencyKey(idempotencyKey, requestId, { result: response });
         res.json(response);
 
     } catch (error) {
         console.error(`[${requestId}] Error:`, error);
+        if (idempotencyKey) settleIdempotencyKey(idempotencyKey, requestId, "failed");
 
         const errorMessage = error instanceof Error ? error.message : "Internal server error";
 
@@ -394,216 +299,268 @@ app.post("/api/chat", handleChat);
 app.post("/webhook", handleChat);
 
 // ============================================
-// Evolution API Webhook Handler (WhatsApp)
+// Quejas Status (authorities)
 // ============================================
 
-interface EvolutionWebhook {
-    event: string;
-    instance: string;
-    data: {
-        key: { remoteJid: string; fromMe: boolean; id: string };
-        pushName?: string;
-        message?: {
-            conversation?: string;
-            extendedTextMessage?: { text: string };
-            imageMessage?: {
-                url?: string;
-                directUrl?: string;
-                caption?: string;
-                base64?: string;
-            };
-            locationMessage?: {
-                degreesLatitude?: number;
-                degreesLongitude?: number;
-                latitude?: number;
-                longitude?: number;
-                name?: string;
-                address?: string;
-            };
-            location?: {
-                degreesLatitude?: number;
-                degreesLongitude?: number;
-                latitude?: number;
-                longitude?: number;
-                name?: string;
-                address?: string;
-            };
-            audioMessage?: { url?: string; directUrl?: string; base64?: string; mimetype?: string };
-            pttMessage?: { url?: string; directUrl?: string; base64?: string; mimetype?: string };
-        };
-        messageType?: string;
-    };
-}
+const ESTADOS_VALIDOS: EstadoIncidente[] = ["pendiente", "reconocido", "en_progreso", "resuelto"];
 
-async function sendWhatsAppMessage(instance: string, to: string, text: string): Promise<void> {
-    const evolutionUrl = process.env.EVOLUTION_API_URL || "https://evolution.whoopflow.com";
-    const evolutionKey = process.env.EVOLUTION_API_KEY || "";
+app.patch("/api/quejas/:id/estado", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const requestId = (req as any).requestId;
+    const actor: string = (req as any).adminActor;
+    const { estado, nota } = req.body || {};
 
-    try {
-        const response = await fetch(`${evolutionUrl}/message/sendText/${instance}`, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "apikey": evolutionKey
-            },
-            body: JSON.stringify({
-                number: to.replace("@s.whatsapp.net", ""),
-                text: text
-            })
-        });
+    if (!ESTADOS_VALIDOS.includes(estado)) {
+        res.status(400).json({ success: false, error: `estado must be one of: ${ESTADOS_VALIDOS.join(", ")}` });
+        return;
+    }
+    if (nota != null && typeof nota !== "string") {
+        res.status(400).json({ success: false, error: "nota must be a string" });
+        return;
+    }
 
-        if (!response.ok) {
-            console.error(`[Evolution] Failed to send message: ${response.status}`);
-        }
+    try {
+        const incidente = await cambiarEstadoQueja(getQuejasRepository(), req.params.id, estado, actor, nota?.trim() || null);
+        console.log(`[${requestId}] Queja ${incidente.id} -> ${incidente.estado} (${actor})`);
+        res.json({ success: true, incidente });
     } catch (error) {
-        console.error(`[Evolution] Error sending message:`, error);
+        if (error instanceof QuejaNotFoundError) {
+            res.status(404).json({ success: false, error: error.message });
+        } else if (error instanceof EstadoTransitionError) {
+            res.status(409).json({ success: false, error: error.message, estado_actual: error.from });
+        } else {
+            console.error(`[${requestId}] Status update error:`, error);
+            res.status(500).json({ success: false, error: "Could not update status" });
+        }
     }
-}
-
-app.post("/webhook/evolution", async (req: Request, res: Response): Promise<void> => {
-    const requestId = (req as any).requestId || crypto.randomUUID().substring(0, 8);
+});
 
-    try {
-        const payload = req.body as EvolutionWebhook;
+// ============================================
+// Channel Webhooks (Evolution / WhatsApp, WhatsApp Cloud API, Telegram)
+// ============================================
 
-        if (payload.event !== "messages.upsert") {
-            res.json({ status: "ignored", reason: "not a message event" });
-            return;
-        }
+// Los mensajes de una conversacion se procesan en orden; conversaciones distintas en paralelo
+const webhookQueue = createJobQueue<ChannelJob>();
+webhookQueue.start((job) => handleChannelJob(job.data));
 
-        if (payload.data?.key?.fromMe) {
-            res.json({ status: "ignored", reason: "message from self" });
-            return;
-        }
+// Foto + pin + "hay una fuga" en pocos segundos = un solo turno del agente
+const webhookDebouncer = new MessageDebouncer<ChannelJob>(async (conversationId, burst) => {
+    const job = await webhookQueue.enqueue(conversationId, {
+        channel: burst[0].channel,
+        messages: burst.flatMap((item) => item.messages),
+        requestId: burst[0].requestId
+    });
+    console.log(`[${burst[0].requestId}] [${getChannelAdapter(burst[0].channel).label}] queued job ${job.id} for ${conversationId} (${burst.length} message(s))`);
+});
 
-        const msg = payload.data?.message;
-        const messageKeys = msg ? Object.keys(msg) : [];
-        console.log(`[${requestId}] [Evolution] message keys: ${messageKeys.join(", ") || "(none)"}`);
+function channelWebhook(channel: ChannelName) {
+    const adapter = getChannelAdapter(channel);
 
-        let messageText = msg?.conversation || msg?.extendedTextMessage?.text || "";
-        let imageUrl: string | undefined;
+    return async (req: Request, res: Response): Promise<void> => {
+        const requestId = (req as any).requestId || crypto.randomUUID().substring(0, 8);
 
-        const imageMsg = msg?.imageMessage;
-        if (imageMsg) {
-            imageUrl = imageMsg.url || imageMsg.directUrl;
-            if (imageMsg.base64) {
-                imageUrl = `data:image/jpeg;base64,${imageMsg.base64}`;
+        try {
+            if (!adapter.isConfigured()) {
+                res.status(503).json({ status: "error", message: `${adapter.label} channel not configured` });
+                return;
             }
-            console.log(`[${requestId}] [Evolution] imageMessage: url=${!!imageMsg.url}, directUrl=${!!imageMsg.directUrl}, base64=${!!imageMsg.base64} (len=${imageMsg.base64?.length ?? 0}), caption=${(imageMsg.caption || "").substring(0, 40)}`);
-            if (!messageText && imageMsg.caption) {
-                messageText = imageMsg.caption;
+            if (!adapter.verifyRequest(req.headers, (req as any).rawBody)) {
+                res.status(401).json({ status: "error", message: "Unauthorized" });
+                return;
             }
-            if (!messageText) {
-                messageText = "[El usuario envió una foto]";
+
+            const parsed = adapter.parseInbound(req.body);
+            if ("ignored" in parsed) {
+                res.json({ status: "ignored", reason: parsed.ignored });
+                return;
             }
-        }
 
-        const locationMsg = msg?.locationMessage ?? msg?.location;
-        if (locationMsg) {
-            const lat = locationMsg.degreesLatitude ?? locationMsg.latitude;
-            const lng = locationMsg.degreesLongitude ?? locationMsg.longitude;
-            const name = locationMsg.name || locationMsg.address || "";
-            console.log(`[${requestId}] [Evolution] locationMessage: lat=${lat}, lng=${lng}, name=${name || "(empty)"}, address=${(locationMsg.address || "").substring(0, 40) || "(empty)"}`);
-            let locationText: string;
-            if (lat != null && lng != null) {
-                const address = await reverseGeocode(lat, lng);
-                if (address) {
-                    locationText = `[El usuario compartió su ubicación: ${address} (lat ${lat}, lng ${lng})]`;
-                    console.log(`[${requestId}] [Evolution] reverse geocode -> "${address.substring(0, 60)}..."`);
-                } else {
-                    locationText = name
-                        ? `[El usuario compartió su ubicación: ${name}. Coordenadas: lat ${lat}, lng ${lng}.]`
-                        : `[El usuario compartió su ubicación: Coordenadas: lat ${lat}, lng ${lng}.]`;
+            let queued = 0;
+            for (const message of parsed.messages) {
+                // Los canales reentregan el mismo mensaje (mismo id) si no respondimos a tiempo
+                const idempotencyKey = message.messageId ? `${channel}:${message.address.account}:${message.messageId}` : null;
+                if (idempotencyKey && (await claimIdempotencyKey(idempotencyKey, requestId))) {
+                    console.log(`[${requestId}] [${adapter.label}] duplicate delivery of ${message.messageId} from ${message.conversationId}, ignored`);
+                    continue;
                 }
-            } else {
-                locationText = name
-                    ? `[El usuario compartió su ubicación: ${name}.]`
-                    : "[El usuario compartió su ubicación]";
-            }
-            messageText = messageText ? `${messageText}\n${locationText}` : locationText;
-            console.log(`[${requestId}] [Evolution] location parsed -> input: "${locationText.substring(0, 80)}..."`);
-        }
 
-        const audioMsg = (msg as Record<string, unknown>)?.audioMessage
-            ?? (msg as Record<string, unknown>)?.pttMessage
-            ?? (msg as Record<string, unknown>)?.audio;
-        if (audioMsg && typeof audioMsg === "object" && audioMsg !== null) {
-            const am = audioMsg as { url?: string; directUrl?: string; base64?: string; mimetype?: string };
-            const evolutionUrl = process.env.EVOLUTION_API_URL || "";
-            const evolutionKey = process.env.EVOLUTION_API_KEY || "";
-            console.log(`[${requestId}] [Evolution] audio message: hasBase64=${!!am.base64}, hasUrl=${!!(am.url || am.directUrl)}`);
-            const buffer = await getAudioBufferFromMessage(am, evolutionUrl, evolutionKey, requestId);
-            if (buffer) {
-                const transcription = await transcribeAudio(buffer, am.mimetype);
-                if (requestId) console.log(`[${requestId}] [Evolution] Whisper: ${transcription ? "ok " + transcription.length + " chars" : "failed"}`);
-                const audioLabel = (msg as Record<string, unknown>)?.pttMessage ? "nota de voz" : "audio";
-                const transcribed = transcription
-                    ? `[El usuario envió un ${audioLabel}:] ${transcription}`
-                    : `[El usuario envió un ${audioLabel}. No se pudo transcribir.]`;
-                messageText = messageText ? `${messageText}\n${transcribed}` : transcribed;
-            } else {
-                const fallback = "[El usuario envió un audio. No se pudo obtener el archivo.]";
-                messageText = messageText ? `${messageText}\n${fallback}` : fallback;
+                if (message.ackRef && adapter.acknowledge) {
+                    adapter.acknowledge(message).catch((e) => console.warn(`[${requestId}] [${adapter.label}] acknowledge failed:`, e));
+                }
+                // Se responde de inmediato: el canal reintenta si el webhook tarda
+                webhookDebouncer.push(message.conversationId, { channel, messages: [message], requestId });
+                if (idempotencyKey) settleIdempotencyKey(idempotencyKey, requestId, { result: { status: "queued" } });
+                queued++;
             }
-        }
 
-        if (!messageText && !imageUrl) {
-            const msgPreview: Record<string, string> = {};
-            if (msg) {
-                for (const k of messageKeys) {
-                    const v = (msg as Record<string, unknown>)[k];
-                    if (v && typeof v === "object" && !Array.isArray(v)) {
-                        msgPreview[k] = JSON.stringify(Object.keys(v as object));
-                    } else {
-                        msgPreview[k] = typeof v;
-                    }
-                }
+            if (queued === 0) {
+                res.json({ status: "ignored", reason: "duplicate message" });
+                return;
             }
-            console.log(`[${requestId}] [Evolution] ignored: no text, image, location or audio. Message preview: ${JSON.stringify(msgPreview)}`);
-            res.json({ status: "ignored", reason: "no text, image, location or audio content" });
-            return;
-        }
+            res.json({ status: "queued", messages: queued });
 
-        if (!messageText) {
-            messageText = "[El usuario envió una foto]";
+        } catch (error) {
+            console.error(`[${requestId}] ${adapter.label} webhook error:`, error);
+            res.status(500).json({ status: "error", message: "Internal error" });
         }
+    };
+}
 
-        const remoteJid = payload.data.key.remoteJid;
-        const instance = payload.instance;
+app.post("/webhook/evolution", channelWebhook("evolution"));
+app.post("/webhook/whatsapp", channelWebhook("whatsapp_cloud"));
+app.post("/webhook/telegram", channelWebhook("telegram"));
 
-        console.log(`[${requestId}] [Evolution] from ${remoteJid} -> input_as_text: "${messageText.substring(0, 80)}..."${imageUrl ? ", image_url: (set)" : ""}`);
+// Meta verifica el webhook con un GET antes de mandar mensajes
+app.get("/webhook/whatsapp", (req: Request, res: Response) => {
+    const challenge = getChannelAdapter("whatsapp_cloud").verifySubscription?.(req.query as Record<string, unknown>);
+    if (challenge == null) {
+        res.status(403).json({ status: "error", message: "Verification failed" });
+        return;
+    }
+    res.type("text/plain").send(challenge);
+});
 
-        const result = await runWorkflow({
-            input_as_text: messageText,
-            image_url: imageUrl,
-            conversationId: remoteJid,
-            metadata: {
-                source: "evolution",
-                instance: instance,
-                pushName: payload.data.pushName
-            }
-        });
+// Legacy endpoint support
+app.post("/chat", handleChat);
 
-        if (result.output_text) {
-            await sendWhatsAppMessage(instance, remoteJid, result.output_text);
-        }
+// ============================================
+// Alert Broadcast (admin)
+// ============================================
+
+const TIPOS_ALERTA: TipoAlerta[] = ["escasez", "conservacion", "programa", "emergencia"];
+
+app.post("/api/admin/alertas", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const requestId = (req as any).requestId;
+    const { id, titulo, mensaje, tipo, zonas_objetivo } = req.body || {};
 
-        console.log(`[${requestId}] Response sent to ${remoteJid}`);
+    if (typeof titulo !== "string" || !titulo.trim() || typeof mensaje !== "string" || !mensaje.trim()) {
+        res.status(400).json({ success: false, error: "titulo and mensaje are required" });
+        return;
+    }
+    if (!TIPOS_ALERTA.includes(tipo)) {
+        res.status(400).json({ success: false, error: `tipo must be one of: ${TIPOS_ALERTA.join(", ")}` });
+        return;
+    }
+    if (zonas_objetivo != null && (!Array.isArray(zonas_objetivo) || zonas_objetivo.some((z: unknown) => typeof z !== "string"))) {
+        res.status(400).json({ success: false, error: "zonas_objetivo must be an array of alcaldias" });
+        return;
+    }
 
+    const alerta: Alerta = {
+        id: typeof id === "string" && id ? id : `admin-${crypto.randomUUID()}`,
+        titulo: titulo.trim(),
+        mensaje: mensaje.trim(),
+        tipo,
+        zonas_objetivo: zonas_objetivo ?? [],
+        cantidad_destinatarios: 0,
+        enviado_en: new Date().toISOString()
+    };
+
+    // El envio respeta el rate limit y puede tardar: se responde de inmediato
+    console.log(`[${requestId}] Alert ${alerta.id} broadcast requested by ${(req as any).adminActor}`);
+    broadcastAlerta(alerta).catch((e) => console.error(`[Alertas] Broadcast ${alerta.id} failed:`, e));
+    res.status(202).json({ success: true, alerta_id: alerta.id, entregas: `/api/admin/alertas/${alerta.id}/entregas` });
+});
+
+app.get("/api/admin/alertas/:id/entregas", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    try {
+        const entregas = await getSubscriptionStore().listDeliveries(req.params.id);
+        const resumen = { enviados: 0, fallidos: 0 };
+        for (const e of entregas) {
+            if (e.status === "sent") resumen.enviados++;
+            else resumen.fallidos++;
+        }
         res.json({
-            status: "ok",
-            classification: result.classification,
-            responseLength: result.output_text?.length || 0
+            success: true,
+            alerta_id: req.params.id,
+            cantidad_destinatarios: entregas.length,
+            ...resumen,
+            entregas: entregas.map((e) => ({
+                suscriptor: e.subscriberId,
+                estado: e.status,
+                intentos: e.attempts,
+                error: e.error,
+                actualizado_en: e.updatedAt
+            }))
         });
+    } catch (error) {
+        console.error(`[Alertas] Could not list deliveries:`, error);
+        res.status(500).json({ success: false, error: "Could not list deliveries" });
+    }
+});
+
+// ============================================
+// Outbound Messages (admin)
+// ============================================
+
+const OUTBOUND_ESTADOS: OutboundStatus[] = ["queued", "sending", "sent", "failed"];
+
+function toEnvio(m: OutboundMessage) {
+    return {
+        id: m.id,
+        canal: m.channel,
+        destinatario: hashSender(m.address.chatId),
+        tipo: m.payload.kind,
+        partes: m.payload.kind === "text" ? m.payload.parts.length : 1,
+        partes_enviadas: m.payload.kind === "text" ? m.sentParts : undefined,
+        estado: m.status,
+        intentos: m.attempts,
+        error: m.lastError,
+        proximo_intento: m.status === "queued" ? m.nextAttemptAt : undefined,
+        request_id: m.requestId,
+        creado_en: m.createdAt,
+        actualizado_en: m.updatedAt
+    };
+}
 
+app.get("/api/admin/envios", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const estado = req.query.estado;
+    if (estado != null && !OUTBOUND_ESTADOS.includes(estado as OutboundStatus)) {
+        res.status(400).json({ success: false, error: `estado must be one of: ${OUTBOUND_ESTADOS.join(", ")}` });
+        return;
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    try {
+        const envios = await getOutboundQueue().store.list(estado as OutboundStatus | undefined, limit);
+        res.json({ success: true, cantidad: envios.length, envios: envios.map(toEnvio) });
     } catch (error) {
-        console.error(`[${requestId}] Evolution webhook error:`, error);
-        res.status(500).json({ status: "error", message: "Internal error" });
+        console.error(`[Outbound] Could not list messages:`, error);
+        res.status(500).json({ success: false, error: "Could not list outbound messages" });
     }
 });
 
-// Legacy endpoint support
-app.post("/chat", handleChat);
+app.get("/api/admin/envios/:id", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    try {
+        const envio = await getOutboundQueue().store.get(req.params.id);
+        if (!envio) {
+            res.status(404).json({ success: false, error: `Outbound message ${req.params.id} not found` });
+            return;
+        }
+        res.json({ success: true, envio: toEnvio(envio) });
+    } catch (error) {
+        console.error(`[Outbound] Could not read message ${req.params.id}:`, error);
+        res.status(500).json({ success: false, error: "Could not read outbound message" });
+    }
+});
+
+app.post("/api/admin/envios/:id/reintentar", requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    const requestId = (req as any).requestId;
+    try {
+        console.log(`[${requestId}] Outbound ${req.params.id} retry requested by ${(req as any).adminActor}`);
+        const envio = await getOutboundQueue().retry(req.params.id);
+        res.json({ success: true, envio: toEnvio(envio) });
+    } catch (error) {
+        if (error instanceof OutboundNotFoundError) {
+            res.status(404).json({ success: false, error: error.message });
+            return;
+        }
+        if (error instanceof OutboundStateError) {
+            res.status(409).json({ success: false, error: error.message });
+            return;
+        }
+        console.error(`[Outbound] Could not retry message ${req.params.id}:`, error);
+        res.status(500).json({ success: false, error: "Could not retry outbound message" });
+    }
+});
 
 // ============================================
 // Error Handling
@@ -618,7 +575,15 @@ app.use((req: Request, res: Response) => {
             "GET /status - Detailed status",
             "POST /api/chat - Main chat endpoint",
             "POST /webhook - Webhook endpoint",
-            "POST /webhook/evolution - Evolution API webhook (WhatsApp)"
+            "POST /webhook/evolution - Evolution API webhook (WhatsApp)",
+            "GET/POST /webhook/whatsapp - WhatsApp Cloud API webhook (Meta)",
+            "POST /webhook/telegram - Telegram Bot API webhook",
+            "PATCH /api/quejas/:id/estado - Update report status (admin)",
+            "POST /api/admin/alertas - Broadcast an alert to subscribers (admin)",
+            "GET /api/admin/alertas/:id/entregas - Per-recipient delivery status (admin)",
+            "GET /api/admin/envios - Outbound messages by status, ?estado=failed for dead letters (admin)",
+            "GET /api/admin/envios/:id - One outbound message (admin)",
+            "POST /api/admin/envios/:id/reintentar - Retry a failed outbound message (admin)"
         ]
     });
 });
@@ -637,6 +602,27 @@ app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
 // Server Startup
 // ============================================
 
+// Backend de quejas: se elige una vez al arrancar y lo comparten todas las herramientas
+const quejasRepository = getQuejasRepository();
+const idempotencyStore = getIdempotencyStore();
+const stopAlertPoller = startAlertPoller();
+const outboundQueue = getOutboundQueue();
+const stopOutboundRetries = outboundQueue.start();
+const ttsProvider = getTtsProvider();
+const sttProvider = getSttProvider();
+const geocodingProvider = getGeocodingProvider();
+
+// Sin ffmpeg no se transcriben notas de voz ni se responden en voz: mejor saberlo al arrancar
+checkFfmpeg().then((ok) => {
+    if (!ok) console.warn(`[Audio] ffmpeg not found: voice notes will not be transcribed and voice replies are off`);
+});
+
+// Avisos de cambio de estado a quien reporto (STATUS_NOTIFIER)
+let stopStatusNotifier: () => void = () => {};
+startStatusNotifier()
+    .then((stop) => { stopStatusNotifier = stop; })
+    .catch((e) => console.error(`[Followers] Status notifier not started:`, e instanceof Error ? e.message : e));
+
 const server = app.listen(PORT, () => {
     console.log(`
 ========================================
@@ -647,6 +633,15 @@ const server = app.listen(PORT, () => {
   Status: http://localhost:${PORT}/status
   Chat:   http://localhost:${PORT}/api/chat
   Webhook: http://localhost:${PORT}/webhook
+  WhatsApp Cloud: ${getChannelAdapter("whatsapp_cloud").isConfigured() ? "enabled" : "disabled (WHATSAPP_CLOUD_TOKEN, WHATSAPP_APP_SECRET)"}
+  Telegram: ${getChannelAdapter("telegram").isConfigured() ? "enabled" : "disabled (TELEGRAM_BOT_TOKEN, TELEGRAM_WEBHOOK_SECRET)"}
+  Quejas: ${quejasRepository.name}
+  Webhook queue: ${webhookQueue.name}
+  Idempotency: ${idempotencyStore.name}
+  Outbound: ${outboundQueue.store.name}
+  Speech-to-text: ${sttProvider?.name ?? "off (STT_PROVIDER)"}
+  Voice replies: ${ttsProvider?.name ?? "off (TTS_PROVIDER)"}
+  Address geocoding: ${geocodingProvider?.name ?? "off (GEOCODING_PROVIDER)"}
   Environment: ${NODE_ENV}
 ========================================
     `);
@@ -655,7 +650,13 @@ const server = app.listen(PORT, () => {
 // Graceful shutdown
 process.on("SIGTERM", () => {
     console.log("\nSIGTERM received, shutting down gracefully...");
-    server.close(() => {
+    stopAlertPoller();
+    stopStatusNotifier();
+    stopOutboundRetries();
+    server.close(async () => {
+        // Deja terminar los turnos en curso antes de salir
+        await webhookDebouncer.flushAll();
+        await webhookQueue.close();
         console.log("Server closed");
         process.exit(0);
     });
@@ -663,7 +664,13 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
     console.log("\nSIGINT received, shutting down gracefully...");
-    server.close(() => {
+    stopAlertPoller();
+    stopStatusNotifier();
+    stopOutboundRetries();
+    server.close(async () => {
+        // Deja terminar los turnos en curso antes de salir
+        await webhookDebouncer.flushAll();
+        await webhookQueue.close();
         console.log("Server closed");
         process.exit(0);
     });
@@ -0,0 +1,247 @@
+// ============================================
+// WaterHub STT - voice notes to text
+// ============================================
+// Every voice note is converted by ffmpeg to 16 kHz mono WAV (audio.ts) and
+// then handed to a provider. Failures are TranscriptionErrors with a category,
+// so the agent can tell "too long" apart from "the service is down".
+// STT_PROVIDER=openai (default, OPENAI_API_KEY) | command (STT_COMMAND: whisper.cpp, faster-whisper, ...) | none
+
+import { spawn } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { convertAudioForSpeechToText } from "./audio.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface Transcript {
+    text: string;
+    /** ISO 639-1 reported by the provider (e.g. "es"); undefined if it did not say */
+    language?: string;
+    durationSeconds: number;
+    provider: string;
+}
+
+export interface SttProvider {
+    readonly name: string;
+    /** Transcribes a 16 kHz mono WAV; throws TranscriptionError. */
+    transcribe(wav: Buffer, language?: string): Promise<Omit<Transcript, "durationSeconds" | "provider">>;
+}
+
+export type TranscriptionErrorCategory =
+    /** STT_PROVIDER=none */
+    | "disabled"
+    /** Longer than STT_MAX_SECONDS */
+    | "too_long"
+    /** ffmpeg missing or could not decode the file */
+    | "conversion_failed"
+    /** Provider rejected the audio or is unreachable */
+    | "provider_error"
+    | "timeout"
+    /** Only silence or noise */
+    | "empty";
+
+export class TranscriptionError extends Error {
+    constructor(public readonly category: TranscriptionErrorCategory, message: string) {
+        super(message);
+        this.name = "TranscriptionError";
+    }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const WHISPER_API = "https://api.openai.com/v1/audio/transcriptions";
+const STT_MODEL = process.env.STT_MODEL || "whisper-1";
+const STT_COMMAND = process.env.STT_COMMAND || "";
+/** Language hint for the model; "auto" lets it detect. */
+const STT_LANGUAGE = process.env.STT_LANGUAGE || "es";
+export const STT_MAX_SECONDS = Number(process.env.STT_MAX_SECONDS || 300);
+const STT_TIMEOUT_MS = Number(process.env.STT_TIMEOUT_SECONDS || 120) * 1000;
+
+// Whisper responde el idioma por nombre ("spanish"); se guarda como codigo
+const LANGUAGE_CODES: Record<string, string> = {
+    spanish: "es",
+    english: "en",
+    portuguese: "pt",
+    french: "fr",
+    nahuatl: "nah"
+};
+
+export function normalizeLanguage(language: string | undefined | null): string | undefined {
+    const value = language?.trim().toLowerCase();
+    if (!value) return undefined;
+    return LANGUAGE_CODES[value] ?? value;
+}
+
+// ============================================
+// Providers
+// ============================================
+
+export class OpenAISttProvider implements SttProvider {
+    readonly name = "openai";
+
+    constructor(
+        private readonly apiKey = process.env.OPENAI_API_KEY || "",
+        private readonly model = STT_MODEL,
+        private readonly timeoutMs = STT_TIMEOUT_MS
+    ) {}
+
+    async transcribe(wav: Buffer, language?: string): Promise<{ text: string; language?: string }> {
+        if (!this.apiKey) throw new TranscriptionError("disabled", "OPENAI_API_KEY not configured");
+
+        const formData = new FormData();
+        formData.append("file", new Blob([new Uint8Array(wav)], { type: "audio/wav" }), "audio.wav");
+        formData.append("model", this.model);
+        // verbose_json trae el idioma detectado
+        formData.append("response_format", "verbose_json");
+        if (language) formData.append("language", language);
+
+        let res: Response;
+        try {
+            res = await fetch(WHISPER_API, {
+                method: "POST",
+                headers: { Authorization: `Bearer ${this.apiKey}` },
+                body: formData,
+                signal: AbortSignal.timeout(this.timeoutMs)
+            });
+        } catch (e) {
+            if (e instanceof Error && e.name === "TimeoutError") {
+                throw new TranscriptionError("timeout", `OpenAI did not answer in ${this.timeoutMs / 1000}s`);
+            }
+            throw new TranscriptionError("provider_error", `OpenAI unreachable: ${e instanceof Error ? e.message : e}`);
+        }
+        if (!res.ok) {
+            const err = await res.text();
+            throw new TranscriptionError("provider_error", `OpenAI ${res.status}: ${err.substring(0, 200)}`);
+        }
+        const data = (await res.json()) as { text?: string; language?: string };
+        return { text: data.text?.trim() ?? "", language: normalizeLanguage(data.language) ?? language };
+    }
+}
+
+/**
+ * On-premise engine. STT_COMMAND runs with {input} replaced by the WAV path and
+ * {language} by the hint ("auto" when detecting) and prints the transcript on
+ * stdout, either as plain text or as JSON {"text", "language"}. whisper.cpp's
+ * "auto-detected language: xx" line on stderr is also picked up.
+ */
+export class CommandSttProvider implements SttProvider {
+    readonly name = "command";
+
+    constructor(private readonly command = STT_COMMAND, private readonly timeoutMs = STT_TIMEOUT_MS) {}
+
+    async transcribe(wav: Buffer, language?: string): Promise<{ text: string; language?: string }> {
+        const dir = await mkdtemp(join(tmpdir(), "waterhub-stt-"));
+        const input = join(dir, "audio.wav");
+        try {
+            await writeFile(input, wav);
+            const command = this.command.replaceAll("{input}", input).replaceAll("{language}", language || "auto");
+            const { stdout, stderr } = await this.run(command);
+            const detected = /auto-detected language:\s*([a-z]{2,3})/i.exec(stderr)?.[1];
+            const trimmed = stdout.trim();
+            if (trimmed.startsWith("{")) {
+                try {
+                    const parsed = JSON.parse(trimmed) as { text?: string; language?: string };
+                    return { text: parsed.text?.trim() ?? "", language: normalizeLanguage(parsed.language ?? detected) ?? language };
+                } catch {
+                    // No era JSON: se usa como texto
+                }
+            }
+            return { text: trimmed.replace(/\s*\n\s*/g, " "), language: normalizeLanguage(detected) ?? language };
+        } finally {
+            await rm(dir, { recursive: true, force: true }).catch(() => {});
+        }
+    }
+
+    private run(command: string): Promise<{ stdout: string; stderr: string }> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, { shell: true, stdio: ["ignore", "pipe", "pipe"] });
+            let stdout = "";
+            let stderr = "";
+            let timedOut = false;
+            const timer = setTimeout(() => {
+                timedOut = true;
+                child.kill("SIGKILL");
+            }, this.timeoutMs);
+            child.stdout.on("data", (chunk: Buffer) => { stdout += chunk.toString(); });
+            child.stderr.on("data", (chunk: Buffer) => { stderr = (stderr + chunk.toString()).slice(-4000); });
+            child.on("error", (e) => {
+                clearTimeout(timer);
+                reject(new TranscriptionError("provider_error", `STT_COMMAND failed to start: ${e.message}`));
+            });
+            child.on("close", (code) => {
+                clearTimeout(timer);
+                if (timedOut) {
+                    reject(new TranscriptionError("timeout", `STT_COMMAND did not finish in ${this.timeoutMs / 1000}s`));
+                } else if (code !== 0) {
+                    reject(new TranscriptionError("provider_error", `STT_COMMAND exited with ${code}: ${stderr.trim().split("\n").pop() ?? ""}`));
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            });
+        });
+    }
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+export function createSttProvider(kind = process.env.STT_PROVIDER || "openai"): SttProvider | null {
+    switch (kind) {
+        case "openai":
+            return new OpenAISttProvider();
+        case "command":
+            if (!STT_COMMAND) throw new Error("STT_PROVIDER=command requires STT_COMMAND (e.g. whisper-cli -m model.bin -nt -np -l {language} -f {input})");
+            return new CommandSttProvider();
+        case "none":
+            return null;
+        default:
+            throw new Error(`Unknown STT_PROVIDER: ${kind} (use openai, command or none)`);
+    }
+}
+
+let sttProvider: SttProvider | null | undefined;
+
+export function getSttProvider(): SttProvider | null {
+    if (sttProvider === undefined) {
+        sttProvider = createSttProvider();
+        console.log(`[STT] Using ${sttProvider?.name ?? "no"} speech-to-text`);
+    }
+    return sttProvider;
+}
+
+/** Tests / custom wiring. */
+export function setSttProvider(provider: SttProvider | null): void {
+    sttProvider = provider;
+}
+
+// ============================================
+// Transcription
+// ============================================
+
+/** Converts and transcribes a voice note; throws TranscriptionError with a category. */
+export async function transcribeAudio(
+    buffer: ArrayBuffer | Buffer,
+    options: { provider?: SttProvider | null; maxSeconds?: number; language?: string } = {}
+): Promise<Transcript> {
+    const provider = options.provider === undefined ? getSttProvider() : options.provider;
+    if (!provider) throw new TranscriptionError("disabled", "STT_PROVIDER=none");
+    const maxSeconds = options.maxSeconds ?? STT_MAX_SECONDS;
+    const languageHint = options.language ?? STT_LANGUAGE;
+
+    // Sin ffmpeg no hay transcripcion: mandar el OGG crudo fallaba a medias
+    const converted = await convertAudioForSpeechToText(buffer, maxSeconds);
+    if (!converted) throw new TranscriptionError("conversion_failed", "ffmpeg could not decode the audio (is it installed?)");
+    if (converted.durationSeconds > maxSeconds) {
+        throw new TranscriptionError("too_long", `Audio longer than ${maxSeconds}s`);
+    }
+
+    const result = await provider.transcribe(converted.wav, languageHint === "auto" ? undefined : languageHint);
+    if (!result.text) throw new TranscriptionError("empty", "No speech recognized");
+    return { ...result, durationSeconds: Math.round(converted.durationSeconds), provider: provider.name };
+}
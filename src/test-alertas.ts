@@ -0,0 +1,132 @@
+// ============================================
+// Alertas / Prediccion Tools - Offline Tests (fetch replaced in-process)
+// ============================================
+// Run: npx tsx src/test-alertas.ts
+
+import { RunContext } from "@openai/agents";
+import { alertaAplicaEnAlcaldia, consultarAlertasTool, consultarPrediccionTool, suscribirAlertasTool } from "./tools.js";
+import {
+    broadcastAlerta,
+    InMemorySubscriptionStore,
+    isUnsubscribeCommand,
+    setSubscriptionStore,
+    subscribe,
+    unsubscribe
+} from "./alert-subscriptions.js";
+import type { ChannelAddress, ChannelName, ChannelSender } from "./channels.js";
+import type { Alerta } from "./types.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+/** Calls a tool with an empty run context (no sender), as /api/chat would. */
+async function invoke<C>(t: { invoke: (ctx: RunContext<C>, input: string) => Promise<unknown> }, args: object): Promise<any> {
+    const result = await t.invoke(new RunContext({} as C), JSON.stringify(args));
+    return typeof result === "string" ? JSON.parse(result) : result;
+}
+
+const alertas = [
+    { id: "1", titulo: "Corte programado", mensaje: "Sin agua el martes", zonas_objetivo: ["Iztapalapa"], cantidad_destinatarios: 0, tipo: "escasez", enviado_en: "2026-01-01T10:00:00Z" },
+    { id: "2", titulo: "Cuida el agua", mensaje: "Cierra la llave", zonas_objetivo: [], cantidad_destinatarios: 0, tipo: "conservacion", enviado_en: "2026-01-01T10:00:00Z" },
+    { id: "3", titulo: "Fuga mayor", mensaje: "Baja presion", zonas_objetivo: ["Coyoacán"], cantidad_destinatarios: 0, tipo: "emergencia", enviado_en: "2026-01-01T10:00:00Z" }
+];
+const prediccion = { alcaldia: "Iztapalapa", demanda_predicha: 0.91, intensidad: "critica", confianza: 0.8, factores: {}, recomendaciones: ["Almacena agua"], timestamp: "2026-01-01T10:00:00Z" };
+
+let apiUp = true;
+globalThis.fetch = (async (url: string | URL) => {
+    if (!apiUp) throw new Error("connect ECONNREFUSED");
+    const body = String(url).includes("/api/alertas") ? alertas : prediccion;
+    return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+}) as typeof fetch;
+
+async function runTests() {
+    console.log("\n🚨 Alertas por alcaldia");
+    console.log("─".repeat(50));
+
+    check("zone alert applies to its alcaldia without accents", alertaAplicaEnAlcaldia(alertas[2], "Coyoacan"));
+    check("zone alert does not apply elsewhere", !alertaAplicaEnAlcaldia(alertas[0], "Coyoacán"));
+    check("alert without zones is general", alertaAplicaEnAlcaldia(alertas[1], "Tlalpan"));
+
+    const iztapalapa = await invoke(consultarAlertasTool, { tipo: null, alcaldia: "Iztapalapa" });
+    check("consultar_alertas keeps zone + general alerts", iztapalapa.success && iztapalapa.count === 2 && !iztapalapa.desactualizado);
+
+    console.log("\n📈 Prediccion y API caida");
+    console.log("─".repeat(50));
+
+    const ok = await invoke(consultarPrediccionTool, { alcaldia: "Iztapalapa" });
+    check("critica renders as red level", ok.success && ok.nivel === "🔴" && ok.recomendaciones.length === 1);
+
+    apiUp = false;
+    const stale = await invoke(consultarPrediccionTool, { alcaldia: "Iztapalapa" });
+    check("API down serves last good forecast marked stale", stale.success && stale.desactualizado === true && stale.intensidad === "critica");
+
+    const down = await invoke(consultarPrediccionTool, { alcaldia: "Tlalpan" });
+    check("API down without cache reports unavailable", down.success === false && down.servicio_no_disponible === true);
+
+    console.log("\n📣 Suscripciones y envio");
+    console.log("─".repeat(50));
+
+    const store = new InMemorySubscriptionStore();
+    setSubscriptionStore(store);
+    const whatsapp = (jid: string): ChannelSender => ({ channel: "evolution", senderKey: jid, address: { account: "waterhub", chatId: jid } });
+    await subscribe({ sender: whatsapp("5215511111111@s.whatsapp.net"), alcaldias: ["Coyoacán"] });
+    await subscribe({ sender: whatsapp("5215511111111@s.whatsapp.net"), alcaldias: ["coyoacan", "Tlalpan"] });
+    await subscribe({ sender: whatsapp("5215522222222@s.whatsapp.net"), alcaldias: ["Iztapalapa"], tipos: ["emergencia"] });
+    const subs = await store.list();
+    check("subscriber is stored under a hash, alcaldias merged", subs.length === 2 && !subs[0].id.includes("55111") && subs[0].alcaldias.length === 2);
+    await subscribe({ sender: { channel: "telegram", senderKey: "telegram:4242", address: { account: "bot", chatId: "4242" } }, alcaldias: ["Tlalpan"] });
+    const telegram = (await store.list()).find((s) => s.channel === "telegram");
+    check("Telegram chats can subscribe too", !!telegram && telegram.chatId === "4242" && !telegram.id.includes("4242"));
+
+    const viaChat = await invoke(suscribirAlertasTool, { alcaldias: ["Tlalpan"], tipos: null });
+    check("subscribing outside WhatsApp is refused", viaChat.success === false);
+
+    const sent: string[] = [];
+    const channels: ChannelName[] = [];
+    let failNext = true;
+    const send = async (channel: ChannelName, to: ChannelAddress) => {
+        if (to.chatId.startsWith("52155111") && failNext) {
+            failNext = false;
+            return false;
+        }
+        sent.push(to.chatId);
+        channels.push(channel);
+        return true;
+    };
+    const alerta = { ...alertas[2], id: "a-coy" } as Alerta;
+    const first = await broadcastAlerta(alerta, { send, perSecond: 1000 });
+    check("zone alert reaches only matching subscribers", first.destinatarios === 1 && first.fallidos === 1);
+    const retry = await broadcastAlerta(alerta, { send, perSecond: 1000 });
+    check("retry re-sends the failed delivery", retry.enviados === 1 && (await store.listDeliveries("a-coy"))[0].status === "sent");
+    const again = await broadcastAlerta(alerta, { send, perSecond: 1000 });
+    check("already delivered recipients are skipped", again.omitidos === 1 && sent.length === 1);
+
+    const general = await broadcastAlerta({ ...alertas[1], id: "a-gen" } as Alerta, { send, perSecond: 1000 });
+    check("general alert respects tipo filter", general.destinatarios === 2);
+    check("each subscriber is reached on their own channel", channels.includes("evolution") && channels.at(-1) === "telegram" && sent.at(-1) === "4242");
+
+    check("BAJA is an unsubscribe command", isUnsubscribeCommand(" Baja ") && isUnsubscribeCommand("BAJA alertas") && !isUnsubscribeCommand("bajaron los precios"));
+    check("unsubscribe removes the record", (await unsubscribe("5215511111111@s.whatsapp.net")) && (await store.list()).length === 2);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+}
+
+runTests()
+    .then(() => process.exit(failed > 0 ? 1 : 0))
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    });
@@ -0,0 +1,289 @@
+// ============================================
+// Channel Adapters - Offline Tests (webhook parsing, no network)
+// ============================================
+// Run: npx tsx src/test-channels.ts
+
+import { createHmac } from "node:crypto";
+import { EvolutionAdapter } from "./channel-evolution.js";
+import { TelegramAdapter } from "./channel-telegram.js";
+import { WhatsAppCloudAdapter } from "./channel-whatsapp-cloud.js";
+import { formatChoicesAsText } from "./channels.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+console.log("\n🟢 Evolution (WhatsApp)");
+console.log("─".repeat(50));
+
+const evolution = new EvolutionAdapter();
+const jid = "5215512345678@s.whatsapp.net";
+
+const evoPhoto = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: {
+        key: { remoteJid: jid, fromMe: false, id: "ABC" },
+        pushName: "Ana",
+        message: { imageMessage: { url: "https://mmg.whatsapp.net/x", base64: "aGVsbG8=", mimetype: "image/jpeg", caption: "fuga" } }
+    }
+});
+check("message is parsed", "messages" in evoPhoto);
+if ("messages" in evoPhoto) {
+    const m = evoPhoto.messages[0];
+    check("conversation is the remoteJid", m.conversationId === jid && m.address.chatId === jid);
+    check("instance is the reply account", m.address.account === "waterhub");
+    check("image keeps caption and fallback url", m.image?.caption === "fuga" && m.image.fallbackUrl === "https://mmg.whatsapp.net/x");
+    check("message id is kept for idempotency", m.messageId === "ABC");
+}
+
+const evoPin = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "D" }, message: { locationMessage: { degreesLatitude: 19.4, degreesLongitude: -99.1 } } }
+});
+check("location pin is normalized", "messages" in evoPin && evoPin.messages[0].location?.latitude === 19.4 && evoPin.messages[0].location.longitude === -99.1);
+
+const evoPtt = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "E" }, message: { pttMessage: { base64: "AA==" } } }
+});
+check("voice note is flagged", "messages" in evoPtt && evoPtt.messages[0].audio?.voiceNote === true);
+const evoDocument = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "D" }, message: { documentWithCaptionMessage: { message: { documentMessage: { url: "https://mmg.whatsapp.net/d", mimetype: "image/jpeg", fileName: "IMG_0001.jpg", caption: "aquí" } } } } }
+});
+check("photo sent as a document is an image", "messages" in evoDocument && evoDocument.messages[0].image?.mimeType === "image/jpeg" && evoDocument.messages[0].image.caption === "aquí");
+const evoPdf = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "P" }, message: { documentMessage: { url: "https://mmg.whatsapp.net/p", mimetype: "application/pdf" } } }
+});
+check("other documents are not images", "messages" in evoPdf && evoPdf.messages[0].image === undefined);
+check("album header is ignored (its photos come one by one)", "ignored" in evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "AL" }, message: { albumMessage: { expectedImageCount: 4 }, messageContextInfo: {} } }
+}));
+
+const evoVideo = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "V" }, message: { videoMessage: { url: "https://mmg.whatsapp.net/v", mimetype: "video/mp4", caption: "así está la calle" } } }
+});
+check("video keeps caption and fallback url", "messages" in evoVideo && evoVideo.messages[0].video?.caption === "así está la calle" && evoVideo.messages[0].video.fallbackUrl === "https://mmg.whatsapp.net/v");
+
+const evoButton = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "G" }, message: { buttonsResponseMessage: { selectedButtonId: "duplicado:si", selectedDisplayText: "Sí, es el mismo" } } }
+});
+check("button reply keeps id and title", "messages" in evoButton && evoButton.messages[0].choice?.id === "duplicado:si" && evoButton.messages[0].choice.title === "Sí, es el mismo");
+
+const evoList = evolution.parseInbound({
+    event: "messages.upsert",
+    instance: "waterhub",
+    data: { key: { remoteJid: jid, fromMe: false, id: "H" }, message: { listResponseMessage: { title: "Fuga", singleSelectReply: { selectedRowId: "tipo:fuga" } } } }
+});
+check("list reply keeps the row id", "messages" in evoList && evoList.messages[0].choice?.id === "tipo:fuga");
+
+const evoSelf = evolution.parseInbound({ event: "messages.upsert", instance: "w", data: { key: { remoteJid: jid, fromMe: true, id: "F" } } });
+check("own messages are ignored", "ignored" in evoSelf && evoSelf.ignored === "message from self");
+check("other events are ignored", "ignored" in evolution.parseInbound({ event: "connection.update" }));
+
+console.log("\n🔵 WhatsApp Cloud API (Meta)");
+console.log("─".repeat(50));
+
+const cloud = new WhatsAppCloudAdapter("token", "app-secret", "verify-me");
+
+check("verification echoes the challenge", cloud.verifySubscription({ "hub.mode": "subscribe", "hub.verify_token": "verify-me", "hub.challenge": "1158201444" }) === "1158201444");
+check("wrong verify token is refused", cloud.verifySubscription({ "hub.mode": "subscribe", "hub.verify_token": "nope", "hub.challenge": "1" }) === null);
+
+const rawBody = Buffer.from(JSON.stringify({ object: "whatsapp_business_account" }));
+const goodSignature = "sha256=" + createHmac("sha256", "app-secret").update(rawBody).digest("hex");
+check("valid X-Hub-Signature-256 is accepted", cloud.verifyRequest({ "x-hub-signature-256": goodSignature }, rawBody));
+check("tampered body is rejected", !cloud.verifyRequest({ "x-hub-signature-256": goodSignature }, Buffer.from(rawBody.toString() + " ")));
+check("missing signature is rejected", !cloud.verifyRequest({}, rawBody));
+check("adapter without app secret is not configured", !new WhatsAppCloudAdapter("token", "").isConfigured());
+
+const cloudBatch = cloud.parseInbound({
+    object: "whatsapp_business_account",
+    entry: [{
+        id: "WABA",
+        changes: [{
+            field: "messages",
+            value: {
+                messaging_product: "whatsapp",
+                metadata: { phone_number_id: "PNID" },
+                contacts: [{ wa_id: "5215512345678", profile: { name: "Ana" } }],
+                messages: [
+                    { id: "wamid.1", from: "5215512345678", type: "image", image: { id: "MEDIA1", mime_type: "image/jpeg", caption: "fuga" } },
+                    { id: "wamid.2", from: "5215512345678", type: "location", location: { latitude: 19.4, longitude: -99.1, name: "Parque" } },
+                    { id: "wamid.3", from: "5215512345678", type: "audio", audio: { id: "MEDIA2", mime_type: "audio/ogg; codecs=opus", voice: true } }
+                ]
+            }
+        }]
+    }]
+});
+if ("messages" in cloudBatch) {
+    const [photoMsg, pinMsg, voiceMsg] = cloudBatch.messages;
+    check("batched messages are all parsed", cloudBatch.messages.length === 3);
+    check("conversation id matches Evolution's remoteJid", photoMsg.conversationId === jid);
+    check("replies go through the phone number id", photoMsg.address.account === "PNID" && photoMsg.address.chatId === "5215512345678");
+    check("image is downloaded by media id", photoMsg.image?.ref.mediaId === "MEDIA1" && photoMsg.image.caption === "fuga");
+    check("profile name becomes the sender name", photoMsg.senderName === "Ana");
+    check("location is normalized", pinMsg.location?.latitude === 19.4 && pinMsg.location.name === "Parque");
+    check("voice flag marks a voice note", voiceMsg.audio?.voiceNote === true && voiceMsg.audio.ref.mediaId === "MEDIA2");
+} else {
+    check("batched messages are parsed", false);
+}
+
+const cloudInteractive = cloud.parseInbound({
+    object: "whatsapp_business_account",
+    entry: [{
+        id: "WABA",
+        changes: [{
+            field: "messages",
+            value: {
+                metadata: { phone_number_id: "PNID" },
+                messages: [
+                    { id: "wamid.4", from: "5215512345678", type: "interactive", interactive: { type: "list_reply", list_reply: { id: "tipo:sin_agua", title: "Sin agua" } } },
+                    { id: "wamid.5", from: "5215512345678", type: "interactive", interactive: { type: "button_reply", button_reply: { id: "duplicado:no", title: "No, es otro" } } }
+                ]
+            }
+        }]
+    }]
+});
+check("list and button replies are understood",
+    "messages" in cloudInteractive
+    && cloudInteractive.messages[0].choice?.id === "tipo:sin_agua"
+    && cloudInteractive.messages[1].choice?.title === "No, es otro");
+
+const cloudStatus = cloud.parseInbound({
+    object: "whatsapp_business_account",
+    entry: [{ id: "WABA", changes: [{ field: "messages", value: { metadata: { phone_number_id: "PNID" }, statuses: [{ status: "read" }] } }] }]
+});
+check("delivery statuses are ignored", "ignored" in cloudStatus);
+
+console.log("\n✈️  Telegram");
+console.log("─".repeat(50));
+
+const telegram = new TelegramAdapter("123:abc", "s3cret");
+
+const tgPrivate = telegram.parseInbound({
+    update_id: 1,
+    message: {
+        message_id: 7,
+        chat: { id: 42, type: "private" },
+        from: { id: 42, is_bot: false, first_name: "Luis" },
+        photo: [
+            { file_id: "small", width: 90, height: 90 },
+            { file_id: "large", width: 1280, height: 960 }
+        ],
+        caption: "hay una fuga"
+    }
+});
+check("private chat is parsed", "messages" in tgPrivate);
+if ("messages" in tgPrivate) {
+    const m = tgPrivate.messages[0];
+    check("private conversation is namespaced by chat", m.conversationId === "telegram:42");
+    check("largest photo size is used", m.image?.ref.fileId === "large" && m.image.caption === "hay una fuga");
+    check("private replies do not quote", m.address.replyToMessageId === undefined);
+    check("private chats need no separate notice address", m.address.privateChatId === undefined);
+}
+
+const tgGroup = telegram.parseInbound({
+    update_id: 2,
+    message: {
+        message_id: 99,
+        chat: { id: -1001, type: "supergroup" },
+        from: { id: 5, is_bot: false },
+        venue: { location: { latitude: 19.35, longitude: -99.16 }, title: "Parque", address: "Av. Universidad" }
+    }
+});
+if ("messages" in tgGroup) {
+    const m = tgGroup.messages[0];
+    check("each group member has their own conversation", m.conversationId === "telegram:-1001:5");
+    check("group replies quote the message", m.address.chatId === "-1001" && m.address.replyToMessageId === "99");
+    check("notices from a group go to the member's private chat", m.address.privateChatId === "5");
+    check("venue becomes a named location", m.location?.latitude === 19.35 && m.location.name === "Parque");
+} else {
+    check("group message is parsed", false);
+}
+
+const tgVoice = telegram.parseInbound({
+    update_id: 3,
+    message: { message_id: 8, chat: { id: 42, type: "private" }, from: { id: 42, is_bot: false }, voice: { file_id: "v1", mime_type: "audio/ogg" } }
+});
+check("voice message is a voice note", "messages" in tgVoice && tgVoice.messages[0].audio?.voiceNote === true && tgVoice.messages[0].audio.mimeType === "audio/ogg");
+
+const tgVideoNote = telegram.parseInbound({
+    update_id: 6,
+    message: { message_id: 9, chat: { id: 42, type: "private" }, from: { id: 42, is_bot: false }, video_note: { file_id: "vn1" } }
+});
+check("round video note is a video", "messages" in tgVideoNote && tgVideoNote.messages[0].video?.ref.fileId === "vn1" && tgVideoNote.messages[0].video.mimeType === "video/mp4");
+
+check("bots are ignored", "ignored" in telegram.parseInbound({ update_id: 4, message: { message_id: 1, chat: { id: 1, type: "private" }, from: { id: 1, is_bot: true } } }));
+check("non-message updates are ignored", "ignored" in telegram.parseInbound({ update_id: 5, edited_message: {} }));
+
+check("secret token header is required", !telegram.verifyRequest({}) && !telegram.verifyRequest({ "x-telegram-bot-api-secret-token": "nope" }));
+check("matching secret token is accepted", telegram.verifyRequest({ "x-telegram-bot-api-secret-token": "s3cret" }));
+check("adapter without token is not configured", !new TelegramAdapter("").isConfigured());
+const noSecret = new TelegramAdapter("123:abc", "");
+check("without a webhook secret the channel is disabled and every update refused", !noSecret.isConfigured() && !noSecret.verifyRequest({}));
+
+const tgTap = telegram.parseInbound({
+    update_id: 7,
+    callback_query: {
+        id: "cb1",
+        from: { id: 7, is_bot: false, first_name: "Lupita" },
+        data: "tipo:fuga",
+        message: {
+            message_id: 30, chat: { id: -100, type: "supergroup" }, from: { id: 1, is_bot: true },
+            reply_markup: { inline_keyboard: [[{ text: "Fuga", callback_data: "tipo:fuga" }], [{ text: "Sin agua", callback_data: "tipo:sin_agua" }]] }
+        }
+    }
+});
+const tap = "messages" in tgTap ? tgTap.messages[0] : undefined;
+check("button tap keeps the option id and title", tap?.choice?.id === "tipo:fuga" && tap.choice.title === "Fuga");
+check("tap belongs to whoever tapped, and is acknowledged", tap?.conversationId === "telegram:-100:7" && tap.ackRef === "cb1");
+check("notices for a group tap go to whoever tapped", tap?.address.chatId === "-100" && tap.address.privateChatId === "7");
+
+const realFetch = globalThis.fetch;
+const calls: Array<{ url: string; body: any }> = [];
+globalThis.fetch = (async (url: string | URL, init?: RequestInit) => {
+    calls.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+    return new Response(JSON.stringify({ ok: true, result: {} }));
+}) as typeof fetch;
+try {
+    await telegram.sendChoices({ account: "bot", chatId: "42" }, { text: "¿Qué pasa?", options: [{ id: "tipo:fuga", title: "Fuga" }, { id: "tipo:otro", title: "Otro" }] });
+    const keyboard = calls[0]?.body.reply_markup?.inline_keyboard;
+    check("options go as an inline keyboard with the id as callback_data", keyboard?.length === 2 && keyboard[1][0].callback_data === "tipo:otro" && keyboard[1][0].text === "Otro");
+    await telegram.acknowledge(tap!);
+    check("acknowledge answers the callback query", calls[1]?.url.endsWith("/answerCallbackQuery") && calls[1].body.callback_query_id === "cb1");
+} finally {
+    globalThis.fetch = realFetch;
+}
+
+console.log("\n🔘 Choices fallback");
+console.log("─".repeat(50));
+
+const asText = formatChoicesAsText({ text: "Elige:", options: [{ id: "a", title: "Fuga" }, { id: "b", title: "Sin agua", description: "No llega" }] });
+check("choices become a numbered list", asText === "Elige:\n\n1. Fuga\n2. Sin agua - No llega");
+
+console.log();
+console.log("═".repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+console.log("═".repeat(50));
+process.exit(failed > 0 ? 1 : 0);
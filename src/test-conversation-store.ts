@@ -0,0 +1,154 @@
+// ============================================
+// Conversation Store - Offline Tests (version check, conflict retry)
+// ============================================
+// Run: npx tsx src/test-conversation-store.ts
+
+import type { Pool } from "pg";
+import {
+    ConversationVersionConflictError,
+    createEmptyConversation,
+    InMemoryConversationStore,
+    PostgresConversationStore,
+    updateConversation,
+    type ConversationEntry,
+    type ConversationStore
+} from "./conversation-store.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+async function conflictOf(save: Promise<unknown>): Promise<boolean> {
+    try {
+        await save;
+        return false;
+    } catch (error) {
+        return error instanceof ConversationVersionConflictError;
+    }
+}
+
+/** Memory store where another "replica" saves first on the next `conflicts` saves. */
+class RacingStore implements ConversationStore {
+    readonly name = "racing";
+    readonly inner = new InMemoryConversationStore();
+    saves = 0;
+
+    constructor(private conflicts: number) {}
+
+    get(id: string): Promise<ConversationEntry | null> {
+        return this.inner.get(id);
+    }
+
+    async save(id: string, entry: ConversationEntry): Promise<ConversationEntry> {
+        this.saves++;
+        if (this.conflicts > 0) {
+            this.conflicts--;
+            const other = (await this.inner.get(id)) ?? createEmptyConversation();
+            other.alcaldia = `Replica ${this.saves}`;
+            await this.inner.save(id, other);
+        }
+        return this.inner.save(id, entry);
+    }
+
+    size(): Promise<number> {
+        return this.inner.size();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+}
+
+async function main() {
+    console.log("\n🔒 Version check");
+    console.log("─".repeat(50));
+
+    const store = new InMemoryConversationStore();
+    const first = await store.save("c1", createEmptyConversation());
+    check("first save stores version 1", first.version === 1 && (await store.get("c1"))?.version === 1);
+
+    const replicaA = (await store.get("c1"))!;
+    const replicaB = (await store.get("c1"))!;
+    replicaA.alcaldia = "Coyoacán";
+    await store.save("c1", replicaA);
+    replicaB.alcaldia = "Tlalpan";
+    check("saving a stale version is a conflict", await conflictOf(store.save("c1", replicaB)));
+    check("the first writer's change is kept", (await store.get("c1"))?.alcaldia === "Coyoacán");
+    check("a new entry over an existing one is a conflict", await conflictOf(store.save("c1", createEmptyConversation())));
+
+    const copy = (await store.get("c1"))!;
+    copy.alcaldia = "Iztapalapa";
+    check("changes only count after save()", (await store.get("c1"))?.alcaldia === "Coyoacán");
+    await store.close();
+
+    // Postgres: la version esperada va en el WHERE; 0 filas = otra replica guardo antes
+    const queries: Array<{ sql: string; params: unknown[] }> = [];
+    let rowCount = 1;
+    const pool = {
+        query: async (sql: string, params: unknown[] = []) => {
+            queries.push({ sql, params });
+            return { rows: [], rowCount: sql.includes("CREATE TABLE") ? 0 : rowCount };
+        }
+    } as unknown as Pool;
+    const pg = new PostgresConversationStore(pool);
+    const existing = { ...createEmptyConversation(), version: 4 };
+    const saved = await pg.save("c2", existing);
+    const update = queries.at(-1)!;
+    check("postgres: update is conditional on the read version", update.sql.includes("version = $5") && update.params[4] === 4 && update.params[2] === 5 && saved.version === 5);
+    rowCount = 0;
+    check("postgres: no row updated is a conflict", await conflictOf(pg.save("c2", existing)));
+    check("postgres: a new entry only replaces an expired row", await conflictOf(pg.save("c3", createEmptyConversation())) && queries.at(-1)!.sql.includes("expires_at <= NOW()"));
+    await pg.close();
+
+    console.log("\n🔁 updateConversation");
+    console.log("─".repeat(50));
+
+    const racing = new RacingStore(2);
+    let applied = 0;
+    const result = await updateConversation(racing, "c4", (entry) => {
+        applied++;
+        entry.classification = "subir_voz";
+    });
+    check("conflicts are retried until the save succeeds", racing.saves === 3 && result.version === 3);
+    check("mutate is re-applied on the latest entry", applied === 3 && result.classification === "subir_voz" && result.alcaldia === "Replica 2");
+
+    const hopeless = new RacingStore(10);
+    check("gives up after the last attempt with the conflict", await conflictOf(updateConversation(hopeless, "c5", () => {})) && hopeless.saves === 3);
+
+    const broken: ConversationStore = {
+        name: "broken",
+        get: async () => null,
+        save: async () => { throw new Error("ECONNREFUSED"); },
+        size: async () => 0,
+        close: async () => {}
+    };
+    let otherError = false;
+    try {
+        await updateConversation(broken, "c4", () => {});
+    } catch (error) {
+        otherError = error instanceof Error && error.message === "ECONNREFUSED";
+    }
+    check("other errors are not retried", otherError);
+    await racing.close();
+    await hopeless.close();
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,154 @@
+// ============================================
+// Geocoding - Offline Tests (gazetteer, match decision, provider parsing)
+// ============================================
+// Run: npx tsx src/test-geocoding.ts
+
+import {
+    buildGeocodeQuery,
+    createGeocodingProvider,
+    decideGeocode,
+    GazetteerGeocodingProvider,
+    geocodeAddress,
+    GoogleGeocodingProvider,
+    NominatimGeocodingProvider,
+    type GazetteerEntry,
+    type GeocodeMatch,
+    type GeocodingProvider
+} from "./geocoding.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+// Hay una Calle Hidalgo en Coyoacan y otra en Tlalpan: escrita sin alcaldia es ambigua
+const entries: GazetteerEntry[] = [
+    { nombre: "Calle Hidalgo", colonia: "Del Carmen", alcaldia: "Coyoacán", latitud: 19.3499, longitud: -99.1618, precision: "calle" },
+    { nombre: "Calle Hidalgo", colonia: "Tlalpan Centro", alcaldia: "Tlalpan", latitud: 19.2903, longitud: -99.1686, precision: "calle" },
+    { nombre: "Av. Universidad 1200", colonia: "Xoco", alcaldia: "Benito Juárez", latitud: 19.3606, longitud: -99.1654, precision: "exacta" }
+];
+const gazetteer = new GazetteerGeocodingProvider(entries);
+
+const match = (latitud: number, longitud: number, confianza: number): GeocodeMatch =>
+    ({ latitud, longitud, direccion: `${latitud},${longitud}`, precision: "calle", confianza });
+
+async function main() {
+    console.log("\n🧭 Match decision");
+    console.log("─".repeat(50));
+
+    check("one confident match is resolved", decideGeocode([match(19.35, -99.16, 0.9)]).status === "resolved");
+    check("nothing is not_found", decideGeocode([]).status === "not_found");
+    const weak = decideGeocode([match(19.35, -99.16, 0.6)]);
+    check("a weak match must be confirmed", weak.status === "ambiguous" && weak.candidates.length === 1);
+    const twoPlaces = decideGeocode([match(19.35, -99.16, 0.9), match(19.29, -99.17, 0.85)]);
+    check("two close scores in different places are ambiguous", twoPlaces.status === "ambiguous" && twoPlaces.candidates.length === 2);
+    const samePlace = decideGeocode([match(19.35, -99.16, 0.9), match(19.3505, -99.1602, 0.88)]);
+    check("results a few meters apart are one place", samePlace.status === "resolved");
+    check("a much weaker rival does not block", decideGeocode([match(19.35, -99.16, 0.9), match(19.29, -99.17, 0.5)]).status === "resolved");
+
+    console.log("\n📖 Gazetteer");
+    console.log("─".repeat(50));
+
+    const ambiguous = await geocodeAddress("Calle Hidalgo 15", {}, gazetteer);
+    check("same street in two alcaldias asks which one", ambiguous.status === "ambiguous" && ambiguous.candidates.length === 2);
+    const conAlcaldia = await geocodeAddress("Calle Hidalgo 15", { alcaldia: "Tlalpan" }, gazetteer);
+    check("naming the alcaldia picks it", conAlcaldia.status === "resolved" && conAlcaldia.match.alcaldia === "Tlalpan");
+    const escrita = await geocodeAddress("calle hidalgo 15, coyoacan", {}, gazetteer);
+    check("alcaldia written in the address (no accents) also counts", escrita.status === "resolved" && escrita.match.colonia === "Del Carmen");
+    const exacta = await geocodeAddress("Av. Universidad 1200", {}, gazetteer);
+    check("exact address resolves with its confidence", exacta.status === "resolved" && exacta.match.confianza === 0.9 && exacta.match.latitud === 19.3606);
+    const soloAlcaldia = await geocodeAddress("por el mercado de Iztapalapa", {}, gazetteer);
+    check("only an alcaldia is too vague to place a pin", soloAlcaldia.status === "ambiguous" && soloAlcaldia.candidates[0].precision === "alcaldia");
+    check("unknown address is not_found", (await geocodeAddress("Calle Inventada 1", {}, gazetteer)).status === "not_found");
+    check("no provider is not_found", (await geocodeAddress("Calle Hidalgo 15", {}, null)).status === "not_found");
+
+    const failing: GeocodingProvider = { name: "down", geocode: async () => { throw new Error("503"); } };
+    check("provider failure never throws", (await geocodeAddress("Calle Hidalgo 15", {}, failing)).status === "not_found");
+    const previous = process.env.GEOCODING_PROVIDER;
+    // Nadie llamo getGeocodingProvider() todavia: se crea aqui y falla
+    process.env.GEOCODING_PROVIDER = "mapbox";
+    check("misconfigured provider never throws", (await geocodeAddress("Calle Hidalgo 15")).status === "not_found");
+    if (previous === undefined) delete process.env.GEOCODING_PROVIDER;
+    else process.env.GEOCODING_PROVIDER = previous;
+
+    const query = buildGeocodeQuery("Av. Universidad 123", { colonia: "Del Carmen", alcaldia: "Coyoacán" });
+    check("colonia/alcaldia are added to the query, scoped to CDMX", query === "Av. Universidad 123, Del Carmen, Coyoacán, Ciudad de México");
+    check("parts already written are not repeated", buildGeocodeQuery("Calle 5, Col. Del Carmen, CDMX", { colonia: "Del Carmen" }) === "Calle 5, Col. Del Carmen, CDMX");
+
+    console.log("\n🌐 Providers");
+    console.log("─".repeat(50));
+
+    const realFetch = globalThis.fetch;
+    let requested = "";
+    let userAgent = "";
+    globalThis.fetch = (async (url: string | URL, init?: RequestInit) => {
+        requested = String(url);
+        userAgent = new Headers(init?.headers).get("User-Agent") ?? "";
+        if (requested.includes("googleapis")) {
+            return new Response(JSON.stringify({
+                status: "OK",
+                results: [{
+                    formatted_address: "Av. Universidad 123, Del Carmen, Coyoacán, CDMX",
+                    types: ["street_address"],
+                    address_components: [
+                        { long_name: "Avenida Universidad", short_name: "Av. Universidad", types: ["route"] },
+                        { long_name: "123", short_name: "123", types: ["street_number"] },
+                        { long_name: "Del Carmen", short_name: "Del Carmen", types: ["sublocality_level_1", "sublocality"] },
+                        { long_name: "Coyoacán", short_name: "Coyoacán", types: ["administrative_area_level_2"] }
+                    ],
+                    geometry: { location: { lat: 19.3501, lng: -99.1612 }, location_type: "ROOFTOP" }
+                }, {
+                    types: ["route"],
+                    partial_match: true,
+                    address_components: [],
+                    geometry: { location: { lat: 19.2, lng: -99.1 }, location_type: "GEOMETRIC_CENTER" }
+                }]
+            }));
+        }
+        return new Response(JSON.stringify([
+            { lat: "19.3501", lon: "-99.1612", place_rank: 30, address: { road: "Avenida Universidad", house_number: "123", suburb: "Del Carmen", city_district: "Coyoacán" } },
+            { lat: "19.43", lon: "-99.13", place_rank: 16, address: { city: "Ciudad de México" } }
+        ]));
+    }) as typeof fetch;
+
+    try {
+        const google = await new GoogleGeocodingProvider("test-key").geocode("Av. Universidad 123, Ciudad de México");
+        check("Google: rooftop street address is exacta with high confidence", google[0].precision === "exacta" && google[0].confianza === 0.95 && google[0].colonia === "Del Carmen");
+        check("Google: partial match loses confidence", google[1].confianza === 0.4);
+        check("Google: search is limited to Mexico", requested.includes("components=country:MX"));
+
+        const osm = await new NominatimGeocodingProvider("https://osm.test").geocode("Av. Universidad 123");
+        check("Nominatim: house is exacta, city is alcaldia-level", osm[0].precision === "exacta" && osm[1].precision === "alcaldia");
+        check("Nominatim: address is built from its parts", osm[0].direccion === "Avenida Universidad 123, Col. Del Carmen, Coyoacán");
+        check("Nominatim: requests identify the application", userAgent.startsWith("WaterHub"));
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+
+    let unknown = false;
+    try {
+        createGeocodingProvider("mapas-magicos");
+    } catch {
+        unknown = true;
+    }
+    check("unknown GEOCODING_PROVIDER fails at startup", unknown && createGeocodingProvider("none") === null && createGeocodingProvider("gazetteer")?.name === "gazetteer");
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,73 @@
+// ============================================
+// Idempotency - Offline Tests (in-memory store, no Redis needed)
+// ============================================
+// Run: npx tsx src/test-idempotency.ts
+
+import { createIdempotencyStore, fingerprintRequest, InMemoryIdempotencyStore } from "./idempotency.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+async function main() {
+    console.log("\n🔁 Reentregas y reintentos");
+    console.log("─".repeat(50));
+
+    const store = new InMemoryIdempotencyStore();
+
+    check("first delivery claims the key", (await store.begin("evolution:waterhub:ABC")) === null);
+    const repeat = await store.begin("evolution:waterhub:ABC");
+    check("re-delivery while processing is seen as in progress", repeat?.status === "in_progress");
+
+    await store.complete("evolution:waterhub:ABC", { jobId: "j1" });
+    const done = await store.begin("evolution:waterhub:ABC");
+    check("re-delivery after processing returns the stored result", done?.status === "done" && (done.result as any)?.jobId === "j1");
+    check("other message ids are independent", (await store.begin("evolution:waterhub:DEF")) === null);
+
+    await store.begin("chat:retry-me");
+    await store.release("chat:retry-me");
+    check("released key (failed attempt) can be processed again", (await store.begin("chat:retry-me")) === null);
+
+    const body = { message: "hay una fuga", conversationId: "c1" };
+    await store.begin("chat:c1:k1", fingerprintRequest(body));
+    await store.complete("chat:c1:k1", { response: "ok" });
+    const replay = await store.begin("chat:c1:k1", fingerprintRequest({ ...body }));
+    check("the request fingerprint survives complete()", replay?.fingerprint === fingerprintRequest(body));
+    check("another body gives another fingerprint", fingerprintRequest({ ...body, message: "otra cosa" }) !== replay?.fingerprint);
+    check("same key in another conversation is independent", (await store.begin("chat:c2:k1")) === null);
+
+    const shortLived = new InMemoryIdempotencyStore(20);
+    await shortLived.begin("k");
+    await shortLived.complete("k", {});
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    check("keys expire after the TTL", (await shortLived.begin("k")) === null);
+
+    check("memory is the default backend", createIdempotencyStore().name === "memory");
+    let badKind = false;
+    try {
+        createIdempotencyStore("sqlite");
+    } catch {
+        badKind = true;
+    }
+    check("unknown IDEMPOTENCY_STORE throws", badKind);
+
+    await store.close();
+    await shortLived.close();
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,117 @@
+// ============================================
+// Image Metadata - Offline Tests (EXIF GPS / capture time)
+// ============================================
+// Run: npx tsx src/test-image-metadata.ts
+
+import sharp from "sharp";
+import { parseExif, readImageMetadata } from "./image-metadata.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+type Entry = { tag: number; type: number; count: number; data: Buffer };
+
+const ascii = (tag: number, text: string): Entry => ({ tag, type: 2, count: text.length + 1, data: Buffer.from(`${text}\0`, "latin1") });
+const rationals = (tag: number, values: Array<[number, number]>): Entry => {
+    const data = Buffer.alloc(values.length * 8);
+    values.forEach(([n, d], i) => {
+        data.writeUInt32BE(n, i * 8);
+        data.writeUInt32BE(d, i * 8 + 4);
+    });
+    return { tag, type: 5, count: values.length, data };
+};
+const pointer = (tag: number): Entry => ({ tag, type: 4, count: 1, data: Buffer.alloc(4) });
+
+/** Big-endian TIFF block: IFD0 -> Exif IFD + GPS IFD, values after each IFD. */
+function buildExif(exifEntries: Entry[], gpsEntries: Entry[]): Buffer {
+    const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4 + entries.reduce((n, e) => n + (e.data.length > 4 ? e.data.length : 0), 0);
+    const ifd0 = [pointer(0x8769), pointer(0x8825)];
+    const ifd0At = 8;
+    const exifAt = ifd0At + ifdSize(ifd0);
+    const gpsAt = exifAt + ifdSize(exifEntries);
+    ifd0[0].data.writeUInt32BE(exifAt);
+    ifd0[1].data.writeUInt32BE(gpsAt);
+
+    const tiff = Buffer.alloc(gpsAt + ifdSize(gpsEntries));
+    tiff.write("MM", 0, "latin1");
+    tiff.writeUInt16BE(42, 2);
+    tiff.writeUInt32BE(ifd0At, 4);
+    const writeIfd = (at: number, entries: Entry[]) => {
+        tiff.writeUInt16BE(entries.length, at);
+        let extra = at + 2 + entries.length * 12 + 4;
+        entries.forEach((e, i) => {
+            const slot = at + 2 + i * 12;
+            tiff.writeUInt16BE(e.tag, slot);
+            tiff.writeUInt16BE(e.type, slot + 2);
+            tiff.writeUInt32BE(e.count, slot + 4);
+            if (e.data.length <= 4) {
+                e.data.copy(tiff, slot + 8);
+            } else {
+                tiff.writeUInt32BE(extra, slot + 8);
+                e.data.copy(tiff, extra);
+                extra += e.data.length;
+            }
+        });
+    };
+    writeIfd(ifd0At, ifd0);
+    writeIfd(exifAt, exifEntries);
+    writeIfd(gpsAt, gpsEntries);
+    return Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+}
+
+// Coyoacan: 19°21'0" N, 99°9'43.2" W
+const coyoacanExif = buildExif(
+    [ascii(0x9003, "2026:10:18 14:03:21"), ascii(0x9011, "-06:00")],
+    [ascii(0x0001, "N"), rationals(0x0002, [[19, 1], [21, 1], [0, 1]]), ascii(0x0003, "W"), rationals(0x0004, [[99, 1], [9, 1], [432, 10]])]
+);
+
+/** JPEG with the EXIF block as its APP1 segment, right after SOI. */
+async function jpegWithExif(exif: Buffer): Promise<Buffer> {
+    const jpeg = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#3366aa" } }).jpeg().toBuffer();
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(exif.length + 2);
+    return Buffer.concat([jpeg.subarray(0, 2), Buffer.from([0xff, 0xe1]), length, exif, jpeg.subarray(2)]);
+}
+
+async function main() {
+    console.log("\n🛰️  EXIF parsing");
+    console.log("─".repeat(50));
+
+    const parsed = parseExif(coyoacanExif);
+    check("GPS degrees/minutes/seconds become decimal", parsed.latitude === 19.35 && parsed.longitude === -99.162);
+    check("capture time keeps the camera offset", parsed.takenAt === "2026-10-18T14:03:21-06:00");
+
+    const noFix = parseExif(buildExif([], [ascii(0x0001, "N"), rationals(0x0002, [[0, 1], [0, 1], [0, 1]]), ascii(0x0003, "E"), rationals(0x0004, [[0, 1], [0, 1], [0, 1]])]));
+    check("0,0 (no GPS fix) is not a location", noFix.latitude === undefined && noFix.longitude === undefined);
+    check("truncated EXIF does not throw", Object.keys(parseExif(coyoacanExif.subarray(0, 40))).length === 0);
+    check("non-EXIF bytes give nothing", Object.keys(parseExif(Buffer.from("hola mundo"))).length === 0);
+
+    console.log("\n🧹 Photos");
+    console.log("─".repeat(50));
+
+    const photo = await jpegWithExif(coyoacanExif);
+    const read = await readImageMetadata(photo);
+    check("GPS is read from a real JPEG", read.latitude === 19.35 && read.longitude === -99.162);
+    check("bytes sharp cannot read give nothing", Object.keys(await readImageMetadata(Buffer.from("not an image"))).length === 0);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,113 @@
+// ============================================
+// Image Preprocessing - Offline Tests (sniffing, size budget, perceptual hash)
+// ============================================
+// Run: npx tsx src/test-image-preprocess.ts
+
+import sharp from "sharp";
+import {
+    hammingDistance,
+    ImageRejectedError,
+    isSamePicture,
+    prepareImage,
+    sniffImageType
+} from "./image-preprocess.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+/** RGB image where each pixel comes from fn(x, y). */
+function pattern(width: number, height: number, fn: (x: number, y: number) => [number, number, number]): sharp.Sharp {
+    const raw = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            raw.set(fn(x, y), (y * width + x) * 3);
+        }
+    }
+    return sharp(raw, { raw: { width, height, channels: 3 } });
+}
+
+// Escena con formas (no ruido): lo que el dHash compara entre versiones
+const scene = (x: number, y: number): [number, number, number] =>
+    [(x * 255 / 1600) | 0, (y * 255 / 1200) | 0, (x - 800) ** 2 + (y - 600) ** 2 < 300 ** 2 ? 230 : 40];
+const otherScene = (x: number, y: number): [number, number, number] =>
+    [y % 300 < 150 ? 220 : 30, 90, x % 400 < 200 ? 200 : 20];
+
+async function rejection(data: Buffer): Promise<string | null> {
+    try {
+        await prepareImage(data);
+        return null;
+    } catch (error) {
+        return error instanceof ImageRejectedError ? error.reason : `other: ${error}`;
+    }
+}
+
+async function main() {
+    console.log("\n🔎 Type sniffing");
+    console.log("─".repeat(50));
+
+    const png = await pattern(16, 16, scene).png().toBuffer();
+    const jpeg = await pattern(16, 16, scene).jpeg().toBuffer();
+    const webp = await pattern(16, 16, scene).webp().toBuffer();
+    check("JPEG, PNG and WebP are recognized by their bytes", sniffImageType(jpeg) === "image/jpeg" && sniffImageType(png) === "image/png" && sniffImageType(webp) === "image/webp");
+    const heic = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from("ftypheic\0\0\0\0mif1heic", "latin1")]);
+    check("HEIC is recognized from its ftyp brand", sniffImageType(heic) === "image/heic");
+    check("a PDF or an HTML page is not an image", sniffImageType(Buffer.from("%PDF-1.7\n")) === null && sniffImageType(Buffer.from("<!DOCTYPE html>")) === null);
+
+    console.log("\n🚫 Rejections");
+    console.log("─".repeat(50));
+
+    check("non-image bytes are not_an_image", (await rejection(Buffer.from("%PDF-1.7\n%âãÏÓ"))) === "not_an_image");
+    check("an undecodable format is unsupported", (await rejection(heic)) === "unsupported");
+    check("a truncated JPEG is unreadable", (await rejection(jpeg.subarray(0, jpeg.length - 40))) === "unreadable");
+
+    console.log("\n📐 Size budget");
+    console.log("─".repeat(50));
+
+    const big = await pattern(1600, 1200, scene).withExif({ IFD0: { Copyright: "vecino" } }).png().toBuffer();
+    const small = await prepareImage(big, 800, 40 * 1024);
+    check("large photo is downsized to the max side", Math.max(small.width, small.height) <= 800 && small.width === 800);
+    check("output fits the byte budget", small.data.length <= 40 * 1024);
+    check("output is a JPEG without metadata", (await sharp(small.data).metadata()).format === "jpeg" && !(await sharp(small.data).metadata()).exif);
+    check("data URL carries the prepared bytes", small.dataUrl === `data:image/jpeg;base64,${small.data.toString("base64")}` && small.sourceMimeType === "image/png");
+
+    const noisy = await pattern(640, 480, () => [Math.random() * 255, Math.random() * 255, Math.random() * 255]).png().toBuffer();
+    const squeezed = await prepareImage(noisy, 640, 30 * 1024);
+    check("hard-to-compress photo is shrunk until it fits", squeezed.data.length <= 30 * 1024 && squeezed.width < 640);
+
+    const again = await prepareImage(small.data, 800, 40 * 1024);
+    check("an already prepared photo is not recompressed", again.data.equals(small.data) && again.phash === small.phash);
+
+    console.log("\n🧬 Perceptual hash");
+    console.log("─".repeat(50));
+
+    const forwarded = await pattern(1600, 1200, scene).resize(480).jpeg({ quality: 40 }).toBuffer();
+    const other = await pattern(1600, 1200, otherScene).jpeg().toBuffer();
+    const forwardedHash = (await prepareImage(forwarded)).phash;
+    const otherHash = (await prepareImage(other)).phash;
+    check("hash is 64 bits in hex", /^[0-9a-f]{16}$/.test(small.phash));
+    check("resized and recompressed copy is the same picture", isSamePicture(small.phash, forwardedHash));
+    check("a different picture is not", !isSamePicture(small.phash, otherHash));
+    check("hamming distance counts differing bits", hammingDistance("0000000000000000", "000000000000000f") === 4 && hammingDistance("ff", "ff") === 0);
+    check("missing hashes never match", !isSamePicture(undefined, small.phash));
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
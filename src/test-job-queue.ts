@@ -0,0 +1,284 @@
+// ============================================
+// Job Queue + Debounce - Offline Tests (in-memory queue, Redis queue over a fake client)
+// ============================================
+// Run: npx tsx src/test-job-queue.ts
+
+import type { Redis } from "ioredis";
+import { createJobQueue, InMemoryJobQueue, RedisJobQueue } from "./job-queue.js";
+import { MessageDebouncer } from "./message-debounce.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * The few Redis commands RedisJobQueue uses, over shared maps. `failures` makes the
+ * next call of a command throw, like a connection reset in the middle of a drain.
+ */
+class FakeRedis {
+    constructor(
+        private readonly lists: Map<string, string[]>,
+        private readonly strings: Map<string, string>,
+        private readonly failures: Map<string, number>
+    ) {}
+
+    private maybeFail(command: string): void {
+        const left = this.failures.get(command) ?? 0;
+        if (left > 0) {
+            this.failures.set(command, left - 1);
+            throw new Error(`${command}: ECONNRESET`);
+        }
+    }
+
+    on(): this {
+        return this;
+    }
+
+    multi() {
+        const ops: Array<() => Promise<unknown>> = [];
+        const chain = {
+            rpush: (key: string, value: string) => (ops.push(() => this.rpush(key, value)), chain),
+            incr: (key: string) => (ops.push(() => this.incr(key)), chain),
+            exec: async () => {
+                for (const op of ops) await op();
+                return [];
+            }
+        };
+        return chain;
+    }
+
+    async rpush(key: string, value: string): Promise<number> {
+        this.maybeFail("rpush");
+        const list = this.lists.get(key) ?? [];
+        list.push(value);
+        this.lists.set(key, list);
+        return list.length;
+    }
+
+    async incr(key: string): Promise<number> {
+        const value = Number(this.strings.get(key) ?? 0) + 1;
+        this.strings.set(key, String(value));
+        return value;
+    }
+
+    async decr(key: string): Promise<number> {
+        this.maybeFail("decr");
+        const value = Number(this.strings.get(key) ?? 0) - 1;
+        this.strings.set(key, String(value));
+        return value;
+    }
+
+    async blpop(key: string): Promise<[string, string] | null> {
+        this.maybeFail("blpop");
+        const value = this.lists.get(key)?.shift();
+        if (value === undefined) {
+            await sleep(5);
+            return null;
+        }
+        return [key, value];
+    }
+
+    async lpop(key: string): Promise<string | null> {
+        this.maybeFail("lpop");
+        return this.lists.get(key)?.shift() ?? null;
+    }
+
+    async llen(key: string): Promise<number> {
+        return this.lists.get(key)?.length ?? 0;
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.strings.get(key) ?? null;
+    }
+
+    async set(key: string, value: string, ..._args: unknown[]): Promise<"OK" | null> {
+        this.maybeFail("set");
+        if (this.strings.has(key)) return null;
+        this.strings.set(key, value);
+        return "OK";
+    }
+
+    /** Only the release and renew scripts of the queue. */
+    async eval(script: string, _numKeys: number, key: string, token: string): Promise<number> {
+        this.maybeFail("eval");
+        if (this.strings.get(key) !== token) return 0;
+        if (script.includes("DEL")) this.strings.delete(key);
+        return 1;
+    }
+
+    disconnect(): void {}
+
+    async quit(): Promise<"OK"> {
+        return "OK";
+    }
+}
+
+async function main() {
+    console.log("\n📬 Cola del webhook");
+    console.log("─".repeat(50));
+
+    const queue = new InMemoryJobQueue<{ n: number; ms: number }>(4);
+    const order: string[] = [];
+    const running = new Map<string, number>();
+    let overlapSameKey = false;
+    let maxParallel = 0;
+    let current = 0;
+
+    await queue.enqueue("a", { n: 1, ms: 30 });
+    await queue.enqueue("a", { n: 2, ms: 5 });
+    await queue.enqueue("b", { n: 1, ms: 30 });
+    check("jobs wait until start()", (await queue.size()) === 3);
+
+    queue.start(async (job) => {
+        if (running.get(job.key)) overlapSameKey = true;
+        running.set(job.key, 1);
+        current++;
+        maxParallel = Math.max(maxParallel, current);
+        await sleep(job.data.ms);
+        order.push(`${job.key}${job.data.n}`);
+        current--;
+        running.set(job.key, 0);
+        if (job.key === "b" && job.data.n === 1) throw new Error("boom");
+    });
+    await queue.enqueue("a", { n: 3, ms: 1 });
+    await queue.enqueue("b", { n: 2, ms: 1 });
+
+    await sleep(150);
+    const aOrder = order.filter((o) => o.startsWith("a"));
+    check("same conversation runs in order", aOrder.join(",") === "a1,a2,a3");
+    check("same conversation never overlaps", !overlapSameKey);
+    check("different conversations run in parallel", maxParallel >= 2);
+    check("a failed job does not block the conversation", order.includes("b2"));
+    check("queue drains", (await queue.size()) === 0);
+
+    await queue.close();
+    let rejected = false;
+    try {
+        await queue.enqueue("a", { n: 4, ms: 1 });
+    } catch {
+        rejected = true;
+    }
+    check("closed queue rejects new jobs", rejected);
+
+    const single = new InMemoryJobQueue<number>(1);
+    const seen: number[] = [];
+    single.start(async (job) => {
+        seen.push(job.data);
+    });
+    await single.enqueue("x", 1);
+    await single.enqueue("x", 2);
+    await single.enqueue("y", 1);
+    await sleep(20);
+    check("concurrency 1 still processes every key", seen.length === 3);
+
+    check("memory is the default backend", createJobQueue().name === "memory");
+    let badKind = false;
+    try {
+        createJobQueue("kafka");
+    } catch {
+        badKind = true;
+    }
+    check("unknown JOB_QUEUE throws", badKind);
+
+    console.log("\n🧱 Cola en Redis con fallas");
+    console.log("─".repeat(50));
+
+    let unhandled = false;
+    const onUnhandled = () => { unhandled = true; };
+    process.on("unhandledRejection", onUnhandled);
+    const lists = new Map<string, string[]>();
+    const strings = new Map<string, string>();
+    const failures = new Map<string, number>();
+    const redisQueue = new RedisJobQueue<number>(
+        "redis://fake", 1, "t:",
+        () => new FakeRedis(lists, strings, failures) as unknown as Redis,
+        5
+    );
+    const done: number[] = [];
+    failures.set("lpop", 1);
+    failures.set("decr", 1);
+    await redisQueue.enqueue("a", 1);
+    await redisQueue.enqueue("a", 2);
+    redisQueue.start(async (job) => {
+        done.push(job.data);
+    });
+    await sleep(60);
+    check("a Redis error mid-drain is retried, no job is lost", done.join(",") === "1,2");
+    check("the conversation lock is released after the error", !strings.has("t:lock:a"));
+
+    failures.set("eval", 1);
+    await redisQueue.enqueue("b", 3);
+    await sleep(40);
+    failures.set("blpop", 2);
+    failures.set("set", 1);
+    await redisQueue.enqueue("c", 4);
+    await sleep(80);
+    check("failed lock release or BLPOP does not stop the worker", done.join(",") === "1,2,3,4");
+    check("no unhandled rejection", !unhandled);
+    await redisQueue.close(200);
+    process.off("unhandledRejection", onUnhandled);
+
+    console.log("\n📨 Rafagas de mensajes");
+    console.log("─".repeat(50));
+
+    const flushed: Array<{ key: string; items: string[] }> = [];
+    const debouncer = new MessageDebouncer<string>(async (key, items) => {
+        flushed.push({ key, items });
+    }, 30, 80, 5);
+
+    debouncer.push("a", "foto");
+    await sleep(10);
+    debouncer.push("a", "pin");
+    debouncer.push("b", "hola");
+    await sleep(10);
+    debouncer.push("a", "hay una fuga");
+    check("burst is held while messages keep arriving", flushed.length === 0 && debouncer.size() === 2);
+    await sleep(60);
+    const burstA = flushed.find((f) => f.key === "a");
+    check("burst flushes once, in arrival order", burstA?.items.join(",") === "foto,pin,hay una fuga");
+    check("each conversation has its own burst", flushed.find((f) => f.key === "b")?.items.join(",") === "hola");
+
+    flushed.length = 0;
+    for (let i = 0; i < 6; i++) {
+        debouncer.push("c", `m${i}`);
+        await sleep(20);
+    }
+    await sleep(50);
+    check("max wait caps a never-ending burst", flushed.length >= 2 && flushed[0].items.length < 6);
+    check("no message is lost across flushes", flushed.flatMap((f) => f.items).length === 6);
+
+    flushed.length = 0;
+    for (let i = 0; i < 5; i++) debouncer.push("d", `m${i}`);
+    check("max items flushes right away", flushed.length === 1 && flushed[0].items.length === 5);
+
+    flushed.length = 0;
+    debouncer.push("e", "ultimo");
+    await debouncer.flushAll();
+    check("flushAll empties the buffer (shutdown)", flushed.length === 1 && debouncer.size() === 0);
+
+    const immediate: string[] = [];
+    new MessageDebouncer<string>(async (_key, items) => {
+        immediate.push(...items);
+    }, 0).push("f", "sin espera");
+    await sleep(0);
+    check("window 0 disables debouncing", immediate.length === 1);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
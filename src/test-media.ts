@@ -0,0 +1,172 @@
+// ============================================
+// Media - Offline Tests (storage adapters, photo keys, thumbnails, image loading)
+// ============================================
+// Run: npx tsx src/test-media.ts
+
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import {
+    createMediaStorage,
+    ImageTooLargeError,
+    isPublicHost,
+    loadImage,
+    loadTurnImages,
+    LocalMediaStorage,
+    photoKeyFor,
+    storeReportPhoto,
+    thumbnailKeyFor,
+    type MediaStorage
+} from "./media.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+/** Keeps every object in a map; put() returns a fake public URL. */
+class MemoryMediaStorage implements MediaStorage {
+    readonly name = "memory";
+    readonly objects = new Map<string, { data: Buffer; contentType: string }>();
+
+    async put(key: string, data: Buffer, contentType: string): Promise<string> {
+        this.objects.set(key, { data, contentType });
+        return `https://cdn.test/${key}`;
+    }
+}
+
+const photo = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: { r: 30, g: 120, b: 200 } } }).jpeg().toBuffer();
+
+async function main() {
+    console.log("\n🗂️ Photo keys");
+    console.log("─".repeat(50));
+
+    const key = photoKeyFor("abc123", new Date("2025-03-09T12:00:00Z"));
+    check("photos are grouped by year/month", key === "reportes/2025/03/abc123.jpg");
+    check("thumbnail sits next to the photo", thumbnailKeyFor(key) === "reportes/2025/03/abc123_thumb.jpg");
+
+    console.log("\n🖼️ Stored photos and thumbnails");
+    console.log("─".repeat(50));
+
+    const memory = new MemoryMediaStorage();
+    const large = await storeReportPhoto(await photo(1200, 800), memory);
+    check("photo and thumbnail are stored", !!large && memory.objects.size === 2 && large.url.endsWith(".jpg") && large.thumbnailUrl.endsWith("_thumb.jpg"));
+    const thumb = await sharp(memory.objects.get(thumbnailKeyFor(photoKeyFor(large!.ref)))!.data).metadata();
+    check("thumbnail is 320 px wide and keeps the aspect ratio", thumb.width === 320 && thumb.height === 213);
+    check("objects are stored as JPEG", [...memory.objects.values()].every((o) => o.contentType === "image/jpeg"));
+
+    const small = new MemoryMediaStorage();
+    const tiny = await storeReportPhoto(await photo(200, 100), small);
+    const tinyThumb = await sharp(small.objects.get(thumbnailKeyFor(photoKeyFor(tiny!.ref)))!.data).metadata();
+    check("small photo is not enlarged for its thumbnail", tinyThumb.width === 200 && tinyThumb.height === 100);
+
+    const again = await storeReportPhoto(await photo(1200, 800), memory);
+    check("same bytes get the same ref (no second copy)", again?.ref === large?.ref && memory.objects.size === 2);
+
+    check("empty data is rejected", (await storeReportPhoto(Buffer.alloc(0), memory)) === null);
+    check("bytes that are not an image are rejected", (await storeReportPhoto(Buffer.from("%PDF-1.7"), memory)) === null);
+    const failing: MediaStorage = { name: "down", put: async () => { throw new Error("503"); } };
+    check("storage failure returns null instead of throwing", (await storeReportPhoto(await photo(64, 64), failing)) === null);
+
+    console.log("\n💾 Local storage");
+    console.log("─".repeat(50));
+
+    const dir = await mkdtemp(path.join(tmpdir(), "waterhub-media-"));
+    try {
+        const local = new LocalMediaStorage(dir, "/media");
+        const stored = await storeReportPhoto(await photo(640, 480), local);
+        const localKey = photoKeyFor(stored!.ref);
+        check("local URL is under the public base", stored?.url === `/media/${localKey}` && stored?.thumbnailUrl === `/media/${thumbnailKeyFor(localKey)}`);
+        const onDisk = await readFile(path.join(dir, localKey));
+        check("file is written under the root dir, creating folders", onDisk.length === stored?.bytes);
+        const thumbOnDisk = await sharp(await readFile(path.join(dir, thumbnailKeyFor(localKey)))).metadata();
+        check("thumbnail file is written too", thumbOnDisk.width === 320);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    let unknown = false;
+    try {
+        createMediaStorage("ftp");
+    } catch {
+        unknown = true;
+    }
+    check("unknown MEDIA_STORAGE fails at startup", unknown && createMediaStorage("local").name === "local");
+
+    console.log("\n🌐 Loading images by URL");
+    console.log("─".repeat(50));
+
+    const blocked = ["127.0.0.1", "10.0.0.5", "172.20.1.1", "192.168.1.10", "169.254.169.254", "100.64.0.1", "[::1]", "[fe80::1]", "[fd00::1]", "[::ffff:127.0.0.1]", "localhost"];
+    const stillPublic: string[] = [];
+    for (const host of blocked) if (await isPublicHost(host)) stillPublic.push(host);
+    check("private, loopback and link-local hosts are not public", stillPublic.length === 0);
+    check("public addresses are", (await isPublicHost("93.184.216.34")) && (await isPublicHost("[2606:4700::1111]")));
+
+    const realFetch = globalThis.fetch;
+    const fetched: string[] = [];
+    const jpeg = await photo(32, 32);
+    globalThis.fetch = (async (input: string | URL) => {
+        const url = String(input);
+        fetched.push(url);
+        if (url.endsWith("/redirect")) return new Response(null, { status: 302, headers: { location: "http://10.0.0.5/admin" } });
+        if (url.endsWith("/declared")) return new Response("x", { headers: { "content-length": String(50 * 1024 * 1024) } });
+        if (url.endsWith("/endless")) {
+            // Sin content-length: el limite se aplica mientras se lee
+            let sent = 0;
+            return new Response(new ReadableStream({
+                pull(controller) {
+                    sent++;
+                    controller.enqueue(new Uint8Array(64 * 1024));
+                    if (sent > 1000) controller.close();
+                }
+            }));
+        }
+        return new Response(new Uint8Array(jpeg), { headers: { "content-type": "image/jpeg" } });
+    }) as typeof fetch;
+    try {
+        check("metadata endpoint is refused without a request", (await loadImage("http://169.254.169.254/latest/meta-data")) === null && fetched.length === 0);
+        check("redirect into the private network is refused", (await loadImage("http://93.184.216.34/redirect")) === null && fetched.length === 1);
+        const ok = await loadImage("http://93.184.216.34/foto.jpg");
+        check("public image downloads", ok?.mimeType === "image/jpeg" && ok.data.length === jpeg.length);
+        const tooBig = async (url: string, maxBytes?: number) => {
+            try {
+                await loadImage(url, maxBytes);
+                return false;
+            } catch (error) {
+                return error instanceof ImageTooLargeError;
+            }
+        };
+        check("a large content-length is refused before reading", await tooBig("http://93.184.216.34/declared"));
+        check("a body without content-length stops at the limit", await tooBig("http://93.184.216.34/endless", 256 * 1024));
+        check("a data URL over the limit is refused", await tooBig(`data:image/jpeg;base64,${jpeg.toString("base64")}`, 100));
+
+        // Las URLs remotas cuentan para el limite del turno con lo que pesan al bajarlas
+        const remote = "http://93.184.216.34/foto.jpg";
+        const turn = await loadTurnImages([remote, remote, remote, "http://10.0.0.5/x.jpg"], jpeg.length * 2 + 10);
+        check("remote images count their downloaded size against the turn budget", turn.loaded.length === 3 && turn.dropped === 1);
+        check("an image that cannot be loaded comes back as null", turn.loaded.filter((i) => i === null).length === 1);
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,33 @@
+// ============================================
+// Offline Test Runner - every src/test-*.ts marked "Offline Tests"
+// ============================================
+// Run: npm run test:offline (no API keys, database or network needed)
+// Suites run one at a time, each in its own process (they replace globals like fetch).
+
+import { spawnSync } from "node:child_process";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const srcDir = path.dirname(fileURLToPath(import.meta.url));
+const self = path.basename(fileURLToPath(import.meta.url));
+
+// Las suites offline lo dicen en su encabezado; las demas llaman a OpenAI o a la API de la CEA
+const suites = readdirSync(srcDir)
+    .filter((file) => /^test-.+\.ts$/.test(file) && file !== self)
+    .filter((file) => readFileSync(path.join(srcDir, file), "utf8").split("\n", 4).some((line) => line.includes("Offline Tests")))
+    .sort();
+
+const failedSuites: string[] = [];
+for (const file of suites) {
+    console.log(`\n▶ ${file}`);
+    const result = spawnSync(process.execPath, ["--import", "tsx", path.join(srcDir, file)], { stdio: "inherit" });
+    if (result.status !== 0) failedSuites.push(file);
+}
+
+console.log();
+console.log("═".repeat(50));
+console.log(`Suites: ${suites.length - failedSuites.length} passed, ${failedSuites.length} failed`);
+if (failedSuites.length > 0) console.log(`Failed: ${failedSuites.join(", ")}`);
+console.log("═".repeat(50));
+process.exit(failedSuites.length > 0 ? 1 : 0);
@@ -0,0 +1,143 @@
+// ============================================
+// Outbound Queue - Offline Tests (fake channel, no network)
+// ============================================
+// Run: npx tsx src/test-outbound.ts
+
+import type { ChannelAdapter, ChannelAddress } from "./channels.js";
+import { InMemoryOutboundStore, OutboundQueue, OutboundStateError, retryDelayMs, splitMessage } from "./outbound.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+/** Channel that records what it sends and fails while `down` is true. */
+function fakeAdapter(maxTextLength = 50) {
+    const sent: string[] = [];
+    const state = { down: false, failAfter: Infinity };
+    const adapter = {
+        name: "evolution",
+        label: "Fake",
+        kind: "whatsapp",
+        maxTextLength,
+        async sendText(_to: ChannelAddress, text: string) {
+            if (state.down || sent.length >= state.failAfter) return false;
+            sent.push(text);
+            return true;
+        },
+        async sendImage() {
+            throw new Error("media server unreachable");
+        },
+        async sendLocation() {
+            return !state.down;
+        }
+    } as unknown as ChannelAdapter;
+    return { adapter, sent, state };
+}
+
+const address: ChannelAddress = { account: "waterhub", chatId: "5215512345678@s.whatsapp.net" };
+
+async function main() {
+    console.log("\n✂️  Message splitting");
+    console.log("─".repeat(50));
+
+    check("short text is one part", splitMessage("Hola 💧", 4096).length === 1);
+    check("empty text has no parts", splitMessage("   ", 4096).length === 0);
+
+    const paragraphs = ["Primer párrafo con datos.", "Segundo párrafo más largo aquí.", "Tercero."].join("\n\n");
+    const byParagraph = splitMessage(paragraphs, 45);
+    check("splits at paragraph boundaries", byParagraph.length === 2 && byParagraph[0] === "Primer párrafo con datos.");
+    check("no part exceeds the limit", byParagraph.every((p) => p.length <= 45));
+    check("paragraphs that fit stay together", byParagraph[1] === "Segundo párrafo más largo aquí.\n\nTercero.");
+
+    const longParagraph = "palabra ".repeat(30).trim();
+    const byWord = splitMessage(longParagraph, 50);
+    check("long paragraph falls back to words", byWord.every((p) => p.length <= 50 && !p.startsWith(" ") && p.split(" ").every((w) => w === "palabra")));
+    check("hard cut only for a single huge word", splitMessage("x".repeat(120), 50).map((p) => p.length).join(",") === "50,50,20");
+    check("nothing is lost", splitMessage(paragraphs, 45).join("\n\n") === paragraphs);
+
+    console.log("\n⏳ Backoff");
+    console.log("─".repeat(50));
+
+    check("first retry waits the base delay", retryDelayMs(1, 5000) === 5000);
+    check("delay doubles", retryDelayMs(2, 5000) === 10000 && retryDelayMs(3, 5000) === 20000);
+    check("delay is capped at 10 minutes", retryDelayMs(20, 5000) === 10 * 60 * 1000);
+
+    console.log("\n📤 Delivery");
+    console.log("─".repeat(50));
+
+    {
+        const { adapter, sent } = fakeAdapter(30);
+        const queue = new OutboundQueue(new InMemoryOutboundStore(), () => adapter, 3, 0);
+        const m = await queue.sendText("evolution", address, "Primera parte del texto.\n\nSegunda parte del texto.");
+        check("healthy channel sends right away", m.status === "sent" && m.attempts === 1);
+        check("long reply goes out in order as several messages", sent.length === 2 && sent[0] === "Primera parte del texto.");
+        check("status is stored", (await queue.store.get(m.id))?.status === "sent");
+    }
+
+    {
+        const { adapter, sent, state } = fakeAdapter(30);
+        const queue = new OutboundQueue(new InMemoryOutboundStore(), () => adapter, 3, 0);
+        state.failAfter = 1;
+        const m = await queue.sendText("evolution", address, "Primera parte del texto.\n\nSegunda parte del texto.");
+        check("failure is queued for retry", m.status === "queued" && m.sentParts === 1 && !!m.lastError);
+        state.failAfter = Infinity;
+        await queue.processDue();
+        const after = await queue.store.get(m.id);
+        check("retry resumes from the unsent part", after?.status === "sent" && sent.length === 2 && sent[1] === "Segunda parte del texto.");
+    }
+
+    {
+        const { adapter, state } = fakeAdapter();
+        const queue = new OutboundQueue(new InMemoryOutboundStore(), () => adapter, 3, 0);
+        state.down = true;
+        const m = await queue.sendText("evolution", address, "Hola");
+        await queue.processDue();
+        await queue.processDue();
+        const dead = await queue.store.get(m.id);
+        check("gives up after max attempts (dead letter)", dead?.status === "failed" && dead.attempts === 3);
+        check("dead letters are listed by status", (await queue.store.list("failed")).length === 1);
+        await queue.processDue();
+        check("dead letters are not retried automatically", (await queue.store.get(m.id))?.attempts === 3);
+
+        state.down = false;
+        const retried = await queue.retry(m.id);
+        check("manual retry sends a dead letter", retried.status === "sent");
+        let refused = false;
+        try {
+            await queue.retry(m.id);
+        } catch (error) {
+            refused = error instanceof OutboundStateError;
+        }
+        check("only failed messages can be retried", refused);
+    }
+
+    {
+        const { adapter } = fakeAdapter();
+        const queue = new OutboundQueue(new InMemoryOutboundStore(), () => adapter, 2, 60000);
+        const m = await queue.sendImage("evolution", address, "https://example.com/foto.jpg", "Tu reporte");
+        check("thrown errors are recorded", m.status === "queued" && m.lastError === "media server unreachable");
+        check("retry waits for the backoff", (await queue.processDue()) === 0);
+        const pin = await queue.sendLocation("evolution", address, { latitude: 19.4, longitude: -99.1 });
+        check("locations go through the queue", pin.status === "sent");
+    }
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,44 @@
+// ============================================
+// Pedidos de pipa - Offline Tests (quote math, no AquaHub API needed)
+// ============================================
+// Run: npx tsx src/test-pedidos.ts
+
+import { calcularCotizacion } from "./tools.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+const proveedor = { id: "p1", nombre: "Pipas del Sur", precio_por_litro: 0.12, tiempo_estimado_llegada: "2 horas" };
+
+console.log("\n🚚 Cotizacion de pipas");
+console.log("─".repeat(50));
+
+const sinSubsidio = calcularCotizacion(proveedor, 10000, 0);
+check("subtotal is litros x precio_por_litro", sinSubsidio.subtotal === 1200 && sinSubsidio.total === 1200);
+check("no subsidy by default", sinSubsidio.subsidio === 0);
+
+const conSubsidio = calcularCotizacion(proveedor, 10000, 25);
+check("percentage subsidy is subtracted", conSubsidio.subsidio === 300 && conSubsidio.total === 900);
+
+const conTope = calcularCotizacion(proveedor, 10000, 50, 400);
+check("subsidy is capped", conTope.subsidio === 400 && conTope.total === 800);
+
+const centavos = calcularCotizacion({ ...proveedor, precio_por_litro: 0.0333 }, 1000, 0);
+check("amounts are rounded to centavos", centavos.total === 33.3);
+check("quote keeps ETA for comparison", sinSubsidio.tiempo_estimado === "2 horas");
+
+console.log();
+console.log("═".repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+console.log("═".repeat(50));
+process.exit(failed > 0 ? 1 : 0);
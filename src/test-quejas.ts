@@ -0,0 +1,312 @@
+// ============================================
+// Quejas Tools - Offline Tests (InMemoryQuejasRepository)
+// ============================================
+// Run: npx tsx src/test-quejas.ts
+
+import { RunContext } from "@openai/agents";
+import {
+    cambiarEstadoQueja,
+    EstadoTransitionError,
+    InMemoryQuejasRepository,
+    QuejaNotFoundError,
+    setQuejasRepository,
+    SupabaseQuejasRepository
+} from "./quejas-repository.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findAdminKey, parseAdminKeys } from "./admin-auth.js";
+import { EventEmitter } from "node:events";
+import type { Pool } from "pg";
+import {
+    InMemoryReportFollowerStore,
+    listenForEstadoChanges,
+    notifyEstadoChange,
+    setReportFollowerStore
+} from "./report-followers.js";
+import { hashSender } from "./sender-id.js";
+import type { ChannelAddress, ChannelName, ChannelSender } from "./channels.js";
+import { GazetteerGeocodingProvider, setGeocodingProvider } from "./geocoding.js";
+import {
+    buscarReportesSimilares,
+    consultarIncidentesTool,
+    describirAntiguedad,
+    misReportesTool,
+    reportarIncidente,
+    reportarIncidenteTool,
+    sumarAfectadoAReporte
+} from "./tools.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+/** Calls a tool with an empty run context (no sender), as /api/chat would. */
+async function invoke<C>(t: { invoke: (ctx: RunContext<C>, input: string) => Promise<unknown> }, args: object): Promise<any> {
+    const result = await t.invoke(new RunContext({} as C), JSON.stringify(args));
+    return typeof result === "string" ? JSON.parse(result) : result;
+}
+
+/**
+ * Supabase client stand-in over one table of rows: eq/or filters, update and rpc are
+ * applied for real, every other builder call is only recorded in `calls`.
+ */
+function fakeSupabase(rows: Array<Record<string, unknown>>) {
+    const calls: string[] = [];
+    const matches = (row: Record<string, unknown>, filter: string) => filter.split(",").some((part) => {
+        const [column, op, value] = part.split(".");
+        return op === "is" ? row[column] == null : String(row[column]) === value;
+    });
+    const from = (table: string) => {
+        const filters: string[] = [];
+        let values: Record<string, unknown> | null = null;
+        let inserted: Record<string, unknown> | null = null;
+        const run = () => {
+            if (inserted) return [inserted];
+            const found = rows.filter((row) => filters.every((f) => matches(row, f)));
+            if (values) found.forEach((row) => Object.assign(row, values));
+            return found;
+        };
+        const builder: any = {
+            select: () => builder,
+            eq: (column: string, value: unknown) => (filters.push(`${column}.eq.${value}`), builder),
+            or: (filter: string) => (calls.push(`or(${filter})`), filters.push(filter), builder),
+            update: (v: Record<string, unknown>) => ((values = v), builder),
+            insert: (row: Record<string, unknown>) => (calls.push(`insert(${table})`), (inserted = row), builder),
+            maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+            then: (resolve: (r: unknown) => void) => resolve({ data: run(), error: null })
+        };
+        return builder;
+    };
+    const rpc = async (name: string, args: { queja_id: number }) => {
+        calls.push(`rpc(${name})`);
+        const row = rows.find((r) => Number(r.id) === args.queja_id);
+        if (row) row.hogares_afectados = Number(row.hogares_afectados ?? 1) + 1;
+        return { data: row ? row.hogares_afectados : null, error: null };
+    };
+    return { client: { from, rpc } as unknown as SupabaseClient, calls };
+}
+
+async function runTests() {
+    const repository = new InMemoryQuejasRepository();
+    setQuejasRepository(repository);
+
+    console.log("\n🗺️  reportar_incidente / consultar_incidentes");
+    console.log("─".repeat(50));
+
+    const created = await reportarIncidente({
+        tipo: "fuga",
+        descripcion: "Sale mucha agua",
+        direccion: "Av. Universidad 123",
+        colonia: "Del Carmen",
+        alcaldia: "Coyoacán",
+        latitud: 19.35,
+        longitud: -99.16,
+        duracion: "2 horas",
+        photo_url: "/media/reportes/abc.jpg",
+        photo_urls: ["/media/reportes/abc.jpg", "/media/reportes/def.jpg"],
+        photo_hashes: ["f0e0d0c0b0a09080", "0f1e2d3c4b5a6978"]
+    });
+    check("report is created", created.success === true && "incidente_id" in created);
+
+    const stored = await repository.getById((created as { incidente_id: string }).incidente_id);
+    check("direccion, duracion and photo_url are kept", stored?.direccion === "Av. Universidad 123" && stored?.duracion === "2 horas" && stored?.photo_url === "/media/reportes/abc.jpg");
+    check("every photo of the album is attached", stored?.photo_urls?.join(",") === "/media/reportes/abc.jpg,/media/reportes/def.jpg");
+    check("photo hashes are kept", stored?.photo_hashes?.length === 2);
+    check("new report starts as pendiente with 1 afectado", stored?.estado === "pendiente" && stored?.hogares_afectados === 1);
+
+    const consulta = await invoke(consultarIncidentesTool, { alcaldia: "Coyoacán", tipo: null });
+    check("consultar returns the real estado", consulta.success && consulta.incidentes[0]?.estado === "pendiente");
+    check("consultar keeps hogares_afectados and duracion", consulta.incidentes[0]?.hogares_afectados === 1 && consulta.incidentes[0]?.duracion === "2 horas");
+    check("estadisticas by tipo", consulta.estadisticas.por_tipo.fuga === 1);
+
+    console.log("\n🔁 Duplicate detection");
+    console.log("─".repeat(50));
+
+    const cerca = await buscarReportesSimilares({ tipo: "fuga", latitud: 19.3505, longitud: -99.16 });
+    check("report ~55 m away is a duplicate", cerca.length === 1 && (cerca[0].distancia_m ?? 999) < 100);
+    const lejos = await buscarReportesSimilares({ tipo: "fuga", latitud: 19.36, longitud: -99.16 });
+    check("report ~1 km away is not", lejos.length === 0);
+    const otroTipo = await buscarReportesSimilares({ tipo: "sin_agua", latitud: 19.35, longitud: -99.16 });
+    check("different tipo is not", otroTipo.length === 0);
+    const porColonia = await buscarReportesSimilares({ tipo: "fuga", colonia: "Col. del carmen" });
+    check("colonia match without coordinates", porColonia.length === 1 && porColonia[0].distancia_m === null);
+    const mismaFoto = await buscarReportesSimilares({ tipo: "infraestructura", latitud: 19.5, longitud: -99.0, photo_hashes: ["f0e0d0c0b0a09081"] });
+    check("same photo is a duplicate far away and with another tipo", mismaFoto.length === 1 && mismaFoto[0].misma_foto === true);
+    const otraFoto = await buscarReportesSimilares({ tipo: "fuga", photo_hashes: ["ffffffff00000000"] });
+    check("a different photo alone matches nothing", otraFoto.length === 0);
+
+    const sumado = await sumarAfectadoAReporte(cerca[0].id);
+    check("confirmed duplicate adds an afectado", sumado.success && "hogares_afectados" in sumado && sumado.hogares_afectados === 2);
+    check("no new row was created", (await repository.query({ limit: 50 })).length === 1);
+
+    console.log("\n🚦 Status lifecycle");
+    console.log("─".repeat(50));
+
+    const id = cerca[0].id;
+    const reconocido = await cambiarEstadoQueja(repository, id, "reconocido", "sacmex");
+    check("pendiente -> reconocido records timestamp and actor", reconocido.estado === "reconocido" && !!reconocido.reconocido_en && reconocido.estado_actualizado_por === "sacmex");
+
+    const rejected = await cambiarEstadoQueja(repository, id, "pendiente", "sacmex").catch((e) => e);
+    check("reconocido -> pendiente is rejected", rejected instanceof EstadoTransitionError && rejected.from === "reconocido");
+
+    const missing = await cambiarEstadoQueja(repository, "999", "resuelto", "sacmex").catch((e) => e);
+    check("unknown report is not found", missing instanceof QuejaNotFoundError);
+
+    const stale = await repository.updateStatus(id, { from: "pendiente", to: "resuelto", actor: "otra" });
+    check("update with a stale estado is not applied", stale === null && (await repository.getById(id))?.estado === "reconocido");
+
+    await cambiarEstadoQueja(repository, id, "resuelto", "alcaldia-coyoacan", "Se cambio la valvula");
+    const resuelto = await invoke(consultarIncidentesTool, { alcaldia: "Coyoacán", tipo: null });
+    check("consultar shows resuelto with resuelto_en", resuelto.incidentes[0]?.estado === "resuelto" && !!resuelto.incidentes[0]?.resuelto_en);
+
+    console.log("\n📲 Status notifications");
+    console.log("─".repeat(50));
+
+    const followers = new InMemoryReportFollowerStore();
+    setReportFollowerStore(followers);
+    const jid = "5215512345678@s.whatsapp.net";
+    const whatsapp = (senderKey: string): ChannelSender => ({ channel: "evolution", senderKey, address: { account: "waterhub", chatId: senderKey } });
+    const nuevo = await reportarIncidente(
+        { tipo: "sin_agua", descripcion: "No hay agua", colonia: "Narvarte", alcaldia: "Benito Juárez" },
+        whatsapp(jid)
+    );
+    const nuevoId = (nuevo as { incidente_id: string }).incidente_id;
+    const linked = await followers.listBySender(hashSender(jid));
+    check("report is linked to the hashed sender", linked.length === 1 && linked[0].quejaId === nuevoId);
+    const publico = JSON.stringify(await repository.getById(nuevoId));
+    check("public report carries no phone or hash", !publico.includes("5512345678") && !publico.includes(hashSender(jid)));
+    check("follower link keeps the address sealed, not the phone", !JSON.stringify(linked).includes("5512345678"));
+
+    const mensajes: string[] = [];
+    const destinos: string[] = [];
+    const canales: ChannelName[] = [];
+    const send = async (channel: ChannelName, to: ChannelAddress, text: string) => {
+        mensajes.push(text);
+        destinos.push(to.chatId);
+        canales.push(channel);
+        return true;
+    };
+    const reconocidoNuevo = await cambiarEstadoQueja(repository, nuevoId, "reconocido", "sacmex");
+    let caido = 0;
+    const down = async () => { caido++; return false; };
+    check("failed send notifies nobody", (await notifyEstadoChange(reconocidoNuevo, { send: down })) === 0 && caido === 1);
+    await notifyEstadoChange(reconocidoNuevo, { send });
+    await notifyEstadoChange(reconocidoNuevo, { send });
+    check("reconocido is notified once with the map link", mensajes.length === 1 && mensajes[0].includes("Reconocido") && mensajes[0].includes(`?queja=${nuevoId}`));
+    check("a failed send is retried on the next event, to the opened address", destinos[0] === jid);
+    const enProgreso = await cambiarEstadoQueja(repository, nuevoId, "en_progreso", "sacmex");
+    check("en_progreso is not notified", (await notifyEstadoChange(enProgreso, { send })) === 0);
+    const deTelegram = await reportarIncidente(
+        { tipo: "fuga", descripcion: "Fuga en la banqueta", colonia: "Del Valle", alcaldia: "Benito Juárez" },
+        { channel: "telegram", senderKey: "telegram:4242", address: { account: "bot", chatId: "4242" } }
+    );
+    const telegramId = (deTelegram as { incidente_id: string }).incidente_id;
+    await notifyEstadoChange(await cambiarEstadoQueja(repository, telegramId, "reconocido", "sacmex"), { send });
+    check("a Telegram reporter is notified on Telegram", canales.at(-1) === "telegram" && destinos.at(-1) === "4242");
+
+    // LISTEN: si la conexion se cae, otra vuelve a suscribirse
+    const clients: Array<EventEmitter & { queries: string[]; released: unknown[] }> = [];
+    let refuseNext = false;
+    const pool = {
+        connect: async () => {
+            const client = Object.assign(new EventEmitter(), { queries: [] as string[], released: [] as unknown[] });
+            (client as any).query = async (sql: string) => {
+                client.queries.push(sql);
+                if (refuseNext) {
+                    refuseNext = false;
+                    throw new Error("ECONNRESET");
+                }
+            };
+            (client as any).release = (err?: unknown) => { client.released.push(err); };
+            clients.push(client);
+            return client;
+        }
+    } as unknown as Pool;
+    const stopListening = await listenForEstadoChanges(pool, 5);
+    check("listener subscribes on start", clients.length === 1 && clients[0].queries[0] === "LISTEN quejas_estado");
+    refuseNext = true;
+    clients[0].emit("error", new Error("terminating connection"));
+    await new Promise((r) => setTimeout(r, 60));
+    check("lost connection is discarded and LISTEN retried until it works", clients.length === 3 && clients[0].released[0] instanceof Error
+        && clients[2].queries[0] === "LISTEN quejas_estado");
+    stopListening();
+    clients[2].emit("end");
+    await new Promise((r) => setTimeout(r, 20));
+    check("after stop it does not reconnect", clients.length === 3);
+
+    console.log("\n🧾 Mis reportes");
+    console.log("─".repeat(50));
+
+    const mios = await misReportesTool.invoke(new RunContext({ reportante: whatsapp(jid) }), "{}") as any;
+    check("mis_reportes lists the sender's report with its status", mios.success && mios.count === 1 && mios.reportes[0].estado === "en_progreso");
+    check("mis_reportes shows age, not ids or phones", mios.reportes[0].subido.startsWith("hace") && !JSON.stringify(mios).includes("5512345678") && !("id" in mios.reportes[0]));
+    const ajenos = await misReportesTool.invoke(new RunContext({ reportante: whatsapp("5215500000000@s.whatsapp.net") }), "{}") as any;
+    check("another sender sees none", ajenos.success && ajenos.count === 0);
+    const sinWhatsApp = await invoke(misReportesTool, {});
+    check("outside WhatsApp it is refused", sinWhatsApp.success === false);
+    check("age reads in days", describirAntiguedad(new Date(Date.now() - 3 * 86400000).toISOString()) === "hace 3 dias");
+
+    const keys = parseAdminKeys("sacmex:abc123, alcaldia:def456");
+    check("admin token resolves to its key name", findAdminKey("def456", keys) === "alcaldia" && findAdminKey("nope", keys) === null);
+
+    console.log("\n🗺️  Typed addresses");
+    console.log("─".repeat(50));
+
+    setGeocodingProvider(new GazetteerGeocodingProvider([
+        { nombre: "Calle Hidalgo", alcaldia: "Coyoacán", latitud: 19.3499, longitud: -99.1618, precision: "calle" },
+        { nombre: "Calle Hidalgo", alcaldia: "Tlalpan", latitud: 19.2903, longitud: -99.1686, precision: "calle" }
+    ]));
+    const ambigua = await invoke(reportarIncidenteTool, { tipo: "sin_agua", descripcion: "No llega el agua", direccion: "Calle Hidalgo 15" });
+    const ambiguaRow = await repository.getById(ambigua.incidente_id);
+    check("ambiguous address is saved as typed, without a pin", ambiguaRow?.direccion === "Calle Hidalgo 15" && ambiguaRow?.latitud === undefined && ambiguaRow?.geocode_confianza === undefined);
+    const ubicada = await invoke(reportarIncidenteTool, { tipo: "sin_agua", descripcion: "No llega el agua", direccion: "Calle Hidalgo 15", alcaldia: "Tlalpan" });
+    const ubicadaRow = await repository.getById(ubicada.incidente_id);
+    check("clear address gets a pin and its confidence", ubicadaRow?.latitud === 19.2903 && ubicadaRow?.geocode_confianza === 0.85);
+    const cercana = await invoke(reportarIncidenteTool, { tipo: "sin_agua", descripcion: "Tampoco hay agua", latitud: 19.2904, longitud: -99.1686 });
+    check("tool saves and lists the similar reports nearby", cercana.success && cercana.reportes_similares?.[0]?.id === ubicada.incidente_id);
+    setGeocodingProvider(null);
+
+    console.log("\n🗄️  Supabase backend");
+    console.log("─".repeat(50));
+
+    const supaRows: Array<Record<string, unknown>> = [
+        { id: 7, tipo: "fuga", texto: "Fuga", estado: "pendiente", hogares_afectados: 1, created_at: "2026-01-01T10:00:00Z" }
+    ];
+    const anon = fakeSupabase(supaRows);
+    const service = fakeSupabase(supaRows);
+    let needsServiceKey = false;
+    try {
+        await new SupabaseQuejasRepository(anon.client).incrementAfectados("7");
+    } catch (error) {
+        needsServiceKey = error instanceof Error && error.message.includes("SUPABASE_SERVICE_KEY");
+    }
+    check("adding an afectado needs the service key", needsServiceKey && anon.calls.length === 0);
+    const sumadoSupa = await new SupabaseQuejasRepository(anon.client, service.client).incrementAfectados("7");
+    const legacy: Record<string, unknown> = { id: 8, tipo: "fuga", texto: "Reporte viejo", estado: null, created_at: "2025-01-01T10:00:00Z" };
+    supaRows.push(legacy);
+    const supabase = new SupabaseQuejasRepository(anon.client, service.client);
+    const reconocidoSupa = await cambiarEstadoQueja(supabase, "8", "reconocido", "sacmex");
+    check("a row without estado moves from pendiente, as on Postgres", reconocidoSupa.estado === "reconocido" && legacy.estado === "reconocido"
+        && service.calls.includes("or(estado.is.null,estado.eq.pendiente)") && service.calls.includes("insert(quejas_estado_historial)"));
+    check("afectado is added through the service client", sumadoSupa?.hogares_afectados === 2 && service.calls.includes("rpc(sumar_afectado_queja)") && anon.calls.length === 0);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+}
+
+runTests()
+    .then(() => process.exit(failed > 0 ? 1 : 0))
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    });
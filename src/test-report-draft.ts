@@ -0,0 +1,247 @@
+// ============================================
+// Report Draft - Offline Tests (no OpenAI / DB needed)
+// ============================================
+// Run: npx tsx src/test-report-draft.ts
+
+import {
+    applyChoiceToExtraction,
+    applyExtraction,
+    applyGeocode,
+    applyLocation,
+    applyPhoto,
+    buildDraftAttachments,
+    buildDraftContext,
+    confirmLocation,
+    createReportDraft,
+    getMissingSlots,
+    getPhotoHashes,
+    getStoredPhotoUrl,
+    getStoredPhotoUrls,
+    hasDraftProgress,
+    isDraftChoice,
+    isDraftComplete,
+    MAX_DRAFT_PHOTOS,
+    mergeReportDraft,
+    needsGeocoding,
+    photoRefFor
+} from "./report-draft.js";
+import type { GeocodeMatch } from "./geocoding.js";
+import { haversineMeters, normalizePlaceName } from "./geo.js";
+import { capTurnImages, inlineImageBytes } from "./media.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+const empty = { tipo: null, descripcion: null, direccion: null, colonia: null, alcaldia: null, mismo_problema: null, ubicacion_correcta: null, direccion_opcion: null };
+
+console.log("\n📝 Report Draft slot filling");
+console.log("─".repeat(50));
+
+const draft = createReportDraft();
+check("new draft misses every required slot", getMissingSlots(draft).join(",") === "tipo,ubicacion,descripcion");
+check("each draft has its own id (one queja per draft)", !!draft.id && draft.id !== createReportDraft().id);
+check("empty draft is no progress (first message gets the welcome alone)", !hasDraftProgress(draft));
+
+applyPhoto(draft, { ref: photoRefFor("data:image/jpeg;base64,AAAA") });
+applyPhoto(draft, { ref: photoRefFor("data:image/jpeg;base64,AAAA") });
+check("same photo is only referenced once", draft.photos.length === 1);
+check("a photo is draft progress", hasDraftProgress(draft));
+check("data URL photo falls back to a hash ref", draft.photos[0].ref.startsWith("sha256:"));
+check("unstored photo has no photo_url", getStoredPhotoUrl(draft) === null);
+applyPhoto(draft, { ref: "abc", url: "/media/reportes/abc.jpg", thumbnailUrl: "/media/reportes/abc_thumb.jpg" });
+check("stored photo url is kept for quejas", getStoredPhotoUrl(draft) === "/media/reportes/abc.jpg");
+
+applyExtraction(draft, { ...empty, tipo: "fuga" });
+check("tipo from extraction", draft.tipo === "fuga" && !isDraftComplete(draft));
+
+applyLocation(draft, { latitud: 19.35, longitud: -99.16, direccion: "Av. Universidad 123, Coyoacán" });
+applyExtraction(draft, { ...empty, direccion: "otra calle" });
+check("typed address does not overwrite a shared pin", draft.direccion === "Av. Universidad 123, Coyoacán");
+check("only descripcion missing", getMissingSlots(draft).join(",") === "descripcion");
+check("context asks for what is missing", buildDraftContext(draft, false).includes("Falta: breve descripcion"));
+
+applyExtraction(draft, { ...empty, descripcion: "  Sale mucha agua desde ayer " });
+check("draft complete after descripcion", isDraftComplete(draft) && draft.descripcion === "Sale mucha agua desde ayer");
+
+draft.status = "confirming_duplicate";
+draft.duplicateOf = { id: "42", descripcion: "Fuga en la esquina", distanciaM: 60, creadoEn: "2026-01-01T10:00:00Z", hogaresAfectados: 3 };
+check("duplicate context asks the citizen", buildDraftContext(draft, false).includes("¿es el mismo problema que ya reportaron aqui?"));
+check("duplicate context forbids summary", !buildDraftContext(draft, false).includes("REPORTE CREADO"));
+
+draft.mergedIntoExisting = true;
+draft.status = "submitted";
+check("merged context says the voice was added", buildDraftContext(draft, true).includes("SUMADO A REPORTE EXISTENTE"));
+draft.mergedIntoExisting = undefined;
+
+check("submitted context allows summary", buildDraftContext(draft, true).includes("REPORTE CREADO"));
+check("submitted from a previous turn does not", !buildDraftContext(draft, false).includes("REPORTE CREADO"));
+
+const typed = createReportDraft();
+applyExtraction(typed, { ...empty, tipo: "sin_agua", descripcion: "No hay agua", colonia: "Del Valle" });
+check("colonia alone counts as ubicacion", isDraftComplete(typed));
+
+console.log("\n🔘 Buttons, lists and pin");
+console.log("─".repeat(50));
+
+const fresh = createReportDraft();
+const [tipoList] = buildDraftAttachments(fresh, false);
+check("missing tipo sends a list", tipoList?.type === "choices" && tipoList.options.length === 5 && tipoList.options[0].id === "tipo:fuga");
+check("list reply sets the tipo", applyChoiceToExtraction(null, "tipo:contaminacion")?.tipo === "contaminacion");
+check("list reply overrides the model", applyChoiceToExtraction({ ...empty, tipo: "fuga", colonia: "Roma" }, "tipo:otro")?.tipo === "otro");
+check("unknown choice leaves the extraction alone", applyChoiceToExtraction(null, "tipo:nada") === null && !isDraftChoice("menu:1"));
+
+const conTipo = createReportDraft();
+applyExtraction(conTipo, { ...empty, tipo: "fuga" });
+check("no list once tipo is known", buildDraftAttachments(conTipo, false).length === 0);
+
+conTipo.status = "confirming_duplicate";
+conTipo.duplicateOf = { id: "42", descripcion: null, distanciaM: 60, creadoEn: "2026-01-01T10:00:00Z", hogaresAfectados: 2 };
+const [dupButtons] = buildDraftAttachments(conTipo, false);
+check("duplicate question gets yes/no buttons", dupButtons?.type === "choices" && dupButtons.options.length === 2);
+check("yes button confirms the duplicate", dupButtons?.type === "choices" && applyChoiceToExtraction(null, dupButtons.options[0].id)?.mismo_problema === true);
+
+const placed = createReportDraft();
+applyLocation(placed, { latitud: 19.4, longitud: -99.1, direccion: "Calle 5, Roma" });
+applyExtraction(placed, { ...empty, tipo: "fuga", descripcion: "Fuga" });
+placed.status = "submitted";
+const [pin] = buildDraftAttachments(placed, true);
+check("submitted report sends a pin of where it was placed", pin?.type === "location" && pin.latitud === 19.4 && pin.direccion === "Calle 5, Roma");
+check("pin only in the turn it was created", buildDraftAttachments(placed, false).length === 0);
+
+console.log("\n🛰️  Location from photo GPS");
+console.log("─".repeat(50));
+
+const fromPhoto = { latitud: 19.35, longitud: -99.162, direccion: "Av. Miguel Ángel de Quevedo, Coyoacán", origen: "foto" as const, fotoTomadaEn: "2026-10-18T14:03:21-06:00" };
+const gps = createReportDraft();
+applyExtraction(gps, { ...empty, tipo: "fuga", descripcion: "Sale agua de la banqueta" });
+applyLocation(gps, fromPhoto);
+check("photo location fills the slot but is not submitted", getMissingSlots(gps).length === 0 && gps.locationUnconfirmed === true && !isDraftComplete(gps));
+check("agent is told to confirm it", buildDraftContext(gps, false).includes("CONFIRMAR UBICACION") && buildDraftContext(gps, false).includes("SIN CONFIRMAR"));
+const [confirmButtons] = buildDraftAttachments(gps, false);
+check("yes/no buttons to confirm the location", confirmButtons?.type === "choices" && confirmButtons.options[0].id === "ubicacion:si" && isDraftChoice("ubicacion:no"));
+applyExtraction(gps, applyChoiceToExtraction(null, "ubicacion:si")!);
+check("'yes' confirms it and completes the draft", !gps.locationUnconfirmed && gps.latitud === 19.35 && isDraftComplete(gps));
+applyLocation(gps, { ...fromPhoto, latitud: 19.4, longitud: -99.1 });
+check("a later photo does not move a confirmed location", gps.latitud === 19.35 && !gps.locationUnconfirmed);
+
+const rejected = createReportDraft();
+applyLocation(rejected, fromPhoto);
+confirmLocation(rejected, false);
+check("'no' clears it so the agent asks again", getMissingSlots(rejected).includes("ubicacion") && rejected.photoTakenAt === undefined);
+
+const otherAddress = createReportDraft();
+applyLocation(otherAddress, fromPhoto);
+applyExtraction(otherAddress, { ...empty, direccion: "Calle Tres Cruces 12" });
+check("typing another address replaces the photo location", otherAddress.direccion === "Calle Tres Cruces 12" && otherAddress.latitud === undefined && !otherAddress.locationUnconfirmed);
+
+const pinned = createReportDraft();
+applyLocation(pinned, { latitud: 19.4, longitud: -99.1, direccion: "Calle 5, Roma" });
+applyLocation(pinned, fromPhoto);
+check("photo GPS never overrides a shared pin", pinned.direccion === "Calle 5, Roma" && !pinned.locationUnconfirmed);
+
+console.log("\n🖼️  Albums");
+console.log("─".repeat(50));
+
+const album = createReportDraft();
+applyPhoto(album, { ref: "a", url: "/media/reportes/a.jpg" });
+applyPhoto(album, { ref: "b" });
+applyPhoto(album, { ref: "c", url: "/media/reportes/c.jpg" });
+check("every stored photo goes to quejas, in order", getStoredPhotoUrls(album).join(",") === "/media/reportes/a.jpg,/media/reportes/c.jpg");
+for (let i = 0; i < MAX_DRAFT_PHOTOS; i++) applyPhoto(album, { ref: `extra-${i}` });
+check("draft stops at MAX_DRAFT_PHOTOS", album.photos.length === MAX_DRAFT_PHOTOS && !applyPhoto(album, { ref: "one-more" }));
+
+const forwarded = createReportDraft();
+applyPhoto(forwarded, { ref: "sha256:original", phash: "f0e0d0c0b0a09080" });
+applyPhoto(forwarded, { ref: "sha256:recompressed", phash: "f0e0d0c0b0a09083" });
+applyPhoto(forwarded, { ref: "sha256:other", phash: "0f1f2f3f4f5f6f7f" });
+check("the same picture recompressed is kept once", forwarded.photos.length === 2 && getPhotoHashes(forwarded).join(",") === "f0e0d0c0b0a09080,0f1f2f3f4f5f6f7f");
+
+const photo = (kb: number) => `data:image/jpeg;base64,${"A".repeat(Math.ceil((kb * 1024 * 4) / 3))}`;
+check("data URL size is the decoded size", Math.abs(inlineImageBytes(photo(3)) - 3 * 1024) <= 2 && inlineImageBytes("https://x/y.jpg") === 0);
+const capped = capTurnImages([photo(4), photo(4), "https://x/y.jpg", photo(4)], 10, 10 * 1024);
+check("album is capped by total size, in order", capped.kept.length === 3 && capped.kept[2] === "https://x/y.jpg" && capped.dropped === 1);
+check("album is capped by count", capTurnImages(["a", "b", "c"], 2).kept.join(",") === "a,b");
+
+console.log("\n🗺️  Typed address geocoding");
+console.log("─".repeat(50));
+
+const hidalgo = (alcaldia: string, latitud: number): GeocodeMatch =>
+    ({ latitud, longitud: -99.16, direccion: `Calle Hidalgo, ${alcaldia}`, colonia: "Centro", alcaldia, precision: "calle", confianza: 0.7 });
+const typedAddress = () => {
+    const d = createReportDraft();
+    applyExtraction(d, { ...empty, tipo: "fuga", descripcion: "Sale agua", direccion: "Calle Hidalgo 15" });
+    return d;
+};
+
+const resolved = typedAddress();
+check("typed address is geocoded once complete", isDraftComplete(resolved) && needsGeocoding(resolved));
+applyGeocode(resolved, { status: "resolved", match: { ...hidalgo("Coyoacán", 19.35), confianza: 0.9 } });
+check("clear match becomes the pin with its confidence", resolved.latitud === 19.35 && resolved.geocodeConfidence === 0.9 && resolved.alcaldia === "Coyoacán");
+check("the address is not geocoded again", !needsGeocoding(resolved) && resolved.direccion === "Calle Hidalgo 15");
+applyExtraction(resolved, { ...empty, direccion: "Calle Juárez 8" });
+check("a new typed address drops the geocoded pin", resolved.latitud === undefined && needsGeocoding(resolved));
+applyLocation(resolved, { latitud: 19.4, longitud: -99.1, direccion: "Calle 5, Roma" });
+check("a shared pin is never replaced by geocoding", !needsGeocoding(resolved) && resolved.geocodeConfidence === undefined);
+
+const ambiguousDraft = typedAddress();
+applyGeocode(ambiguousDraft, { status: "ambiguous", candidates: [hidalgo("Coyoacán", 19.35), hidalgo("Tlalpan", 19.29)] });
+check("ambiguous address waits for the citizen", !isDraftComplete(ambiguousDraft) && ambiguousDraft.latitud === undefined);
+const options = buildDraftAttachments(ambiguousDraft, false)[0];
+check("one option per place plus none", options?.type === "choices" && options.options.map((o) => o.id).join(",") === "direccion:1,direccion:2,direccion:0");
+check("address options belong to the report", isDraftChoice("direccion:2"));
+check("context lists the numbered options", buildDraftContext(ambiguousDraft, false).includes("opcion 2: Calle Hidalgo, Tlalpan") && buildDraftContext(ambiguousDraft, false).includes("CONFIRMAR DIRECCION"));
+applyExtraction(ambiguousDraft, applyChoiceToExtraction(null, "direccion:2")!);
+check("chosen option is the pin, confirmed by the citizen", ambiguousDraft.latitud === 19.29 && ambiguousDraft.geocodeConfidence === 1 && isDraftComplete(ambiguousDraft));
+
+const noneDraft = typedAddress();
+applyGeocode(noneDraft, { status: "ambiguous", candidates: [hidalgo("Coyoacán", 19.35)] });
+applyExtraction(noneDraft, { ...empty, direccion_opcion: 0 });
+check("'none' asks for the location again", getMissingSlots(noneDraft).includes("ubicacion") && !noneDraft.addressCandidates);
+applyExtraction(noneDraft, { ...empty, direccion: "Calle Hidalgo 15" });
+applyGeocode(noneDraft, { status: "ambiguous", candidates: [hidalgo("Coyoacán", 19.35)] });
+applyExtraction(noneDraft, applyChoiceToExtraction(null, "direccion:0")!);
+check("after a second 'none' the typed address is saved without a pin", isDraftComplete(noneDraft) && !needsGeocoding(noneDraft) && noneDraft.latitud === undefined);
+
+const notFound = typedAddress();
+applyGeocode(notFound, { status: "not_found" });
+check("address not found is submitted as typed", isDraftComplete(notFound) && !needsGeocoding(notFound));
+
+console.log("\n🔀 Concurrent turns");
+console.log("─".repeat(50));
+
+const base = createReportDraft();
+base.tipo = "fuga";
+const ours = structuredClone(base);
+ours.descripcion = "Sale agua de la banqueta";
+applyPhoto(ours, { ref: "ours" });
+const theirs = structuredClone(base);
+applyLocation(theirs, { latitud: 19.35, longitud: -99.16, direccion: "Av. Universidad 100" });
+applyPhoto(theirs, { ref: "theirs" });
+const merged = mergeReportDraft(base, ours, theirs);
+check("the other turn's pin survives this turn's save", merged.latitud === 19.35 && merged.direccion === "Av. Universidad 100");
+check("this turn's fields and both photos are kept", merged.descripcion === "Sale agua de la banqueta" && merged.tipo === "fuga"
+    && merged.photos.map((p) => p.ref).join(",") === "theirs,ours");
+check("without a concurrent save the draft is saved as is", mergeReportDraft(base, ours, structuredClone(base)) === ours);
+const replaced = createReportDraft();
+check("a draft replaced by the other turn is not overwritten", mergeReportDraft(base, ours, replaced) === replaced);
+
+console.log("\n📍 Geo helpers");
+console.log("─".repeat(50));
+check("haversine ~111 m per 0.001° lat", Math.abs(haversineMeters(19.35, -99.16, 19.351, -99.16) - 111) < 1);
+check("colonia names compare without accents or prefix", normalizePlaceName("Col. Álamos") === normalizePlaceName("alamos"));
+
+console.log();
+console.log("═".repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+console.log("═".repeat(50));
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,79 @@
+// ============================================
+// STT - Offline Tests (providers and error categories; no network, no ffmpeg)
+// ============================================
+// Run: npx tsx src/test-stt.ts
+
+import { pcmToWav } from "./audio.js";
+import { CommandSttProvider, createSttProvider, normalizeLanguage, transcribeAudio, TranscriptionError } from "./stt.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+async function categoryOf(promise: Promise<unknown>): Promise<string | null> {
+    try {
+        await promise;
+        return null;
+    } catch (error) {
+        return error instanceof TranscriptionError ? error.category : "other";
+    }
+}
+
+async function main() {
+    console.log("\n🎙️  Providers");
+    console.log("─".repeat(50));
+
+    const wav = pcmToWav(Buffer.alloc(32000));
+    check("WAV header describes 16 kHz mono PCM", wav.toString("ascii", 0, 4) === "RIFF" && wav.readUInt32LE(24) === 16000 && wav.readUInt32LE(40) === 32000);
+
+    const plain = await new CommandSttProvider("echo '  hay una fuga\n en la esquina '; echo 'auto-detected language: es' >&2").transcribe(wav, undefined);
+    check("command output is the transcript", plain.text === "hay una fuga en la esquina");
+    check("whisper.cpp detected language is recorded", plain.language === "es");
+
+    const json = await new CommandSttProvider(`echo '{"text":"no hay agua","language":"english"}'`).transcribe(wav, "es");
+    check("JSON output carries text and language", json.text === "no hay agua" && json.language === "en");
+
+    const placeholders = await new CommandSttProvider("test -f {input} && echo {language}").transcribe(wav, "es");
+    check("{input} is a real file and {language} the hint", placeholders.text === "es");
+
+    check("failing command is a provider error", (await categoryOf(new CommandSttProvider("exit 2").transcribe(wav))) === "provider_error");
+    check("slow command is a timeout", (await categoryOf(new CommandSttProvider("sleep 5", 200).transcribe(wav))) === "timeout");
+
+    check("language names become codes", normalizeLanguage("Spanish") === "es" && normalizeLanguage("") === undefined);
+    check("STT can be turned off", createSttProvider("none") === null);
+    let unknown = false;
+    try {
+        createSttProvider("vosk");
+    } catch {
+        unknown = true;
+    }
+    check("unknown provider fails at startup", unknown);
+
+    console.log("\n🚫 Error categories");
+    console.log("─".repeat(50));
+
+    check("no provider is 'disabled'", (await categoryOf(transcribeAudio(Buffer.from("x"), { provider: null }))) === "disabled");
+    // Audio que ffmpeg no puede leer (o ffmpeg ausente): nunca se manda crudo al proveedor
+    const echo = new CommandSttProvider("echo hola");
+    check("undecodable audio is 'conversion_failed'", (await categoryOf(transcribeAudio(Buffer.from("not audio"), { provider: echo }))) === "conversion_failed");
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
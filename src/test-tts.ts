@@ -0,0 +1,63 @@
+// ============================================
+// TTS - Offline Tests (speech text, providers; no network, no ffmpeg)
+// ============================================
+// Run: npx tsx src/test-tts.ts
+
+import { CommandTtsProvider, createTtsProvider, synthesizeVoiceNote, toSpeechText } from "./tts.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+async function main() {
+    console.log("\n🗣️  Speech text");
+    console.log("─".repeat(50));
+
+    const reply = "Resumen: *Fuga*, Roma Norte 💧\n\nAquí puedes ver el mapa: https://aquahub.whoopflow.com/?queja=42";
+    const speech = toSpeechText(reply);
+    check("links are not read aloud", !speech.includes("http"));
+    check("markdown and emojis are dropped", !speech.includes("*") && !speech.includes("💧"));
+    check("the words stay", speech.startsWith("Resumen: Fuga, Roma Norte") && speech.includes("Aquí puedes ver el mapa:"));
+
+    const long = "Primera oración con datos. ".repeat(20).trim();
+    const cut = toSpeechText(long, 100);
+    check("long replies stop at a sentence end", cut.length <= 100 && cut.endsWith("."));
+    check("a reply that is only a link has nothing to say", toSpeechText("https://example.com 👋") === "");
+
+    console.log("\n🔌 Providers");
+    console.log("─".repeat(50));
+
+    check("TTS is off by default", createTtsProvider("none") === null);
+    let unknown = false;
+    try {
+        createTtsProvider("polly");
+    } catch {
+        unknown = true;
+    }
+    check("unknown provider fails at startup", unknown);
+
+    const echo = await new CommandTtsProvider("cat").synthesize("hola");
+    check("command provider pipes text through stdin/stdout", echo?.toString() === "hola");
+    check("failing command returns null", (await new CommandTtsProvider("exit 3").synthesize("hola")) === null);
+    check("no provider, no voice note", (await synthesizeVoiceNote("Hola", null)) === null);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
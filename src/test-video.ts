@@ -0,0 +1,50 @@
+// ============================================
+// Video - Offline Tests (frame timing; no network, no ffmpeg needed)
+// ============================================
+// Run: npx tsx src/test-video.ts
+
+import { extractVideoContent, frameTimestamps, parseFfmpegDuration } from "./video.js";
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean) {
+    if (condition) {
+        console.log(`  ✅ ${name}`);
+        passed++;
+    } else {
+        console.log(`  ❌ ${name}`);
+        failed++;
+    }
+}
+
+async function main() {
+    console.log("\n🎬 Frames");
+    console.log("─".repeat(50));
+
+    const probe = "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'video':\n  Duration: 00:01:02.50, start: 0.000000, bitrate: 1843 kb/s\n  Stream #0:0(und): Video: h264";
+    check("duration is read from ffmpeg's description", parseFfmpegDuration(probe) === 62.5);
+    check("unknown duration is null", parseFfmpegDuration("Duration: N/A, bitrate: N/A") === null);
+
+    const times = frameTimestamps(12, 3);
+    check("frames are spread over the clip", times.join(",") === "2,6,10");
+    check("first and last second are skipped", times[0] > 0 && times[times.length - 1] < 12);
+    check("unknown duration takes the first frame", frameTimestamps(null, 3).join(",") === "0");
+
+    console.log("\n🚫 Unreadable files");
+    console.log("─".repeat(50));
+
+    // Sin ffmpeg o con bytes que no son video: null, nunca excepcion
+    check("non-video bytes give no content", (await extractVideoContent(Buffer.from("not a video"))) === null);
+
+    console.log();
+    console.log("═".repeat(50));
+    console.log(`Results: ${passed} passed, ${failed} failed`);
+    console.log("═".repeat(50));
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
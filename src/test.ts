@@ -9,7 +9,7 @@ import { runWorkflow } from "./agent.js";
 import { getMexicoDate } from "./tools.js";
 
 // ============================================
-// Test Cases (WaterHub: subir_voz | informacion | hablar_asesor)
+// Test Cases (WaterHub: subir_voz | mis_reportes | pedir_agua | alertas | informacion)
 // ============================================
 
 const testCases = [
@@ -18,6 +18,10 @@ const testCases = [
     { name: "Subir voz - fuga", message: "Hay una fuga de agua en la calle principal", expectedClassification: "subir_voz" },
     { name: "Subir voz - sin agua", message: "Quiero reportar que no tenemos agua desde ayer", expectedClassification: "subir_voz" },
     { name: "Subir voz - alcantarilla", message: "La alcantarilla de mi colonia está tapada", expectedClassification: "subir_voz" },
+    { name: "Mis reportes", message: "¿Qué pasó con la fuga que reporté la semana pasada?", expectedClassification: "mis_reportes" },
+    { name: "Pedir agua - pipa", message: "Necesito una pipa de agua en Iztapalapa", expectedClassification: "pedir_agua" },
+    { name: "Pedir agua - seguimiento", message: "¿Dónde viene mi pipa?", expectedClassification: "pedir_agua" },
+    { name: "Alertas - escasez", message: "¿Va a haber escasez en Iztapalapa?", expectedClassification: "alertas" },
     { name: "Ask for human (no advisors)", message: "Quiero hablar con una persona real", expectedClassification: "informacion" },
     { name: "How does it work", message: "¿Cómo funciona el mapa?", expectedClassification: "informacion" }
 ];
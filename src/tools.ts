@@ -2,106 +2,61 @@
 // AquaHub Native Tools - Citizen Assistance
 // ============================================
 
-import { config } from "dotenv";
-config();
-
-import * as dns from "node:dns";
-dns.setDefaultResultOrder("ipv4first");
-
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
-import { Pool } from "pg";
-import { tool } from "@openai/agents";
+import { tool, type RunContext } from "@openai/agents";
 import { z } from "zod";
-import type { Proveedor, Pedido, Incidente, Alerta, PrediccionResponse } from "./types.js";
+import type { Proveedor, Pedido, Incidente, Alerta, PrediccionResponse, TipoIncidente } from "./types.js";
+import { fetchAquaHub } from "./clients.js";
+import { getQuejasRepository } from "./quejas-repository.js";
+import { boundingBox, haversineMeters, normalizePlaceName } from "./geo.js";
+import { isSamePicture } from "./image-preprocess.js";
+import { geocodeAddress } from "./geocoding.js";
+import { getSubscriptionStore, subscribe, unsubscribe } from "./alert-subscriptions.js";
+import { followReport, getReportFollowerStore } from "./report-followers.js";
+import { hashSender } from "./sender-id.js";
+import type { ChannelSender } from "./channels.js";
 
 // ============================================
 // Configuration
 // ============================================
 
-const AQUAHUB_API_BASE = process.env.AQUAHUB_API_URL || "http://localhost:8000";
-
-let dbPool: Pool | null = null;
-
-function getSupabase(): SupabaseClient | null {
-    const url = process.env.SUPABASE_URL;
-    const key = process.env.SUPABASE_ANON_KEY;
-    if (!url || !key) return null;
-    return createClient(url, key);
-}
-
-function getDbPool(): Pool | null {
-    const url = process.env.DATABASE_URL || process.env.SUPABASE_DB_URL;
-    if (!url || !url.startsWith("postgresql://")) return null;
-    if (!dbPool) dbPool = new Pool({ connectionString: url, ssl: { rejectUnauthorized: false } });
-    return dbPool;
-}
+// Deteccion de duplicados: mismo tipo, a menos de X metros (o misma colonia sin coords), en las ultimas N horas
+const DUPLICATE_RADIUS_METERS = Number(process.env.DUPLICATE_RADIUS_METERS || 150);
+const DUPLICATE_WINDOW_HOURS = Number(process.env.DUPLICATE_WINDOW_HOURS || 72);
 
-type TipoQuejaSupabase = "sin_agua" | "fuga" | "agua_contaminada" | "baja_presion" | "otro";
+// Subsidio para pipas: porcentaje del subtotal con tope en pesos (0 = sin subsidio)
+const PIPA_SUBSIDIO_PORCENTAJE = Number(process.env.PIPA_SUBSIDIO_PORCENTAJE || 0);
+const PIPA_SUBSIDIO_MAXIMO = Number(process.env.PIPA_SUBSIDIO_MAXIMO || Infinity);
 
-function mapTipoToSupabase(tipo: string): TipoQuejaSupabase {
-    switch (tipo) {
-        case "fuga": return "fuga";
-        case "sin_agua": return "sin_agua";
-        case "contaminacion": return "agua_contaminada";
-        case "infraestructura":
-        default: return "otro";
-    }
-}
+// Alertas y predicciones: si la API no responde se sirve la ultima respuesta buena hasta por N horas
+const ALERTAS_STALE_MAX_HOURS = Number(process.env.ALERTAS_STALE_MAX_HOURS || 6);
 
 // ============================================
 // Utility Functions
 // ============================================
 
-async function fetchAquaHub(
-    path: string,
-    options: RequestInit = {},
-    maxRetries = 3,
-    delayMs = 1000
-): Promise<any> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            const url = `${AQUAHUB_API_BASE}${path}`;
-            console.log(`[AquaHub API] ${options.method || 'GET'} ${url} (attempt ${attempt})`);
-
-            const response = await fetch(url, {
-                ...options,
-                headers: {
-                    'Content-Type': 'application/json',
-                    ...options.headers
-                },
-                signal: AbortSignal.timeout(30000)
-            });
+export function getMexicoDate(): Date {
+    return new Date(new Date().toLocaleString("en-US", { timeZone: "America/Mexico_City" }));
+}
 
-            if (!response.ok) {
-                const errorBody = await response.text().catch(() => "");
-                if (response.status === 500) {
-                    console.error(`[AquaHub API] 500 Internal Server Error - response body:`, errorBody);
-                }
-                if (attempt < maxRetries) {
-                    console.warn(`[AquaHub API] Attempt ${attempt} failed: ${response.status} ${errorBody.substring(0, 200)}`);
-                    await new Promise(r => setTimeout(r, delayMs * attempt));
-                    continue;
-                }
-                throw new Error(`API error ${response.status}: ${errorBody}`);
-            }
+const lastGoodResponses = new Map<string, { data: unknown; fetchedAt: number }>();
 
-            return await response.json();
-        } catch (error) {
-            lastError = error as Error;
-            if (attempt < maxRetries) {
-                console.warn(`[AquaHub API] Attempt ${attempt} error: ${lastError.message}`);
-                await new Promise(r => setTimeout(r, delayMs * attempt));
-            }
+/**
+ * GET with few retries for conversational lookups. On failure returns the last good
+ * response for the same path (marked stale) if it is recent enough; otherwise throws.
+ */
+async function fetchAquaHubWithFallback<T>(path: string): Promise<{ data: T; stale: boolean; fetchedAt: string }> {
+    try {
+        const data: T = await fetchAquaHub(path, {}, 2, 500);
+        lastGoodResponses.set(path, { data, fetchedAt: Date.now() });
+        return { data, stale: false, fetchedAt: new Date().toISOString() };
+    } catch (error) {
+        const cached = lastGoodResponses.get(path);
+        if (cached && Date.now() - cached.fetchedAt <= ALERTAS_STALE_MAX_HOURS * 3600 * 1000) {
+            console.warn(`[AquaHub API] ${path} unavailable, serving cached response`);
+            return { data: cached.data as T, stale: true, fetchedAt: new Date(cached.fetchedAt).toISOString() };
         }
+        throw error;
     }
-
-    throw lastError || new Error("Request failed after retries");
-}
-
-export function getMexicoDate(): Date {
-    return new Date(new Date().toLocaleString("en-US", { timeZone: "America/Mexico_City" }));
 }
 
 // ============================================
@@ -172,6 +127,82 @@ Usa cuando el ciudadano quiera ver proveedores disponibles, comparar precios o b
     }
 });
 
+export interface Cotizacion {
+    proveedor_id: string;
+    proveedor: string;
+    cantidad_litros: number;
+    precio_por_litro: number;
+    subtotal: number;
+    subsidio: number;
+    total: number;
+    tiempo_estimado?: string;
+}
+
+function redondearPesos(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/** litros × precio_por_litro menos el subsidio (PIPA_SUBSIDIO_PORCENTAJE con tope PIPA_SUBSIDIO_MAXIMO). */
+export function calcularCotizacion(
+    proveedor: Pick<Proveedor, "id" | "nombre" | "precio_por_litro" | "tiempo_estimado_llegada">,
+    cantidadLitros: number,
+    subsidioPorcentaje = PIPA_SUBSIDIO_PORCENTAJE,
+    subsidioMaximo = PIPA_SUBSIDIO_MAXIMO
+): Cotizacion {
+    const subtotal = redondearPesos(cantidadLitros * proveedor.precio_por_litro);
+    const subsidio = redondearPesos(Math.min(subtotal * Math.max(subsidioPorcentaje, 0) / 100, subsidioMaximo));
+    return {
+        proveedor_id: proveedor.id,
+        proveedor: proveedor.nombre,
+        cantidad_litros: cantidadLitros,
+        precio_por_litro: proveedor.precio_por_litro,
+        subtotal,
+        subsidio,
+        total: redondearPesos(subtotal - subsidio),
+        tiempo_estimado: proveedor.tiempo_estimado_llegada
+    };
+}
+
+async function cotizarPedido(proveedorId: string, cantidadLitros: number): Promise<Cotizacion> {
+    const proveedor: Proveedor = await fetchAquaHub(`/api/proveedores/${encodeURIComponent(proveedorId)}`);
+    if (!proveedor.disponible) throw new Error(`El proveedor ${proveedor.nombre} no esta disponible`);
+    return calcularCotizacion(proveedor, cantidadLitros);
+}
+
+/**
+ * COTIZAR PEDIDO - Quote before ordering
+ */
+export const cotizarPedidoTool = tool({
+    name: "cotizar_pedido",
+    description: `Calcula cuanto cuesta un pedido de agua con un proveedor.
+
+RETORNA subtotal (litros x precio_por_litro), subsidio aplicable, total a pagar y tiempo estimado.
+Usa SIEMPRE antes de crear_pedido para mostrar el total al ciudadano y pedir su confirmacion.
+Puedes llamarla con varios proveedores para comparar.`,
+    parameters: z.object({
+        proveedor_id: z.string().describe("ID del proveedor (UUID)"),
+        cantidad_litros: z.number().int().positive().describe("Cantidad de litros solicitados")
+    }),
+    execute: async ({ proveedor_id, cantidad_litros }) => {
+        console.log(`[cotizar_pedido] proveedor=${proveedor_id}, litros=${cantidad_litros}`);
+
+        try {
+            return { success: true, cotizacion: await cotizarPedido(proveedor_id, cantidad_litros) };
+        } catch (error) {
+            console.error(`[cotizar_pedido] Error:`, error);
+            return {
+                success: false,
+                error: `No se pudo cotizar el pedido: ${error instanceof Error ? error.message : 'Error desconocido'}`
+            };
+        }
+    }
+});
+
+/** Run context del agente de pedidos: los pedidos creados se guardan en la conversacion. */
+export interface PedidosRunContext {
+    pedidos: string[];
+}
+
 /**
  * CREAR PEDIDO - Creates a new water order
  */
@@ -181,45 +212,48 @@ export const crearPedidoTool = tool({
 
 REQUIERE:
 - proveedor_id: ID del proveedor seleccionado
-- nombre_ciudadano: Nombre de quien solicita
+- nombre_ciudadano: Nombre de quien recibe la pipa
 - cantidad_litros: Cantidad de agua en litros
-- precio_total: Precio total calculado
 - direccion, colonia, alcaldia: Ubicacion de entrega
 
-Usa cuando el ciudadano quiera pedir agua a un proveedor.
-IMPORTANTE: Primero usa listar_proveedores para obtener el proveedor_id.`,
+El precio y el subsidio se calculan igual que en cotizar_pedido.
+Usa SOLO despues de que el ciudadano confirmo la cotizacion.`,
     parameters: z.object({
         proveedor_id: z.string().describe("ID del proveedor (UUID)"),
-        nombre_ciudadano: z.string().describe("Nombre del ciudadano que solicita"),
+        nombre_ciudadano: z.string().describe("Nombre de quien recibe la pipa"),
         cantidad_litros: z.number().int().positive().describe("Cantidad de litros solicitados"),
-        precio_total: z.number().positive().describe("Precio total del pedido"),
         direccion: z.string().describe("Direccion de entrega"),
         colonia: z.string().nullable().optional().describe("Colonia"),
-        alcaldia: z.string().nullable().optional().describe("Alcaldia"),
-        subsidio_aplicado: z.number().nullable().optional().default(0).describe("Monto de subsidio aplicado")
+        alcaldia: z.string().nullable().optional().describe("Alcaldia")
     }),
-    execute: async (input) => {
+    execute: async (input, runContext?: RunContext<PedidosRunContext>) => {
         console.log(`[crear_pedido] Creating order for ${input.nombre_ciudadano}`);
 
         try {
+            const cotizacion = await cotizarPedido(input.proveedor_id, input.cantidad_litros);
             const pedido: Pedido = await fetchAquaHub("/api/pedidos", {
                 method: "POST",
                 body: JSON.stringify({
                     proveedor_id: input.proveedor_id,
                     nombre_ciudadano: input.nombre_ciudadano,
                     cantidad_litros: input.cantidad_litros,
-                    precio_total: input.precio_total,
+                    precio_total: cotizacion.total,
                     direccion: input.direccion,
                     colonia: input.colonia || null,
                     alcaldia: input.alcaldia || null,
-                    subsidio_aplicado: input.subsidio_aplicado
+                    subsidio_aplicado: cotizacion.subsidio
                 })
             });
 
+            runContext?.context?.pedidos?.push(pedido.id);
+
             return {
                 success: true,
                 pedido_id: pedido.id,
                 estado: pedido.estado,
+                precio_total: cotizacion.total,
+                subsidio_aplicado: cotizacion.subsidio,
+                tiempo_estimado: cotizacion.tiempo_estimado,
                 message: `Pedido creado exitosamente. ID: ${pedido.id}. Estado: ${pedido.estado}`
             };
         } catch (error) {
@@ -332,6 +366,223 @@ Usa cuando el ciudadano quiera ver sus pedidos recientes o buscar un pedido.`,
     }
 });
 
+const reportarIncidenteParameters = z.object({
+    tipo: z.enum(["fuga", "sin_agua", "contaminacion", "infraestructura", "otro"])
+        .describe("Tipo de incidente"),
+    descripcion: z.string().describe("Descripcion detallada del incidente"),
+    direccion: z.string().nullable().optional().describe("Direccion donde ocurre el incidente"),
+    colonia: z.string().nullable().optional().describe("Colonia"),
+    alcaldia: z.string().nullable().optional().describe("Alcaldia"),
+    hogares_afectados: z.number().int().nullable().optional().default(1).describe("Numero de hogares afectados"),
+    duracion: z.string().nullable().optional().describe("Cuanto tiempo lleva el problema (ej: '2 horas', '3 dias')"),
+    latitud: z.number().nullable().optional().describe("Latitud si el usuario compartio ubicacion"),
+    longitud: z.number().nullable().optional().describe("Longitud si el usuario compartio ubicacion"),
+    photo_url: z.string().nullable().optional().describe("URL de la foto guardada (la adjunta el sistema; no la inventes)"),
+    photo_urls: z.array(z.string()).nullable().optional().describe("Todas las fotos guardadas del reporte (las adjunta el sistema; no las inventes)"),
+    photo_hashes: z.array(z.string()).nullable().optional().describe("Hash de cada foto (lo adjunta el sistema; no lo inventes)"),
+    geocode_confianza: z.number().nullable().optional().describe("Confianza de la ubicacion sacada de la direccion (la adjunta el sistema; no la inventes)")
+});
+
+export type ReportarIncidenteInput = z.input<typeof reportarIncidenteParameters>;
+
+/** Run context de quien reporta: por WhatsApp o Telegram queda ligado (hash) para avisarle cambios de estado. */
+export interface ReportanteRunContext {
+    reportante?: ChannelSender;
+}
+
+/**
+ * Saves a report through the quejas repository (Postgres, Supabase or AquaHub API).
+ * Used by the reportar_incidente tool and by the Subir Voz draft once all slots are filled.
+ */
+export async function reportarIncidente(input: ReportarIncidenteInput, reportante?: ChannelSender) {
+    console.log(`[reportar_incidente] tipo=${input.tipo}, alcaldia=${input.alcaldia}`);
+
+    const repository = getQuejasRepository();
+    try {
+        const incidente = await repository.create({
+            tipo: input.tipo,
+            descripcion: input.descripcion,
+            direccion: input.direccion,
+            colonia: input.colonia,
+            alcaldia: input.alcaldia,
+            latitud: input.latitud,
+            longitud: input.longitud,
+            hogares_afectados: input.hogares_afectados,
+            duracion: input.duracion,
+            photo_url: input.photo_url,
+            photo_urls: input.photo_urls,
+            photo_hashes: input.photo_hashes,
+            geocode_confianza: input.geocode_confianza
+        });
+        if (reportante) await followReport(incidente.id, reportante, "creado");
+        return {
+            success: true,
+            incidente_id: incidente.id,
+            estado: incidente.estado,
+            message: `Reporte guardado. Tu voz se vera en el mapa. ID: ${incidente.id}.`
+        };
+    } catch (error) {
+        console.error(`[reportar_incidente] ${repository.name} error:`, error);
+        return {
+            success: false,
+            error: `No se pudo guardar el reporte: ${error instanceof Error ? error.message : "Error desconocido"}`
+        };
+    }
+}
+
+// ============================================
+// Duplicate Detection (quejas)
+// ============================================
+
+export interface ReporteSimilar {
+    id: string;
+    tipo: string;
+    descripcion: string | null;
+    colonia: string | null;
+    alcaldia: string | null;
+    hogares_afectados: number;
+    creado_en: string;
+    /** null cuando la coincidencia fue por colonia (sin coordenadas) o solo por la foto */
+    distancia_m: number | null;
+    /** true si trae la misma foto (hash perceptual), aunque este en otro lugar o sea de otro tipo */
+    misma_foto?: boolean;
+}
+
+export interface BuscarSimilaresInput {
+    tipo: TipoIncidente;
+    latitud?: number | null;
+    longitud?: number | null;
+    colonia?: string | null;
+    alcaldia?: string | null;
+    /** Hashes perceptuales de las fotos del reporte nuevo */
+    photo_hashes?: string[] | null;
+}
+
+function toReporteSimilar(i: Incidente, distancia: number | null): ReporteSimilar {
+    return {
+        id: i.id,
+        tipo: i.tipo,
+        descripcion: i.descripcion ?? null,
+        colonia: i.colonia ?? null,
+        alcaldia: i.alcaldia ?? null,
+        hogares_afectados: i.hogares_afectados,
+        creado_en: i.creado_en,
+        distancia_m: distancia != null ? Math.round(distancia) : null
+    };
+}
+
+// Haversine si hay coordenadas; si no, misma colonia (y misma alcaldia si ambas la traen)
+function filterSimilares(incidentes: Incidente[], input: BuscarSimilaresInput): ReporteSimilar[] {
+    const hasCoords = input.latitud != null && input.longitud != null;
+    const colonia = input.colonia ? normalizePlaceName(input.colonia) : null;
+    const alcaldia = input.alcaldia ? normalizePlaceName(input.alcaldia) : null;
+
+    const similares: ReporteSimilar[] = [];
+    for (const i of incidentes) {
+        let distancia: number | null = null;
+        if (hasCoords) {
+            if (i.latitud == null || i.longitud == null) continue;
+            distancia = haversineMeters(input.latitud!, input.longitud!, i.latitud, i.longitud);
+            if (distancia > DUPLICATE_RADIUS_METERS) continue;
+        } else {
+            if (!colonia || !i.colonia || normalizePlaceName(i.colonia) !== colonia) continue;
+            if (alcaldia && i.alcaldia && normalizePlaceName(i.alcaldia) !== alcaldia) continue;
+        }
+        similares.push(toReporteSimilar(i, distancia));
+    }
+    return similares.sort((a, b) => (a.distancia_m ?? 0) - (b.distancia_m ?? 0));
+}
+
+// La misma foto (reenviada o recomprimida) es el mismo problema aunque la ubicacion o el tipo difieran
+function filterMismaFoto(incidentes: Incidente[], input: BuscarSimilaresInput): ReporteSimilar[] {
+    const hashes = input.photo_hashes ?? [];
+    const hasCoords = input.latitud != null && input.longitud != null;
+    return incidentes
+        .filter((i) => i.photo_hashes?.some((h) => hashes.some((mine) => isSamePicture(h, mine))))
+        .map((i) => {
+            const distancia = hasCoords && i.latitud != null && i.longitud != null
+                ? haversineMeters(input.latitud!, input.longitud!, i.latitud, i.longitud)
+                : null;
+            return { ...toReporteSimilar(i, distancia), misma_foto: true };
+        });
+}
+
+/**
+ * Finds recent quejas of the same tipo near the given point (or in the same colonia when
+ * there are no coordinates), plus any recent queja carrying the same photo; those come
+ * first. Never throws: a failed lookup must not block a new report.
+ */
+export async function buscarReportesSimilares(input: BuscarSimilaresInput): Promise<ReporteSimilar[]> {
+    const hasCoords = input.latitud != null && input.longitud != null;
+    const hasPhotos = !!input.photo_hashes?.length;
+    if (!hasCoords && !input.colonia && !hasPhotos) return [];
+
+    try {
+        const repository = getQuejasRepository();
+        const since = new Date(Date.now() - DUPLICATE_WINDOW_HOURS * 3600000);
+        const mismaFoto = hasPhotos
+            ? filterMismaFoto(await repository.query({ since, limit: 200 }), input)
+            : [];
+        const cercanos = hasCoords || input.colonia
+            ? filterSimilares(await repository.query({
+                tipo: input.tipo,
+                since,
+                bbox: hasCoords ? boundingBox(input.latitud!, input.longitud!, DUPLICATE_RADIUS_METERS) : undefined,
+                limit: 200
+            }), input)
+            : [];
+        const ids = new Set(mismaFoto.map((s) => s.id));
+        return [...mismaFoto, ...cercanos.filter((s) => !ids.has(s.id))];
+    } catch (e) {
+        console.error(`[buscar_similares] Error:`, e);
+        return [];
+    }
+}
+
+/**
+ * Suma un afectado a un reporte existente (cuando el ciudadano confirma que es el mismo problema).
+ */
+export async function sumarAfectadoAReporte(id: string, reportante?: ChannelSender) {
+    console.log(`[sumar_afectado] reporte=${id}`);
+
+    try {
+        const incidente = await getQuejasRepository().incrementAfectados(id);
+        if (!incidente) return { success: false, error: `No existe el reporte ${id}` };
+        if (reportante) await followReport(incidente.id, reportante, "sumado");
+        return {
+            success: true,
+            incidente_id: incidente.id,
+            hogares_afectados: incidente.hogares_afectados,
+            message: `Tu voz se sumo al reporte existente. Ya son ${incidente.hogares_afectados} afectados.`
+        };
+    } catch (error) {
+        console.error(`[sumar_afectado] Error:`, error);
+        return { success: false, error: `No se pudo sumar al reporte: ${error instanceof Error ? error.message : "Error desconocido"}` };
+    }
+}
+
+/**
+ * Typed address without coordinates: geocodes it so the report gets a pin. Only a
+ * clear match fills latitud/longitud and geocode_confianza; an ambiguous or missing
+ * one keeps the address as typed (asking the citizen is the Subir Voz draft's job).
+ */
+async function ubicarDireccionEscrita<T extends ReportarIncidenteInput>(input: T): Promise<T> {
+    if (input.latitud != null && input.longitud != null) return input;
+    if (!input.direccion) return input;
+
+    const outcome = await geocodeAddress(input.direccion, { colonia: input.colonia, alcaldia: input.alcaldia });
+    if (outcome.status !== "resolved") return input;
+    const { match } = outcome;
+    return {
+        ...input,
+        latitud: match.latitud,
+        longitud: match.longitud,
+        colonia: input.colonia ?? match.colonia ?? null,
+        alcaldia: input.alcaldia ?? match.alcaldia ?? null,
+        geocode_confianza: match.confianza
+    };
+}
+
 /**
  * REPORTAR INCIDENTE - Report a water incident
  */
@@ -349,124 +600,87 @@ TIPOS DE INCIDENTE:
 REQUIERE: tipo, descripcion, direccion/colonia/alcaldia
 Opcionales: hogares_afectados, duracion, latitud, longitud
 
+Si solo hay direccion escrita, el sistema la ubica en el mapa cuando el resultado es claro; si no, se guarda tal cual.
+La respuesta trae reportes_similares si ya habia reportes parecidos cerca.
+
 Usa cuando el ciudadano quiera reportar un problema de agua.`,
-    parameters: z.object({
-        tipo: z.enum(["fuga", "sin_agua", "contaminacion", "infraestructura", "otro"])
-            .describe("Tipo de incidente"),
-        descripcion: z.string().describe("Descripcion detallada del incidente"),
-        direccion: z.string().nullable().optional().describe("Direccion donde ocurre el incidente"),
-        colonia: z.string().nullable().optional().describe("Colonia"),
-        alcaldia: z.string().nullable().optional().describe("Alcaldia"),
-        hogares_afectados: z.number().int().nullable().optional().default(1).describe("Numero de hogares afectados"),
-        duracion: z.string().nullable().optional().describe("Cuanto tiempo lleva el problema (ej: '2 horas', '3 dias')"),
-        latitud: z.number().nullable().optional().describe("Latitud si el usuario compartio ubicacion"),
-        longitud: z.number().nullable().optional().describe("Longitud si el usuario compartio ubicacion")
-    }),
-    execute: async (input) => {
-        console.log(`[reportar_incidente] tipo=${input.tipo}, alcaldia=${input.alcaldia}`);
-
-        const texto = [input.descripcion, input.direccion].filter(Boolean).join(". ");
-        const tipoSupabase = mapTipoToSupabase(input.tipo);
-
-        const pool = getDbPool();
-        if (pool) {
-            console.log(`[reportar_incidente] Saving to Postgres (public.quejas)`);
-            try {
-                const res = await pool.query(
-                    `INSERT INTO public.quejas (texto, tipo, alcaldia, colonia, latitud, longitud)
-                     VALUES ($1, $2::tipo_queja, $3, $4, $5, $6)
-                     RETURNING id`,
-                    [
-                        texto,
-                        tipoSupabase,
-                        input.alcaldia || null,
-                        input.colonia || null,
-                        input.latitud ?? null,
-                        input.longitud ?? null
-                    ]
-                );
-                const id = res.rows?.[0]?.id;
-                return {
-                    success: true,
-                    incidente_id: id,
-                    estado: "reportado",
-                    message: `Reporte guardado. Tu voz se vera en el mapa. ID: ${id ?? "ok"}.`
-                };
-            } catch (e) {
-                console.error(`[reportar_incidente] Postgres error:`, e);
-                return {
-                    success: false,
-                    error: `No se pudo guardar el reporte: ${e instanceof Error ? e.message : "Error desconocido"}`
-                };
-            }
-        }
+    parameters: reportarIncidenteParameters,
+    execute: async (input, runContext?: RunContext<ReportanteRunContext>) => {
+        const ubicada = await ubicarDireccionEscrita(input);
+        const similares = await buscarReportesSimilares(ubicada);
+        const result = await reportarIncidente(ubicada, runContext?.context?.reportante);
+        return similares.length > 0 && result.success ? { ...result, reportes_similares: similares.slice(0, 3) } : result;
+    }
+});
 
-        const supabase = getSupabase();
-        if (supabase) {
-            console.log(`[reportar_incidente] Saving to Supabase (quejas)`);
-            const row = {
-                texto,
-                tipo: tipoSupabase,
-                alcaldia: input.alcaldia || null,
-                colonia: input.colonia || null,
-                latitud: input.latitud ?? null,
-                longitud: input.longitud ?? null,
-                tweet_id: null,
-                username: null,
-                user_name: null
-            };
-            try {
-                const { data, error } = await supabase.from("quejas").insert(row).select("id").single();
-                if (error) {
-                    console.error(`[reportar_incidente] Supabase error:`, error);
-                    return {
-                        success: false,
-                        error: `No se pudo guardar el reporte: ${error.message}`
-                    };
-                }
-                return {
-                    success: true,
-                    incidente_id: data?.id,
-                    estado: "reportado",
-                    message: `Reporte guardado. Tu voz se vera en el mapa. ID: ${data?.id ?? "ok"}.`
-                };
-            } catch (e) {
-                console.error(`[reportar_incidente] Error:`, e);
-                return {
-                    success: false,
-                    error: `No se pudo reportar el incidente: ${e instanceof Error ? e.message : "Error desconocido"}`
-                };
-            }
+/** "hace 5 min", "hace 3 h", "hace 2 dias" */
+export function describirAntiguedad(iso: string, now = Date.now()): string {
+    const minutes = Math.max(0, Math.floor((now - new Date(iso).getTime()) / 60000));
+    if (minutes < 60) return `hace ${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `hace ${hours} h`;
+    const days = Math.floor(hours / 24);
+    return days === 1 ? "hace 1 dia" : `hace ${days} dias`;
+}
+
+/**
+ * MIS REPORTES - Reports filed (or joined) from this WhatsApp number
+ */
+export const misReportesTool = tool({
+    name: "mis_reportes",
+    description: `Lista los reportes que el ciudadano subio (o a los que sumo su voz) desde este chat.
+
+RETORNA por reporte: tipo, ubicacion, estado actual, hace cuanto se subio, afectados y cuantos reportes parecidos hay cerca.
+Usa cuando pregunte "¿que paso con lo que reporte?", "mis reportes", "como va mi reporte".`,
+    parameters: z.object({}),
+    execute: async (_input, runContext?: RunContext<ReportanteRunContext>) => {
+        const reportante = runContext?.context?.reportante;
+        if (!reportante) {
+            return { success: false, error: "Solo se pueden consultar los reportes hechos por WhatsApp o Telegram" };
         }
+        const senderId = hashSender(reportante.senderKey);
+        console.log(`[mis_reportes] sender=${senderId.substring(0, 8)}`);
 
-        console.log(`[reportar_incidente] No DB configured, using AquaHub API`);
-        const payload = {
-            tipo: input.tipo,
-            descripcion: input.descripcion,
-            direccion: input.direccion || null,
-            colonia: input.colonia || null,
-            alcaldia: input.alcaldia || null,
-            hogares_afectados: input.hogares_afectados,
-            duracion: input.duracion || null
-        };
         try {
-            const incidente: Incidente = await fetchAquaHub("/api/incidentes", {
-                method: "POST",
-                body: JSON.stringify(payload)
-            });
+            const links = await getReportFollowerStore().listBySender(senderId, 5);
+            const repository = getQuejasRepository();
+            const reportes = [];
+            for (const link of links) {
+                const incidente = await repository.getById(link.quejaId);
+                if (!incidente) continue;
+                const similares = (await buscarReportesSimilares({
+                    tipo: incidente.tipo,
+                    latitud: incidente.latitud,
+                    longitud: incidente.longitud,
+                    colonia: incidente.colonia
+                })).filter(r => r.id !== incidente.id);
+                reportes.push({
+                    tipo: incidente.tipo,
+                    ubicacion: incidente.colonia || incidente.direccion || incidente.alcaldia || null,
+                    descripcion: incidente.descripcion,
+                    estado: incidente.estado,
+                    subido: describirAntiguedad(incidente.creado_en),
+                    actualizado: incidente.resuelto_en ? describirAntiguedad(incidente.resuelto_en)
+                        : incidente.en_progreso_en ? describirAntiguedad(incidente.en_progreso_en)
+                        : incidente.reconocido_en ? describirAntiguedad(incidente.reconocido_en)
+                        : null,
+                    relacion: link.relacion,
+                    hogares_afectados: incidente.hogares_afectados,
+                    reportes_parecidos_cerca: similares.length
+                });
+            }
 
             return {
                 success: true,
-                incidente_id: incidente.id,
-                estado: incidente.estado,
-                message: `Incidente reportado exitosamente. ID: ${incidente.id}. Un equipo revisara tu reporte.`
+                reportes,
+                count: reportes.length,
+                message: reportes.length === 0 ? "No hay reportes subidos desde este numero" : undefined
             };
         } catch (error) {
-            console.error(`[reportar_incidente] Error:`, error);
-            console.error(`[reportar_incidente] Request payload (for backend debug):`, JSON.stringify(payload));
+            console.error(`[mis_reportes] Error:`, error);
             return {
                 success: false,
-                error: `No se pudo reportar el incidente: ${error instanceof Error ? error.message : "Error desconocido"}`
+                error: `No se pudieron consultar tus reportes: ${error instanceof Error ? error.message : 'Error desconocido'}`
             };
         }
     }
@@ -488,111 +702,39 @@ Usa cuando el ciudadano quiera saber si hay problemas de agua reportados en su z
     execute: async ({ alcaldia, tipo }) => {
         console.log(`[consultar_incidentes] alcaldia=${alcaldia}, tipo=${tipo}`);
 
-        const pool = getDbPool();
-        if (pool) {
-            try {
-                const conditions: string[] = [];
-                const params: unknown[] = [];
-                let idx = 0;
-                if (alcaldia) {
-                    idx++;
-                    conditions.push(`alcaldia = $${idx}`);
-                    params.push(alcaldia);
-                }
-                if (tipo) {
-                    idx++;
-                    conditions.push(`tipo = $${idx}::tipo_queja`);
-                    params.push(mapTipoToSupabase(tipo));
-                }
-                const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
-                const sql = `SELECT id, texto, tipo, alcaldia, colonia, latitud, longitud, created_at
-                            FROM public.quejas${where} ORDER BY created_at DESC LIMIT 10`;
-                const res = await pool.query(sql, params);
-                const incidentes = (res.rows || []).map((r: { id: number; texto: string; tipo: string; alcaldia: string | null; colonia: string | null; latitud: number | null; longitud: number | null; created_at: string }) => ({
-                    id: String(r.id),
-                    tipo: r.tipo,
-                    estado: "reportado",
-                    descripcion: r.texto,
-                    alcaldia: r.alcaldia,
-                    colonia: r.colonia,
-                    latitud: r.latitud,
-                    longitud: r.longitud,
-                    creado_en: r.created_at
-                }));
-                return {
-                    success: true,
-                    incidentes,
-                    estadisticas: { total: incidentes.length },
-                    count: incidentes.length
-                };
-            } catch (e) {
-                console.error(`[consultar_incidentes] Postgres error:`, e);
-                return { success: false, error: e instanceof Error ? e.message : "Error desconocido" };
-            }
-        }
-
-        const supabase = getSupabase();
-        if (supabase) {
-            try {
-                let query = supabase.from("quejas").select("id, texto, tipo, alcaldia, colonia, latitud, longitud, created_at").order("created_at", { ascending: false }).limit(10);
-                if (alcaldia) query = query.eq("alcaldia", alcaldia);
-                if (tipo) query = query.eq("tipo", mapTipoToSupabase(tipo));
-                const { data: rows, error } = await query;
-                if (error) {
-                    console.error(`[consultar_incidentes] Supabase error:`, error);
-                    return { success: false, error: error.message };
-                }
-                const incidentes = (rows || []).map((r: { id: number; texto: string; tipo: string; alcaldia: string | null; colonia: string | null; latitud: number | null; longitud: number | null; created_at: string }) => ({
-                    id: String(r.id),
-                    tipo: r.tipo,
-                    estado: "reportado",
-                    descripcion: r.texto,
-                    alcaldia: r.alcaldia,
-                    colonia: r.colonia,
-                    latitud: r.latitud,
-                    longitud: r.longitud,
-                    creado_en: r.created_at
-                }));
-                return {
-                    success: true,
-                    incidentes,
-                    estadisticas: { total: incidentes.length },
-                    count: incidentes.length
-                };
-            } catch (e) {
-                console.error(`[consultar_incidentes] Error:`, e);
-                return {
-                    success: false,
-                    error: e instanceof Error ? e.message : "Error desconocido"
-                };
-            }
-        }
-
         try {
-            const params = new URLSearchParams();
-            if (alcaldia) params.set("alcaldia", alcaldia);
-            if (tipo) params.set("tipo", tipo);
-            params.set("limit", "10");
+            const incidentes = await getQuejasRepository().query({ alcaldia, tipo, limit: 10 });
 
-            const [incidentes, estadisticas] = await Promise.all([
-                fetchAquaHub(`/api/incidentes?${params.toString()}`),
-                fetchAquaHub("/api/incidentes/estadisticas")
-            ]);
+            const porTipo: Record<string, number> = {};
+            const porEstado: Record<string, number> = {};
+            for (const i of incidentes) {
+                porTipo[i.tipo] = (porTipo[i.tipo] ?? 0) + 1;
+                porEstado[i.estado] = (porEstado[i.estado] ?? 0) + 1;
+            }
 
             return {
                 success: true,
-                incidentes: (incidentes as Incidente[]).map(i => ({
+                incidentes: incidentes.map(i => ({
                     id: i.id,
                     tipo: i.tipo,
                     estado: i.estado,
                     descripcion: i.descripcion,
+                    direccion: i.direccion,
                     alcaldia: i.alcaldia,
                     colonia: i.colonia,
+                    latitud: i.latitud,
+                    longitud: i.longitud,
                     hogares_afectados: i.hogares_afectados,
-                    creado_en: i.creado_en
+                    duracion: i.duracion,
+                    photo_url: i.photo_url,
+                    photo_urls: i.photo_urls,
+                    creado_en: i.creado_en,
+                    reconocido_en: i.reconocido_en,
+                    en_progreso_en: i.en_progreso_en,
+                    resuelto_en: i.resuelto_en
                 })),
-                estadisticas,
-                count: (incidentes as Incidente[]).length
+                estadisticas: { total: incidentes.length, por_tipo: porTipo, por_estado: porEstado },
+                count: incidentes.length
             };
         } catch (error) {
             console.error(`[consultar_incidentes] Error:`, error);
@@ -617,26 +759,32 @@ TIPOS DE ALERTA:
 - programa: Programas de subsidio o apoyo
 - emergencia: Emergencias hidricas
 
-Usa cuando el ciudadano pregunte por alertas, noticias, avisos o situacion del agua en su zona.`,
+Usa cuando el ciudadano pregunte por alertas, noticias, avisos o situacion del agua en su zona.
+Si pasas alcaldia, solo regresa las alertas de esa zona y las generales (sin zona).`,
     parameters: z.object({
         tipo: z.enum(["escasez", "conservacion", "programa", "emergencia"]).nullable().optional()
-            .describe("Filtrar por tipo de alerta")
+            .describe("Filtrar por tipo de alerta"),
+        alcaldia: z.string().nullable().optional().describe("Alcaldia de CDMX para filtrar por zona")
     }),
-    execute: async ({ tipo }) => {
-        console.log(`[consultar_alertas] tipo=${tipo}`);
+    execute: async ({ tipo, alcaldia }) => {
+        console.log(`[consultar_alertas] tipo=${tipo}, alcaldia=${alcaldia}`);
 
         try {
             const params = new URLSearchParams();
             if (tipo) params.set("tipo", tipo);
             params.set("limit", "10");
 
-            const alertas: Alerta[] = await fetchAquaHub(`/api/alertas?${params.toString()}`);
+            const { data, stale, fetchedAt } = await fetchAquaHubWithFallback<Alerta[]>(`/api/alertas?${params.toString()}`);
+            const alertas = (data ?? []).filter(a => alertaAplicaEnAlcaldia(a, alcaldia));
 
-            if (!alertas || alertas.length === 0) {
+            if (alertas.length === 0) {
                 return {
                     success: true,
                     alertas: [],
-                    message: "No hay alertas activas en este momento"
+                    desactualizado: stale,
+                    message: alcaldia
+                        ? `No hay alertas activas para ${alcaldia} en este momento`
+                        : "No hay alertas activas en este momento"
                 };
             }
 
@@ -649,18 +797,109 @@ Usa cuando el ciudadano pregunte por alertas, noticias, avisos o situacion del a
                     zonas: a.zonas_objetivo,
                     fecha: a.enviado_en
                 })),
-                count: alertas.length
+                count: alertas.length,
+                desactualizado: stale,
+                consultado_en: fetchedAt
             };
         } catch (error) {
             console.error(`[consultar_alertas] Error:`, error);
             return {
                 success: false,
+                servicio_no_disponible: true,
                 error: `No se pudieron consultar las alertas: ${error instanceof Error ? error.message : 'Error desconocido'}`
             };
         }
     }
 });
 
+/** Alertas sin zonas son generales; con zonas, aplica si alguna coincide con la alcaldia. */
+export function alertaAplicaEnAlcaldia(alerta: Pick<Alerta, "zonas_objetivo">, alcaldia?: string | null): boolean {
+    if (!alcaldia || !alerta.zonas_objetivo || alerta.zonas_objetivo.length === 0) return true;
+    const target = normalizePlaceName(alcaldia);
+    return alerta.zonas_objetivo.some(zona => normalizePlaceName(zona) === target);
+}
+
+/** Run context del agente de alertas: solo en WhatsApp o Telegram hay a quien enviarle avisos. */
+export interface AlertasRunContext {
+    subscriber?: ChannelSender;
+}
+
+const TIPOS_ALERTA = ["escasez", "conservacion", "programa", "emergencia"] as const;
+
+/**
+ * SUSCRIBIR ALERTAS - Subscribe this sender to alerts by alcaldia
+ */
+export const suscribirAlertasTool = tool({
+    name: "suscribir_alertas",
+    description: `Suscribe al ciudadano para recibir en este chat las alertas nuevas de una o varias alcaldias.
+
+Se suman a las alcaldias que ya tenga. Sin tipos = todas las alertas.
+Usa cuando pida "avisame", "mandame alertas", "quiero recibir avisos" de una zona.`,
+    parameters: z.object({
+        alcaldias: z.array(z.string()).min(1).describe("Alcaldias de CDMX (ej: ['Coyoacán'])"),
+        tipos: z.array(z.enum(TIPOS_ALERTA)).nullable().optional().describe("Solo estos tipos de alerta (null = todas)")
+    }),
+    execute: async ({ alcaldias, tipos }, runContext?: RunContext<AlertasRunContext>) => {
+        const subscriber = runContext?.context?.subscriber;
+        if (!subscriber) {
+            return { success: false, error: "Las alertas solo se pueden recibir por WhatsApp o Telegram" };
+        }
+        try {
+            const subscription = await subscribe({ sender: subscriber, alcaldias, tipos });
+            return {
+                success: true,
+                alcaldias: subscription.alcaldias,
+                tipos: subscription.tipos.length > 0 ? subscription.tipos : "todas",
+                baja: "Responder BAJA en cualquier momento cancela la suscripcion"
+            };
+        } catch (error) {
+            console.error(`[suscribir_alertas] Error:`, error);
+            return {
+                success: false,
+                error: `No se pudo guardar la suscripcion: ${error instanceof Error ? error.message : 'Error desconocido'}`
+            };
+        }
+    }
+});
+
+/**
+ * CANCELAR SUSCRIPCION ALERTAS - Same as replying BAJA
+ */
+export const cancelarSuscripcionAlertasTool = tool({
+    name: "cancelar_suscripcion_alertas",
+    description: `Cancela la suscripcion a alertas del ciudadano (todas las alcaldias).
+Usa cuando pida dejar de recibir alertas o avisos.`,
+    parameters: z.object({}),
+    execute: async (_input, runContext?: RunContext<AlertasRunContext>) => {
+        const subscriber = runContext?.context?.subscriber;
+        if (!subscriber) {
+            return { success: false, error: "Las alertas solo se pueden recibir por WhatsApp o Telegram" };
+        }
+        try {
+            const removed = await unsubscribe(subscriber.senderKey);
+            return { success: true, estaba_suscrito: removed };
+        } catch (error) {
+            console.error(`[cancelar_suscripcion_alertas] Error:`, error);
+            return {
+                success: false,
+                error: `No se pudo cancelar la suscripcion: ${error instanceof Error ? error.message : 'Error desconocido'}`
+            };
+        }
+    }
+});
+
+/** Texto para el contexto del agente: a que esta suscrito el remitente (o null). */
+export async function describeAlertSubscription(subscriberId: string): Promise<string | null> {
+    try {
+        const subscription = await getSubscriptionStore().get(subscriberId);
+        if (!subscription) return null;
+        return `${subscription.alcaldias.join(", ")} (${subscription.tipos.join(", ") || "todas las alertas"})`;
+    } catch (error) {
+        console.error(`[Alertas] Could not load subscription:`, error);
+        return null;
+    }
+}
+
 /**
  * CONSULTAR PREDICCION - Check demand prediction for an area
  */
@@ -681,15 +920,15 @@ Usa cuando el ciudadano pregunte sobre la situacion del agua en su alcaldia o qu
         console.log(`[consultar_prediccion] alcaldia=${alcaldia}`);
 
         try {
-            const prediccion: PrediccionResponse = await fetchAquaHub(
+            const { data: prediccion, stale, fetchedAt } = await fetchAquaHubWithFallback<PrediccionResponse>(
                 `/api/predicciones/demanda/${encodeURIComponent(alcaldia)}`
             );
 
             const intensidadEmoji: Record<string, string> = {
-                baja: "verde",
-                media: "amarillo",
-                alta: "naranja",
-                critica: "rojo"
+                baja: "🟢",
+                media: "🟡",
+                alta: "🟠",
+                critica: "🔴"
             };
 
             return {
@@ -700,12 +939,15 @@ Usa cuando el ciudadano pregunte sobre la situacion del agua en su alcaldia o qu
                 nivel: intensidadEmoji[prediccion.intensidad] || prediccion.intensidad,
                 confianza: prediccion.confianza,
                 recomendaciones: prediccion.recomendaciones,
-                factores: prediccion.factores
+                factores: prediccion.factores,
+                desactualizado: stale,
+                consultado_en: stale ? fetchedAt : prediccion.timestamp
             };
         } catch (error) {
             console.error(`[consultar_prediccion] Error:`, error);
             return {
                 success: false,
+                servicio_no_disponible: true,
                 error: `No se pudo consultar la prediccion: ${error instanceof Error ? error.message : 'Error desconocido'}`
             };
         }
@@ -754,12 +996,16 @@ Usa cuando el ciudadano quiera cancelar un pedido.`,
 
 export const nativeTools = [
     listarProveedoresTool,
+    cotizarPedidoTool,
     crearPedidoTool,
     consultarPedidoTool,
     listarPedidosTool,
     reportarIncidenteTool,
     consultarIncidentesTool,
+    misReportesTool,
     consultarAlertasTool,
     consultarPrediccionTool,
+    suscribirAlertasTool,
+    cancelarSuscripcionAlertasTool,
     cancelarPedidoTool
 ];
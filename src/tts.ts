@@ -0,0 +1,180 @@
+// ============================================
+// WaterHub TTS - spoken replies for citizens who send voice notes
+// ============================================
+// When the turn came in as a voice note, the reply is also sent back as a voice
+// note (after the text). The provider only has to return audio in any format
+// ffmpeg can read; audio.ts turns it into OGG/Opus like WhatsApp's own notes.
+// TTS_PROVIDER=none (default, text only) | openai (OPENAI_API_KEY) | command (TTS_COMMAND, e.g. piper)
+
+import { spawn } from "node:child_process";
+import { convertAudioToOggOpus } from "./audio.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TtsProvider {
+    readonly name: string;
+    /** Speech for `text` in any audio format ffmpeg understands; null on failure. */
+    synthesize(text: string): Promise<Buffer | null>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const OPENAI_SPEECH_API = "https://api.openai.com/v1/audio/speech";
+const TTS_MODEL = process.env.TTS_MODEL || "gpt-4o-mini-tts";
+const TTS_VOICE = process.env.TTS_VOICE || "coral";
+const TTS_COMMAND = process.env.TTS_COMMAND || "";
+// Una nota de voz larga tampoco se escucha: se lee hasta aqui (corta en fin de oracion)
+const TTS_MAX_CHARS = Number(process.env.TTS_MAX_CHARS || 1200);
+
+// ============================================
+// Providers
+// ============================================
+
+export class OpenAITtsProvider implements TtsProvider {
+    readonly name = "openai";
+
+    constructor(
+        private readonly apiKey = process.env.OPENAI_API_KEY || "",
+        private readonly model = TTS_MODEL,
+        private readonly voice = TTS_VOICE
+    ) {}
+
+    async synthesize(text: string): Promise<Buffer | null> {
+        if (!this.apiKey) return null;
+        try {
+            const res = await fetch(OPENAI_SPEECH_API, {
+                method: "POST",
+                headers: { Authorization: `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    model: this.model,
+                    voice: this.voice,
+                    input: text,
+                    instructions: "Habla en español de México, con calma y claridad, en tono cálido.",
+                    response_format: "wav"
+                }),
+                signal: AbortSignal.timeout(60000)
+            });
+            if (!res.ok) {
+                const err = await res.text();
+                console.error(`[TTS] OpenAI error ${res.status}:`, err.substring(0, 200));
+                return null;
+            }
+            return Buffer.from(await res.arrayBuffer());
+        } catch (e) {
+            console.error("[TTS] OpenAI synthesize error:", e);
+            return null;
+        }
+    }
+}
+
+/** Local engine: TTS_COMMAND reads the text on stdin and writes audio (e.g. WAV) to stdout. */
+export class CommandTtsProvider implements TtsProvider {
+    readonly name = "command";
+
+    constructor(private readonly command = TTS_COMMAND, private readonly timeoutMs = 60000) {}
+
+    synthesize(text: string): Promise<Buffer | null> {
+        return new Promise((resolve) => {
+            const child = spawn(this.command, { shell: true, stdio: ["pipe", "pipe", "pipe"] });
+            const chunks: Buffer[] = [];
+            let stderr = "";
+            const timer = setTimeout(() => child.kill("SIGKILL"), this.timeoutMs);
+            child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+            child.stderr.on("data", (chunk: Buffer) => { stderr += chunk.toString(); });
+            child.on("error", (e) => {
+                clearTimeout(timer);
+                console.error(`[TTS] ${this.command} failed to start:`, e.message);
+                resolve(null);
+            });
+            child.on("close", (code) => {
+                clearTimeout(timer);
+                if (code === 0 && chunks.length > 0) {
+                    resolve(Buffer.concat(chunks));
+                } else {
+                    console.error(`[TTS] Command exited with ${code}: ${stderr.substring(0, 200)}`);
+                    resolve(null);
+                }
+            });
+            child.stdin.on("error", () => {});
+            child.stdin.end(text);
+        });
+    }
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+export function createTtsProvider(kind = process.env.TTS_PROVIDER || "none"): TtsProvider | null {
+    switch (kind) {
+        case "openai":
+            if (!process.env.OPENAI_API_KEY) throw new Error("TTS_PROVIDER=openai requires OPENAI_API_KEY");
+            return new OpenAITtsProvider();
+        case "command":
+            if (!TTS_COMMAND) throw new Error("TTS_PROVIDER=command requires TTS_COMMAND (reads text on stdin, writes audio to stdout)");
+            return new CommandTtsProvider();
+        case "none":
+            return null;
+        default:
+            throw new Error(`Unknown TTS_PROVIDER: ${kind} (use none, openai or command)`);
+    }
+}
+
+let ttsProvider: TtsProvider | null | undefined;
+
+export function getTtsProvider(): TtsProvider | null {
+    if (ttsProvider === undefined) {
+        ttsProvider = createTtsProvider();
+        if (ttsProvider) console.log(`[TTS] Using ${ttsProvider.name} voice replies`);
+    }
+    return ttsProvider;
+}
+
+/** Tests / custom wiring. */
+export function setTtsProvider(provider: TtsProvider | null): void {
+    ttsProvider = provider;
+}
+
+// ============================================
+// Voice Notes
+// ============================================
+
+/**
+ * What gets read aloud: no links (they stay in the text message), no markdown
+ * marks or emojis, and cut at a sentence end once it passes TTS_MAX_CHARS.
+ */
+export function toSpeechText(text: string, maxChars = TTS_MAX_CHARS): string {
+    let speech = text
+        .replace(/https?:\/\/\S+/g, "")
+        .replace(/[*_~`]/g, "")
+        .replace(/\p{Extended_Pictographic}️?/gu, "")
+        .replace(/[ \t]+/g, " ")
+        .replace(/ +([.,;:!?])/g, "$1")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+    if (speech.length > maxChars) {
+        const cut = speech.slice(0, maxChars);
+        const end = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("\n"), cut.lastIndexOf("? "), cut.lastIndexOf("! "));
+        speech = (end > maxChars / 2 ? cut.slice(0, end + 1) : cut).trim();
+    }
+    return speech;
+}
+
+/** The reply as an OGG/Opus data URL, or null if TTS is off or anything failed. */
+export async function synthesizeVoiceNote(text: string, provider = getTtsProvider()): Promise<string | null> {
+    if (!provider) return null;
+    const speech = toSpeechText(text);
+    if (!speech) return null;
+    const audio = await provider.synthesize(speech);
+    if (!audio) return null;
+    const ogg = await convertAudioToOggOpus(audio);
+    if (!ogg) {
+        console.error("[TTS] ffmpeg could not convert the speech to OGG/Opus");
+        return null;
+    }
+    return `data:audio/ogg;base64,${ogg.toString("base64")}`;
+}
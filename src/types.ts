@@ -2,20 +2,30 @@
 // WaterHub Agent Types - Community Map / Voice
 // ============================================
 
+/** Where a message came from (ChatRequest / WorkflowInput metadata) */
+export type ChannelKind = 'whatsapp' | 'telegram' | 'web' | 'api';
+
 export interface ChatRequest {
     message: string;
     /** URL o data URL de imagen (para reconocer tipo: inundación, fuga, etc.) */
     image_url?: string;
+    /** Varias fotos en un solo turno (album); se suman a image_url */
+    image_urls?: string[];
+    /** Ubicacion compartida por el cliente (pin del mapa) */
+    location?: ReportLocation;
+    /** Opcion elegida de un attachment "choices" de la respuesta anterior */
+    choice?: { id: string; title: string };
     conversationId?: string;
     contactId?: number;
     metadata?: {
         whatsapp?: string;
-        channel?: 'whatsapp' | 'web' | 'api';
+        channel?: ChannelKind;
     };
 }
 
 export interface ChatResponse {
     response: string;
+    attachments?: WorkflowAttachment[];
     classification?: Classification;
     conversationId: string;
     error?: string;
@@ -25,7 +35,7 @@ export interface ChatResponse {
     };
 }
 
-export type Classification = "subir_voz" | "informacion";
+export type Classification = "subir_voz" | "mis_reportes" | "pedir_agua" | "alertas" | "informacion";
 
 // ============================================
 // Workflow Types
@@ -35,22 +45,59 @@ export interface WorkflowInput {
     input_as_text: string;
     /** URL o data URL de imagen (ej. foto del problema) para que el agente la reconozca */
     image_url?: string;
+    /** Varias fotos del mismo turno (rafaga de mensajes de WhatsApp); si viene, reemplaza a image_url */
+    image_urls?: string[];
+    /** Cuadros clave de videos: van al modelo de vision como fotos; el del medio queda como foto del reporte */
+    videos?: Array<{ frames: string[]; durationSeconds?: number }>;
+    /** Ubicacion compartida (locationMessage de WhatsApp); llena el borrador del reporte sin pasar por el modelo */
+    location?: ReportLocation;
+    /** Boton o fila de lista que eligio el usuario (id de un WorkflowAttachment "choices") */
+    choice?: { id: string; title: string };
     conversationId?: string;
     contactId?: number;
     metadata?: {
         whatsapp?: string;
-        channel?: 'whatsapp' | 'web' | 'api';
+        channel?: ChannelKind;
         [key: string]: unknown;
     };
 }
 
+export interface ReportLocation {
+    latitud?: number;
+    longitud?: number;
+    /** Direccion en texto (reverse geocode o nombre del lugar) */
+    direccion?: string;
+    /** "foto": salio del GPS (EXIF) de una foto y hay que confirmarla; sin valor = pin o direccion del usuario */
+    origen?: "pin" | "foto";
+    /** Cuando se tomo la foto (EXIF DateTimeOriginal), si origen es "foto" */
+    fotoTomadaEn?: string;
+}
+
 export interface WorkflowOutput {
     output_text?: string;
+    /** Mensajes enriquecidos que se mandan despues del texto, en orden; cada canal los adapta */
+    attachments?: WorkflowAttachment[];
     classification?: Classification;
     error?: string;
     toolsUsed?: string[];
 }
 
+export interface ChoiceOption {
+    /** Vuelve en WorkflowInput.choice cuando el usuario lo elige (ej. "tipo:fuga") */
+    id: string;
+    title: string;
+    description?: string;
+}
+
+/**
+ * Rich message requested by the workflow. Channels without buttons get the
+ * choices as a numbered text list; web/API clients receive them as-is.
+ */
+export type WorkflowAttachment =
+    | { type: "location"; latitud: number; longitud: number; nombre?: string; direccion?: string }
+    | { type: "image"; url: string; caption?: string }
+    | { type: "choices"; text: string; buttonLabel?: string; options: ChoiceOption[] };
+
 // ============================================
 // WaterHub / Map API Types
 // ============================================
@@ -91,6 +138,8 @@ export interface Pedido {
 
 export type TipoIncidente = 'fuga' | 'sin_agua' | 'contaminacion' | 'infraestructura' | 'otro';
 
+export type EstadoIncidente = 'pendiente' | 'reconocido' | 'en_progreso' | 'resuelto';
+
 export interface Incidente {
     id: string;
     ciudadano_id?: string;
@@ -101,12 +150,23 @@ export interface Incidente {
     colonia?: string;
     alcaldia?: string;
     descripcion?: string;
+    /** Foto guardada en el storage de media (la primera; la que pinta el mapa) */
+    photo_url?: string;
+    /** Todas las fotos del reporte, en el orden en que llegaron */
+    photo_urls?: string[];
+    /** Hash perceptual (dHash) de cada foto; sirve para detectar la misma foto en otro reporte */
+    photo_hashes?: string[];
+    /** Confianza (0-1) de la geocodificacion de la direccion escrita; 1 si el ciudadano eligio la opcion; ausente si hubo pin */
+    geocode_confianza?: number;
     hogares_afectados: number;
     duracion?: string;
-    estado: 'pendiente' | 'reconocido' | 'en_progreso' | 'resuelto';
+    estado: EstadoIncidente;
     creado_en: string;
     reconocido_en?: string;
+    en_progreso_en?: string;
     resuelto_en?: string;
+    /** Autoridad que hizo el ultimo cambio de estado */
+    estado_actualizado_por?: string;
 }
 
 export type TipoAlerta = 'escasez' | 'conservacion' | 'programa' | 'emergencia';
@@ -0,0 +1,87 @@
+// ============================================
+// WaterHub Video - key frames and soundtrack from video messages
+// ============================================
+// People film the flooded street instead of taking a photo. A few frames spread
+// over the clip go to the vision model like photos, and the soundtrack is
+// transcribed like a voice note. The file is written to a temp dir because MP4s
+// from phones are often not readable from a pipe (index at the end).
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pcmToWav, runFfmpegCommand } from "./audio.js";
+import { STT_MAX_SECONDS } from "./stt.js";
+
+// ============================================
+// Configuration
+// ============================================
+
+const VIDEO_MAX_FRAMES = Math.max(Number(process.env.VIDEO_MAX_FRAMES || 3), 1);
+// Lado mayor del cuadro: suficiente para reconocer el problema sin gastar tokens de vision
+const VIDEO_FRAME_MAX_SIDE = Number(process.env.VIDEO_FRAME_MAX_SIDE || 1024);
+
+export interface VideoContent {
+    /** JPEG data URLs, in time order */
+    frames: string[];
+    /** 16 kHz mono WAV of the soundtrack; null if the clip has no audio */
+    audioWav: Buffer | null;
+    durationSeconds: number | null;
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+/** "Duration: 00:01:02.50" from ffmpeg's input description; null if unknown. */
+export function parseFfmpegDuration(stderr: string): number | null {
+    const match = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(stderr);
+    if (!match) return null;
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/** Evenly spaced timestamps, away from the very start and end (often black or shaky). */
+export function frameTimestamps(durationSeconds: number | null, count = VIDEO_MAX_FRAMES): number[] {
+    if (!durationSeconds || durationSeconds <= 0) return [0];
+    return Array.from({ length: count }, (_, i) => Math.round(((i + 0.5) / count) * durationSeconds * 100) / 100);
+}
+
+/** Frames and soundtrack of a video; null if ffmpeg could not read it at all. */
+export async function extractVideoContent(buffer: ArrayBuffer | Buffer, maxFrames = VIDEO_MAX_FRAMES): Promise<VideoContent | null> {
+    const dir = await mkdtemp(join(tmpdir(), "waterhub-video-"));
+    const input = join(dir, "video");
+    try {
+        await writeFile(input, Buffer.from(buffer as ArrayBuffer));
+
+        // Sin salida ffmpeg termina con error, pero describe la entrada (duracion) en stderr
+        const probe = await runFfmpegCommand(["-i", input]);
+        if (!/Stream #.*Video:/.test(probe.stderr)) {
+            console.warn(`[Video] No video stream found (${probe.stderr.trim().split("\n").pop() ?? ""})`);
+            return null;
+        }
+        const durationSeconds = parseFfmpegDuration(probe.stderr);
+        const hasAudio = /Stream #.*Audio:/.test(probe.stderr);
+
+        const frames: string[] = [];
+        for (const at of frameTimestamps(durationSeconds, maxFrames)) {
+            const frame = await runFfmpegCommand([
+                "-ss", String(at), "-i", input,
+                "-frames:v", "1",
+                "-vf", `scale='min(${VIDEO_FRAME_MAX_SIDE},iw)':'min(${VIDEO_FRAME_MAX_SIDE},ih)':force_original_aspect_ratio=decrease`,
+                "-f", "image2", "-c:v", "mjpeg", "-q:v", "4", "pipe:1"
+            ]);
+            if (frame.ok && frame.stdout.length > 0) frames.push(`data:image/jpeg;base64,${frame.stdout.toString("base64")}`);
+        }
+
+        let audioWav: Buffer | null = null;
+        if (hasAudio) {
+            // Solo hasta el limite de STT: lo demas no se transcribiria
+            const pcm = await runFfmpegCommand(["-i", input, "-vn", "-t", String(STT_MAX_SECONDS), "-ac", "1", "-ar", "16000", "-f", "s16le", "pipe:1"]);
+            if (pcm.ok && pcm.stdout.length > 0) audioWav = pcmToWav(pcm.stdout);
+        }
+
+        console.log(`[Video] duration=${durationSeconds ?? "?"}s, frames=${frames.length}, audio=${!!audioWav}`);
+        return { frames, audioWav, durationSeconds };
+    } finally {
+        await rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+}
@@ -0,0 +1,112 @@
+// ============================================
+// WaterHub WhatsApp (Evolution API) - outbound messages
+// ============================================
+
+export const EVOLUTION_API_URL = process.env.EVOLUTION_API_URL || "https://evolution.whoopflow.com";
+const EVOLUTION_API_KEY = process.env.EVOLUTION_API_KEY || "";
+
+/** Instance used for messages not triggered by an inbound webhook (alerts, notifications). */
+export const EVOLUTION_INSTANCE = process.env.EVOLUTION_INSTANCE || "";
+
+function toNumber(remoteJid: string): string {
+    return remoteJid.replace("@s.whatsapp.net", "");
+}
+
+async function postEvolution(path: string, instance: string, body: Record<string, unknown>, what: string): Promise<boolean> {
+    try {
+        const response = await fetch(`${EVOLUTION_API_URL}/message/${path}/${instance}`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "apikey": EVOLUTION_API_KEY
+            },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(30000)
+        });
+
+        if (!response.ok) {
+            console.error(`[Evolution] Failed to send ${what}: ${response.status}`);
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.error(`[Evolution] Error sending ${what}:`, error);
+        return false;
+    }
+}
+
+/** Sends a text message; returns false (and logs) if Evolution rejected it or was unreachable. */
+export async function sendWhatsAppMessage(instance: string, to: string, text: string): Promise<boolean> {
+    return postEvolution("sendText", instance, { number: toNumber(to), text }, "message");
+}
+
+/** Sends an image by URL (http(s) or data URL) with an optional caption. */
+export async function sendWhatsAppImage(instance: string, to: string, imageUrl: string, caption?: string): Promise<boolean> {
+    const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(imageUrl);
+    return postEvolution("sendMedia", instance, {
+        number: toNumber(to),
+        mediatype: "image",
+        mimetype: dataUrl?.[1] ?? "image/jpeg",
+        media: dataUrl ? dataUrl[2] : imageUrl,
+        caption: caption ?? ""
+    }, "image");
+}
+
+/** Sends a location pin. */
+export async function sendWhatsAppLocation(
+    instance: string,
+    to: string,
+    location: { latitude: number; longitude: number; name?: string; address?: string }
+): Promise<boolean> {
+    return postEvolution("sendLocation", instance, {
+        number: toNumber(to),
+        latitude: location.latitude,
+        longitude: location.longitude,
+        name: location.name ?? "",
+        address: location.address ?? ""
+    }, "location");
+}
+
+/** Sends up to 3 reply buttons (ids come back in buttonsResponseMessage). */
+export async function sendWhatsAppButtons(
+    instance: string,
+    to: string,
+    text: string,
+    buttons: Array<{ id: string; title: string }>
+): Promise<boolean> {
+    return postEvolution("sendButtons", instance, {
+        number: toNumber(to),
+        title: "",
+        description: text,
+        footer: "",
+        buttons: buttons.map((b) => ({ type: "reply", displayText: b.title, id: b.id }))
+    }, "buttons");
+}
+
+/** Sends a single-section list (row ids come back in listResponseMessage). */
+export async function sendWhatsAppList(
+    instance: string,
+    to: string,
+    text: string,
+    buttonText: string,
+    rows: Array<{ id: string; title: string; description?: string }>
+): Promise<boolean> {
+    return postEvolution("sendList", instance, {
+        number: toNumber(to),
+        title: "",
+        description: text,
+        buttonText,
+        footerText: "",
+        sections: [{ title: buttonText, rows: rows.map((r) => ({ rowId: r.id, title: r.title, description: r.description ?? "" })) }]
+    }, "list");
+}
+
+/** Sends audio as a voice note (Evolution re-encodes it for WhatsApp). */
+export async function sendWhatsAppVoiceNote(instance: string, to: string, audioUrl: string): Promise<boolean> {
+    const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(audioUrl);
+    return postEvolution("sendWhatsAppAudio", instance, {
+        number: toNumber(to),
+        audio: dataUrl ? dataUrl[2] : audioUrl,
+        encoding: true
+    }, "voice note");
+}